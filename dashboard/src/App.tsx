@@ -7,9 +7,11 @@ import { RegisterPage } from '@/pages/RegisterPage';
 import { DashboardPage } from '@/pages/DashboardPage';
 import { SessionsPage } from '@/pages/SessionsPage';
 import { SessionDetailPage } from '@/pages/SessionDetailPage';
+import { BalancesPage } from '@/pages/BalancesPage';
 import { SettingsPage } from '@/pages/SettingsPage';
 import { IntegrationPage } from '@/pages/IntegrationPage';
 import { WebhooksPage } from '@/pages/WebhooksPage';
+import { ApiKeysPage } from '@/pages/ApiKeysPage';
 
 function App() {
   return (
@@ -29,7 +31,9 @@ function App() {
           <Route index element={<DashboardPage />} />
           <Route path="sessions" element={<SessionsPage />} />
           <Route path="sessions/:id" element={<SessionDetailPage />} />
+          <Route path="balances" element={<BalancesPage />} />
           <Route path="webhooks" element={<WebhooksPage />} />
+          <Route path="api-keys" element={<ApiKeysPage />} />
           <Route path="settings" element={<SettingsPage />} />
           <Route path="integration" element={<IntegrationPage />} />
         </Route>
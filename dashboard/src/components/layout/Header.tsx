@@ -14,6 +14,7 @@ const ROUTE_TITLES: Record<string, string> = {
   '/settings': 'Settings',
   '/integration': 'Integration',
   '/webhooks': 'Notifications',
+  '/api-keys': 'API Keys',
 };
 
 function getPageTitle(pathname: string): string {
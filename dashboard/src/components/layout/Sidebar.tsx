@@ -2,10 +2,12 @@ import { NavLink } from 'react-router-dom';
 import {
   LayoutDashboard,
   CreditCard,
+  Wallet,
   Settings,
   Code,
   X,
   Webhook,
+  KeyRound,
   LogOut,
   User,
 } from 'lucide-react';
@@ -24,6 +26,7 @@ const navGroups = [
     items: [
       { to: '/', icon: LayoutDashboard, label: 'Dashboard' },
       { to: '/sessions', icon: CreditCard, label: 'Sessions' },
+      { to: '/balances', icon: Wallet, label: 'Balances' },
     ],
   },
   {
@@ -32,6 +35,7 @@ const navGroups = [
       { to: '/settings', icon: Settings, label: 'Settings' },
       { to: '/integration', icon: Code, label: 'Integration' },
       { to: '/webhooks', icon: Webhook, label: 'Webhooks' },
+      { to: '/api-keys', icon: KeyRound, label: 'API Keys' },
     ],
   },
 ];
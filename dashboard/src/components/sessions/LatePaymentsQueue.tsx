@@ -0,0 +1,64 @@
+import { Link } from 'react-router-dom';
+import { AlertCircle } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { useSessions, useResolveLatePayment } from '@/hooks/useSessions';
+import { formatKas, formatDateTime } from '@/lib/utils';
+
+/**
+ * Expired payments that received funds anyway, waiting for the merchant to
+ * accept or refund them. Renders nothing while the queue is empty.
+ */
+export function LatePaymentsQueue() {
+  const { data } = useSessions({ latePayment: 'pending', limit: 10 });
+  const resolve = useResolveLatePayment();
+
+  const sessions = data?.sessions ?? [];
+  if (sessions.length === 0) return null;
+
+  return (
+    <div className="bg-zn-surface/70 backdrop-blur-xl border border-zn-warning/40 rounded-2xl overflow-hidden">
+      <div className="flex items-center gap-3 p-6 border-b border-zn-border">
+        <div className="w-9 h-9 bg-zn-warning/20 rounded-lg flex items-center justify-center">
+          <AlertCircle className="h-[18px] w-[18px] text-zn-warning" />
+        </div>
+        <div>
+          <h2 className="text-sm font-semibold text-zn-text">Late Payments ({data?.total ?? sessions.length})</h2>
+          <p className="text-sm text-zn-secondary">Paid after the session expired or was cancelled. Accept to complete the order or refund the customer.</p>
+        </div>
+      </div>
+      {sessions.map((session) => (
+        <div
+          key={session.id}
+          className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 py-3 px-6 border-b border-zn-border last:border-0"
+        >
+          <div>
+            <Link to={`/sessions/${session.id}`} className="text-sm font-mono text-zn-link hover:underline">
+              {session.orderId || session.id.slice(0, 8)}
+            </Link>
+            <p className="text-xs text-zn-muted mt-0.5">
+              {formatKas(session.amountReceived ?? '0')} of {formatKas(session.amount)}
+              {session.latePaymentAt && ` · ${formatDateTime(session.latePaymentAt)}`}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              onClick={() => resolve.mutate({ id: session.id, action: 'accept' })}
+              disabled={resolve.isPending}
+            >
+              Accept
+            </Button>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => resolve.mutate({ id: session.id, action: 'refund' })}
+              disabled={resolve.isPending}
+            >
+              Refund
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import { ExternalLink, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Skeleton } from '@/components/ui/Skeleton';
+import { useRefunds, useCreateRefund } from '@/hooks/useSessions';
+import { formatKas, formatDateTime, truncateAddress, cn } from '@/lib/utils';
+import type { Refund } from '@/types';
+
+interface RefundsPanelProps {
+  sessionId: string;
+  canRefund: boolean;
+}
+
+export function RefundsPanel({ sessionId, canRefund }: RefundsPanelProps) {
+  const { data, isLoading } = useRefunds(sessionId);
+  const createRefund = useCreateRefund(sessionId);
+
+  const [isCreating, setIsCreating] = useState(false);
+  const [amount, setAmount] = useState('');
+  const [address, setAddress] = useState('');
+  const [reason, setReason] = useState('');
+
+  const refunds = data?.refunds ?? [];
+  const hasRefundable = !!data && data.refundableSompi !== '0';
+
+  const handleSubmit = async () => {
+    await createRefund.mutateAsync({ amount, address, reason: reason || undefined });
+    setIsCreating(false);
+    setAmount('');
+    setAddress('');
+    setReason('');
+  };
+
+  if (!canRefund && refunds.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-zn-surface/70 backdrop-blur-xl border border-zn-border rounded-2xl">
+      <div className="flex items-center justify-between gap-4 p-6 border-b border-zn-border">
+        <div>
+          <h2 className="text-lg font-semibold text-zn-text">Refunds</h2>
+          {data && (
+            <p className="text-sm text-zn-secondary">{formatKas(data.refundable)} refundable</p>
+          )}
+        </div>
+        {canRefund && hasRefundable && !isCreating && (
+          <Button variant="secondary" onClick={() => setIsCreating(true)} className="gap-2">
+            <RotateCcw className="h-4 w-4" /> Record Refund
+          </Button>
+        )}
+      </div>
+
+      {isCreating && (
+        <div className="p-6 space-y-5 border-b border-zn-border">
+          <p className="text-sm text-zn-secondary">
+            Send the refund from your own wallet. It is marked completed once the transaction appears on the network.
+          </p>
+          <div>
+            <label className="block text-sm font-medium text-zn-text mb-1.5">Amount (KAS)</label>
+            <Input value={amount} onChange={(e) => setAmount(e.target.value)} placeholder={data?.refundable} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-zn-text mb-1.5">Customer Address</label>
+            <Input value={address} onChange={(e) => setAddress(e.target.value)} placeholder="kaspa:..." />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-zn-text mb-1.5">Reason</label>
+            <Input value={reason} onChange={(e) => setReason(e.target.value)} placeholder="Optional" />
+          </div>
+          <div className="flex gap-3 pt-2">
+            <Button onClick={handleSubmit} isLoading={createRefund.isPending} disabled={!amount || !address}>
+              Record Refund
+            </Button>
+            <Button variant="secondary" onClick={() => setIsCreating(false)}>Cancel</Button>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="p-6"><Skeleton className="h-16 w-full" /></div>
+      ) : refunds.length === 0 ? (
+        <p className="p-6 text-sm text-zn-secondary">No refunds recorded</p>
+      ) : (
+        <div>
+          {refunds.map((refund) => (
+            <RefundRow key={refund.id} refund={refund} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function RefundRow({ refund }: { refund: Refund }) {
+  const isCompleted = refund.status === 'completed';
+
+  return (
+    <div className="flex justify-between items-start gap-4 py-3 px-5 border-b border-zn-border last:border-0">
+      <div className="min-w-0">
+        <p className="font-medium text-zn-text">{formatKas(refund.amount)}</p>
+        <p className="text-xs text-zn-secondary font-mono mt-0.5">{truncateAddress(refund.address, 8)}</p>
+        {refund.reason && <p className="text-xs text-zn-muted mt-0.5">{refund.reason}</p>}
+      </div>
+      <div className="text-right shrink-0">
+        <span
+          className={cn(
+            'inline-flex items-center px-2.5 py-1 rounded-full text-[11px] font-medium uppercase tracking-wider',
+            isCompleted ? 'bg-zn-success/10 text-zn-success' : 'bg-zn-gold/10 text-zn-gold'
+          )}
+        >
+          {refund.status}
+        </span>
+        <p className="text-xs text-zn-muted mt-1">
+          {formatDateTime(refund.completedAt ?? refund.createdAt)}
+        </p>
+        {refund.txId && (
+          <a
+            href={`https://explorer.kaspa.org/txs/${refund.txId}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center gap-1 text-xs text-zn-link mt-1"
+          >
+            View <ExternalLink className="h-3 w-3" />
+          </a>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+import { AlertCircle, CheckCircle, Clock, Layers, RotateCcw, Wallet, XCircle } from 'lucide-react';
+import { Skeleton } from '@/components/ui/Skeleton';
+import { useSessionEvents } from '@/hooks/useSessions';
+import { formatDateTime, formatFailureReason, truncateAddress, cn } from '@/lib/utils';
+import type { Session, SessionEvent, SessionEventType } from '@/types';
+
+type TimelineStatus = 'complete' | 'pending' | 'success' | 'error';
+
+const EVENT_DISPLAY: Record<SessionEventType, {
+  icon: React.ComponentType<{ className?: string }>;
+  label: string;
+  status: TimelineStatus;
+}> = {
+  created: { icon: Clock, label: 'Created', status: 'complete' },
+  payment_received: { icon: Wallet, label: 'Payment Received', status: 'complete' },
+  underpaid: { icon: AlertCircle, label: 'Underpaid', status: 'pending' },
+  confirmation: { icon: Layers, label: 'Confirming', status: 'pending' },
+  confirmed: { icon: CheckCircle, label: 'Confirmed', status: 'success' },
+  expired: { icon: AlertCircle, label: 'Expired', status: 'error' },
+  cancelled: { icon: XCircle, label: 'Cancelled', status: 'error' },
+  failed: { icon: AlertCircle, label: 'Failed', status: 'error' },
+  late_payment: { icon: Wallet, label: 'Late Payment Received', status: 'pending' },
+  late_payment_refund: { icon: RotateCcw, label: 'Marked for Refund', status: 'complete' },
+};
+
+const ACTOR_LABELS: Record<SessionEvent['actor'], string> = {
+  system: 'KasGate',
+  merchant: 'Merchant',
+  customer: 'Customer',
+};
+
+interface SessionTimelineProps {
+  session: Session;
+}
+
+export function SessionTimeline({ session }: SessionTimelineProps) {
+  const { data, isLoading } = useSessionEvents(session.id);
+  const events = data?.events ?? [];
+
+  return (
+    <div className="bg-zn-surface/70 backdrop-blur-xl border border-zn-border rounded-2xl">
+      <div className="p-6 border-b border-zn-border">
+        <h2 className="text-lg font-semibold text-zn-text">Timeline</h2>
+      </div>
+      <div className="p-5 space-y-1">
+        {isLoading ? (
+          <Skeleton className="h-40 w-full" />
+        ) : events.length > 0 ? (
+          <>
+            {events.map((event) => (
+              <EventItem key={event.id} event={event} />
+            ))}
+            {session.status === 'pending' && (
+              <TimelineItem icon={Clock} label="Awaiting Payment" time={`Expires ${formatDateTime(session.expiresAt)}`} status="pending" />
+            )}
+          </>
+        ) : (
+          <LegacyTimeline session={session} />
+        )}
+      </div>
+    </div>
+  );
+}
+
+function EventItem({ event }: { event: SessionEvent }) {
+  const display = EVENT_DISPLAY[event.type] ?? EVENT_DISPLAY.created;
+  const required = event.data?.required;
+
+  const label = event.type === 'confirmed' && event.toStatus === 'overpaid'
+    ? 'Confirmed (Overpaid)'
+    : event.type === 'confirmation'
+      ? `${event.confirmations}${required ? ` of ${required}` : ''} Confirmations`
+      : display.label;
+
+  const details = [
+    formatDateTime(event.createdAt),
+    event.actor !== 'system' ? `by ${ACTOR_LABELS[event.actor]}` : null,
+    event.txId && event.type !== 'confirmation' ? `tx ${truncateAddress(event.txId)}` : null,
+  ].filter(Boolean).join(' · ');
+
+  const reason = event.type === 'failed' && event.reason ? formatFailureReason(event.reason) : event.reason;
+
+  return (
+    <TimelineItem icon={display.icon} label={label} time={details} reason={reason} status={display.status} />
+  );
+}
+
+/**
+ * Sessions created before status history was recorded
+ */
+function LegacyTimeline({ session }: { session: Session }) {
+  return (
+    <>
+      <TimelineItem icon={Clock} label="Created" time={formatDateTime(session.createdAt)} status="complete" />
+      <TimelineItem icon={Clock} label="Expires" time={formatDateTime(session.expiresAt)} status={session.status === 'pending' ? 'pending' : 'complete'} />
+      {session.status === 'pending' && (
+        <TimelineItem icon={Clock} label="Awaiting Payment" time="Waiting for customer..." status="pending" />
+      )}
+      {session.status === 'confirming' && (
+        <TimelineItem icon={Clock} label="Confirming" time="Being confirmed on Kaspa network..." status="pending" />
+      )}
+      {session.confirmedAt && (
+        <TimelineItem icon={CheckCircle} label="Confirmed" time={formatDateTime(session.confirmedAt)} status="success" />
+      )}
+      {session.status === 'expired' && (
+        <TimelineItem icon={AlertCircle} label="Expired" time="No payment received in time" status="error" />
+      )}
+      {session.status === 'cancelled' && (
+        <TimelineItem
+          icon={XCircle}
+          label="Cancelled"
+          time={session.cancelledAt ? formatDateTime(session.cancelledAt) : 'Cancelled before payment'}
+          status="error"
+        />
+      )}
+      {session.status === 'failed' && (
+        <TimelineItem
+          icon={AlertCircle}
+          label="Failed"
+          time={session.failureReason ? formatFailureReason(session.failureReason) : 'Payment could not be completed'}
+          status="error"
+        />
+      )}
+    </>
+  );
+}
+
+function TimelineItem({
+  icon: Icon,
+  label,
+  time,
+  reason,
+  status,
+}: {
+  icon: React.ComponentType<{ className?: string }>;
+  label: string;
+  time: string;
+  reason?: string;
+  status: TimelineStatus;
+}) {
+  const statusStyles = {
+    complete: 'bg-zn-success/20 text-zn-success',
+    pending: 'bg-zn-warning/20 text-zn-warning',
+    success: 'bg-zn-success/20 text-zn-success',
+    error: 'bg-zn-error/20 text-zn-error',
+  };
+
+  return (
+    <div className="flex items-start gap-4 py-3">
+      <div className={cn('w-8 h-8 rounded-full flex items-center justify-center', statusStyles[status])}>
+        <Icon className="h-4 w-4" />
+      </div>
+      <div className="flex-1">
+        <p className="text-sm font-medium text-zn-text">{label}</p>
+        <p className="text-xs text-zn-secondary mt-0.5">{time}</p>
+        {reason && <p className="text-xs text-zn-muted mt-0.5">{reason}</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import { useState } from 'react';
+import { Layers, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Skeleton } from '@/components/ui/Skeleton';
+import { useMerchantSettings, useUpdateMerchantSettings } from '@/hooks/useMerchant';
+import { formatKas } from '@/lib/utils';
+
+interface TierDraft {
+  below: string;
+  confirmations: string;
+}
+
+const DEFAULT_TIERS: TierDraft[] = [
+  { below: '10', confirmations: '1' },
+  { below: '1000', confirmations: '10' },
+];
+
+interface ConfirmationPolicyCardProps {
+  defaultConfirmations: number;
+}
+
+export function ConfirmationPolicyCard({ defaultConfirmations }: ConfirmationPolicyCardProps) {
+  const { data: settings, isLoading } = useMerchantSettings();
+  const updateSettings = useUpdateMerchantSettings();
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [tiers, setTiers] = useState<TierDraft[]>([]);
+  const [otherwise, setOtherwise] = useState('');
+
+  const policy = settings?.confirmationPolicy;
+
+  const handleStartEdit = () => {
+    setTiers(
+      policy
+        ? policy.tiers.map((t) => ({ below: t.below, confirmations: String(t.confirmations) }))
+        : DEFAULT_TIERS
+    );
+    setOtherwise(String(policy?.otherwise ?? 60));
+    setIsEditing(true);
+  };
+
+  const updateTier = (index: number, field: keyof TierDraft, value: string) => {
+    setTiers(tiers.map((t, i) => (i === index ? { ...t, [field]: value } : t)));
+  };
+
+  const handleSave = async () => {
+    await updateSettings.mutateAsync({
+      confirmationPolicy: {
+        tiers: tiers.map((t) => ({ below: t.below, confirmations: parseInt(t.confirmations, 10) })),
+        otherwise: parseInt(otherwise, 10),
+      },
+    });
+    setIsEditing(false);
+  };
+
+  const handleRemove = async () => {
+    await updateSettings.mutateAsync({ confirmationPolicy: null });
+    setIsEditing(false);
+  };
+
+  return (
+    <div className="bg-zn-surface/70 backdrop-blur-xl border border-zn-border rounded-2xl">
+      <div className="flex items-center gap-3 p-6 border-b border-zn-border-strong">
+        <div className="w-9 h-9 bg-zn-alt rounded-lg flex items-center justify-center">
+          <Layers className="h-[18px] w-[18px] text-zn-secondary" />
+        </div>
+        <div>
+          <h2 className="text-lg font-semibold text-zn-text">Confirmation Policy</h2>
+          <p className="text-sm text-zn-secondary">Wait for more confirmations on larger payments</p>
+        </div>
+      </div>
+      <div className="p-6 space-y-5">
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : isEditing ? (
+          <>
+            {tiers.map((tier, index) => (
+              <div key={index} className="flex items-end gap-3">
+                <div className="flex-1">
+                  <label className="block text-sm font-medium text-zn-text mb-1.5">Below (KAS)</label>
+                  <Input value={tier.below} onChange={(e) => updateTier(index, 'below', e.target.value)} />
+                </div>
+                <div className="flex-1">
+                  <label className="block text-sm font-medium text-zn-text mb-1.5">Confirmations</label>
+                  <Input
+                    type="number"
+                    min="1"
+                    max="1000"
+                    value={tier.confirmations}
+                    onChange={(e) => updateTier(index, 'confirmations', e.target.value)}
+                  />
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setTiers(tiers.filter((_, i) => i !== index))}
+                  aria-label="Remove tier"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => setTiers([...tiers, { below: '', confirmations: '' }])}
+              disabled={tiers.length >= 10}
+              className="gap-2"
+            >
+              <Plus className="h-4 w-4" /> Add Tier
+            </Button>
+            <div>
+              <label className="block text-sm font-medium text-zn-text mb-1.5">Otherwise (confirmations)</label>
+              <Input type="number" min="1" max="1000" value={otherwise} onChange={(e) => setOtherwise(e.target.value)} />
+              <p className="text-xs text-zn-muted mt-1.5">Tiers are checked in order of amount; the first one a payment is below applies</p>
+            </div>
+            <div className="flex gap-3 pt-2">
+              <Button onClick={handleSave} isLoading={updateSettings.isPending}>Save Policy</Button>
+              {policy && (
+                <Button variant="danger" onClick={handleRemove} disabled={updateSettings.isPending}>Remove Policy</Button>
+              )}
+              <Button variant="secondary" onClick={() => setIsEditing(false)}>Cancel</Button>
+            </div>
+          </>
+        ) : (
+          <>
+            {policy ? (
+              <div>
+                {policy.tiers.map((tier) => (
+                  <SettingRow key={tier.below} label={`Below ${formatKas(tier.below)}`} value={`${tier.confirmations} confirmations`} />
+                ))}
+                <SettingRow label="Otherwise" value={`${policy.otherwise} confirmations`} />
+              </div>
+            ) : (
+              <p className="text-sm text-zn-secondary">
+                No policy set. Every payment waits for {defaultConfirmations} confirmations unless the session asks for a
+                different number.
+              </p>
+            )}
+            <div className="pt-2">
+              <Button variant="secondary" onClick={handleStartEdit}>{policy ? 'Edit Policy' : 'Add Policy'}</Button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function SettingRow({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex justify-between items-center py-3 border-b border-zn-border last:border-0">
+      <span className="text-sm text-zn-secondary">{label}</span>
+      <span className="text-sm text-zn-text font-medium">{value}</span>
+    </div>
+  );
+}
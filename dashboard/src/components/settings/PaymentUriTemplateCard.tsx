@@ -0,0 +1,97 @@
+import { useState } from 'react';
+import { Link2 } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Skeleton } from '@/components/ui/Skeleton';
+import { useMerchantSettings, useUpdateMerchantSettings } from '@/hooks/useMerchant';
+
+const MAX_TEMPLATE_LENGTH = 100;
+
+export function PaymentUriTemplateCard() {
+  const { data: settings, isLoading } = useMerchantSettings();
+  const updateSettings = useUpdateMerchantSettings();
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [label, setLabel] = useState('');
+  const [message, setMessage] = useState('');
+
+  const handleStartEdit = () => {
+    setLabel(settings?.paymentLabelTemplate ?? '');
+    setMessage(settings?.paymentMessageTemplate ?? '');
+    setIsEditing(true);
+  };
+
+  const handleSave = async () => {
+    await updateSettings.mutateAsync({
+      paymentLabelTemplate: label.trim() || null,
+      paymentMessageTemplate: message.trim() || null,
+    });
+    setIsEditing(false);
+  };
+
+  return (
+    <div className="bg-zn-surface/70 backdrop-blur-xl border border-zn-border rounded-2xl">
+      <div className="flex items-center gap-3 p-6 border-b border-zn-border-strong">
+        <div className="w-9 h-9 bg-zn-alt rounded-lg flex items-center justify-center">
+          <Link2 className="h-[18px] w-[18px] text-zn-secondary" />
+        </div>
+        <div>
+          <h2 className="text-lg font-semibold text-zn-text">Payment Link</h2>
+          <p className="text-sm text-zn-secondary">Label and message wallets show when scanning the QR code</p>
+        </div>
+      </div>
+      <div className="p-6 space-y-5">
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : isEditing ? (
+          <>
+            <div>
+              <label className="block text-sm font-medium text-zn-text mb-1.5">Label</label>
+              <Input
+                value={label}
+                maxLength={MAX_TEMPLATE_LENGTH}
+                placeholder="{merchantName}"
+                onChange={(e) => setLabel(e.target.value)}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-zn-text mb-1.5">Message</label>
+              <Input
+                value={message}
+                maxLength={MAX_TEMPLATE_LENGTH}
+                placeholder="Order {orderId}"
+                onChange={(e) => setMessage(e.target.value)}
+              />
+              <p className="text-xs text-zn-muted mt-1.5">
+                Placeholders: {'{merchantName}'}, {'{orderId}'}, {'{sessionId}'}, {'{amount}'}. Leave empty to omit.
+              </p>
+            </div>
+            <div className="flex gap-3 pt-2">
+              <Button onClick={handleSave} isLoading={updateSettings.isPending}>Save Templates</Button>
+              <Button variant="secondary" onClick={() => setIsEditing(false)}>Cancel</Button>
+            </div>
+          </>
+        ) : (
+          <>
+            <div>
+              <SettingRow label="Label" value={settings?.paymentLabelTemplate ?? 'Not set'} />
+              <SettingRow label="Message" value={settings?.paymentMessageTemplate ?? 'Not set'} />
+            </div>
+            <div className="pt-2">
+              <Button variant="secondary" onClick={handleStartEdit}>Edit Templates</Button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function SettingRow({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex justify-between items-center py-3 border-b border-zn-border last:border-0">
+      <span className="text-sm text-zn-secondary">{label}</span>
+      <span className="text-sm text-zn-text font-medium">{value}</span>
+    </div>
+  );
+}
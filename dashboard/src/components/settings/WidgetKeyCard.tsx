@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import { Copy, Globe, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Skeleton } from '@/components/ui/Skeleton';
+import { ConfirmDialog } from '@/components/ui/ConfirmDialog';
+import {
+  useMerchant,
+  useMerchantSettings,
+  useUpdateMerchantSettings,
+  useRegeneratePublishableKey,
+} from '@/hooks/useMerchant';
+import { copyToClipboard } from '@/lib/utils';
+import { toast } from '@/components/ui/Toast';
+
+export function WidgetKeyCard() {
+  const { data: merchant } = useMerchant();
+  const { data: settings, isLoading } = useMerchantSettings();
+  const updateSettings = useUpdateMerchantSettings();
+  const regenerateKey = useRegeneratePublishableKey();
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [showConfirm, setShowConfirm] = useState(false);
+  const [minAmount, setMinAmount] = useState('');
+  const [maxAmount, setMaxAmount] = useState('');
+  const [origins, setOrigins] = useState('');
+
+  const limits = settings?.publishableKeyLimits;
+
+  const handleStartEdit = () => {
+    setMinAmount(limits?.minAmount ?? '');
+    setMaxAmount(limits?.maxAmount ?? '');
+    setOrigins(limits?.allowedOrigins.join('\n') ?? '');
+    setIsEditing(true);
+  };
+
+  const handleSave = async () => {
+    const allowedOrigins = origins.split('\n').map((o) => o.trim()).filter(Boolean);
+    const hasLimits = minAmount.trim() || maxAmount.trim() || allowedOrigins.length > 0;
+
+    await updateSettings.mutateAsync({
+      publishableKeyLimits: hasLimits
+        ? { minAmount: minAmount.trim() || null, maxAmount: maxAmount.trim() || null, allowedOrigins }
+        : null,
+    });
+    setIsEditing(false);
+  };
+
+  const handleRegenerate = async () => {
+    await regenerateKey.mutateAsync();
+    setShowConfirm(false);
+  };
+
+  const handleCopy = async () => {
+    if (!merchant?.publishableKey) return;
+    await copyToClipboard(merchant.publishableKey);
+    toast('success', 'Widget key copied to clipboard');
+  };
+
+  return (
+    <div className="bg-zn-surface/70 backdrop-blur-xl border border-zn-border rounded-2xl">
+      <div className="flex items-center gap-3 p-6 border-b border-zn-border-strong">
+        <div className="w-9 h-9 bg-zn-alt rounded-lg flex items-center justify-center">
+          <Globe className="h-[18px] w-[18px] text-zn-secondary" />
+        </div>
+        <div>
+          <h2 className="text-lg font-semibold text-zn-text">Widget Key</h2>
+          <p className="text-sm text-zn-secondary">Publishable key for the payment widget, safe to put in web pages</p>
+        </div>
+      </div>
+      <div className="p-6 space-y-5">
+        <div className="flex items-center gap-2">
+          <div className="flex-1 bg-zn-alt rounded-md px-4 py-3 font-mono text-sm text-zn-secondary border border-zn-border overflow-x-auto">
+            {merchant?.publishableKey ?? 'Not available'}
+          </div>
+          <Button variant="secondary" size="sm" onClick={handleCopy} disabled={!merchant?.publishableKey}>
+            <Copy className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : isEditing ? (
+          <>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-zn-text mb-1.5">Minimum Amount (KAS)</label>
+                <Input value={minAmount} placeholder="No minimum" onChange={(e) => setMinAmount(e.target.value)} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-zn-text mb-1.5">Maximum Amount (KAS)</label>
+                <Input value={maxAmount} placeholder="No maximum" onChange={(e) => setMaxAmount(e.target.value)} />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-zn-text mb-1.5">Allowed Origins</label>
+              <textarea
+                value={origins}
+                rows={3}
+                placeholder="https://mystore.com"
+                onChange={(e) => setOrigins(e.target.value)}
+                className="w-full bg-zn-surface rounded-md px-4 py-2.5 text-sm font-mono text-zn-text border border-zn-border"
+              />
+              <p className="text-xs text-zn-muted mt-1.5">
+                One per line. Sessions from other sites, or redirecting to them, are refused. Leave empty to allow any.
+              </p>
+            </div>
+            <div className="flex gap-3 pt-2">
+              <Button onClick={handleSave} isLoading={updateSettings.isPending}>Save Limits</Button>
+              <Button variant="secondary" onClick={() => setIsEditing(false)}>Cancel</Button>
+            </div>
+          </>
+        ) : (
+          <>
+            <div>
+              <SettingRow label="Minimum Amount" value={limits?.minAmount ? `${limits.minAmount} KAS` : 'No minimum'} />
+              <SettingRow label="Maximum Amount" value={limits?.maxAmount ? `${limits.maxAmount} KAS` : 'No maximum'} />
+              <SettingRow
+                label="Allowed Origins"
+                value={limits?.allowedOrigins.length ? limits.allowedOrigins.join(', ') : 'Any'}
+              />
+            </div>
+            <div className="flex gap-3 pt-2">
+              <Button variant="secondary" onClick={handleStartEdit}>Edit Limits</Button>
+              <Button variant="secondary" onClick={() => setShowConfirm(true)} isLoading={regenerateKey.isPending} className="gap-2">
+                <RefreshCw className="h-4 w-4" /> Regenerate Widget Key
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+
+      <ConfirmDialog
+        open={showConfirm}
+        onConfirm={handleRegenerate}
+        onCancel={() => setShowConfirm(false)}
+        title="Regenerate Widget Key?"
+        description="Widgets using the current key will stop working until you update their api-key attribute."
+        confirmLabel="Regenerate"
+        variant="danger"
+        isLoading={regenerateKey.isPending}
+      />
+    </div>
+  );
+}
+
+function SettingRow({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex justify-between items-center py-3 border-b border-zn-border last:border-0">
+      <span className="text-sm text-zn-secondary">{label}</span>
+      <span className="text-sm text-zn-text font-medium">{value}</span>
+    </div>
+  );
+}
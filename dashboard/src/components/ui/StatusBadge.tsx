@@ -8,9 +8,12 @@ interface StatusBadgeProps {
 
 const statusConfig: Record<SessionStatus, { bg: string; text: string }> = {
   pending: { bg: 'bg-zn-gold/10', text: 'text-zn-gold' },
+  underpaid: { bg: 'bg-zn-warning/10', text: 'text-zn-warning' },
   confirming: { bg: 'bg-zn-link/10', text: 'text-zn-link' },
   confirmed: { bg: 'bg-zn-success/10', text: 'text-zn-success' },
+  overpaid: { bg: 'bg-zn-success/10', text: 'text-zn-success' },
   expired: { bg: 'bg-zn-error/10', text: 'text-zn-error' },
+  cancelled: { bg: 'bg-zn-alt', text: 'text-zn-secondary' },
   failed: { bg: 'bg-zn-error/10', text: 'text-zn-error' },
 };
 
@@ -0,0 +1,57 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/lib/api';
+import type { ApiKeysResponse, CreateApiKeyRequest } from '@/types';
+import { toast } from '@/components/ui/Toast';
+
+export function useApiKeys() {
+  return useQuery<ApiKeysResponse>({
+    queryKey: ['api-keys'],
+    queryFn: () => api.getApiKeys(),
+  });
+}
+
+export function useCreateApiKey() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateApiKeyRequest) => api.createApiKey(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['api-keys'] });
+      toast('success', 'API key created. Save it now - it won\'t be shown again!');
+    },
+    onError: (error) => {
+      toast('error', error instanceof Error ? error.message : 'Failed to create API key');
+    },
+  });
+}
+
+export function useRotateApiKey() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ keyId, gracePeriodSeconds }: { keyId: string; gracePeriodSeconds: number }) =>
+      api.rotateApiKey(keyId, gracePeriodSeconds),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['api-keys'] });
+      toast('success', data.message);
+    },
+    onError: (error) => {
+      toast('error', error instanceof Error ? error.message : 'Failed to rotate API key');
+    },
+  });
+}
+
+export function useRevokeApiKey() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (keyId: string) => api.revokeApiKey(keyId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['api-keys'] });
+      toast('success', 'API key revoked');
+    },
+    onError: (error) => {
+      toast('error', error instanceof Error ? error.message : 'Failed to revoke API key');
+    },
+  });
+}
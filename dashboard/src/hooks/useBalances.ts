@@ -0,0 +1,27 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/lib/api';
+import type { BalancesResponse } from '@/types';
+import { toast } from '@/components/ui/Toast';
+
+export function useBalances() {
+  return useQuery<BalancesResponse>({
+    queryKey: ['balances'],
+    queryFn: () => api.getBalances(),
+    staleTime: 5 * 60 * 1000, // Balances are cached server-side for 5 minutes
+  });
+}
+
+export function useRefreshBalances() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => api.getBalances(true),
+    onSuccess: (data) => {
+      queryClient.setQueryData(['balances'], data);
+      toast('success', 'Balances refreshed');
+    },
+    onError: (error) => {
+      toast('error', error instanceof Error ? error.message : 'Failed to refresh balances');
+    },
+  });
+}
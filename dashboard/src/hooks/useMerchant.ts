@@ -2,7 +2,7 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { api } from '@/lib/api';
 import { useAuthStore } from '@/stores/authStore';
 import { toast } from '@/components/ui/Toast';
-import type { Merchant } from '@/types';
+import type { Merchant, MerchantSettings } from '@/types';
 
 export function useMerchant() {
   const { setMerchant } = useAuthStore();
@@ -52,6 +52,21 @@ export function useRegenerateApiKey() {
   });
 }
 
+export function useRegeneratePublishableKey() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => api.regeneratePublishableKey(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['merchant'] });
+      toast('success', 'Widget key regenerated. Update the api-key attribute of your widgets.');
+    },
+    onError: (error) => {
+      toast('error', error instanceof Error ? error.message : 'Failed to regenerate widget key');
+    },
+  });
+}
+
 export function useRegenerateWebhookSecret() {
   const queryClient = useQueryClient();
 
@@ -67,3 +82,25 @@ export function useRegenerateWebhookSecret() {
     },
   });
 }
+
+export function useMerchantSettings() {
+  return useQuery<MerchantSettings>({
+    queryKey: ['merchant-settings'],
+    queryFn: () => api.getSettings(),
+  });
+}
+
+export function useUpdateMerchantSettings() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: Partial<MerchantSettings>) => api.updateSettings(data),
+    onSuccess: (settings) => {
+      queryClient.setQueryData(['merchant-settings'], settings);
+      toast('success', 'Settings updated successfully');
+    },
+    onError: (error) => {
+      toast('error', error instanceof Error ? error.message : 'Failed to update settings');
+    },
+  });
+}
@@ -1,12 +1,13 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { api } from '@/lib/api';
-import type { Session, SessionsResponse } from '@/types';
+import type { LatePaymentStatus, Session, SessionsResponse, SessionEventsResponse, RefundsResponse, CreateRefundRequest } from '@/types';
 import { toast } from '@/components/ui/Toast';
 
 interface UseSessionsParams {
   limit?: number;
   offset?: number;
   status?: string;
+  latePayment?: LatePaymentStatus;
 }
 
 export function useSessions(params: UseSessionsParams = {}) {
@@ -24,14 +25,23 @@ export function useSession(id: string) {
   });
 }
 
+export function useSessionEvents(id: string) {
+  return useQuery<SessionEventsResponse>({
+    queryKey: ['session-events', id],
+    queryFn: () => api.getSessionEvents(id),
+    enabled: !!id,
+  });
+}
+
 export function useCancelSession() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: (id: string) => api.cancelSession(id),
+    mutationFn: ({ id, reason }: { id: string; reason?: string }) => api.cancelSession(id, reason),
     onSuccess: (session) => {
       queryClient.invalidateQueries({ queryKey: ['sessions'] });
       queryClient.invalidateQueries({ queryKey: ['session', session.id] });
+      queryClient.invalidateQueries({ queryKey: ['session-events', session.id] });
       queryClient.invalidateQueries({ queryKey: ['stats'] });
       toast('success', 'Session cancelled successfully');
     },
@@ -40,3 +50,44 @@ export function useCancelSession() {
     },
   });
 }
+
+export function useResolveLatePayment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, action }: { id: string; action: 'accept' | 'refund' }) => api.resolveLatePayment(id, action),
+    onSuccess: (session, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ['sessions'] });
+      queryClient.invalidateQueries({ queryKey: ['session', session.id] });
+      queryClient.invalidateQueries({ queryKey: ['session-events', session.id] });
+      queryClient.invalidateQueries({ queryKey: ['refunds', session.id] });
+      toast('success', action === 'accept' ? 'Late payment accepted' : 'Late payment marked for refund');
+    },
+    onError: (error) => {
+      toast('error', error instanceof Error ? error.message : 'Failed to update late payment');
+    },
+  });
+}
+
+export function useRefunds(sessionId: string, enabled = true) {
+  return useQuery<RefundsResponse>({
+    queryKey: ['refunds', sessionId],
+    queryFn: () => api.getRefunds(sessionId),
+    enabled: !!sessionId && enabled,
+  });
+}
+
+export function useCreateRefund(sessionId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateRefundRequest) => api.createRefund(sessionId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['refunds', sessionId] });
+      toast('success', 'Refund recorded. Send it from your wallet to complete it.');
+    },
+    onError: (error) => {
+      toast('error', error instanceof Error ? error.message : 'Failed to record refund');
+    },
+  });
+}
@@ -1,12 +1,24 @@
 import type {
   Merchant,
+  MerchantSettings,
   Session,
+  LatePaymentStatus,
   SessionsResponse,
+  Refund,
+  RefundsResponse,
+  CreateRefundRequest,
+  SessionEventsResponse,
   Stats,
+  BalancesResponse,
   ApiError,
   RegenerateKeyResponse,
+  RegeneratePublishableKeyResponse,
   RegenerateSecretResponse,
   WebhookLogsResponse,
+  ApiKeysResponse,
+  CreateApiKeyRequest,
+  CreatedApiKey,
+  RotatedApiKey,
 } from '@/types';
 import { useAuthStore } from '@/stores/authStore';
 
@@ -65,9 +77,27 @@ class ApiClient {
     });
   }
 
-  async regenerateApiKey(): Promise<RegenerateKeyResponse> {
+  async getSettings(): Promise<MerchantSettings> {
+    return this.request<MerchantSettings>('/merchants/me/settings');
+  }
+
+  async updateSettings(data: Partial<MerchantSettings>): Promise<MerchantSettings> {
+    return this.request<MerchantSettings>('/merchants/me/settings', {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async regenerateApiKey(gracePeriodSeconds = 24 * 60 * 60): Promise<RegenerateKeyResponse> {
     return this.request<RegenerateKeyResponse>('/merchants/me/regenerate-api-key', {
       method: 'POST',
+      body: JSON.stringify({ gracePeriodSeconds }),
+    });
+  }
+
+  async regeneratePublishableKey(): Promise<RegeneratePublishableKeyResponse> {
+    return this.request<RegeneratePublishableKeyResponse>('/merchants/me/regenerate-publishable-key', {
+      method: 'POST',
     });
   }
 
@@ -77,16 +107,43 @@ class ApiClient {
     });
   }
 
+  // API keys
+  async getApiKeys(): Promise<ApiKeysResponse> {
+    return this.request<ApiKeysResponse>('/merchants/me/api-keys');
+  }
+
+  async createApiKey(data: CreateApiKeyRequest): Promise<CreatedApiKey> {
+    return this.request<CreatedApiKey>('/merchants/me/api-keys', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async rotateApiKey(keyId: string, gracePeriodSeconds: number): Promise<RotatedApiKey> {
+    return this.request<RotatedApiKey>(`/merchants/me/api-keys/${keyId}/rotate`, {
+      method: 'POST',
+      body: JSON.stringify({ gracePeriodSeconds }),
+    });
+  }
+
+  async revokeApiKey(keyId: string): Promise<{ id: string; revoked: boolean }> {
+    return this.request(`/merchants/me/api-keys/${keyId}`, {
+      method: 'DELETE',
+    });
+  }
+
   // Sessions
   async getSessions(params?: {
     limit?: number;
     offset?: number;
     status?: string;
+    latePayment?: LatePaymentStatus;
   }): Promise<SessionsResponse> {
     const searchParams = new URLSearchParams();
     if (params?.limit) searchParams.set('limit', params.limit.toString());
     if (params?.offset) searchParams.set('offset', params.offset.toString());
     if (params?.status) searchParams.set('status', params.status);
+    if (params?.latePayment) searchParams.set('latePayment', params.latePayment);
 
     const query = searchParams.toString();
     return this.request<SessionsResponse>(
@@ -98,9 +155,32 @@ class ApiClient {
     return this.request<Session>(`/sessions/${id}`);
   }
 
-  async cancelSession(id: string): Promise<Session> {
+  async cancelSession(id: string, reason?: string): Promise<Session> {
     return this.request<Session>(`/sessions/${id}/cancel`, {
       method: 'POST',
+      body: JSON.stringify({ reason }),
+    });
+  }
+
+  async resolveLatePayment(id: string, action: 'accept' | 'refund'): Promise<Session> {
+    return this.request<Session>(`/sessions/${id}/late-payment/${action}`, {
+      method: 'POST',
+    });
+  }
+
+  async getSessionEvents(id: string): Promise<SessionEventsResponse> {
+    return this.request<SessionEventsResponse>(`/sessions/${id}/events`);
+  }
+
+  // Refunds
+  async getRefunds(sessionId: string): Promise<RefundsResponse> {
+    return this.request<RefundsResponse>(`/sessions/${sessionId}/refunds`);
+  }
+
+  async createRefund(sessionId: string, data: CreateRefundRequest): Promise<Refund> {
+    return this.request<Refund>(`/sessions/${sessionId}/refunds`, {
+      method: 'POST',
+      body: JSON.stringify(data),
     });
   }
 
@@ -109,6 +189,13 @@ class ApiClient {
     return this.request<Stats>('/merchants/me/stats');
   }
 
+  // Balances
+  async getBalances(refresh = false): Promise<BalancesResponse> {
+    return this.request<BalancesResponse>(
+      `/merchants/me/balances${refresh ? '?refresh=true' : ''}`
+    );
+  }
+
   // Verify API key (login)
   async verifyApiKey(apiKey: string): Promise<Merchant> {
     const response = await fetch(`${API_BASE}/merchants/me`, {
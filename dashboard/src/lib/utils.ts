@@ -65,6 +65,7 @@ export function getStatusColor(status: string): string {
     case 'confirmed':
       return 'text-green-500';
     case 'expired':
+    case 'cancelled':
       return 'text-gray-500';
     case 'failed':
       return 'text-red-500';
@@ -82,6 +83,7 @@ export function getStatusBgColor(status: string): string {
     case 'confirmed':
       return 'bg-green-500/10 text-green-500 border-green-500/20';
     case 'expired':
+    case 'cancelled':
       return 'bg-gray-500/10 text-gray-500 border-gray-500/20';
     case 'failed':
       return 'bg-red-500/10 text-red-500 border-red-500/20';
@@ -89,3 +91,14 @@ export function getStatusBgColor(status: string): string {
       return 'bg-gray-500/10 text-gray-500 border-gray-500/20';
   }
 }
+
+export function formatFailureReason(reason: string): string {
+  switch (reason) {
+    case 'reorged':
+      return 'Payment was reorged out of the chain';
+    case 'double_spent':
+      return 'Payment was double-spent';
+    default:
+      return reason;
+  }
+}
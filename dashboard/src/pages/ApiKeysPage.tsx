@@ -0,0 +1,276 @@
+import { useState } from 'react';
+import { Copy, KeyRound, Plus, RefreshCw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Skeleton } from '@/components/ui/Skeleton';
+import { ConfirmDialog } from '@/components/ui/ConfirmDialog';
+import { useApiKeys, useCreateApiKey, useRotateApiKey, useRevokeApiKey } from '@/hooks/useApiKeys';
+import { cn, copyToClipboard, formatDateTime, formatRelativeTime } from '@/lib/utils';
+import { toast } from '@/components/ui/Toast';
+import type { ApiKey, ApiKeyScope } from '@/types';
+
+const SCOPE_OPTIONS: { value: ApiKeyScope; label: string; description: string }[] = [
+  { value: 'sessions:write', label: 'Create payments', description: 'Create, cancel and refund payment sessions' },
+  { value: 'sessions:read', label: 'Read payments', description: 'List payments, their refunds and history' },
+  { value: 'webhooks:manage', label: 'Manage notifications', description: 'Webhook endpoints and delivery logs' },
+  { value: 'analytics:read', label: 'Read analytics', description: 'Stats, balances and analytics' },
+];
+
+const GRACE_OPTIONS = [
+  { value: 0, label: 'Immediately' },
+  { value: 60 * 60, label: 'After 1 hour' },
+  { value: 24 * 60 * 60, label: 'After 24 hours' },
+  { value: 7 * 24 * 60 * 60, label: 'After 7 days' },
+];
+
+function keyStatus(apiKey: ApiKey): { label: string; className: string } {
+  if (apiKey.expired) return { label: 'Expired', className: 'bg-zn-error/20 text-zn-error' };
+  if (apiKey.rotatedTo) return { label: 'Rotating', className: 'bg-zn-warning/20 text-zn-warning' };
+  return { label: 'Active', className: 'bg-zn-success/20 text-zn-success' };
+}
+
+function ApiKeyRow({ apiKey, onRevoke }: { apiKey: ApiKey; onRevoke: (apiKey: ApiKey) => void }) {
+  const rotateKey = useRotateApiKey();
+  const [isRotating, setIsRotating] = useState(false);
+  const [gracePeriod, setGracePeriod] = useState(24 * 60 * 60);
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const status = keyStatus(apiKey);
+
+  const handleRotate = async () => {
+    const result = await rotateKey.mutateAsync({ keyId: apiKey.id, gracePeriodSeconds: gracePeriod });
+    setNewKey(result.key);
+    setIsRotating(false);
+  };
+
+  const handleCopy = async (text: string) => {
+    await copyToClipboard(text);
+    toast('success', 'API key copied to clipboard');
+  };
+
+  return (
+    <div className="border-b border-zn-border last:border-0 p-4 space-y-3">
+      <div className="flex items-start gap-4">
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2 mb-1.5">
+            <span className="text-sm font-medium text-zn-text">{apiKey.name}</span>
+            <span className={cn('px-2 py-0.5 rounded text-xs font-medium', status.className)}>{status.label}</span>
+          </div>
+          <div className="font-mono text-xs text-zn-secondary mb-2">{apiKey.prefix}{'•'.repeat(8)}</div>
+          <div className="flex flex-wrap gap-1.5">
+            {apiKey.scopes.map((scope) => (
+              <span key={scope} className="px-2 py-0.5 rounded text-xs font-mono bg-zn-alt text-zn-secondary">{scope}</span>
+            ))}
+          </div>
+        </div>
+        <div className="shrink-0 text-right text-xs text-zn-secondary space-y-1">
+          <div>Last used: {apiKey.lastUsedAt ? `${formatRelativeTime(apiKey.lastUsedAt)} from ${apiKey.lastUsedIp ?? 'unknown'}` : 'Never'}</div>
+          <div>{apiKey.expiresAt ? `${apiKey.expired ? 'Expired' : 'Expires'} ${formatDateTime(apiKey.expiresAt)}` : 'No expiry'}</div>
+          <div>{apiKey.allowedIps.length ? `IPs: ${apiKey.allowedIps.join(', ')}` : 'Any IP'}</div>
+        </div>
+        <div className="shrink-0 flex items-center gap-2">
+          {!apiKey.expired && !apiKey.rotatedTo && (
+            <button
+              onClick={() => setIsRotating(!isRotating)}
+              className="p-2 text-zn-muted hover:text-zn-link hover:bg-zn-link/10 rounded-md"
+              title="Rotate key"
+            >
+              <RefreshCw className="h-4 w-4" />
+            </button>
+          )}
+          <button
+            onClick={() => onRevoke(apiKey)}
+            className="p-2 text-zn-muted hover:text-zn-error hover:bg-zn-error/10 rounded-md"
+            title="Revoke key"
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+
+      {isRotating && (
+        <div className="flex flex-wrap items-center gap-3 p-4 rounded-lg bg-zn-inset border border-zn-border animate-fade-in">
+          <span className="text-sm text-zn-secondary">Old key stops working</span>
+          <select
+            value={gracePeriod}
+            onChange={(e) => setGracePeriod(Number(e.target.value))}
+            className="bg-zn-surface rounded-md px-3 py-2 text-sm text-zn-text border border-zn-border"
+          >
+            {GRACE_OPTIONS.map((opt) => (
+              <option key={opt.value} value={opt.value}>{opt.label}</option>
+            ))}
+          </select>
+          <Button size="sm" onClick={handleRotate} isLoading={rotateKey.isPending}>Rotate</Button>
+          <Button variant="secondary" size="sm" onClick={() => setIsRotating(false)}>Cancel</Button>
+        </div>
+      )}
+
+      {newKey && (
+        <NewKeyNotice apiKey={newKey} onCopy={() => handleCopy(newKey)} />
+      )}
+    </div>
+  );
+}
+
+function NewKeyNotice({ apiKey, onCopy }: { apiKey: string; onCopy: () => void }) {
+  return (
+    <div className="p-4 rounded-md bg-zn-success/10 border border-zn-success/30">
+      <p className="text-sm text-zn-success mb-3 font-medium">New API key generated. Copy it now!</p>
+      <div className="flex items-center gap-2">
+        <code className="flex-1 bg-zn-surface rounded-md px-4 py-2.5 text-sm font-mono text-zn-text border border-zn-border overflow-x-auto">{apiKey}</code>
+        <Button variant="secondary" size="sm" onClick={onCopy}>
+          <Copy className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function ApiKeysPage() {
+  const { data, isLoading } = useApiKeys();
+  const createKey = useCreateApiKey();
+  const revokeKey = useRevokeApiKey();
+
+  const [isCreating, setIsCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiKeyScope[]>([]);
+  const [allowedIps, setAllowedIps] = useState('');
+  const [expiresAt, setExpiresAt] = useState('');
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [revoking, setRevoking] = useState<ApiKey | null>(null);
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setScopes(scopes.includes(scope) ? scopes.filter((s) => s !== scope) : [...scopes, scope]);
+  };
+
+  const handleCreate = async () => {
+    const ips = allowedIps.split('\n').map((ip) => ip.trim()).filter(Boolean);
+    const result = await createKey.mutateAsync({
+      name: name.trim(),
+      scopes,
+      allowedIps: ips.length ? ips : undefined,
+      expiresAt: expiresAt ? new Date(expiresAt).toISOString() : undefined,
+    });
+    setNewKey(result.key);
+    setIsCreating(false);
+    setName('');
+    setScopes([]);
+    setAllowedIps('');
+    setExpiresAt('');
+  };
+
+  const handleRevoke = async () => {
+    if (!revoking) return;
+    await revokeKey.mutateAsync(revoking.id);
+    setRevoking(null);
+  };
+
+  const handleCopy = async (text: string) => {
+    await copyToClipboard(text);
+    toast('success', 'API key copied to clipboard');
+  };
+
+  return (
+    <div className="space-y-10">
+      <div className="bg-zn-surface/70 backdrop-blur-xl border border-zn-border rounded-2xl overflow-hidden">
+        <div className="flex items-center justify-between gap-4 p-6 border-b border-zn-border-strong">
+          <div className="flex items-center gap-3">
+            <div className="w-9 h-9 bg-zn-alt rounded-lg flex items-center justify-center">
+              <KeyRound className="h-[18px] w-[18px] text-zn-secondary" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-zn-text">API Keys</h2>
+              <p className="text-sm text-zn-secondary">Keys for your integrations, each limited to what it needs</p>
+            </div>
+          </div>
+          {!isCreating && (
+            <Button onClick={() => setIsCreating(true)} className="gap-2">
+              <Plus className="h-4 w-4" /> Create Key
+            </Button>
+          )}
+        </div>
+
+        {isCreating && (
+          <div className="p-6 space-y-5 border-b border-zn-border">
+            <div>
+              <label className="block text-sm font-medium text-zn-text mb-1.5">Name</label>
+              <Input value={name} maxLength={100} placeholder="Order backend" onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-zn-text mb-1.5">Permissions</label>
+              <div className="grid sm:grid-cols-2 gap-2">
+                {SCOPE_OPTIONS.map((opt) => (
+                  <label key={opt.value} className="flex items-start gap-3 p-3 rounded-md border border-zn-border cursor-pointer hover:bg-zn-alt">
+                    <input
+                      type="checkbox"
+                      checked={scopes.includes(opt.value)}
+                      onChange={() => toggleScope(opt.value)}
+                      className="mt-0.5"
+                    />
+                    <span>
+                      <span className="block text-sm font-medium text-zn-text">{opt.label}</span>
+                      <span className="block text-xs text-zn-muted">{opt.description}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="grid sm:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-zn-text mb-1.5">Allowed IPs</label>
+                <textarea
+                  value={allowedIps}
+                  rows={3}
+                  placeholder="203.0.113.0/24"
+                  onChange={(e) => setAllowedIps(e.target.value)}
+                  className="w-full bg-zn-surface rounded-md px-4 py-2.5 text-sm font-mono text-zn-text border border-zn-border"
+                />
+                <p className="text-xs text-zn-muted mt-1.5">One address or CIDR range per line. Leave empty to allow any.</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-zn-text mb-1.5">Expires</label>
+                <Input type="datetime-local" value={expiresAt} onChange={(e) => setExpiresAt(e.target.value)} />
+                <p className="text-xs text-zn-muted mt-1.5">Leave empty for a key that does not expire.</p>
+              </div>
+            </div>
+            <div className="flex gap-3 pt-2">
+              <Button onClick={handleCreate} isLoading={createKey.isPending} disabled={!name.trim() || scopes.length === 0}>
+                Create Key
+              </Button>
+              <Button variant="secondary" onClick={() => setIsCreating(false)}>Cancel</Button>
+            </div>
+          </div>
+        )}
+
+        {newKey && (
+          <div className="p-6 border-b border-zn-border">
+            <NewKeyNotice apiKey={newKey} onCopy={() => handleCopy(newKey)} />
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="p-6"><Skeleton className="h-24 w-full" /></div>
+        ) : data?.apiKeys.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-16 text-center px-4">
+            <p className="text-zn-text font-medium text-lg mb-1">No API keys yet</p>
+            <p className="text-zn-secondary text-sm">Create a key for each integration instead of sharing your secret key</p>
+          </div>
+        ) : (
+          <div>
+            {data?.apiKeys.map((apiKey) => <ApiKeyRow key={apiKey.id} apiKey={apiKey} onRevoke={setRevoking} />)}
+          </div>
+        )}
+      </div>
+
+      <ConfirmDialog
+        open={revoking !== null}
+        onConfirm={handleRevoke}
+        onCancel={() => setRevoking(null)}
+        title="Revoke API Key?"
+        description={`"${revoking?.name ?? ''}" will stop working immediately.`}
+        confirmLabel="Revoke"
+        variant="danger"
+        isLoading={revokeKey.isPending}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import { Link } from 'react-router-dom';
+import { Copy, RefreshCw, Wallet, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Skeleton } from '@/components/ui/Skeleton';
+import { useBalances, useRefreshBalances } from '@/hooks/useBalances';
+import { formatKas, formatDateTime, truncateAddress, copyToClipboard } from '@/lib/utils';
+import { toast } from '@/components/ui/Toast';
+
+export function BalancesPage() {
+  const { data, isLoading } = useBalances();
+  const refreshMutation = useRefreshBalances();
+
+  const handleCopy = async (text: string) => {
+    await copyToClipboard(text);
+    toast('success', 'Address copied to clipboard');
+  };
+
+  return (
+    <div className="space-y-10">
+      <div className="bg-zn-surface/70 backdrop-blur-xl border border-zn-border rounded-2xl overflow-hidden">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 p-6 pb-5">
+          <div>
+            <h2 className="text-lg font-semibold text-zn-text">Sweep Checklist</h2>
+            <p className="text-sm text-zn-secondary mt-1">
+              Payment addresses that still hold funds. Sweep them from your wallet to consolidate.
+            </p>
+          </div>
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => refreshMutation.mutate()}
+            isLoading={refreshMutation.isPending}
+          >
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="p-6 space-y-3">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : data ? (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 px-6 pb-6">
+              <div className="p-4 rounded-lg bg-zn-alt">
+                <div className="text-sm text-zn-secondary">Total Balance</div>
+                <div className="text-xl font-semibold text-zn-text tabular-nums">{formatKas(data.totalBalance)}</div>
+              </div>
+              <div className="p-4 rounded-lg bg-zn-alt">
+                <div className="text-sm text-zn-secondary">Funded Addresses</div>
+                <div className="text-xl font-semibold text-zn-text tabular-nums">{data.addresses.length}</div>
+              </div>
+              <div className="p-4 rounded-lg bg-zn-alt">
+                <div className="text-sm text-zn-secondary">Addresses Checked</div>
+                <div className="text-xl font-semibold text-zn-text tabular-nums">{data.addressesChecked}</div>
+              </div>
+            </div>
+
+            {data.failedAddresses.length > 0 && (
+              <div className="mx-6 mb-6 flex items-start gap-3 p-4 rounded-lg bg-zn-warning/10 border border-zn-warning/30">
+                <AlertTriangle className="h-5 w-5 text-zn-warning shrink-0" />
+                <p className="text-sm text-zn-secondary">
+                  {data.failedAddresses.length} address{data.failedAddresses.length !== 1 ? 'es' : ''} could not be
+                  checked. Refresh to try again.
+                </p>
+              </div>
+            )}
+
+            {data.addresses.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-16 text-center px-4 border-t border-zn-border">
+                <div className="w-16 h-16 rounded-lg bg-zn-alt flex items-center justify-center mb-4">
+                  <CheckCircle2 className="h-8 w-8 text-zn-success" />
+                </div>
+                <p className="text-zn-text font-medium text-lg mb-1">Nothing to sweep</p>
+                <p className="text-zn-secondary text-sm">None of your payment addresses hold funds</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto border-t border-zn-border">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-zn-secondary border-b border-zn-border">
+                      <th className="px-6 py-3 font-medium">Address</th>
+                      <th className="px-6 py-3 font-medium">Index</th>
+                      <th className="px-6 py-3 font-medium">Last Payment</th>
+                      <th className="px-6 py-3 font-medium text-right">Balance</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.addresses.map((entry) => (
+                      <tr key={entry.address} className="border-b border-zn-border last:border-0 hover:bg-zn-alt">
+                        <td className="px-6 py-3">
+                          <div className="flex items-center gap-2">
+                            <span className="font-mono text-zn-text" title={entry.address}>
+                              {truncateAddress(entry.address, 12)}
+                            </span>
+                            <button
+                              onClick={() => handleCopy(entry.address)}
+                              className="p-1.5 rounded text-zn-muted hover:text-zn-link shrink-0"
+                            >
+                              <Copy className="h-4 w-4" />
+                            </button>
+                          </div>
+                          <div className="text-xs text-zn-muted font-mono">{entry.path}</div>
+                        </td>
+                        <td className="px-6 py-3 text-zn-secondary tabular-nums">{entry.index}</td>
+                        <td className="px-6 py-3">
+                          {entry.lastSessionId ? (
+                            <Link to={`/sessions/${entry.lastSessionId}`} className="text-zn-link">
+                              {entry.lastOrderId || `${entry.lastSessionId.slice(0, 8)}...`}
+                            </Link>
+                          ) : (
+                            <span className="text-zn-muted">-</span>
+                          )}
+                          {entry.lastSessionAt && (
+                            <div className="text-xs text-zn-muted">{formatDateTime(entry.lastSessionAt)}</div>
+                          )}
+                        </td>
+                        <td className="px-6 py-3 text-right font-medium text-zn-text tabular-nums">
+                          {formatKas(entry.balance)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            <div className="px-6 py-4 border-t border-zn-border text-xs text-zn-muted">
+              Checked {formatDateTime(data.generatedAt)}
+            </div>
+          </>
+        ) : null}
+      </div>
+
+      <div className="bg-zn-surface/70 backdrop-blur-xl border border-zn-border rounded-2xl p-6">
+        <div className="flex items-start gap-4">
+          <div className="w-9 h-9 bg-zn-alt rounded-lg flex items-center justify-center shrink-0">
+            <Wallet className="h-[18px] w-[18px] text-zn-secondary" />
+          </div>
+          <div>
+            <h3 className="font-semibold text-zn-text mb-1">About Address Balances</h3>
+            <p className="text-sm text-zn-secondary">
+              Each payment uses its own address derived from your xPub. KasGate never holds your keys, so funds stay on
+              these addresses until you move them with your wallet.
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
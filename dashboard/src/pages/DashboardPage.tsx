@@ -13,9 +13,12 @@ import { Link } from 'react-router-dom';
 const EMPTY_STATS = {
   totalSessions: 0,
   pendingSessions: 0,
+  underpaidSessions: 0,
   confirmingSessions: 0,
   confirmedSessions: 0,
+  overpaidSessions: 0,
   expiredSessions: 0,
+  cancelledSessions: 0,
   totalReceived: '0',
   totalReceivedSompi: '0',
 };
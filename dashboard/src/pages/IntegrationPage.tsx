@@ -69,6 +69,14 @@ app.post('/webhook', express.raw({ type: 'application/json' }), (req, res) => {
       console.log('Payment expired:', sessionId);
       // TODO: cancel or retry the order
       break;
+    case 'payment.cancelled':
+      console.log('Payment cancelled:', sessionId);
+      // TODO: release the order
+      break;
+    case 'payment.late':
+      console.log('Paid after expiry:', sessionId);
+      // TODO: accept or refund it from the dashboard
+      break;
   }
 
   res.status(200).send('OK');
@@ -258,6 +266,16 @@ export function IntegrationPage() {
                 <code className="text-zn-secondary">payment.pending</code>
                 <span className="text-zn-secondary">— Waiting for customer</span>
               </div>
+              <div className="flex items-center gap-2">
+                <span className="w-2 h-2 rounded-full bg-zn-warning" />
+                <code className="text-zn-warning">payment.underpaid</code>
+                <span className="text-zn-secondary">— Partial amount received</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="w-2 h-2 rounded-full bg-zn-success" />
+                <code className="text-zn-success">payment.overpaid</code>
+                <span className="text-zn-secondary">— More than requested received</span>
+              </div>
               <div className="flex items-center gap-2">
                 <span className="w-2 h-2 rounded-full bg-zn-warning" />
                 <code className="text-zn-warning">payment.confirming</code>
@@ -273,10 +291,20 @@ export function IntegrationPage() {
                 <code className="text-zn-error">payment.expired</code>
                 <span className="text-zn-secondary">— Not paid in time</span>
               </div>
+              <div className="flex items-center gap-2">
+                <span className="w-2 h-2 rounded-full bg-zn-secondary" />
+                <code className="text-zn-secondary">payment.cancelled</code>
+                <span className="text-zn-secondary">— Cancelled by you or the customer</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="w-2 h-2 rounded-full bg-zn-warning" />
+                <code className="text-zn-warning">payment.late</code>
+                <span className="text-zn-secondary">— Paid after expiry, awaiting your decision</span>
+              </div>
               <div className="flex items-center gap-2">
                 <span className="w-2 h-2 rounded-full bg-zn-error" />
                 <code className="text-zn-error">payment.failed</code>
-                <span className="text-zn-secondary">— Payment error</span>
+                <span className="text-zn-secondary">— Reversed by a reorg or double-spend while confirming</span>
               </div>
             </div>
           </div>
@@ -323,6 +351,9 @@ export function IntegrationPage() {
     if (state === 'expired') {
       alert('Payment session expired');
     }
+    if (state === 'cancelled') {
+      console.log('Customer cancelled the payment');
+    }
   });
 </script>`}
             />
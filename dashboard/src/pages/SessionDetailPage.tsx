@@ -1,17 +1,27 @@
 import { useParams, useNavigate } from 'react-router-dom';
-import { ArrowLeft, ExternalLink, Copy, XCircle, Clock, CheckCircle, AlertCircle } from 'lucide-react';
+import { ArrowLeft, ExternalLink, Copy, XCircle, AlertCircle } from 'lucide-react';
 import { Button } from '@/components/ui/Button';
 import { StatusBadge } from '@/components/ui/StatusBadge';
 import { Skeleton } from '@/components/ui/Skeleton';
-import { useSession, useCancelSession } from '@/hooks/useSessions';
-import { formatKas, formatDateTime, copyToClipboard, cn } from '@/lib/utils';
+import { RefundsPanel } from '@/components/sessions/RefundsPanel';
+import { SessionTimeline } from '@/components/sessions/SessionTimeline';
+import { useSession, useCancelSession, useResolveLatePayment } from '@/hooks/useSessions';
+import { formatKas, formatDateTime, formatFailureReason, truncateAddress, copyToClipboard, cn } from '@/lib/utils';
 import { toast } from '@/components/ui/Toast';
+import type { LatePaymentStatus } from '@/types';
+
+const LATE_PAYMENT_LABELS: Record<LatePaymentStatus, string> = {
+  pending: 'Awaiting decision',
+  accepted: 'Accepted',
+  refund: 'Marked for refund',
+};
 
 export function SessionDetailPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const { data: session, isLoading } = useSession(id!);
   const cancelMutation = useCancelSession();
+  const latePaymentMutation = useResolveLatePayment();
 
   const handleCopy = async (text: string, label: string) => {
     await copyToClipboard(text);
@@ -19,8 +29,9 @@ export function SessionDetailPage() {
   };
 
   const handleCancel = () => {
-    if (window.confirm('Are you sure you want to cancel this payment?')) {
-      cancelMutation.mutate(id!);
+    const reason = window.prompt('Cancel this payment? You can enter a reason (optional).');
+    if (reason !== null) {
+      cancelMutation.mutate({ id: id!, reason: reason.trim() || undefined });
     }
   };
 
@@ -50,6 +61,7 @@ export function SessionDetailPage() {
   }
 
   const canCancel = session.status === 'pending';
+  const canRefund = session.status === 'confirmed' || session.status === 'overpaid' || session.latePaymentStatus === 'refund';
 
   return (
     <div className="space-y-10">
@@ -69,6 +81,37 @@ export function SessionDetailPage() {
         )}
       </div>
 
+      {session.latePaymentStatus === 'pending' && (
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 p-5 bg-zn-warning/10 border border-zn-warning/40 rounded-2xl">
+          <div className="flex items-start gap-3">
+            <AlertCircle className="h-5 w-5 text-zn-warning shrink-0 mt-0.5" />
+            <div>
+              <p className="text-sm font-medium text-zn-text">Payment received after expiry</p>
+              <p className="text-sm text-zn-secondary">
+                Accept it to complete the order, or mark it for refund and send the funds back.
+              </p>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              onClick={() => latePaymentMutation.mutate({ id: session.id, action: 'accept' })}
+              isLoading={latePaymentMutation.isPending && latePaymentMutation.variables?.action === 'accept'}
+              disabled={latePaymentMutation.isPending}
+            >
+              Accept Payment
+            </Button>
+            <Button
+              variant="secondary"
+              onClick={() => latePaymentMutation.mutate({ id: session.id, action: 'refund' })}
+              isLoading={latePaymentMutation.isPending && latePaymentMutation.variables?.action === 'refund'}
+              disabled={latePaymentMutation.isPending}
+            >
+              Mark for Refund
+            </Button>
+          </div>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
         <div className="bg-zn-surface/70 backdrop-blur-xl border border-zn-border rounded-2xl">
           <div className="p-6 border-b border-zn-border">
@@ -76,6 +119,30 @@ export function SessionDetailPage() {
           </div>
           <div>
             <DetailRow label="Amount" value={formatKas(session.amount)} highlight />
+            {session.fiatAmount && session.currency && (
+              <>
+                <DetailRow label="Price" value={`${session.fiatAmount} ${session.currency}`} />
+                <DetailRow label="Exchange Rate" value={`1 KAS = ${session.exchangeRate} ${session.currency}`} />
+              </>
+            )}
+            {session.amountReceived && session.amountReceivedSompi !== '0' && (
+              <DetailRow label="Amount Received" value={formatKas(session.amountReceived)} />
+            )}
+            {session.latePaymentStatus && (
+              <DetailRow label="Late Payment" value={LATE_PAYMENT_LABELS[session.latePaymentStatus]} />
+            )}
+            {session.failureReason && (
+              <DetailRow label="Failure Reason" value={formatFailureReason(session.failureReason)} />
+            )}
+            {session.cancellationReason && (
+              <DetailRow label="Cancellation Reason" value={session.cancellationReason} />
+            )}
+            {session.requiredConfirmations !== undefined && (
+              <DetailRow
+                label="Confirmations"
+                value={`${session.confirmations} of ${session.requiredConfirmations}`}
+              />
+            )}
             <div className="flex justify-between items-start gap-4 py-3 px-5 border-b border-zn-border">
               <span className="text-sm text-zn-secondary">Payment Address</span>
               <div className="flex items-center gap-2 text-right">
@@ -88,7 +155,27 @@ export function SessionDetailPage() {
                 </button>
               </div>
             </div>
-            {session.txId && (
+            {session.payments && session.payments.length > 1 ? (
+              session.payments.map((payment) => (
+                <div
+                  key={`${payment.txId}:${payment.outputIndex}`}
+                  className="flex justify-between items-center gap-4 py-3 px-5 border-b border-zn-border"
+                >
+                  <div>
+                    <a
+                      href={payment.explorerUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-2 text-zn-link hover:text-zn-link text-sm font-mono"
+                    >
+                      {truncateAddress(payment.txId)} <ExternalLink className="h-3.5 w-3.5" />
+                    </a>
+                    <p className="text-xs text-zn-muted mt-0.5">{formatDateTime(payment.receivedAt)}</p>
+                  </div>
+                  <span className="text-sm text-zn-text font-medium">{formatKas(payment.amount)}</span>
+                </div>
+              ))
+            ) : session.txId && (
               <div className="flex justify-between items-center py-3 px-5 border-b border-zn-border">
                 <span className="text-sm text-zn-secondary">Transaction</span>
                 <a
@@ -104,32 +191,11 @@ export function SessionDetailPage() {
           </div>
         </div>
 
-        <div className="bg-zn-surface/70 backdrop-blur-xl border border-zn-border rounded-2xl">
-          <div className="p-6 border-b border-zn-border">
-            <h2 className="text-lg font-semibold text-zn-text">Timeline</h2>
-          </div>
-          <div className="p-5 space-y-1">
-            <TimelineItem icon={Clock} label="Created" time={formatDateTime(session.createdAt)} status="complete" />
-            <TimelineItem icon={Clock} label="Expires" time={formatDateTime(session.expiresAt)} status={session.status === 'pending' ? 'pending' : 'complete'} />
-            {session.status === 'pending' && (
-              <TimelineItem icon={Clock} label="Awaiting Payment" time="Waiting for customer..." status="pending" />
-            )}
-            {session.status === 'confirming' && (
-              <TimelineItem icon={Clock} label="Confirming" time="Being confirmed on Kaspa network..." status="pending" />
-            )}
-            {session.confirmedAt && (
-              <TimelineItem icon={CheckCircle} label="Confirmed" time={formatDateTime(session.confirmedAt)} status="success" />
-            )}
-            {session.status === 'expired' && (
-              <TimelineItem icon={AlertCircle} label="Expired" time="No payment received in time" status="error" />
-            )}
-            {session.status === 'failed' && (
-              <TimelineItem icon={AlertCircle} label="Failed" time="Payment could not be completed" status="error" />
-            )}
-          </div>
-        </div>
+        <SessionTimeline session={session} />
       </div>
 
+      <RefundsPanel sessionId={session.id} canRefund={canRefund} />
+
       {session.metadata && Object.keys(session.metadata).length > 0 && (
         <div className="bg-zn-surface/70 backdrop-blur-xl border border-zn-border rounded-2xl">
           <div className="p-6 border-b border-zn-border">
@@ -154,34 +220,3 @@ function DetailRow({ label, value, highlight }: { label: string; value: string;
     </div>
   );
 }
-
-function TimelineItem({
-  icon: Icon,
-  label,
-  time,
-  status,
-}: {
-  icon: React.ComponentType<{ className?: string }>;
-  label: string;
-  time: string;
-  status: 'complete' | 'pending' | 'success' | 'error';
-}) {
-  const statusStyles = {
-    complete: 'bg-zn-success/20 text-zn-success',
-    pending: 'bg-zn-warning/20 text-zn-warning',
-    success: 'bg-zn-success/20 text-zn-success',
-    error: 'bg-zn-error/20 text-zn-error',
-  };
-
-  return (
-    <div className="flex items-start gap-4 py-3">
-      <div className={cn('w-8 h-8 rounded-full flex items-center justify-center', statusStyles[status])}>
-        <Icon className="h-4 w-4" />
-      </div>
-      <div className="flex-1">
-        <p className="text-sm font-medium text-zn-text">{label}</p>
-        <p className="text-xs text-zn-secondary mt-0.5">{time}</p>
-      </div>
-    </div>
-  );
-}
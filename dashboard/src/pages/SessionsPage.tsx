@@ -1,14 +1,18 @@
 import { useState } from 'react';
 import { SessionTable } from '@/components/sessions/SessionTable';
+import { LatePaymentsQueue } from '@/components/sessions/LatePaymentsQueue';
 import { useSessions } from '@/hooks/useSessions';
 import { cn } from '@/lib/utils';
 
 const STATUS_OPTIONS = [
   { value: '', label: 'All' },
   { value: 'pending', label: 'Pending' },
+  { value: 'underpaid', label: 'Underpaid' },
   { value: 'confirming', label: 'Confirming' },
   { value: 'confirmed', label: 'Confirmed' },
+  { value: 'overpaid', label: 'Overpaid' },
   { value: 'expired', label: 'Expired' },
+  { value: 'cancelled', label: 'Cancelled' },
   { value: 'failed', label: 'Failed' },
 ];
 
@@ -26,6 +30,7 @@ export function SessionsPage() {
 
   return (
     <div className="space-y-10">
+      <LatePaymentsQueue />
       <div className="bg-zn-surface/70 backdrop-blur-xl border border-zn-border rounded-2xl overflow-hidden">
         <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 p-6 pb-5">
           <h2 className="text-sm font-semibold text-zn-text">All Payments</h2>
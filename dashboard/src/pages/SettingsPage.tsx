@@ -1,9 +1,12 @@
 import { useState } from 'react';
-import { Eye, EyeOff, Copy, RefreshCw, Shield, User, Webhook } from 'lucide-react';
+import { Eye, EyeOff, Copy, RefreshCw, Shield, User, Webhook, Wallet, AlertTriangle } from 'lucide-react';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { Skeleton } from '@/components/ui/Skeleton';
 import { ConfirmDialog } from '@/components/ui/ConfirmDialog';
+import { ConfirmationPolicyCard } from '@/components/settings/ConfirmationPolicyCard';
+import { PaymentUriTemplateCard } from '@/components/settings/PaymentUriTemplateCard';
+import { WidgetKeyCard } from '@/components/settings/WidgetKeyCard';
 import {
   useMerchant,
   useUpdateMerchant,
@@ -14,6 +17,8 @@ import { useAuthStore } from '@/stores/authStore';
 import { copyToClipboard } from '@/lib/utils';
 import { toast } from '@/components/ui/Toast';
 
+const MAX_LOGO_BYTES = 64 * 1024;
+
 export function SettingsPage() {
   const { data: merchant, isLoading } = useMerchant();
   const updateMerchant = useUpdateMerchant();
@@ -26,20 +31,43 @@ export function SettingsPage() {
   const [newSecret, setNewSecret] = useState<string | null>(null);
   const [name, setName] = useState('');
   const [webhookUrl, setWebhookUrl] = useState('');
+  const [paymentTolerance, setPaymentTolerance] = useState('0');
+  const [defaultConfirmations, setDefaultConfirmations] = useState('10');
+  const [logo, setLogo] = useState<string | null>(null);
   const [isEditing, setIsEditing] = useState(false);
   const [confirmDialog, setConfirmDialog] = useState<'apiKey' | 'secret' | null>(null);
 
   const handleStartEdit = () => {
     setName(merchant?.name ?? '');
     setWebhookUrl(merchant?.webhookUrl ?? '');
+    setPaymentTolerance(((merchant?.paymentToleranceBps ?? 0) / 100).toString());
+    setDefaultConfirmations((merchant?.defaultConfirmations ?? 10).toString());
+    setLogo(merchant?.logo ?? null);
     setIsEditing(true);
   };
 
   const handleSave = async () => {
-    await updateMerchant.mutateAsync({ name, webhookUrl: webhookUrl || undefined });
+    await updateMerchant.mutateAsync({
+      name,
+      webhookUrl: webhookUrl || undefined,
+      paymentToleranceBps: Math.round((parseFloat(paymentTolerance) || 0) * 100),
+      defaultConfirmations: parseInt(defaultConfirmations, 10) || undefined,
+      logo,
+    });
     setIsEditing(false);
   };
 
+  const handleLogoChange = (file: File | undefined) => {
+    if (!file) return;
+    if (file.type !== 'image/png' || file.size > MAX_LOGO_BYTES) {
+      toast('error', 'Logo must be a PNG of at most 64KB');
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => setLogo(reader.result as string);
+    reader.readAsDataURL(file);
+  };
+
   const handleRegenerateApiKey = async () => {
     const result = await regenerateApiKey.mutateAsync();
     setNewApiKey(result.apiKey);
@@ -91,6 +119,41 @@ export function SettingsPage() {
                 <label className="block text-sm font-medium text-zn-text mb-1.5">Notification URL</label>
                 <Input value={webhookUrl} onChange={(e) => setWebhookUrl(e.target.value)} placeholder="https://example.com/webhook" />
               </div>
+              <div>
+                <label className="block text-sm font-medium text-zn-text mb-1.5">Payment Tolerance (%)</label>
+                <Input
+                  type="number"
+                  min="0"
+                  max="10"
+                  step="0.01"
+                  value={paymentTolerance}
+                  onChange={(e) => setPaymentTolerance(e.target.value)}
+                />
+                <p className="text-xs text-zn-muted mt-1.5">Payments this close to the requested amount are accepted as paid in full</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-zn-text mb-1.5">Required Confirmations</label>
+                <Input
+                  type="number"
+                  min="1"
+                  max="1000"
+                  step="1"
+                  value={defaultConfirmations}
+                  onChange={(e) => setDefaultConfirmations(e.target.value)}
+                />
+                <p className="text-xs text-zn-muted mt-1.5">Confirmations to wait for before a payment is final (about one per second)</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-zn-text mb-1.5">QR Code Logo</label>
+                <div className="flex items-center gap-3">
+                  {logo && <img src={logo} alt="Logo" className="h-10 w-10 rounded object-contain bg-white" />}
+                  <Input type="file" accept="image/png" onChange={(e) => handleLogoChange(e.target.files?.[0])} />
+                  {logo && (
+                    <Button variant="secondary" size="sm" onClick={() => setLogo(null)}>Remove</Button>
+                  )}
+                </div>
+                <p className="text-xs text-zn-muted mt-1.5">PNG of at most 64KB and 1024×1024 pixels, drawn in the centre of payment QR codes</p>
+              </div>
               <div className="flex gap-3 pt-2">
                 <Button onClick={handleSave} isLoading={updateMerchant.isPending}>Save Changes</Button>
                 <Button variant="secondary" onClick={() => setIsEditing(false)}>Cancel</Button>
@@ -101,6 +164,16 @@ export function SettingsPage() {
               <SettingRow label="Email" value={merchant?.email || 'Not added yet'} />
               <SettingRow label="Business Name" value={merchant?.name || ''} />
               <SettingRow label="Notification URL" value={merchant?.webhookUrl || 'Not added yet'} />
+              <SettingRow label="Payment Tolerance" value={`${(merchant?.paymentToleranceBps ?? 0) / 100}%`} />
+              <SettingRow label="Required Confirmations" value={`${merchant?.defaultConfirmations ?? 10}`} />
+              <div className="flex justify-between items-center py-3 border-b border-zn-border last:border-0">
+                <span className="text-sm text-zn-secondary">QR Code Logo</span>
+                {merchant?.logo ? (
+                  <img src={merchant.logo} alt="Logo" className="h-8 w-8 rounded object-contain bg-white" />
+                ) : (
+                  <span className="text-sm text-zn-text font-medium">Not added yet</span>
+                )}
+              </div>
               <div className="pt-2">
                 <Button variant="secondary" onClick={handleStartEdit}>Edit Profile</Button>
               </div>
@@ -109,6 +182,42 @@ export function SettingsPage() {
         </div>
       </div>
 
+      {/* Confirmation Policy */}
+      <ConfirmationPolicyCard defaultConfirmations={merchant?.defaultConfirmations ?? 10} />
+
+      {/* Payment Link */}
+      <PaymentUriTemplateCard />
+
+      {/* Wallet Addresses */}
+      {merchant?.addressGap && (
+        <div className="bg-zn-surface/70 backdrop-blur-xl border border-zn-border rounded-2xl">
+          <div className="flex items-center gap-3 p-6 border-b border-zn-border-strong">
+            <div className="w-9 h-9 bg-zn-alt rounded-lg flex items-center justify-center">
+              <Wallet className="h-[18px] w-[18px] text-zn-secondary" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-zn-text">Wallet Addresses</h2>
+              <p className="text-sm text-zn-secondary">Payment addresses derived from your xPub</p>
+            </div>
+          </div>
+          <div className="p-6 space-y-5">
+            {merchant.addressGap.nearLimit && (
+              <div className="flex items-start gap-3 p-4 rounded-md bg-zn-warning/10 border border-zn-warning/30">
+                <AlertTriangle className="w-5 h-5 text-zn-warning shrink-0 mt-0.5" />
+                <p className="text-sm text-zn-warning">
+                  {merchant.addressGap.gap} unused addresses in a row. Wallets restored from your xPub stop scanning
+                  after {merchant.addressGap.limit}, so raise the gap limit in your wallet to see later payments.
+                </p>
+              </div>
+            )}
+            <div>
+              <SettingRow label="Addresses Derived" value={String(merchant.addressGap.nextIndex)} />
+              <SettingRow label="Unused Address Gap" value={`${merchant.addressGap.gap} of ${merchant.addressGap.limit}`} />
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* API Key */}
       <div className="bg-zn-surface/70 backdrop-blur-xl border border-zn-border rounded-2xl">
         <div className="flex items-center gap-3 p-6 border-b border-zn-border-strong">
@@ -116,8 +225,8 @@ export function SettingsPage() {
             <Shield className="h-[18px] w-[18px] text-zn-secondary" />
           </div>
           <div>
-            <h2 className="text-lg font-semibold text-zn-text">API Key</h2>
-            <p className="text-sm text-zn-secondary">Use this key to connect your website or app</p>
+            <h2 className="text-lg font-semibold text-zn-text">Secret API Key</h2>
+            <p className="text-sm text-zn-secondary">Use this key on your server only; never put it in web pages</p>
           </div>
         </div>
         <div className="p-6 space-y-5">
@@ -134,7 +243,7 @@ export function SettingsPage() {
           ) : (
             <div className="flex items-center gap-2">
               <div className="flex-1 bg-zn-alt rounded-md px-4 py-3 font-mono text-sm text-zn-secondary border border-zn-border">
-                {showApiKey ? apiKey : `kg_${'•'.repeat(28)}`}
+                {showApiKey ? apiKey : `sk_${'•'.repeat(28)}`}
               </div>
               <Button variant="secondary" size="sm" onClick={() => setShowApiKey(!showApiKey)}>
                 {showApiKey ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
@@ -150,6 +259,9 @@ export function SettingsPage() {
         </div>
       </div>
 
+      {/* Widget Key */}
+      <WidgetKeyCard />
+
       {/* Webhook Secret */}
       <div className="bg-zn-surface/70 backdrop-blur-xl border border-zn-border rounded-2xl">
         <div className="flex items-center gap-3 p-6 border-b border-zn-border-strong">
@@ -184,7 +296,7 @@ export function SettingsPage() {
         onConfirm={handleRegenerateApiKey}
         onCancel={() => setConfirmDialog(null)}
         title="Regenerate API Key?"
-        description="Your current API key will stop working immediately."
+        description="Your current API key keeps working for 24 hours so you can update your integrations, then stops."
         confirmLabel="Regenerate"
         variant="danger"
         isLoading={regenerateApiKey.isPending}
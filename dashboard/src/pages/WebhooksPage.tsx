@@ -20,9 +20,15 @@ import type { WebhookLog, WebhookEvent } from '@/types';
 const EVENT_OPTIONS = [
   { value: '', label: 'All Events' },
   { value: 'payment.pending', label: 'Pending' },
+  { value: 'payment.underpaid', label: 'Underpaid' },
   { value: 'payment.confirming', label: 'Confirming' },
   { value: 'payment.confirmed', label: 'Confirmed' },
+  { value: 'payment.overpaid', label: 'Overpaid' },
   { value: 'payment.expired', label: 'Expired' },
+  { value: 'payment.cancelled', label: 'Cancelled' },
+  { value: 'payment.late', label: 'Late Payment' },
+  { value: 'refund.created', label: 'Refund Created' },
+  { value: 'refund.completed', label: 'Refund Completed' },
 ];
 
 function getStatusIcon(log: WebhookLog) {
@@ -49,9 +55,15 @@ function getStatusText(log: WebhookLog): string {
 function getEventColor(event: WebhookEvent): string {
   switch (event) {
     case 'payment.pending': return 'bg-zn-alt text-zn-secondary';
+    case 'payment.underpaid': return 'bg-zn-warning/20 text-zn-warning';
     case 'payment.confirming': return 'bg-zn-warning/20 text-zn-warning';
+    case 'payment.overpaid': return 'bg-zn-success/20 text-zn-success';
     case 'payment.confirmed': return 'bg-zn-success/20 text-zn-success';
     case 'payment.expired': return 'bg-zn-error/20 text-zn-error';
+    case 'payment.cancelled': return 'bg-zn-alt text-zn-secondary';
+    case 'payment.late': return 'bg-zn-warning/20 text-zn-warning';
+    case 'refund.created': return 'bg-zn-link/20 text-zn-link';
+    case 'refund.completed': return 'bg-zn-success/20 text-zn-success';
     default: return 'bg-zn-alt text-zn-secondary';
   }
 }
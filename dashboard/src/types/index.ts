@@ -1,6 +1,10 @@
 // API Types - mirrors backend types
 
-export type SessionStatus = 'pending' | 'confirming' | 'confirmed' | 'expired' | 'failed';
+export type SessionStatus = 'pending' | 'underpaid' | 'confirming' | 'confirmed' | 'overpaid' | 'expired' | 'cancelled' | 'failed';
+
+export type LatePaymentStatus = 'pending' | 'accepted' | 'refund';
+
+export type PaymentFailureReason = 'reorged' | 'double_spent';
 
 export interface Session {
   id: string;
@@ -8,16 +12,96 @@ export interface Session {
   address: string;
   amount: string;
   amountSompi: string;
+  amountReceived?: string;
+  amountReceivedSompi?: string;
+  fiatAmount?: string;
+  currency?: string;
+  exchangeRate?: string;
+  quoteExpiresAt?: string;
   status: SessionStatus;
   confirmations: number;
+  requiredConfirmations?: number;
   txId?: string;
   expiresAt: string;
   createdAt: string;
   paidAt?: string;
   confirmedAt?: string;
+  cancelledAt?: string;
+  cancellationReason?: string;
+  payments?: SessionPayment[];
+  latePaymentStatus?: LatePaymentStatus;
+  latePaymentAt?: string;
+  failureReason?: PaymentFailureReason;
   metadata?: Record<string, unknown>;
 }
 
+export interface SessionPayment {
+  txId: string;
+  outputIndex: number;
+  amount: string;
+  amountSompi: string;
+  blockDaaScore: string;
+  receivedAt: string;
+  explorerUrl: string;
+}
+
+export type RefundStatus = 'pending' | 'completed';
+
+export interface Refund {
+  id: string;
+  sessionId: string;
+  amount: string;
+  amountSompi: string;
+  address: string;
+  reason?: string;
+  status: RefundStatus;
+  txId?: string;
+  createdAt: string;
+  completedAt?: string;
+}
+
+export interface RefundsResponse {
+  refunds: Refund[];
+  refundable: string;
+  refundableSompi: string;
+}
+
+export interface CreateRefundRequest {
+  amount: string;
+  address: string;
+  reason?: string;
+}
+
+export type SessionEventType =
+  | 'created'
+  | 'payment_received'
+  | 'underpaid'
+  | 'confirmation'
+  | 'confirmed'
+  | 'expired'
+  | 'cancelled'
+  | 'failed'
+  | 'late_payment'
+  | 'late_payment_refund';
+
+export interface SessionEvent {
+  id: string;
+  type: SessionEventType;
+  fromStatus?: SessionStatus;
+  toStatus?: SessionStatus;
+  actor: 'system' | 'merchant' | 'customer';
+  reason?: string;
+  txId?: string;
+  confirmations?: number;
+  data?: Record<string, string | number>;
+  createdAt: string;
+}
+
+export interface SessionEventsResponse {
+  sessionId: string;
+  events: SessionEvent[];
+}
+
 export interface SessionsResponse {
   sessions: Session[];
   total: number;
@@ -30,21 +114,85 @@ export interface Merchant {
   name: string;
   email: string;
   webhookUrl?: string;
+  paymentToleranceBps?: number;
+  defaultConfirmations?: number;
+  /** PNG data URL drawn in the centre of payment QR codes */
+  logo?: string | null;
+  /** Widget key; safe to embed in web pages */
+  publishableKey?: string;
   nextAddressIndex?: number;
+  addressGap?: AddressGap;
   createdAt: string;
   updatedAt?: string;
 }
 
+export interface ConfirmationTier {
+  below: string;
+  belowSompi?: string;
+  confirmations: number;
+}
+
+export interface ConfirmationPolicy {
+  tiers: ConfirmationTier[];
+  otherwise: number;
+}
+
+export interface PublishableKeyLimits {
+  minAmount: string | null;
+  maxAmount: string | null;
+  allowedOrigins: string[];
+}
+
+export interface MerchantSettings {
+  confirmationPolicy: ConfirmationPolicy | null;
+  paymentLabelTemplate: string | null;
+  paymentMessageTemplate: string | null;
+  publishableKeyLimits: PublishableKeyLimits | null;
+  updatedAt?: string;
+}
+
+export interface AddressGap {
+  gap: number;
+  limit: number;
+  nearLimit: boolean;
+  lastUsedIndex: number | null;
+  nextIndex: number;
+}
+
 export interface Stats {
   totalSessions: number;
   pendingSessions: number;
+  underpaidSessions: number;
   confirmingSessions: number;
   confirmedSessions: number;
+  overpaidSessions: number;
   expiredSessions: number;
+  cancelledSessions: number;
   totalReceived: string;
   totalReceivedSompi: string;
 }
 
+export interface AddressBalance {
+  address: string;
+  index: number;
+  path: string;
+  balance: string;
+  balanceSompi: string;
+  sessionCount: number;
+  lastSessionId?: string;
+  lastOrderId?: string;
+  lastSessionAt?: string;
+}
+
+export interface BalancesResponse {
+  totalBalance: string;
+  totalBalanceSompi: string;
+  addressesChecked: number;
+  addresses: AddressBalance[];
+  failedAddresses: string[];
+  generatedAt: string;
+}
+
 export interface ApiError {
   error: string;
   message: string;
@@ -53,6 +201,13 @@ export interface ApiError {
 
 export interface RegenerateKeyResponse {
   apiKey: string;
+  /** When the old key stops working (null if it already has) */
+  previousKeyExpiresAt: string | null;
+  message: string;
+}
+
+export interface RegeneratePublishableKeyResponse {
+  publishableKey: string;
   message: string;
 }
 
@@ -62,10 +217,21 @@ export interface RegenerateSecretResponse {
 }
 
 // Webhook Log types
-export type WebhookEvent = 'payment.pending' | 'payment.confirming' | 'payment.confirmed' | 'payment.expired';
+export type WebhookEvent =
+  | 'payment.pending'
+  | 'payment.underpaid'
+  | 'payment.overpaid'
+  | 'payment.confirming'
+  | 'payment.confirmed'
+  | 'payment.expired'
+  | 'payment.cancelled'
+  | 'payment.late'
+  | 'refund.created'
+  | 'refund.completed';
 
 export interface WebhookLog {
   id: string;
+  webhookId: string | null;
   sessionId: string;
   event: WebhookEvent;
   statusCode: number | null;
@@ -78,6 +244,46 @@ export interface WebhookLog {
   response: string | null;
 }
 
+export type ApiKeyScope = 'sessions:write' | 'sessions:read' | 'webhooks:manage' | 'analytics:read';
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  /** Leading characters of the key */
+  prefix: string;
+  scopes: ApiKeyScope[];
+  allowedIps: string[];
+  expiresAt: string | null;
+  expired: boolean;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  /** Set once the key has been rotated; it works until expiresAt */
+  rotatedTo: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ApiKeysResponse {
+  apiKeys: ApiKey[];
+}
+
+export interface CreateApiKeyRequest {
+  name: string;
+  scopes: ApiKeyScope[];
+  allowedIps?: string[];
+  expiresAt?: string;
+}
+
+/** A new key; the key itself is only returned once */
+export interface CreatedApiKey extends ApiKey {
+  key: string;
+}
+
+export interface RotatedApiKey extends CreatedApiKey {
+  previous: ApiKey;
+  message: string;
+}
+
 export interface WebhookLogsResponse {
   logs: WebhookLog[];
   total: number;
@@ -413,7 +413,7 @@ export class KasGateElement extends HTMLElement {
 
           ${!isTestnet ? `
             <div class="kg-qr-container">
-              <img class="kg-qr-code" src="${this.session.qrCode}" alt="Payment QR Code" />
+              <img class="kg-qr-code" src="${this.api?.resolveUrl(this.session.qrUrl) ?? ''}" alt="Payment QR Code" />
             </div>
           ` : ''}
 
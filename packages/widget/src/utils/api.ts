@@ -12,7 +12,8 @@ export interface SessionResponse {
   requiredConfirmations: number;
   txId?: string;
   orderId?: string;
-  qrCode: string;
+  /** Path of the QR code image, relative to the server */
+  qrUrl: string;
   createdAt: string;
   expiresAt: string;
   paidAt?: string;
@@ -36,6 +37,13 @@ export class ApiClient {
     this.apiKey = apiKey;
   }
 
+  /**
+   * Absolute URL of a server path (e.g. a session's qrUrl)
+   */
+  resolveUrl(path: string): string {
+    return `${this.baseUrl}${path}`;
+  }
+
   private async request<T>(
     method: string,
     path: string,
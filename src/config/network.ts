@@ -2,18 +2,23 @@
  * Network Configuration - The single source of truth for all network-specific settings
  *
  * CRITICAL: Everything network-specific comes from here.
- * Switch networks by changing KASPA_NETWORK env variable.
+ * Switch networks by changing KASPA_NETWORK env variable. `simnet` runs
+ * against an in-memory simulated network for local development and tests.
  */
 
 import 'dotenv/config';
 
-export type NetworkId = 'mainnet' | 'testnet-10';
+export type NetworkId = 'mainnet' | 'testnet-10' | 'simnet';
 
 export interface NetworkConfig {
   networkId: NetworkId;
   rpcUrl: string;
+  /** Public wRPC nodes, in order of preference (KASPA_RPC_URLS overrides) */
+  rpcEndpoints: string[];
   explorerUrl: string;
   apiUrl: string;
+  /** Kaspa REST API endpoints, in order of preference (KASPA_API_URLS overrides) */
+  apiEndpoints: string[];
   addressPrefix: string;
   confirmations: number;
 }
@@ -26,8 +31,15 @@ export const NETWORKS: Record<NetworkId, NetworkConfig> = {
     networkId: 'mainnet',
     // RPC URL - just hostname, kaspa-wasm adds the correct port (17110 for Borsh)
     rpcUrl: 'mainnet.kaspa.org',
+    // wRPC endpoints (Borsh encoding over WebSocket)
+    rpcEndpoints: [
+      'wss://wrpc.kaspa.org',
+      'wss://kaspa.aspectron.org',
+      'wss://kaspa-ng.aspectron.org',
+    ],
     explorerUrl: 'https://explorer.kaspa.org',
     apiUrl: 'https://api.kaspa.org',
+    apiEndpoints: ['https://api.kaspa.org'],
     addressPrefix: 'kaspa',
     confirmations: 10,
   },
@@ -35,11 +47,27 @@ export const NETWORKS: Record<NetworkId, NetworkConfig> = {
     networkId: 'testnet-10',
     // RPC URL - just hostname, kaspa-wasm adds the correct port (17210 for Borsh testnet-10)
     rpcUrl: 'tn10.kaspa.org',
+    rpcEndpoints: [
+      'wss://wrpc-tn10.kaspa.org',
+      'wss://tn10.kaspa.aspectron.org',
+    ],
     explorerUrl: 'https://explorer-tn10.kaspa.org',
     apiUrl: 'https://api-tn10.kaspa.org',
+    apiEndpoints: ['https://api-tn10.kaspa.org'],
     addressPrefix: 'kaspatest',
     confirmations: 10,
   },
+  'simnet': {
+    networkId: 'simnet',
+    // No node, explorer or public API: the simulated network runs in-process
+    rpcUrl: '',
+    rpcEndpoints: [],
+    explorerUrl: '',
+    apiUrl: '',
+    apiEndpoints: [],
+    addressPrefix: 'kaspasim',
+    confirmations: 10,
+  },
 };
 
 /**
@@ -60,7 +88,7 @@ export function getCurrentNetwork(): NetworkId {
  * Type guard to check if a string is a valid network ID
  */
 export function isValidNetwork(network: string): network is NetworkId {
-  return network === 'mainnet' || network === 'testnet-10';
+  return network === 'mainnet' || network === 'testnet-10' || network === 'simnet';
 }
 
 /**
@@ -70,31 +98,41 @@ export function isValidNetwork(network: string): network is NetworkId {
 export const NETWORK_CONFIG: NetworkConfig = NETWORKS[getCurrentNetwork()];
 
 /**
- * Helper to get explorer URL for a transaction
+ * wRPC endpoints to connect to: KASPA_RPC_URLS (comma-separated) or the
+ * network's defaults
  */
-export function getTransactionExplorerUrl(txId: string): string {
-  return `${NETWORK_CONFIG.explorerUrl}/txs/${txId}`;
+export function getRpcEndpoints(): string[] {
+  return parseEndpointList(process.env.KASPA_RPC_URLS) ?? NETWORK_CONFIG.rpcEndpoints;
 }
 
 /**
- * Helper to get explorer URL for an address
+ * REST API endpoints to use: KASPA_API_URLS (comma-separated) or the
+ * network's defaults
  */
-export function getAddressExplorerUrl(address: string): string {
-  return `${NETWORK_CONFIG.explorerUrl}/addresses/${address}`;
+export function getApiEndpoints(): string[] {
+  return parseEndpointList(process.env.KASPA_API_URLS) ?? NETWORK_CONFIG.apiEndpoints;
+}
+
+function parseEndpointList(value: string | undefined): string[] | null {
+  const urls = (value ?? '')
+    .split(',')
+    .map((url) => url.trim().replace(/\/+$/, ''))
+    .filter(Boolean);
+  return urls.length > 0 ? urls : null;
 }
 
 /**
- * Helper to get the REST API endpoint for an address's UTXOs
+ * Helper to get explorer URL for a transaction
  */
-export function getUtxoApiUrl(address: string): string {
-  return `${NETWORK_CONFIG.apiUrl}/addresses/${address}/utxos`;
+export function getTransactionExplorerUrl(txId: string): string {
+  return `${NETWORK_CONFIG.explorerUrl}/txs/${txId}`;
 }
 
 /**
- * Helper to get the REST API endpoint for address balance
+ * Helper to get explorer URL for an address
  */
-export function getBalanceApiUrl(address: string): string {
-  return `${NETWORK_CONFIG.apiUrl}/addresses/${address}/balance`;
+export function getAddressExplorerUrl(address: string): string {
+  return `${NETWORK_CONFIG.explorerUrl}/addresses/${address}`;
 }
 
 /**
@@ -111,5 +149,12 @@ export function isTestnet(): boolean {
   return NETWORK_CONFIG.networkId === 'testnet-10';
 }
 
+/**
+ * Check if we're on the simulated network
+ */
+export function isSimnet(): boolean {
+  return NETWORK_CONFIG.networkId === 'simnet';
+}
+
 // Log the active network on import (for debugging)
 console.log(`[KasGate] Network: ${NETWORK_CONFIG.networkId} (${NETWORK_CONFIG.addressPrefix}:...)`);
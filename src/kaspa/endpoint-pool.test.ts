@@ -0,0 +1,95 @@
+/**
+ * Endpoint Pool Tests
+ * Tests for latency and error scoring, demotion and REST failover
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EndpointPool } from './endpoint-pool.js';
+import { ENDPOINT_MAX_FAILURES, ENDPOINT_DEMOTION_MS } from '../shared/constants.js';
+
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+const A = 'https://a.example';
+const B = 'https://b.example';
+const C = 'https://c.example';
+
+describe('EndpointPool', () => {
+  let pool: EndpointPool;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mockFetch.mockReset();
+    pool = new EndpointPool('REST', [A, B, C]);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should prefer endpoints in configured order until they are measured', () => {
+    expect(pool.getEndpoints()).toEqual([A, B, C]);
+    expect(pool.best()).toBe(A);
+  });
+
+  it('should promote the fastest endpoint', () => {
+    pool.recordSuccess(A, 400);
+    pool.recordSuccess(B, 80);
+    pool.recordSuccess(C, 200);
+
+    expect(pool.getEndpoints()).toEqual([B, C, A]);
+  });
+
+  it('should score errors below a slower endpoint that works', () => {
+    pool.recordSuccess(A, 50);
+    pool.recordSuccess(B, 300);
+    pool.recordFailure(A);
+
+    expect(pool.best()).toBe(B);
+  });
+
+  it('should demote an endpoint after consecutive failures and retry it later', () => {
+    for (let i = 1; i < ENDPOINT_MAX_FAILURES; i++) {
+      expect(pool.recordFailure(A)).toBe(false);
+    }
+    expect(pool.recordFailure(A)).toBe(true);
+
+    expect(pool.isDemoted(A)).toBe(true);
+    expect(pool.getEndpoints().at(-1)).toBe(A);
+    expect(pool.getStatus().endpoints.find((e) => e.url === A)).toMatchObject({
+      healthy: false,
+      failures: ENDPOINT_MAX_FAILURES,
+    });
+
+    vi.advanceTimersByTime(ENDPOINT_DEMOTION_MS);
+    expect(pool.isDemoted(A)).toBe(false);
+  });
+
+  it('should fail over to the next endpoint on server errors', async () => {
+    mockFetch
+      .mockResolvedValueOnce({ ok: false, status: 503 })
+      .mockResolvedValueOnce({ ok: true, status: 200 });
+
+    const response = await pool.fetch('/info/blockdag');
+
+    expect(response.status).toBe(200);
+    expect(mockFetch.mock.calls.map(([url]) => url)).toEqual([`${A}/info/blockdag`, `${B}/info/blockdag`]);
+    expect(pool.getStatus().current).toBe(B);
+  });
+
+  it('should return client errors without failing over', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 404 });
+
+    const response = await pool.fetch('/transactions/unknown');
+
+    expect(response.status).toBe(404);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should throw the last network error when every endpoint fails', async () => {
+    mockFetch.mockRejectedValue(new Error('ECONNREFUSED'));
+
+    await expect(pool.fetch('/info/blockdag')).rejects.toThrow('ECONNREFUSED');
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+});
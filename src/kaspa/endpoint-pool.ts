@@ -0,0 +1,263 @@
+/**
+ * Endpoint Pool - Scored Failover Between Kaspa Endpoints
+ *
+ * Keeps a configured list of wRPC nodes or REST API endpoints and scores each
+ * by the requests actually made to it: smoothed latency plus a penalty for its
+ * error rate. The best-scoring endpoint is preferred; one that fails several
+ * times in a row is demoted for a while, promoting the next best in its place.
+ */
+
+import { getRpcEndpoints, getApiEndpoints } from '../config/network.js';
+import {
+  ENDPOINT_SMOOTHING,
+  ENDPOINT_UNMEASURED_LATENCY_MS,
+  ENDPOINT_ERROR_PENALTY_MS,
+  ENDPOINT_MAX_FAILURES,
+  ENDPOINT_DEMOTION_MS,
+} from '../shared/constants.js';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+interface EndpointState {
+  url: string;
+  /** Smoothed latency of successful requests, null until one succeeds */
+  latencyMs: number | null;
+  /** Smoothed share of failed requests, 0-1 */
+  errorRate: number;
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  demotedUntil: number | null;
+}
+
+export interface EndpointStatus {
+  url: string;
+  healthy: boolean;
+  latencyMs: number | null;
+  errorRate: number;
+  requests: number;
+  failures: number;
+  score: number;
+  demotedUntil: string | null;
+}
+
+export interface EndpointPoolStatus {
+  /** Endpoint of the last successful request (or connection) */
+  current: string | null;
+  endpoints: EndpointStatus[];
+}
+
+// ============================================================
+// ENDPOINT POOL CLASS
+// ============================================================
+
+export class EndpointPool {
+  private endpoints: EndpointState[];
+  private current: string | null = null;
+
+  constructor(readonly name: string, urls: string[]) {
+    this.endpoints = urls.map((url) => ({
+      url,
+      latencyMs: null,
+      errorRate: 0,
+      requests: 0,
+      failures: 0,
+      consecutiveFailures: 0,
+      demotedUntil: null,
+    }));
+  }
+
+  /**
+   * Endpoints in the order to try them: healthy ones by score (ties in
+   * configured order), then demoted ones by when their demotion ends
+   */
+  getEndpoints(): string[] {
+    const now = Date.now();
+    const healthy = this.endpoints.filter((e) => !this.isDemotedAt(e, now));
+    const demoted = this.endpoints.filter((e) => this.isDemotedAt(e, now));
+
+    return [
+      ...healthy.sort((a, b) => this.score(a) - this.score(b)),
+      ...demoted.sort((a, b) => a.demotedUntil! - b.demotedUntil!),
+    ].map((e) => e.url);
+  }
+
+  /**
+   * The endpoint to use next, or null if none are configured
+   */
+  best(): string | null {
+    return this.getEndpoints()[0] ?? null;
+  }
+
+  /**
+   * Check if an endpoint is currently demoted
+   */
+  isDemoted(url: string): boolean {
+    const endpoint = this.find(url);
+    return !!endpoint && this.isDemotedAt(endpoint, Date.now());
+  }
+
+  /**
+   * Record a successful request and how long it took
+   */
+  recordSuccess(url: string, latencyMs: number): void {
+    const endpoint = this.find(url);
+    if (!endpoint) return;
+
+    endpoint.requests++;
+    endpoint.consecutiveFailures = 0;
+    endpoint.demotedUntil = null;
+    endpoint.latencyMs = endpoint.latencyMs === null
+      ? latencyMs
+      : endpoint.latencyMs + ENDPOINT_SMOOTHING * (latencyMs - endpoint.latencyMs);
+    endpoint.errorRate -= ENDPOINT_SMOOTHING * endpoint.errorRate;
+    this.current = url;
+  }
+
+  /**
+   * Record a failed request; demotes the endpoint after ENDPOINT_MAX_FAILURES
+   * in a row
+   *
+   * @returns true if this failure demoted the endpoint
+   */
+  recordFailure(url: string): boolean {
+    const endpoint = this.find(url);
+    if (!endpoint) return false;
+
+    endpoint.requests++;
+    endpoint.failures++;
+    endpoint.consecutiveFailures++;
+    endpoint.errorRate += ENDPOINT_SMOOTHING * (1 - endpoint.errorRate);
+
+    if (endpoint.consecutiveFailures < ENDPOINT_MAX_FAILURES) return false;
+
+    endpoint.consecutiveFailures = 0;
+    endpoint.demotedUntil = Date.now() + ENDPOINT_DEMOTION_MS;
+    if (this.current === url) {
+      this.current = null;
+    }
+    console.warn(`[KasGate] ${this.name} endpoint ${url} demoted for ${ENDPOINT_DEMOTION_MS}ms after ${ENDPOINT_MAX_FAILURES} failures`);
+    return true;
+  }
+
+  /**
+   * Fetch a path from the best endpoint, failing over to the next one on
+   * network errors, 429 and 5xx
+   *
+   * @returns the first response that is not a retryable error, or the last
+   * response if every endpoint answered with one
+   */
+  async fetch(path: string, init?: RequestInit): Promise<Response> {
+    const urls = this.getEndpoints();
+    if (urls.length === 0) {
+      throw new Error(`No ${this.name} endpoints configured`);
+    }
+
+    let lastResponse: Response | null = null;
+    let lastError: unknown = null;
+
+    for (const url of urls) {
+      const startedAt = Date.now();
+      try {
+        const response = await fetch(`${url}${path}`, init);
+
+        if (response.status === 429 || response.status >= 500) {
+          this.recordFailure(url);
+          lastResponse = response;
+          continue;
+        }
+
+        this.recordSuccess(url, Date.now() - startedAt);
+        return response;
+      } catch (error) {
+        this.recordFailure(url);
+        lastError = error;
+      }
+    }
+
+    if (lastResponse) return lastResponse;
+    throw lastError;
+  }
+
+  /**
+   * Scores and demotions of every endpoint (for health checks)
+   */
+  getStatus(): EndpointPoolStatus {
+    const now = Date.now();
+    const order = this.getEndpoints();
+
+    return {
+      current: this.current,
+      endpoints: order.map((url) => {
+        const endpoint = this.find(url)!;
+        const demoted = this.isDemotedAt(endpoint, now);
+        return {
+          url,
+          healthy: !demoted,
+          latencyMs: endpoint.latencyMs === null ? null : Math.round(endpoint.latencyMs),
+          errorRate: Math.round(endpoint.errorRate * 100) / 100,
+          requests: endpoint.requests,
+          failures: endpoint.failures,
+          score: Math.round(this.score(endpoint)),
+          demotedUntil: demoted ? new Date(endpoint.demotedUntil!).toISOString() : null,
+        };
+      }),
+    };
+  }
+
+  // ============================================================
+  // PRIVATE METHODS
+  // ============================================================
+
+  private find(url: string): EndpointState | undefined {
+    return this.endpoints.find((e) => e.url === url);
+  }
+
+  /**
+   * Lower is better: smoothed latency plus the error rate penalty
+   */
+  private score(endpoint: EndpointState): number {
+    return (endpoint.latencyMs ?? ENDPOINT_UNMEASURED_LATENCY_MS) + endpoint.errorRate * ENDPOINT_ERROR_PENALTY_MS;
+  }
+
+  private isDemotedAt(endpoint: EndpointState, now: number): boolean {
+    return endpoint.demotedUntil !== null && endpoint.demotedUntil > now;
+  }
+}
+
+// ============================================================
+// SINGLETON INSTANCES
+// ============================================================
+
+let rpcEndpointPool: EndpointPool | null = null;
+let restEndpointPool: EndpointPool | null = null;
+
+/**
+ * Get the pool of wRPC nodes
+ */
+export function getRpcEndpointPool(): EndpointPool {
+  if (!rpcEndpointPool) {
+    rpcEndpointPool = new EndpointPool('RPC', getRpcEndpoints());
+  }
+  return rpcEndpointPool;
+}
+
+/**
+ * Get the pool of REST API endpoints
+ */
+export function getRestEndpointPool(): EndpointPool {
+  if (!restEndpointPool) {
+    restEndpointPool = new EndpointPool('REST', getApiEndpoints());
+  }
+  return restEndpointPool;
+}
+
+/**
+ * Reset the endpoint pools (for testing)
+ */
+export function resetEndpointPools(): void {
+  rpcEndpointPool = null;
+  restEndpointPool = null;
+}
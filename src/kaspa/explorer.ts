@@ -5,7 +5,7 @@
  * Uses the public Kaspa Explorer REST API to poll for transactions.
  */
 
-import { getCurrentNetwork } from '../config/network.js';
+import { getRestEndpointPool, EndpointPool } from './endpoint-pool.js';
 
 // ============================================================
 // TYPES
@@ -33,6 +33,19 @@ export interface ExplorerTransaction {
   }>;
 }
 
+export interface ExplorerTransactionAcceptance {
+  transaction_id: string;
+  is_accepted: boolean;
+  accepting_block_hash: string | null;
+}
+
+export interface ExplorerBlock {
+  header: {
+    hash: string;
+    daaScore: string;
+  };
+}
+
 export interface AddressTransaction {
   transactionId: string;
   amount: bigint; // amount received at this address
@@ -45,37 +58,23 @@ export interface AddressTransaction {
 // ============================================================
 
 export class ExplorerClient {
-  private baseUrl: string;
   private pollInterval: ReturnType<typeof setInterval> | null = null;
   private watchedAddresses: Map<string, {
     lastKnownBalance: bigint;
     onPayment: (tx: AddressTransaction) => void;
   }> = new Map();
 
-  constructor() {
-    this.baseUrl = this.getBaseUrl();
-  }
-
-  private getBaseUrl(): string {
-    const network = getCurrentNetwork();
-    switch (network) {
-      case 'mainnet':
-        return 'https://api.kaspa.org';
-      case 'testnet-10':
-        return 'https://api-tn10.kaspa.org';
-      default:
-        // Fallback for any unhandled networks (exhaustive check)
-        const _exhaustive: never = network;
-        return 'https://api-tn10.kaspa.org';
-    }
-  }
+  /**
+   * Requests go to the REST endpoint pool, failing over between endpoints
+   */
+  constructor(private pool: EndpointPool = getRestEndpointPool()) {}
 
   /**
    * Get balance for an address
    */
   async getBalance(address: string): Promise<bigint> {
     try {
-      const response = await fetch(`${this.baseUrl}/addresses/${address}/balance`);
+      const response = await this.pool.fetch(`/addresses/${address}/balance`);
       if (!response.ok) {
         throw new Error(`Explorer API error: ${response.status}`);
       }
@@ -92,9 +91,7 @@ export class ExplorerClient {
    */
   async getTransactions(address: string, limit: number = 10): Promise<AddressTransaction[]> {
     try {
-      const response = await fetch(
-        `${this.baseUrl}/addresses/${address}/full-transactions?limit=${limit}`
-      );
+      const response = await this.pool.fetch(`/addresses/${address}/full-transactions?limit=${limit}`);
       if (!response.ok) {
         throw new Error(`Explorer API error: ${response.status}`);
       }
@@ -119,6 +116,42 @@ export class ExplorerClient {
     }
   }
 
+  /**
+   * Look up whether a transaction was accepted, and by which block
+   *
+   * @returns null if the explorer does not know the transaction
+   */
+  async getTransactionAcceptance(txId: string): Promise<ExplorerTransactionAcceptance | null> {
+    try {
+      const response = await this.pool.fetch(`/transactions/${txId}?inputs=false&outputs=false`);
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        throw new Error(`Explorer API error: ${response.status}`);
+      }
+      return await response.json();
+    } catch (error) {
+      console.error(`[KasGate Explorer] Failed to get transaction ${txId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the DAA score of a block
+   */
+  async getBlockDaaScore(blockHash: string): Promise<bigint> {
+    try {
+      const response = await this.pool.fetch(`/blocks/${blockHash}?includeTransactions=false`);
+      if (!response.ok) {
+        throw new Error(`Explorer API error: ${response.status}`);
+      }
+      const block: ExplorerBlock = await response.json();
+      return BigInt(block.header.daaScore);
+    } catch (error) {
+      console.error(`[KasGate Explorer] Failed to get block ${blockHash}:`, error);
+      throw error;
+    }
+  }
+
   /**
    * Start watching an address for incoming payments
    * Uses polling as RPC fallback
@@ -220,7 +253,7 @@ export class ExplorerClient {
    */
   async isAvailable(): Promise<boolean> {
     try {
-      const response = await fetch(`${this.baseUrl}/info`, {
+      const response = await this.pool.fetch(`/info`, {
         signal: AbortSignal.timeout(5000),
       });
       return response.ok;
@@ -2,18 +2,23 @@
  * Kaspa RPC Client Manager
  *
  * Manages WebSocket RPC connections to Kaspa nodes with:
+ * - Configured wRPC endpoints tried by score, the Resolver as last resort
+ * - Latency and error scoring of the connected endpoint, reconnecting to the
+ *   next best when it is demoted
  * - Automatic reconnection with exponential backoff
  * - Connection health monitoring
  * - UTXO subscription management
  */
 
-import { RpcClient, Resolver, Encoding } from '@dfns/kaspa-wasm';
+import { RpcClient, Resolver } from '@dfns/kaspa-wasm';
 import { getCurrentNetwork } from '../config/network.js';
 import {
   RPC_RECONNECT_BASE_MS,
   RPC_RECONNECT_MAX_MS,
 } from '../shared/constants.js';
 import { ensureKaspaInitialized } from './init.js';
+import { getRpcEndpointPool, EndpointPool } from './endpoint-pool.js';
+import type { EndpointPoolStatus } from './endpoint-pool.js';
 import type { Utxo, UtxoChangedNotification } from './types.js';
 
 // ============================================================
@@ -44,9 +49,11 @@ export class RpcManager {
   private reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
   private subscribedAddresses: Set<string> = new Set();
   private handlers: RpcEventHandlers = {};
+  /** URL of the node connected to, null while disconnected */
+  private connectedEndpoint: string | null = null;
 
-  constructor() {
-    // Initialization happens in connect()
+  constructor(private pool: EndpointPool = getRpcEndpointPool()) {
+    // Connections happen in connect()
   }
 
   /**
@@ -63,6 +70,13 @@ export class RpcManager {
     return this.state === 'connected';
   }
 
+  /**
+   * Connected node and the scores of the configured endpoints (for health checks)
+   */
+  getEndpointStatus(): EndpointPoolStatus {
+    return { ...this.pool.getStatus(), current: this.connectedEndpoint };
+  }
+
   /**
    * Set event handlers
    */
@@ -70,23 +84,6 @@ export class RpcManager {
     this.handlers = { ...this.handlers, ...handlers };
   }
 
-  // Fallback RPC URLs when Resolver fails
-  // These are public wRPC endpoints (Borsh encoding over WebSocket)
-  private static readonly FALLBACK_URLS: Record<string, string[]> = {
-    'mainnet': [
-      'wss://wrpc.kaspa.org',
-      'wss://kaspa.aspectron.org',
-      'wss://kaspa-ng.aspectron.org',
-    ],
-    'testnet-10': [
-      'wss://wrpc-tn10.kaspa.org',
-      'wss://tn10.kaspa.aspectron.org',
-    ],
-    'testnet-11': [
-      'wss://wrpc-tn11.kaspa.org',
-    ],
-  };
-
   /**
    * Connect to the RPC server
    */
@@ -100,16 +97,16 @@ export class RpcManager {
 
     const networkId = getCurrentNetwork();
 
-    // Try Resolver first, then fallback URLs
-    const resolverError = await this.tryConnectWithResolver(networkId);
+    // Try the configured endpoints first, then the Resolver
+    const endpointError = await this.tryConnectToEndpoints(networkId);
 
-    if (resolverError) {
-      console.log(`[KasGate] Resolver failed, trying fallback URLs...`);
-      const fallbackError = await this.tryConnectWithFallbacks(networkId);
+    if (endpointError) {
+      console.log(`[KasGate] No configured endpoint reachable, trying Resolver...`);
+      const resolverError = await this.tryConnectWithResolver(networkId);
 
-      if (fallbackError) {
+      if (resolverError) {
         console.error(`[KasGate] All connection methods failed`);
-        this.handleConnectionError(fallbackError);
+        this.handleConnectionError(resolverError);
         return;
       }
     }
@@ -147,6 +144,7 @@ export class RpcManager {
       );
 
       await Promise.race([connectPromise, timeoutPromise]);
+      this.connectedEndpoint = this.client.url ?? 'resolver';
       return null;
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
@@ -156,14 +154,13 @@ export class RpcManager {
   }
 
   /**
-   * Try connecting using fallback URLs
+   * Try connecting to the configured endpoints, best score first
    */
-  private async tryConnectWithFallbacks(networkId: string): Promise<Error | null> {
-    const urls = RpcManager.FALLBACK_URLS[networkId] || [];
-
-    for (const url of urls) {
+  private async tryConnectToEndpoints(networkId: string): Promise<Error | null> {
+    for (const url of this.pool.getEndpoints()) {
+      const startedAt = Date.now();
       try {
-        console.log(`[KasGate] Trying fallback URL: ${url}`);
+        console.log(`[KasGate] Connecting to RPC endpoint: ${url}`);
 
         this.client = new RpcClient({
           url: url,
@@ -178,15 +175,18 @@ export class RpcManager {
         );
 
         await Promise.race([connectPromise, timeoutPromise]);
-        console.log(`[KasGate] Connected via fallback: ${url}`);
+        this.pool.recordSuccess(url, Date.now() - startedAt);
+        this.connectedEndpoint = url;
+        console.log(`[KasGate] Connected via ${url}`);
         return null;
       } catch (error) {
+        this.pool.recordFailure(url);
         const errorMsg = error instanceof Error ? error.message : String(error);
-        console.warn(`[KasGate] Fallback ${url} failed: ${errorMsg}`);
+        console.warn(`[KasGate] Endpoint ${url} failed: ${errorMsg}`);
       }
     }
 
-    return new Error('All fallback URLs failed');
+    return new Error('All configured endpoints failed');
   }
 
   /**
@@ -194,6 +194,7 @@ export class RpcManager {
    */
   async disconnect(): Promise<void> {
     this.cancelReconnect();
+    this.connectedEndpoint = null;
 
     if (this.client) {
       try {
@@ -249,10 +250,24 @@ export class RpcManager {
       throw new Error('RPC not connected');
     }
 
-    const result = await this.client.getSinkBlueScore();
+    const client = this.client;
+    const result = await this.measure(() => client.getSinkBlueScore());
     return BigInt(result.blueScore);
   }
 
+  /**
+   * Get the virtual DAA score (comparable with a UTXO's blockDaaScore)
+   */
+  async getVirtualDaaScore(): Promise<bigint> {
+    if (!this.client || this.state !== 'connected') {
+      throw new Error('RPC not connected');
+    }
+
+    const client = this.client;
+    const result = await this.measure(() => client.getBlockDagInfo());
+    return BigInt(result.virtualDaaScore);
+  }
+
   /**
    * Get UTXOs for an address
    */
@@ -261,7 +276,8 @@ export class RpcManager {
       throw new Error('RPC not connected');
     }
 
-    const response = await this.client.getUtxosByAddresses({ addresses: [address] });
+    const client = this.client;
+    const response = await this.measure(() => client.getUtxosByAddresses({ addresses: [address] }));
     return (response.entries || []).map((entry: any) => ({
       transactionId: entry.outpoint.transactionId,
       index: entry.outpoint.index,
@@ -280,6 +296,35 @@ export class RpcManager {
     this.state = state;
   }
 
+  /**
+   * Score a request against the connected endpoint; once failures demote it,
+   * reconnect to the next best
+   */
+  private async measure<T>(request: () => Promise<T>): Promise<T> {
+    const endpoint = this.connectedEndpoint;
+    const startedAt = Date.now();
+
+    try {
+      const result = await request();
+      if (endpoint) this.pool.recordSuccess(endpoint, Date.now() - startedAt);
+      return result;
+    } catch (error) {
+      if (endpoint && this.pool.recordFailure(endpoint)) {
+        this.switchEndpoint(endpoint);
+      }
+      throw error;
+    }
+  }
+
+  private switchEndpoint(demoted: string): void {
+    if (this.connectedEndpoint !== demoted) return;
+
+    console.warn(`[KasGate] RPC endpoint ${demoted} demoted, reconnecting to ${this.pool.best() ?? 'Resolver'}`);
+    this.disconnect()
+      .then(() => this.connect())
+      .catch((error) => console.error('[KasGate] RPC endpoint switch failed:', error));
+  }
+
   private setupEventHandlers(): void {
     if (!this.client) return;
 
@@ -361,7 +406,7 @@ export class RpcManager {
 
       try {
         await this.connect();
-      } catch (error) {
+      } catch {
         // Error handling is done in connect()
       }
     }, delay);
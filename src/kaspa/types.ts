@@ -150,11 +150,29 @@ export interface DerivedAddress {
  */
 export type PaymentStatus =
   | 'pending'      // Waiting for payment
+  | 'underpaid'    // Partial payment received, waiting for a top-up
   | 'confirming'   // Payment received, waiting for confirmations
   | 'confirmed'    // Payment confirmed
+  | 'overpaid'     // Payment confirmed, more than the expected amount received
   | 'expired'      // Session expired without payment
+  | 'cancelled'    // Session cancelled by the merchant or customer
   | 'failed';      // Payment failed
 
+/**
+ * Why a payment that was being confirmed failed
+ */
+export type PaymentFailureReason =
+  | 'reorged'       // The transaction dropped out of the chain
+  | 'double_spent'; // A conflicting transaction spent the same inputs
+
+/**
+ * What happens to funds that arrived after the session expired or was cancelled
+ */
+export type LatePaymentStatus =
+  | 'pending'      // Waiting for the merchant to decide
+  | 'accepted'     // Merchant accepted it; the session continues to confirming
+  | 'refund';      // Merchant will refund it to the customer
+
 /**
  * Payment session
  */
@@ -167,16 +185,30 @@ export interface PaymentSession {
   address: string;
   /** Amount in sompi */
   amount: bigint;
+  /** Total amount received so far in sompi */
+  amountReceived: bigint;
   /** Current status */
   status: PaymentStatus;
   /** Number of confirmations (if confirming/confirmed) */
   confirmations: number;
+  /** Confirmations needed before the payment counts as confirmed */
+  requiredConfirmations: number;
   /** Transaction ID (if payment received) */
   txId?: string;
+  /** DAA score of the block that accepted the payment; confirmations count from here */
+  acceptedDaaScore?: bigint;
   /** Merchant's order ID */
   orderId?: string;
   /** Additional metadata */
   metadata?: Record<string, string>;
+  /** Fiat price the session was created with (decimal string) */
+  fiatAmount?: string;
+  /** Fiat currency code (e.g. USD) */
+  fiatCurrency?: string;
+  /** Quoted exchange rate in fiat per KAS (decimal string) */
+  exchangeRate?: string;
+  /** When the quoted exchange rate stops being honoured */
+  quoteExpiresAt?: Date;
   /** When the session was created */
   createdAt: Date;
   /** When the session expires */
@@ -185,6 +217,32 @@ export interface PaymentSession {
   paidAt?: Date;
   /** When the payment was confirmed */
   confirmedAt?: Date;
+  /** When the session was cancelled */
+  cancelledAt?: Date;
+  /** Why the session was cancelled, if a reason was given */
+  cancellationReason?: string;
+  /** Why the payment failed (failed sessions only) */
+  failureReason?: PaymentFailureReason;
+  /** Set when funds arrived after the session expired or was cancelled */
+  latePaymentStatus?: LatePaymentStatus;
+  /** When the first late payment was detected */
+  latePaymentAt?: Date;
+}
+
+/**
+ * One transaction output received by a session's address
+ */
+export interface SessionPayment {
+  /** Transaction ID */
+  txId: string;
+  /** Output index within the transaction */
+  outputIndex: number;
+  /** Amount in sompi */
+  amount: bigint;
+  /** Block DAA score the output was accepted at */
+  blockDaaScore: bigint;
+  /** When KasGate recorded the output */
+  receivedAt: Date;
 }
 
 // ============================================================
@@ -202,6 +260,7 @@ export type WidgetState =
   | 'confirming' // Payment detected, waiting for confirmations
   | 'confirmed'  // Payment confirmed
   | 'expired'    // Session expired
+  | 'cancelled'  // Session cancelled
   | 'error';     // Error state
 
 /**
@@ -5,8 +5,6 @@
  * 1 KAS = 100,000,000 sompi (8 decimal places)
  */
 
-import { SOMPI_PER_KAS } from '../shared/constants.js';
-
 /**
  * Convert KAS to sompi
  *
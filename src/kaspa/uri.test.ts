@@ -0,0 +1,52 @@
+/**
+ * Payment URI Tests
+ * Tests for building and parsing BIP-21-style Kaspa payment URIs
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildPaymentUri, parsePaymentUri } from './uri.js';
+
+const ADDRESS = 'kaspa:qr0test1234567890abcdefghijklmnopqrstuvwxyz1234567890ab';
+
+describe('Payment URIs', () => {
+  it('should build a URI with the amount in KAS', () => {
+    expect(buildPaymentUri({ address: ADDRESS })).toBe(ADDRESS);
+    expect(buildPaymentUri({ address: ADDRESS, amount: 150000000n })).toBe(`${ADDRESS}?amount=1.5`);
+  });
+
+  it('should encode the label and message', () => {
+    const uri = buildPaymentUri({
+      address: ADDRESS,
+      amount: 1n,
+      label: 'Café & Co',
+      message: 'Order #42',
+    });
+
+    expect(uri).toBe(`${ADDRESS}?amount=0.00000001&label=Caf%C3%A9%20%26%20Co&message=Order%20%2342`);
+  });
+
+  it('should parse what it builds', () => {
+    const fields = { address: ADDRESS, amount: 1234567890n, label: 'Coffee Shop', message: 'Order 42?' };
+
+    expect(parsePaymentUri(buildPaymentUri(fields))).toEqual(fields);
+  });
+
+  it('should parse URIs from other wallets', () => {
+    expect(parsePaymentUri('kaspatest:qz0abc?message=Thanks+a+lot&foo=bar')).toEqual({
+      address: 'kaspatest:qz0abc',
+      message: 'Thanks a lot',
+    });
+    expect(parsePaymentUri('KASPA:qz0abc')).toEqual({ address: 'kaspa:qz0abc' });
+  });
+
+  it('should reject invalid URIs', () => {
+    expect(() => parsePaymentUri('bitcoin:1abc')).toThrow('Invalid Kaspa payment URI');
+    expect(() => parsePaymentUri('qz0abc')).toThrow('Invalid Kaspa payment URI');
+    expect(() => parsePaymentUri(`${ADDRESS}?amount=1.123456789`)).toThrow('Invalid amount');
+    expect(() => parsePaymentUri(`${ADDRESS}?amount=-1`)).toThrow('Invalid amount');
+  });
+
+  it('should reject required parameters it does not understand', () => {
+    expect(() => parsePaymentUri(`${ADDRESS}?req-expires=1700000000`)).toThrow('req-expires');
+  });
+});
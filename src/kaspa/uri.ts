@@ -0,0 +1,113 @@
+/**
+ * Kaspa Payment URIs
+ *
+ * BIP-21-style payment requests: the address (with its network prefix)
+ * followed by optional query parameters, e.g.
+ * `kaspa:qr...?amount=1.5&label=Coffee%20Shop&message=Order%2042`.
+ * Wallets that understand them fill in the amount, so customers no longer
+ * type it by hand.
+ */
+
+import { kasToSompi, sompiToKas } from './units.js';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface KaspaPaymentUri {
+  /** Full address including the network prefix */
+  address: string;
+  /** Amount in sompi */
+  amount?: bigint;
+  /** Who is being paid, e.g. the shop name */
+  label?: string;
+  /** What the payment is for */
+  message?: string;
+}
+
+/**
+ * Network prefixes a payment URI may use
+ */
+const ADDRESS_PREFIXES = ['kaspa', 'kaspatest', 'kaspasim'];
+
+// ============================================================
+// BUILDER
+// ============================================================
+
+/**
+ * Build a payment URI
+ *
+ * @example
+ * buildPaymentUri({ address: 'kaspa:qr...', amount: 150000000n })
+ * // 'kaspa:qr...?amount=1.5'
+ */
+export function buildPaymentUri(uri: KaspaPaymentUri): string {
+  const params: string[] = [];
+
+  if (uri.amount !== undefined) {
+    params.push(`amount=${sompiToKas(uri.amount)}`);
+  }
+  if (uri.label) {
+    params.push(`label=${encodeURIComponent(uri.label)}`);
+  }
+  if (uri.message) {
+    params.push(`message=${encodeURIComponent(uri.message)}`);
+  }
+
+  return params.length > 0 ? `${uri.address}?${params.join('&')}` : uri.address;
+}
+
+// ============================================================
+// PARSER
+// ============================================================
+
+/**
+ * Parse a payment URI
+ *
+ * Unknown parameters are ignored, except `req-` ones, which the payer must
+ * understand (as in BIP-21).
+ *
+ * @throws Error if the URI is not a valid Kaspa payment URI
+ */
+export function parsePaymentUri(uri: string): KaspaPaymentUri {
+  const queryStart = uri.indexOf('?');
+  const address = queryStart === -1 ? uri : uri.slice(0, queryStart);
+  const query = queryStart === -1 ? '' : uri.slice(queryStart + 1);
+
+  const separator = address.indexOf(':');
+  const prefix = address.slice(0, separator).toLowerCase();
+  const payload = address.slice(separator + 1);
+  if (separator === -1 || !ADDRESS_PREFIXES.includes(prefix) || !/^[a-z0-9]+$/.test(payload)) {
+    throw new Error(`Invalid Kaspa payment URI: ${uri}`);
+  }
+
+  const result: KaspaPaymentUri = { address: `${prefix}:${payload}` };
+
+  for (const param of query.split('&').filter(Boolean)) {
+    const equals = param.indexOf('=');
+    const key = equals === -1 ? param : param.slice(0, equals);
+    const value = equals === -1 ? '' : decodeURIComponent(param.slice(equals + 1).replace(/\+/g, ' '));
+
+    switch (key) {
+      case 'amount':
+        try {
+          result.amount = kasToSompi(value);
+        } catch {
+          throw new Error(`Invalid amount in Kaspa payment URI: ${value}`);
+        }
+        break;
+      case 'label':
+        result.label = value;
+        break;
+      case 'message':
+        result.message = value;
+        break;
+      default:
+        if (key.startsWith('req-')) {
+          throw new Error(`Unsupported required parameter in Kaspa payment URI: ${key}`);
+        }
+    }
+  }
+
+  return result;
+}
@@ -10,6 +10,7 @@ import helmet from 'helmet';
 import rateLimit from 'express-rate-limit';
 import path from 'path';
 import { notFoundHandler, errorHandler } from './middleware/error.js';
+import { isSimnet } from '../config/network.js';
 
 // Resolve paths - use PROJECT_ROOT env var or fall back to cwd()
 // In production, start the server from project root: node dist/server/index.js
@@ -20,6 +21,7 @@ const DIST_DIR = path.join(PROJECT_ROOT, 'dist');
 import healthRoutes from './routes/health.js';
 import sessionRoutes from './routes/sessions.js';
 import merchantRoutes from './routes/merchants.js';
+import simnetRoutes from './routes/simnet.js';
 
 // ============================================================
 // CORS CONFIGURATION (Bug #16 fix)
@@ -71,7 +73,8 @@ const apiCorsOptions: cors.CorsOptions = {
     }
   },
   methods: ['GET', 'POST', 'PATCH', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'Idempotency-Key'],
+  exposedHeaders: ['Idempotent-Replayed'],
   credentials: true, // Allow credentials for authenticated requests
 };
 
@@ -115,12 +118,31 @@ const sessionCreationLimiter = rateLimit({
   legacyHeaders: false,
 });
 
+/**
+ * Proxies whose X-Forwarded-For is trusted for the client IP (used by rate
+ * limits and API key IP allowlists): a hop count, "true", or a list of
+ * addresses and subnets
+ */
+function getTrustProxy(): number | boolean | string | undefined {
+  const value = process.env.TRUST_PROXY?.trim();
+
+  if (!value) return undefined;
+  if (/^\d+$/.test(value)) return parseInt(value, 10);
+  if (value === 'true' || value === 'false') return value === 'true';
+  return value;
+}
+
 /**
  * Create and configure the Express application
  */
 export function createApp(): express.Application {
   const app = express();
 
+  const trustProxy = getTrustProxy();
+  if (trustProxy !== undefined) {
+    app.set('trust proxy', trustProxy);
+  }
+
   // ============================================================
   // MIDDLEWARE
   // ============================================================
@@ -176,6 +198,11 @@ export function createApp(): express.Application {
   app.post('/api/v1/merchants', cors(apiCorsOptions), merchantCreationLimiter);
   app.use('/api/v1/merchants', cors(apiCorsOptions), merchantRoutes);
 
+  // Simulated network controls, for local development only
+  if (isSimnet()) {
+    app.use('/api/v1/simnet', cors(apiCorsOptions), simnetRoutes);
+  }
+
   // ============================================================
   // ERROR HANDLING
   // ============================================================
@@ -3,7 +3,9 @@
  */
 
 import Database from 'better-sqlite3';
-import { SCHEMA, MIGRATIONS } from './schema.js';
+import { SCHEMA, MIGRATIONS, merchantsTable } from './schema.js';
+import { API_KEY_PREFIX_LENGTH } from '../../shared/constants.js';
+import crypto from 'crypto';
 import path from 'path';
 import fs from 'fs';
 
@@ -58,6 +60,7 @@ export function initDatabase(customPath?: string): Database.Database {
 
   // Run migrations (idempotent - ignore errors for already-applied changes)
   runMigrations(db);
+  dropPlaintextApiKeys(db);
 
   if (!isMemory) {
     console.log('[KasGate] Database initialized');
@@ -94,8 +97,13 @@ function runMigrations(database: Database.Database): void {
   const migrations = MIGRATIONS.split(';').filter((m) => m.trim().length > 0);
 
   for (const migration of migrations) {
-    const sql = migration.trim();
-    if (!sql || sql.startsWith('--')) continue;
+    // Strip comment lines so a leading comment doesn't hide the statement
+    const sql = migration
+      .split('\n')
+      .filter((line) => !line.trim().startsWith('--'))
+      .join('\n')
+      .trim();
+    if (!sql) continue;
 
     try {
       database.exec(sql);
@@ -109,6 +117,51 @@ function runMigrations(database: Database.Database): void {
   }
 }
 
+/**
+ * Remove the plaintext secret keys of databases created before keys were
+ * stored only as hashes
+ *
+ * Hashes and prefixes are backfilled from the plaintext first. SQLite cannot
+ * drop a UNIQUE column, so the merchants table is rebuilt without it.
+ */
+function dropPlaintextApiKeys(database: Database.Database): void {
+  const columns = (database.pragma('table_info(merchants)') as { name: string }[]).map((c) => c.name);
+  if (!columns.includes('api_key')) return;
+
+  const kept = columns.filter((c) => c !== 'api_key').join(', ');
+  const indexes = database
+    .prepare("SELECT sql FROM sqlite_master WHERE type = 'index' AND tbl_name = 'merchants' AND sql IS NOT NULL")
+    .all() as { sql: string }[];
+
+  // Foreign keys from other tables would block dropping the old table
+  database.pragma('foreign_keys = OFF');
+  try {
+    database.transaction(() => {
+      const rows = database
+        .prepare('SELECT id, api_key, api_key_hash FROM merchants')
+        .all() as { id: string; api_key: string; api_key_hash: string | null }[];
+      const backfill = database.prepare('UPDATE merchants SET api_key_hash = ?, api_key_prefix = ? WHERE id = ?');
+
+      for (const row of rows) {
+        const hash = row.api_key_hash ?? crypto.createHash('sha256').update(row.api_key).digest('hex');
+        backfill.run(hash, row.api_key.slice(0, API_KEY_PREFIX_LENGTH), row.id);
+      }
+
+      database.exec(merchantsTable('merchants_rebuilt'));
+      database.exec(`INSERT INTO merchants_rebuilt (${kept}) SELECT ${kept} FROM merchants`);
+      database.exec('DROP TABLE merchants');
+      database.exec('ALTER TABLE merchants_rebuilt RENAME TO merchants');
+      for (const index of indexes) {
+        database.exec(index.sql);
+      }
+    })();
+  } finally {
+    database.pragma('foreign_keys = ON');
+  }
+
+  console.log('[KasGate] Dropped plaintext API keys; secret keys are now stored only as hashes');
+}
+
 // ============================================================
 // QUERY HELPERS
 // ============================================================
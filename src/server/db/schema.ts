@@ -2,21 +2,37 @@
  * Database Schema - SQLite table definitions
  */
 
-export const SCHEMA = `
--- Merchants table
-CREATE TABLE IF NOT EXISTS merchants (
+/**
+ * Merchants table, by name so startup migrations can rebuild it
+ */
+export function merchantsTable(name = 'merchants'): string {
+  return `
+CREATE TABLE IF NOT EXISTS ${name} (
   id TEXT PRIMARY KEY,
   name TEXT NOT NULL,
   email TEXT UNIQUE,
-  xpub TEXT NOT NULL,
-  api_key TEXT UNIQUE NOT NULL,
-  api_key_hash TEXT,  -- Bug #3: Timing-safe API key verification
+  xpub TEXT NOT NULL,  -- encrypted when KASGATE_MASTER_KEY is set
+  api_key_hash TEXT,  -- SHA-256 of the secret key, which is stored nowhere else (Bug #3)
+  api_key_prefix TEXT,  -- leading characters of the secret key, to look it up
+  previous_api_key_hash TEXT,  -- replaced secret key, still valid during its rotation grace period
+  previous_api_key_prefix TEXT,
+  previous_api_key_expires_at TEXT,
+  publishable_key TEXT,  -- pk_ key for the widget: creates sessions within publishable_key_limits
   webhook_url TEXT,
-  webhook_secret TEXT,
+  webhook_secret TEXT,  -- encrypted when KASGATE_MASTER_KEY is set
   next_address_index INTEGER DEFAULT 0,
+  payment_tolerance_bps INTEGER DEFAULT 0,  -- Accepted under/overpayment in basis points
+  default_confirmations INTEGER,  -- NULL uses the network default
+  logo TEXT,  -- PNG data URL drawn in the centre of payment QR codes
   created_at TEXT DEFAULT (datetime('now')),
   updated_at TEXT DEFAULT (datetime('now'))
 );
+`;
+}
+
+export const SCHEMA = `
+-- Merchants table
+${merchantsTable()}
 
 -- Payment sessions table
 CREATE TABLE IF NOT EXISTS sessions (
@@ -25,17 +41,30 @@ CREATE TABLE IF NOT EXISTS sessions (
   address TEXT NOT NULL,
   address_index INTEGER NOT NULL,
   amount TEXT NOT NULL,  -- sompi as string (bigint)
+  amount_received TEXT DEFAULT '0',  -- running total in sompi as string (bigint)
   status TEXT DEFAULT 'pending',
   subscription_token TEXT,  -- Bug #5: WebSocket authentication
   tx_id TEXT,
   confirmations INTEGER DEFAULT 0,
+  accepted_daa_score TEXT,  -- DAA score of the block that accepted the payment; confirmations count from here
+  required_confirmations INTEGER,  -- confirmations needed before the session is confirmed
+  confirmations_pinned INTEGER DEFAULT 0,  -- 1 when set at creation; the merchant policy does not override it
   order_id TEXT,
   metadata TEXT,  -- JSON string
   redirect_url TEXT,
+  fiat_amount TEXT,  -- decimal string, only for fiat-priced sessions
+  fiat_currency TEXT,
+  exchange_rate TEXT,  -- quoted fiat per KAS (decimal string)
+  quote_expires_at TEXT,
   created_at TEXT DEFAULT (datetime('now')),
   expires_at TEXT NOT NULL,
   paid_at TEXT,
-  confirmed_at TEXT
+  confirmed_at TEXT,
+  cancelled_at TEXT,
+  cancellation_reason TEXT,
+  failure_reason TEXT,  -- reorged or double_spent
+  late_payment_status TEXT,  -- set when funds arrive after expiry: pending, accepted or refund
+  late_payment_at TEXT
 );
 
 -- Create index for session lookups
@@ -44,18 +73,50 @@ CREATE INDEX IF NOT EXISTS idx_sessions_merchant ON sessions(merchant_id);
 CREATE INDEX IF NOT EXISTS idx_sessions_status ON sessions(status);
 CREATE INDEX IF NOT EXISTS idx_sessions_expires ON sessions(expires_at);
 
+-- Transaction outputs received by each session's address
+CREATE TABLE IF NOT EXISTS session_payments (
+  session_id TEXT NOT NULL REFERENCES sessions(id),
+  tx_id TEXT NOT NULL,
+  output_index INTEGER NOT NULL,
+  amount TEXT NOT NULL,  -- sompi as string (bigint)
+  block_daa_score TEXT NOT NULL,  -- bigint as string
+  created_at TEXT DEFAULT (datetime('now')),
+  PRIMARY KEY (session_id, tx_id, output_index)
+);
+
 -- Webhooks table (configured webhooks)
 CREATE TABLE IF NOT EXISTS webhooks (
   id TEXT PRIMARY KEY,
   merchant_id TEXT NOT NULL REFERENCES merchants(id),
   url TEXT NOT NULL,
-  secret TEXT NOT NULL,
+  secret TEXT NOT NULL,  -- encrypted when KASGATE_MASTER_KEY is set
   events TEXT NOT NULL,  -- JSON array of event types
   active INTEGER DEFAULT 1,
   created_at TEXT DEFAULT (datetime('now')),
-  updated_at TEXT DEFAULT (datetime('now'))
+  updated_at TEXT DEFAULT (datetime('now')),
+  deleted_at TEXT  -- Soft delete keeps delivery logs linked
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhooks_merchant ON webhooks(merchant_id);
+
+-- Refunds table (recorded refunds against paid sessions; sent by the merchant)
+CREATE TABLE IF NOT EXISTS refunds (
+  id TEXT PRIMARY KEY,
+  session_id TEXT NOT NULL REFERENCES sessions(id),
+  merchant_id TEXT NOT NULL REFERENCES merchants(id),
+  amount TEXT NOT NULL,  -- sompi as string (bigint)
+  address TEXT NOT NULL,  -- customer destination address
+  reason TEXT,
+  status TEXT DEFAULT 'pending',
+  baseline_daa_score TEXT NOT NULL,  -- UTXOs at or below this score predate the refund
+  tx_id TEXT,
+  created_at TEXT DEFAULT (datetime('now')),
+  completed_at TEXT
 );
 
+CREATE INDEX IF NOT EXISTS idx_refunds_session ON refunds(session_id);
+CREATE INDEX IF NOT EXISTS idx_refunds_status ON refunds(status);
+
 -- Webhook delivery logs
 CREATE TABLE IF NOT EXISTS webhook_logs (
   id TEXT PRIMARY KEY,
@@ -76,6 +137,68 @@ CREATE TABLE IF NOT EXISTS webhook_logs (
 CREATE INDEX IF NOT EXISTS idx_webhook_logs_session ON webhook_logs(session_id);
 CREATE INDEX IF NOT EXISTS idx_webhook_logs_status ON webhook_logs(status_code);
 CREATE INDEX IF NOT EXISTS idx_webhook_logs_retry ON webhook_logs(next_retry_at);
+
+-- Idempotency keys (replay protection for retried session creation)
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+  merchant_id TEXT NOT NULL REFERENCES merchants(id),
+  idempotency_key TEXT NOT NULL,
+  request_hash TEXT NOT NULL,  -- SHA-256 fingerprint of method, path and body
+  response_status INTEGER,  -- NULL while the original request is in flight
+  response_body TEXT,  -- JSON string
+  created_at TEXT DEFAULT (datetime('now')),
+  expires_at TEXT NOT NULL,
+  PRIMARY KEY (merchant_id, idempotency_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires ON idempotency_keys(expires_at);
+
+-- Merchant settings (optional policies, one row per merchant)
+CREATE TABLE IF NOT EXISTS merchant_settings (
+  merchant_id TEXT PRIMARY KEY REFERENCES merchants(id),
+  confirmation_policy TEXT,  -- JSON amount tiers; NULL uses the merchant's default confirmations
+  payment_label_template TEXT,    -- payment URI label, e.g. "{merchantName}"
+  payment_message_template TEXT,  -- payment URI message, e.g. "Order {orderId}"
+  publishable_key_limits TEXT,    -- JSON amount limits and allowed origins for the publishable key
+  created_at TEXT DEFAULT (datetime('now')),
+  updated_at TEXT DEFAULT (datetime('now'))
+);
+
+-- Session status history (one row per transition or confirmation milestone)
+CREATE TABLE IF NOT EXISTS session_events (
+  id TEXT PRIMARY KEY,
+  session_id TEXT NOT NULL REFERENCES sessions(id),
+  type TEXT NOT NULL,
+  from_status TEXT,
+  to_status TEXT,
+  actor TEXT NOT NULL,  -- system, merchant or customer
+  reason TEXT,
+  tx_id TEXT,
+  confirmations INTEGER,
+  data TEXT,  -- JSON string
+  created_at TEXT DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_session_events_session ON session_events(session_id, created_at);
+
+-- Named API keys with scopes (the merchant's secret key keeps full access)
+CREATE TABLE IF NOT EXISTS api_keys (
+  id TEXT PRIMARY KEY,
+  merchant_id TEXT NOT NULL REFERENCES merchants(id),
+  name TEXT NOT NULL,
+  key_hash TEXT UNIQUE NOT NULL,  -- SHA-256 of the key, which is only shown once
+  key_prefix TEXT NOT NULL,  -- leading characters, to recognise the key
+  scopes TEXT NOT NULL,  -- JSON array of scopes
+  allowed_ips TEXT,  -- JSON array of IPs and CIDR ranges; NULL allows any
+  expires_at TEXT,
+  last_used_at TEXT,
+  last_used_ip TEXT,
+  rotated_to TEXT,  -- the key that replaced this one; it works until expires_at
+  revoked_at TEXT,
+  created_at TEXT DEFAULT (datetime('now')),
+  updated_at TEXT DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_merchant ON api_keys(merchant_id);
 `;
 
 /**
@@ -90,4 +213,63 @@ ALTER TABLE sessions ADD COLUMN subscription_token TEXT;
 
 -- Add delivery_id for webhook replay protection/idempotency (Bug #14)
 ALTER TABLE webhook_logs ADD COLUMN delivery_id TEXT;
+
+-- Add running received amount for partial/overpayment handling
+ALTER TABLE sessions ADD COLUMN amount_received TEXT DEFAULT '0';
+
+-- Add per-merchant payment tolerance
+ALTER TABLE merchants ADD COLUMN payment_tolerance_bps INTEGER DEFAULT 0;
+
+-- Add soft delete for registered webhook endpoints
+ALTER TABLE webhooks ADD COLUMN deleted_at TEXT;
+
+-- Add fiat pricing with locked exchange rate quotes
+ALTER TABLE sessions ADD COLUMN fiat_amount TEXT;
+ALTER TABLE sessions ADD COLUMN fiat_currency TEXT;
+ALTER TABLE sessions ADD COLUMN exchange_rate TEXT;
+ALTER TABLE sessions ADD COLUMN quote_expires_at TEXT;
+
+-- Add per-merchant and per-session confirmation thresholds
+ALTER TABLE merchants ADD COLUMN default_confirmations INTEGER;
+ALTER TABLE sessions ADD COLUMN required_confirmations INTEGER;
+
+-- Keep explicitly requested confirmation thresholds out of the merchant policy
+ALTER TABLE sessions ADD COLUMN confirmations_pinned INTEGER DEFAULT 0;
+
+-- Add cancelled sessions, kept apart from expired ones
+ALTER TABLE sessions ADD COLUMN cancelled_at TEXT;
+ALTER TABLE sessions ADD COLUMN cancellation_reason TEXT;
+
+-- Flag payments that arrive after a session expired
+ALTER TABLE sessions ADD COLUMN late_payment_status TEXT;
+ALTER TABLE sessions ADD COLUMN late_payment_at TEXT;
+
+-- Count confirmations from the accepting block rather than from detection time
+ALTER TABLE sessions ADD COLUMN accepted_daa_score TEXT;
+
+-- Record why a confirming payment failed
+ALTER TABLE sessions ADD COLUMN failure_reason TEXT;
+
+-- Add merchant templates for the payment URI label and message
+ALTER TABLE merchant_settings ADD COLUMN payment_label_template TEXT;
+ALTER TABLE merchant_settings ADD COLUMN payment_message_template TEXT;
+
+-- Add a merchant logo for branded QR codes
+ALTER TABLE merchants ADD COLUMN logo TEXT;
+
+-- Add publishable keys for the widget, with limits on the sessions they create
+ALTER TABLE merchants ADD COLUMN publishable_key TEXT;
+UPDATE merchants SET publishable_key = 'pk_live_' || lower(hex(randomblob(24))) WHERE publishable_key IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_merchants_publishable_key ON merchants(publishable_key);
+ALTER TABLE merchant_settings ADD COLUMN publishable_key_limits TEXT;
+
+-- Look up secret keys by prefix (the plaintext api_key column is dropped on startup)
+ALTER TABLE merchants ADD COLUMN api_key_prefix TEXT;
+CREATE INDEX IF NOT EXISTS idx_merchants_api_key_prefix ON merchants(api_key_prefix);
+
+-- Keep a regenerated secret key valid for a grace period
+ALTER TABLE merchants ADD COLUMN previous_api_key_hash TEXT;
+ALTER TABLE merchants ADD COLUMN previous_api_key_prefix TEXT;
+ALTER TABLE merchants ADD COLUMN previous_api_key_expires_at TEXT;
+CREATE INDEX IF NOT EXISTS idx_merchants_previous_api_key_prefix ON merchants(previous_api_key_prefix);
 `;
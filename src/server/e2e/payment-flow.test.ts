@@ -6,6 +6,9 @@
  * 2. Simulate payment detection
  * 3. Simulate confirmations
  * 4. Verify webhook delivery
+ *
+ * The lifecycle tests at the end run the real payment monitor, session
+ * monitor and confirmation tracker against the simulated Kaspa network.
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
@@ -13,6 +16,10 @@ import { initDatabase, closeDatabase, execute } from '../db/index.js';
 import { resetMerchantService } from '../services/merchant.js';
 import { getSessionManager, resetSessionManager } from '../services/session.js';
 import { getWebhookService, resetWebhookService } from '../services/webhook.js';
+import { getPaymentMonitor, resetPaymentMonitor } from '../services/payment-monitor.js';
+import { getSessionMonitor, resetSessionMonitor } from '../services/session-monitor.js';
+import { resetConfirmationTracker } from '../services/confirmation.js';
+import { getSimulatedNetwork, resetSimulatedNetwork } from '../services/simnet.js';
 
 // Mock the address service to avoid WASM dependency
 vi.mock('../services/address.js', () => ({
@@ -24,6 +31,12 @@ vi.mock('../services/address.js', () => ({
   }),
 }));
 
+// Run the payment monitor on the simulated network, whatever KASPA_NETWORK says
+vi.mock('../services/chain-backend.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../services/chain-backend.js')>()),
+  createChainBackends: () => ({ primary: getSimulatedNetwork(), fallback: null }),
+}));
+
 // Mock xpub validation to avoid WASM dependency
 vi.mock('../../shared/validation.js', () => ({
   validateXPubWithWasm: vi.fn().mockReturnValue(true),
@@ -38,13 +51,12 @@ vi.stubGlobal('fetch', mockFetch);
 
 function createTestMerchant() {
   execute(
-    `INSERT INTO merchants (id, name, xpub, api_key, api_key_hash, webhook_url, webhook_secret, next_address_index, created_at, updated_at)
-     VALUES (?, ?, ?, ?, ?, ?, ?, ?, datetime('now'), datetime('now'))`,
+    `INSERT INTO merchants (id, name, xpub, api_key_hash, webhook_url, webhook_secret, next_address_index, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, datetime('now'), datetime('now'))`,
     [
       TEST_MERCHANT_ID,
       'E2E Test Merchant',
       TEST_XPUB,
-      'kg_e2etestkey123',
       'e2ehash1234',
       'https://example.com/webhook',
       'whsec_e2esecret123',
@@ -147,8 +159,8 @@ describe('E2E: Complete Payment Flow', () => {
     );
 
     // Expire old sessions
-    const expiredCount = sessionManager.expireOldSessions();
-    expect(expiredCount).toBe(1);
+    const expiredSessions = sessionManager.expireOldSessions();
+    expect(expiredSessions).toHaveLength(1);
 
     // Verify session is expired
     const expiredSession = sessionManager.getSession(session.id);
@@ -307,3 +319,111 @@ describe('E2E: Complete Payment Flow', () => {
     expect(signature).toMatch(/^[a-f0-9]{64}$/);
   });
 });
+
+describe('E2E: Payment Lifecycle on the Simulated Network', () => {
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    initDatabase(':memory:');
+    resetMerchantService();
+    resetSessionManager();
+    resetWebhookService();
+    resetSessionMonitor();
+    resetConfirmationTracker();
+    resetSimulatedNetwork();
+    await resetPaymentMonitor();
+    mockFetch.mockReset();
+    mockFetch.mockResolvedValue({ ok: true, status: 200 });
+    createTestMerchant();
+
+    await getPaymentMonitor().initialize();
+  });
+
+  afterEach(async () => {
+    resetConfirmationTracker();
+    await resetPaymentMonitor();
+    resetSimulatedNetwork();
+    closeDatabase();
+    vi.useRealTimers();
+  });
+
+  function webhookEvents(): string[] {
+    return mockFetch.mock.calls.map((call) => JSON.parse(call[1].body).event);
+  }
+
+  async function createWatchedSession(amount: bigint) {
+    const session = await getSessionManager().createSession({
+      merchantId: TEST_MERCHANT_ID,
+      amount,
+      requiredConfirmations: 10,
+    });
+    await getSessionMonitor().watch(session);
+    return session;
+  }
+
+  it('should take a payment from detection to confirmation', async () => {
+    const simnet = getSimulatedNetwork();
+    const session = await createWatchedSession(100000000n);
+
+    const txId = simnet.mintPayment(session.address, 100000000n);
+    await vi.waitFor(() => expect(getSessionManager().getSession(session.id)?.status).toBe('confirming'));
+    expect(getSessionManager().getSession(session.id)?.txId).toBe(txId);
+
+    simnet.advanceBlocks(5);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(getSessionManager().getSession(session.id)?.confirmations).toBe(5);
+
+    simnet.advanceBlocks(5);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(getSessionManager().getSession(session.id)?.status).toBe('confirmed');
+    expect(getPaymentMonitor().isMonitoring(session.address)).toBe(false);
+    expect(webhookEvents()).toEqual(['payment.confirming', 'payment.confirmed']);
+  });
+
+  it('should credit a payment split across two transactions', async () => {
+    const simnet = getSimulatedNetwork();
+    const session = await createWatchedSession(100000000n);
+
+    simnet.mintPayment(session.address, 60000000n);
+    await vi.waitFor(() => expect(getSessionManager().getSession(session.id)?.status).toBe('underpaid'));
+
+    simnet.mintPayment(session.address, 40000000n);
+    await vi.waitFor(() => expect(getSessionManager().getSession(session.id)?.status).toBe('confirming'));
+
+    expect(getSessionManager().getPayments(session.id)).toHaveLength(2);
+    expect(webhookEvents()).toEqual(['payment.underpaid', 'payment.confirming']);
+  });
+
+  it('should fail a payment that is reorged out while confirming', async () => {
+    const simnet = getSimulatedNetwork();
+    const session = await createWatchedSession(100000000n);
+
+    const txId = simnet.mintPayment(session.address, 100000000n);
+    await vi.waitFor(() => expect(getSessionManager().getSession(session.id)?.status).toBe('confirming'));
+
+    simnet.reorgTransaction(txId);
+    await vi.waitFor(() => expect(getSessionManager().getSession(session.id)?.status).toBe('failed'));
+
+    expect(getSessionManager().getSession(session.id)?.failureReason).toBe('reorged');
+    expect(webhookEvents()).toEqual(['payment.confirming', 'payment.failed']);
+
+    // No longer tracked: more blocks do not confirm it
+    simnet.advanceBlocks(20);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(getSessionManager().getSession(session.id)?.status).toBe('failed');
+  });
+
+  it('should keep confirming when the merchant spends the payment', async () => {
+    const simnet = getSimulatedNetwork();
+    const session = await createWatchedSession(100000000n);
+
+    const txId = simnet.mintPayment(session.address, 100000000n);
+    await vi.waitFor(() => expect(getSessionManager().getSession(session.id)?.status).toBe('confirming'));
+
+    simnet.spendOutputs(txId);
+    simnet.advanceBlocks(10);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(getSessionManager().getSession(session.id)?.status).toBe('confirmed');
+  });
+});
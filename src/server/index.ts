@@ -13,8 +13,13 @@ import { getPaymentMonitor } from './services/payment-monitor.js';
 import { getConfirmationTracker } from './services/confirmation.js';
 import { getWebhookService } from './services/webhook.js';
 import { getWebSocketManager } from './websocket/index.js';
-import { getSessionManager } from './services/session.js';
-import { NETWORK_CONFIG } from '../config/network.js';
+import { getSessionMonitor } from './services/session-monitor.js';
+import { getRefundService } from './services/refund.js';
+import { getIdempotencyService } from './services/idempotency.js';
+import { getSimulatedNetwork } from './services/simnet.js';
+import { getEncryptionService } from './services/encryption.js';
+import { NETWORK_CONFIG, isSimnet } from '../config/network.js';
+import { SIMNET_BLOCK_INTERVAL_MS } from '../shared/constants.js';
 
 const PORT = parseInt(process.env.PORT || '3001', 10);
 const HOST = process.env.HOST || 'localhost';
@@ -31,14 +36,39 @@ async function initializeServices(): Promise<void> {
   // Initialize database
   initDatabase();
 
+  // Encrypt secrets stored before a master key was configured
+  const encryption = getEncryptionService();
+  if (encryption.enabled) {
+    const { merchants, webhooks } = encryption.reencryptStoredSecrets(true);
+    console.log(`[KasGate] Secrets encrypted at rest (encrypted ${merchants} merchants, ${webhooks} webhooks now)`);
+  } else if (process.env.NODE_ENV === 'production') {
+    console.warn('[KasGate] KASGATE_MASTER_KEY is not set: webhook secrets and xPubs are stored unencrypted');
+  }
+
   // Initialize Kaspa WASM
   await initKaspa();
 
-  // Initialize payment monitor (non-blocking - connects in background)
+  // On simnet, produce blocks like a live network so confirmations advance
+  if (isSimnet()) {
+    getSimulatedNetwork().startMining(SIMNET_BLOCK_INTERVAL_MS);
+  }
+
+  // Initialize payment monitor (non-blocking - connects in background),
+  // then resume monitoring of pending sessions once RPC/REST is ready
   const paymentMonitor = getPaymentMonitor();
-  paymentMonitor.initialize().catch((err) => {
-    console.warn('[KasGate] Payment monitor init warning:', err.message);
-  });
+  const sessionMonitor = getSessionMonitor();
+  paymentMonitor.initialize()
+    .catch((err) => {
+      console.warn('[KasGate] Payment monitor init warning:', err.message);
+    })
+    .then(() => sessionMonitor.initialize())
+    .catch((err) => {
+      console.warn('[KasGate] Session monitor init warning:', err.message);
+    })
+    .then(() => getRefundService().initialize())
+    .catch((err) => {
+      console.warn('[KasGate] Refund service init warning:', err.message);
+    });
 
   // Initialize confirmation tracker (non-blocking)
   const confirmationTracker = getConfirmationTracker();
@@ -65,10 +95,12 @@ function startExpirationWorker(): void {
     clearInterval(expirationInterval);
   }
 
-  // Check for expired sessions every minute
+  // Check for expired sessions and idempotency keys every minute
   expirationInterval = setInterval(() => {
-    const sessionManager = getSessionManager();
-    sessionManager.expireOldSessions();
+    getSessionMonitor().expireOverdueSessions().catch((err) => {
+      console.error('[KasGate] Session expiration error:', err);
+    });
+    getIdempotencyService().purgeExpired();
   }, 60000);
 }
 
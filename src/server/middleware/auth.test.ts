@@ -0,0 +1,168 @@
+/**
+ * Authentication Middleware Tests
+ * Tests for secret, publishable and named keys and per-route scopes
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Request, Response } from 'express';
+import { requireAuth, requireCurrentSecretKey, optionalAuth } from './auth.js';
+import { getMerchantService, resetMerchantService, type Merchant } from '../services/merchant.js';
+import { getApiKeyService, resetApiKeyService } from '../services/api-key.js';
+import { initDatabase, closeDatabase } from '../db/index.js';
+
+function mockRequest(headers: Record<string, string> = {}, query: Record<string, string> = {}, ip?: string): Request {
+  return { headers, query, ip } as unknown as Request;
+}
+
+function mockResponse() {
+  const res = {
+    status: vi.fn(() => res),
+    json: vi.fn(() => res),
+  };
+  return res;
+}
+
+describe('Auth Middleware', () => {
+  let merchant: Merchant & { apiKey: string };
+
+  beforeEach(() => {
+    initDatabase(':memory:');
+    resetMerchantService();
+    resetApiKeyService();
+    merchant = getMerchantService().createMerchant({
+      name: 'Test Merchant',
+      xpub: 'kpub1234567890abcdefghijklmnopqrstuvwxyz1234567890abcdefghijklmnopqrstuvwxyz1234567890abcdefghijkl',
+    });
+  });
+
+  afterEach(() => {
+    closeDatabase();
+  });
+
+  describe('requireAuth', () => {
+    it('should accept the secret key on secret routes', () => {
+      const req = mockRequest({ authorization: `Bearer ${merchant.apiKey}` });
+      const next = vi.fn();
+
+      requireAuth()(req, mockResponse() as unknown as Response, next);
+
+      expect(next).toHaveBeenCalled();
+      expect(req.merchant?.id).toBe(merchant.id);
+      expect(req.apiKeyType).toBe('secret');
+    });
+
+    it('should reject the publishable key on secret routes', () => {
+      const res = mockResponse();
+      const next = vi.fn();
+
+      requireAuth()(mockRequest({ 'x-api-key': merchant.publishableKey! }), res as unknown as Response, next);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(403);
+    });
+
+    it('should accept either key on publishable routes', () => {
+      for (const key of [merchant.apiKey, merchant.publishableKey!]) {
+        const req = mockRequest({ authorization: `Bearer ${key}` });
+        const next = vi.fn();
+
+        requireAuth('publishable')(req, mockResponse() as unknown as Response, next);
+
+        expect(next).toHaveBeenCalled();
+        expect(req.apiKeyType).toBe(key === merchant.apiKey ? 'secret' : 'publishable');
+      }
+    });
+
+    it('should take only publishable keys from the query string', () => {
+      const publishable = mockRequest({}, { apiKey: merchant.publishableKey! });
+      const next = vi.fn();
+      requireAuth('publishable')(publishable, mockResponse() as unknown as Response, next);
+      expect(next).toHaveBeenCalled();
+
+      const res = mockResponse();
+      requireAuth('publishable')(mockRequest({}, { apiKey: merchant.apiKey }), res as unknown as Response, vi.fn());
+      expect(res.status).toHaveBeenCalledWith(401);
+    });
+  });
+
+  describe('requireCurrentSecretKey', () => {
+    it('should reject a regenerated secret key in its grace period', () => {
+      const { apiKey } = getMerchantService().regenerateApiKey(merchant.id, 3600)!;
+
+      const previous = mockRequest({ authorization: `Bearer ${merchant.apiKey}` });
+      const authenticated = vi.fn();
+      requireAuth()(previous, mockResponse() as unknown as Response, authenticated);
+      expect(authenticated).toHaveBeenCalled();
+      expect(previous.merchant).not.toHaveProperty('isPreviousKey');
+
+      const res = mockResponse();
+      const rejected = vi.fn();
+      requireCurrentSecretKey()(previous, res as unknown as Response, rejected);
+      expect(rejected).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(403);
+
+      const current = mockRequest({ authorization: `Bearer ${apiKey}` });
+      requireAuth()(current, mockResponse() as unknown as Response, vi.fn());
+      const next = vi.fn();
+      requireCurrentSecretKey()(current, mockResponse() as unknown as Response, next);
+      expect(next).toHaveBeenCalled();
+    });
+  });
+
+  describe('named keys', () => {
+    it('should accept a named key on routes needing one of its scopes', () => {
+      const { key } = getApiKeyService().createKey(merchant.id, { name: 'Reports', scopes: ['analytics:read'] });
+      const req = mockRequest({ authorization: `Bearer ${key}` });
+      const next = vi.fn();
+
+      requireAuth('analytics:read')(req, mockResponse() as unknown as Response, next);
+
+      expect(next).toHaveBeenCalled();
+      expect(req.merchant?.id).toBe(merchant.id);
+      expect(req.apiKeyType).toBe('named');
+      expect(getApiKeyService().getKey(merchant.id, req.namedApiKey!.id)?.lastUsedAt).toBeDefined();
+    });
+
+    it('should reject a named key without the scope or on secret routes', () => {
+      const { key } = getApiKeyService().createKey(merchant.id, { name: 'Reports', scopes: ['analytics:read'] });
+
+      for (const middleware of [requireAuth('sessions:write', 'publishable'), requireAuth()]) {
+        const res = mockResponse();
+        const next = vi.fn();
+
+        middleware(mockRequest({ 'x-api-key': key }), res as unknown as Response, next);
+
+        expect(next).not.toHaveBeenCalled();
+        expect(res.status).toHaveBeenCalledWith(403);
+      }
+    });
+
+    it('should reject a named key from outside its IP allowlist', () => {
+      const { key } = getApiKeyService().createKey(merchant.id, {
+        name: 'Backend',
+        scopes: ['sessions:read'],
+        allowedIps: ['203.0.113.0/24'],
+      });
+
+      const allowed = vi.fn();
+      requireAuth('sessions:read')(mockRequest({ 'x-api-key': key }, {}, '203.0.113.9'), mockResponse() as unknown as Response, allowed);
+      expect(allowed).toHaveBeenCalled();
+
+      const res = mockResponse();
+      requireAuth('sessions:read')(mockRequest({ 'x-api-key': key }, {}, '198.51.100.1'), res as unknown as Response, vi.fn());
+      expect(res.status).toHaveBeenCalledWith(403);
+    });
+  });
+
+  describe('optionalAuth', () => {
+    it('should not treat a publishable key as the merchant on secret routes', () => {
+      const req = mockRequest({ authorization: `Bearer ${merchant.publishableKey}` });
+      const next = vi.fn();
+
+      optionalAuth()(req, mockResponse() as unknown as Response, next);
+
+      expect(next).toHaveBeenCalled();
+      expect(req.merchant).toBeUndefined();
+    });
+  });
+});
@@ -1,21 +1,47 @@
 /**
  * Authentication Middleware
  *
- * Verifies API keys and attaches merchant to request.
+ * Verifies API keys and attaches merchant to request. Merchants have a secret
+ * (`sk_`) key with full access, a publishable (`pk_`) key for the widget and
+ * named (`rk_`) keys limited to scopes; each route lists the scopes that admit
+ * keys other than the secret key.
  */
 
 import { Request, Response, NextFunction } from 'express';
-import { getMerchantService, Merchant } from '../services/merchant.js';
+import { getMerchantService, isPublishableKey, Merchant } from '../services/merchant.js';
+import { getApiKeyService, isNamedApiKey, isIpAllowed, type ApiKey } from '../services/api-key.js';
+import type { ApiKeyScope } from '../../shared/validation.js';
+
+/**
+ * What admits a key other than the secret key to a route: 'publishable'
+ * admits the publishable key, an API key scope admits named keys holding it
+ */
+export type AuthScope = 'publishable' | ApiKeyScope;
+
+export type ApiKeyType = 'secret' | 'publishable' | 'named';
 
 // Extend Express Request type
 declare global {
   namespace Express {
     interface Request {
       merchant?: Merchant;
+      /** Kind of key the merchant authenticated with */
+      apiKeyType?: ApiKeyType;
+      /** The named key the merchant authenticated with */
+      namedApiKey?: ApiKey;
+      /** Whether the secret key is a regenerated one in its grace period */
+      isPreviousSecretKey?: boolean;
     }
   }
 }
 
+interface Authentication {
+  merchant: Merchant;
+  apiKeyType: ApiKeyType;
+  namedApiKey?: ApiKey;
+  isPreviousSecretKey?: boolean;
+}
+
 /**
  * Extract API key from request
  */
@@ -32,8 +58,9 @@ function extractApiKey(req: Request): string | null {
     return apiKeyHeader;
   }
 
-  // Check query parameter (for widget initialization)
-  if (typeof req.query.apiKey === 'string') {
+  // Check query parameter (for widget initialization) - publishable keys only,
+  // so secret keys never end up in URLs and access logs
+  if (typeof req.query.apiKey === 'string' && isPublishableKey(req.query.apiKey)) {
     return req.query.apiKey;
   }
 
@@ -41,53 +68,150 @@ function extractApiKey(req: Request): string | null {
 }
 
 /**
- * Middleware to require API key authentication
+ * Look up the merchant of a secret, publishable or named key
  */
-export function requireAuth(req: Request, res: Response, next: NextFunction): void {
-  const apiKey = extractApiKey(req);
-
-  if (!apiKey) {
-    res.status(401).json({
-      error: 'Unauthorized',
-      message: 'API key required. Provide via Authorization header, X-API-Key header, or apiKey query parameter.',
-    });
-    return;
+function authenticate(apiKey: string): Authentication | null {
+  const merchantService = getMerchantService();
+
+  if (isPublishableKey(apiKey)) {
+    const merchant = merchantService.verifyPublishableKey(apiKey);
+    return merchant ? { merchant, apiKeyType: 'publishable' } : null;
   }
 
-  const merchantService = getMerchantService();
-  const merchant = merchantService.verifyApiKey(apiKey);
-
-  if (!merchant) {
-    res.status(401).json({
-      error: 'Unauthorized',
-      message: 'Invalid API key.',
-    });
-    return;
+  if (isNamedApiKey(apiKey)) {
+    const namedApiKey = getApiKeyService().verifyKey(apiKey);
+    if (!namedApiKey) return null;
+
+    const merchant = merchantService.getMerchant(namedApiKey.merchantId);
+    return merchant ? { merchant, apiKeyType: 'named', namedApiKey } : null;
   }
 
-  // Attach merchant to request
-  req.merchant = merchant;
+  const verified = merchantService.verifyApiKey(apiKey);
+  if (!verified) return null;
 
-  next();
+  const { isPreviousKey, ...merchant } = verified;
+  return { merchant, apiKeyType: 'secret', isPreviousSecretKey: isPreviousKey };
+}
+
+/**
+ * Why an authenticated key may not use a route, or null if it may
+ */
+function checkAccess(auth: Authentication, scopes: AuthScope[], ip: string | undefined): string | null {
+  switch (auth.apiKeyType) {
+    case 'secret':
+      return null;
+    case 'publishable':
+      return scopes.includes('publishable') ? null : 'This endpoint requires a secret API key.';
+    case 'named': {
+      const { namedApiKey } = auth;
+      if (!isIpAllowed(namedApiKey!.allowedIps, ip)) {
+        return 'This API key may not be used from this IP address.';
+      }
+      const needed = scopes.filter((scope): scope is ApiKeyScope => scope !== 'publishable');
+      if (needed.length === 0) {
+        return 'This endpoint requires a secret API key.';
+      }
+      if (!needed.some((scope) => namedApiKey!.scopes.includes(scope))) {
+        return `This API key lacks the ${needed.join(' or ')} scope.`;
+      }
+      return null;
+    }
+  }
+}
+
+function attach(req: Request, auth: Authentication): void {
+  req.merchant = auth.merchant;
+  req.apiKeyType = auth.apiKeyType;
+  req.namedApiKey = auth.namedApiKey;
+  req.isPreviousSecretKey = auth.isPreviousSecretKey;
+
+  if (auth.namedApiKey) {
+    getApiKeyService().recordUsage(auth.namedApiKey, req.ip);
+  }
+}
+
+/**
+ * Middleware to require API key authentication
+ *
+ * @param scopes - what admits keys other than the secret key; none means the
+ * secret key only
+ */
+export function requireAuth(...scopes: AuthScope[]) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const apiKey = extractApiKey(req);
+
+    if (!apiKey) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'API key required. Provide via Authorization header or X-API-Key header (publishable keys may also use the apiKey query parameter).',
+      });
+      return;
+    }
+
+    const auth = authenticate(apiKey);
+
+    if (!auth) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Invalid API key.',
+      });
+      return;
+    }
+
+    const denied = checkAccess(auth, scopes, req.ip);
+
+    if (denied) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: denied,
+      });
+      return;
+    }
+
+    // Attach merchant to request
+    attach(req, auth);
+
+    next();
+  };
 }
 
 /**
  * Middleware for optional authentication
- * Attaches merchant if valid API key provided, but doesn't require it
+ * Attaches merchant if a valid API key for the scopes is provided, but doesn't require it
+ *
+ * @param scopes - what admits keys other than the secret key; none means the
+ * secret key only
  */
-export function optionalAuth(req: Request, res: Response, next: NextFunction): void {
-  const apiKey = extractApiKey(req);
+export function optionalAuth(...scopes: AuthScope[]) {
+  return (req: Request, _res: Response, next: NextFunction): void => {
+    const apiKey = extractApiKey(req);
+    const auth = apiKey ? authenticate(apiKey) : null;
 
-  if (apiKey) {
-    const merchantService = getMerchantService();
-    const merchant = merchantService.verifyApiKey(apiKey);
+    if (auth && !checkAccess(auth, scopes, req.ip)) {
+      attach(req, auth);
+    }
 
-    if (merchant) {
-      req.merchant = merchant;
+    next();
+  };
+}
+
+/**
+ * Middleware to refuse a regenerated secret key that is still in its grace
+ * period, so a leaked old key cannot issue or replace keys and secrets
+ * Must be used after requireAuth
+ */
+export function requireCurrentSecretKey() {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (req.isPreviousSecretKey) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'This API key has been regenerated; use the current secret key to manage keys and secrets.',
+      });
+      return;
     }
-  }
 
-  next();
+    next();
+  };
 }
 
 /**
@@ -40,6 +40,10 @@ export class ApiError extends Error {
     return new ApiError(409, message, 'CONFLICT');
   }
 
+  static unprocessable(message: string): ApiError {
+    return new ApiError(422, message, 'UNPROCESSABLE_ENTITY');
+  }
+
   static tooManyRequests(message: string = 'Too many requests'): ApiError {
     return new ApiError(429, message, 'TOO_MANY_REQUESTS');
   }
@@ -47,6 +51,10 @@ export class ApiError extends Error {
   static internal(message: string = 'Internal server error'): ApiError {
     return new ApiError(500, message, 'INTERNAL_ERROR');
   }
+
+  static serviceUnavailable(message: string = 'Service unavailable'): ApiError {
+    return new ApiError(503, message, 'SERVICE_UNAVAILABLE');
+  }
 }
 
 /**
@@ -77,7 +85,7 @@ export function errorHandler(
   err: Error,
   req: Request,
   res: Response,
-  next: NextFunction
+  _next: NextFunction
 ): void {
   // Log the error
   console.error('[KasGate] Error:', err);
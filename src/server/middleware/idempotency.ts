@@ -0,0 +1,85 @@
+/**
+ * Idempotency Middleware
+ *
+ * Honours the Idempotency-Key header on authenticated POST endpoints.
+ * Must run after requireAuth, since keys are scoped per merchant.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { ApiError } from './error.js';
+import { getIdempotencyService, fingerprintRequest } from '../services/idempotency.js';
+import { IDEMPOTENCY_KEY_MAX_LENGTH } from '../../shared/constants.js';
+
+/**
+ * Printable ASCII without spaces
+ */
+const idempotencyKeyRegex = /^[\x21-\x7e]+$/;
+
+/**
+ * Middleware to replay the stored response for a repeated Idempotency-Key
+ *
+ * - First use: the request runs and a 2xx response is stored for 24 hours
+ * - Same key and body: the stored response is replayed
+ * - Same key, different body: 422
+ * - Same key while the first request is still running: 409
+ */
+export function idempotent(req: Request, res: Response, next: NextFunction): void {
+  const key = req.get('Idempotency-Key');
+  const merchant = req.merchant;
+
+  if (key === undefined || !merchant) {
+    next();
+    return;
+  }
+
+  if (key.length > IDEMPOTENCY_KEY_MAX_LENGTH || !idempotencyKeyRegex.test(key)) {
+    next(ApiError.badRequest(
+      `Idempotency-Key must be 1-${IDEMPOTENCY_KEY_MAX_LENGTH} printable characters without spaces`
+    ));
+    return;
+  }
+
+  const idempotencyService = getIdempotencyService();
+  const requestHash = fingerprintRequest(req.method, req.baseUrl + req.path, req.body);
+  const claim = idempotencyService.claim(merchant.id, key, requestHash);
+
+  switch (claim.state) {
+    case 'replay':
+      res.set('Idempotent-Replayed', 'true');
+      res.status(claim.statusCode).json(claim.body);
+      return;
+
+    case 'mismatch':
+      next(ApiError.unprocessable('Idempotency-Key was already used with a different request'));
+      return;
+
+    case 'in_progress':
+      next(ApiError.conflict('A request with this Idempotency-Key is still being processed'));
+      return;
+  }
+
+  // Store successful responses; release the key on errors so the client can retry
+  let settled = false;
+  const originalJson = res.json.bind(res);
+
+  res.json = (body: unknown) => {
+    if (!settled) {
+      settled = true;
+      if (res.statusCode >= 200 && res.statusCode < 300) {
+        idempotencyService.complete(merchant.id, key, res.statusCode, body);
+      } else {
+        idempotencyService.release(merchant.id, key);
+      }
+    }
+    return originalJson(body);
+  };
+
+  res.on('close', () => {
+    if (!settled) {
+      settled = true;
+      idempotencyService.release(merchant.id, key);
+    }
+  });
+
+  next();
+}
@@ -41,8 +41,10 @@ export function validateBody<T>(schema: ZodSchema<T>) {
 
 /**
  * Middleware to validate query parameters
+ *
+ * Query values arrive as strings, so the schema may coerce and default them.
  */
-export function validateQuery<T>(schema: ZodSchema<T>) {
+export function validateQuery<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>) {
   return (req: Request, res: Response, next: NextFunction): void => {
     try {
       req.query = schema.parse(req.query) as any;
@@ -19,13 +19,12 @@ vi.stubGlobal('fetch', mockFetch);
 
 function createTestMerchant(webhookUrl: string | null = 'https://example.com/webhook') {
   execute(
-    `INSERT INTO merchants (id, name, xpub, api_key, api_key_hash, webhook_url, webhook_secret, next_address_index, created_at, updated_at)
-     VALUES (?, ?, ?, ?, ?, ?, ?, ?, datetime('now'), datetime('now'))`,
+    `INSERT INTO merchants (id, name, xpub, api_key_hash, webhook_url, webhook_secret, next_address_index, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, datetime('now'), datetime('now'))`,
     [
       TEST_MERCHANT_ID,
       'Test Merchant',
       TEST_XPUB,
-      'kg_testkey123',
       'abcd1234',
       webhookUrl,
       'whsec_testsecret123',
@@ -312,9 +311,9 @@ describe('Merchants Webhook Logs Endpoint', () => {
 
       const otherMerchantId = crypto.randomUUID();
       execute(
-        `INSERT INTO merchants (id, name, xpub, api_key, api_key_hash, created_at, updated_at)
-         VALUES (?, ?, ?, ?, ?, datetime('now'), datetime('now'))`,
-        [otherMerchantId, 'Other Merchant', TEST_XPUB + '2', 'kg_other', 'otherhash']
+        `INSERT INTO merchants (id, name, xpub, api_key_hash, created_at, updated_at)
+         VALUES (?, ?, ?, ?, datetime('now'), datetime('now'))`,
+        [otherMerchantId, 'Other Merchant', TEST_XPUB + '2', 'otherhash']
       );
 
       const webhookService = getWebhookService();
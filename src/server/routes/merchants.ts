@@ -4,14 +4,40 @@
 
 import { Router } from 'express';
 import { z } from 'zod';
-import { requireAuth } from '../middleware/auth.js';
-import { validateBody } from '../middleware/validation.js';
+import { requireAuth, requireCurrentSecretKey } from '../middleware/auth.js';
+import { validateBody, validateParams, validateQuery } from '../middleware/validation.js';
 import { asyncHandler, ApiError } from '../middleware/error.js';
 import { getMerchantService } from '../services/merchant.js';
-import { getSessionManager } from '../services/session.js';
-import { getWebhookService } from '../services/webhook.js';
-import { sompiToKas } from '../../kaspa/units.js';
-import { validateXPubWithWasm } from '../../shared/validation.js';
+import { getMerchantSettingsService, type MerchantSettings } from '../services/merchant-settings.js';
+import { getAddressService } from '../services/address.js';
+import { getSessionManager, isPaidStatus } from '../services/session.js';
+import { getWebhookService, type WebhookEndpoint } from '../services/webhook.js';
+import { getBalanceService } from '../services/balance.js';
+import { getApiKeyService, isValidIpRange, type ApiKey } from '../services/api-key.js';
+import { decodeLogo } from '../services/qr.js';
+import { kasToSompi, sompiToKas } from '../../kaspa/units.js';
+import {
+  validateXPubWithWasm,
+  webhookEventSchema,
+  apiKeyScopeSchema,
+  sessionStatusSchema,
+  latePaymentStatusSchema,
+} from '../../shared/validation.js';
+import {
+  MAX_PAYMENT_TOLERANCE_BPS,
+  MAX_WEBHOOK_ENDPOINTS,
+  MIN_CONFIRMATIONS,
+  MAX_CONFIRMATIONS,
+  MAX_CONFIRMATION_POLICY_TIERS,
+  MAX_PAYMENT_TEMPLATE_LENGTH,
+  MAX_LOGO_BYTES,
+  MAX_LOGO_DIMENSION,
+  MAX_ALLOWED_ORIGINS,
+  MAX_API_KEYS,
+  MAX_API_KEY_ALLOWED_IPS,
+  API_KEY_ROTATION_DEFAULT_GRACE_SECONDS,
+  API_KEY_ROTATION_MAX_GRACE_SECONDS,
+} from '../../shared/constants.js';
 
 const router = Router();
 
@@ -33,13 +59,193 @@ const createMerchantSchema = z.object({
   webhookUrl: z.string().url().optional(),
 });
 
+const confirmationsSchema = z.number().int().min(MIN_CONFIRMATIONS).max(MAX_CONFIRMATIONS);
+
 const updateMerchantSchema = z.object({
   name: z.string().min(1).max(100).optional(),
   email: z.string().email().optional(),
   xpub: xpubValidation.optional(),
   webhookUrl: z.string().url().optional(),
+  paymentToleranceBps: z.number().int().min(0).max(MAX_PAYMENT_TOLERANCE_BPS).optional(),
+  defaultConfirmations: confirmationsSchema.optional(),
+  logo: z.string()
+    .refine((logo) => decodeLogo(logo) !== null, {
+      message: `Logo must be a PNG data URL of at most ${MAX_LOGO_BYTES / 1024}KB and ${MAX_LOGO_DIMENSION}x${MAX_LOGO_DIMENSION} pixels`,
+    })
+    .nullable()
+    .optional(),
+});
+
+/**
+ * Amount tiers in KAS, e.g. `[{ below: '10', confirmations: 1 }]` with `otherwise: 60`
+ */
+const confirmationPolicySchema = z.object({
+  tiers: z.array(z.object({
+    below: z.string().regex(/^\d+(\.\d{1,8})?$/, 'Invalid amount format'),
+    confirmations: confirmationsSchema,
+  })).max(MAX_CONFIRMATION_POLICY_TIERS),
+  otherwise: confirmationsSchema,
+}).refine((policy) => policy.tiers.every(
+  (tier, i) => i === 0 || kasToSompi(tier.below) > kasToSompi(policy.tiers[i - 1].below)
+), {
+  message: 'Tiers must be in ascending order of amount',
+  path: ['tiers'],
+});
+
+/**
+ * Payment URI label or message, e.g. `Order {orderId}`; empty or null removes it
+ */
+const paymentTemplateSchema = z.string().max(MAX_PAYMENT_TEMPLATE_LENGTH).nullable().optional();
+
+const kasAmountSchema = z.string().regex(/^\d+(\.\d{1,8})?$/, 'Invalid amount format');
+
+/**
+ * Limits on sessions created with the publishable key, amounts in KAS
+ */
+const publishableKeyLimitsSchema = z.object({
+  minAmount: kasAmountSchema.nullable().optional(),
+  maxAmount: kasAmountSchema.nullable().optional(),
+  allowedOrigins: z.array(
+    z.string().url().refine((url) => new URL(url).origin === url, {
+      message: 'Origins are scheme://host[:port] without a path',
+    })
+  ).max(MAX_ALLOWED_ORIGINS).default([]),
+}).refine((limits) => !limits.minAmount || !limits.maxAmount || kasToSompi(limits.minAmount) <= kasToSompi(limits.maxAmount), {
+  message: 'minAmount must not exceed maxAmount',
+  path: ['maxAmount'],
+});
+
+const updateSettingsSchema = z.object({
+  confirmationPolicy: confirmationPolicySchema.nullable().optional(),
+  paymentLabelTemplate: paymentTemplateSchema,
+  paymentMessageTemplate: paymentTemplateSchema,
+  publishableKeyLimits: publishableKeyLimitsSchema.nullable().optional(),
+});
+
+const createWebhookSchema = z.object({
+  url: z.string().url(),
+  events: z.array(webhookEventSchema).min(1),
+});
+
+const updateWebhookSchema = z.object({
+  url: z.string().url().optional(),
+  events: z.array(webhookEventSchema).min(1).optional(),
+  active: z.boolean().optional(),
+});
+
+const webhookIdParamsSchema = z.object({
+  webhookId: z.string().uuid(),
+});
+
+const allowedIpsSchema = z.array(
+  z.string().refine(isValidIpRange, { message: 'Must be an IP address or CIDR range' })
+).max(MAX_API_KEY_ALLOWED_IPS);
+
+const futureDateSchema = z.string().datetime().refine((date) => new Date(date).getTime() > Date.now(), {
+  message: 'Must be in the future',
+});
+
+const createApiKeySchema = z.object({
+  name: z.string().min(1).max(100),
+  scopes: z.array(apiKeyScopeSchema).min(1),
+  allowedIps: allowedIpsSchema.optional(),
+  expiresAt: futureDateSchema.optional(),
+});
+
+const updateApiKeySchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  scopes: z.array(apiKeyScopeSchema).min(1).optional(),
+  allowedIps: allowedIpsSchema.optional(),
+  expiresAt: futureDateSchema.nullable().optional(),
+});
+
+const rotateApiKeySchema = z.object({
+  gracePeriodSeconds: z.number().int().min(0).max(API_KEY_ROTATION_MAX_GRACE_SECONDS)
+    .default(API_KEY_ROTATION_DEFAULT_GRACE_SECONDS),
+});
+
+// Malformed limit and offset fall back to the defaults rather than failing
+const sessionsQuerySchema = z.object({
+  limit: z.coerce.number().int().positive().catch(20),
+  offset: z.coerce.number().int().min(0).catch(0),
+  status: sessionStatusSchema.optional(),
+  latePayment: latePaymentStatusSchema.optional(),
+});
+
+// Opt-in: integrations relying on the old key being revoked at once keep that behaviour
+const regenerateApiKeySchema = z.object({
+  gracePeriodSeconds: z.number().int().min(0).max(API_KEY_ROTATION_MAX_GRACE_SECONDS).default(0),
 });
 
+const apiKeyIdParamsSchema = z.object({
+  keyId: z.string().uuid(),
+});
+
+/**
+ * Serialize a registered webhook endpoint (secret is never included)
+ */
+function endpointToJson(endpoint: WebhookEndpoint) {
+  return {
+    id: endpoint.id,
+    url: endpoint.url,
+    events: endpoint.events,
+    active: endpoint.active,
+    createdAt: endpoint.createdAt.toISOString(),
+    updatedAt: endpoint.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Serialize a named API key (never the key itself, only its prefix)
+ */
+function apiKeyToJson(apiKey: ApiKey) {
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    prefix: apiKey.prefix,
+    scopes: apiKey.scopes,
+    allowedIps: apiKey.allowedIps,
+    expiresAt: apiKey.expiresAt?.toISOString() ?? null,
+    expired: getApiKeyService().isExpired(apiKey),
+    lastUsedAt: apiKey.lastUsedAt?.toISOString() ?? null,
+    lastUsedIp: apiKey.lastUsedIp ?? null,
+    rotatedTo: apiKey.rotatedTo ?? null,
+    createdAt: apiKey.createdAt.toISOString(),
+    updatedAt: apiKey.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Serialize merchant settings (policy amounts in KAS)
+ */
+function settingsToJson(settings: MerchantSettings) {
+  const policy = settings.confirmationPolicy;
+  const limits = settings.publishableKeyLimits;
+
+  return {
+    confirmationPolicy: policy
+      ? {
+          tiers: policy.tiers.map((t) => ({
+            below: sompiToKas(t.below),
+            belowSompi: t.below.toString(),
+            confirmations: t.confirmations,
+          })),
+          otherwise: policy.otherwise,
+        }
+      : null,
+    paymentLabelTemplate: settings.paymentLabelTemplate ?? null,
+    paymentMessageTemplate: settings.paymentMessageTemplate ?? null,
+    publishableKeyLimits: limits
+      ? {
+          minAmount: limits.minAmount !== undefined ? sompiToKas(limits.minAmount) : null,
+          maxAmount: limits.maxAmount !== undefined ? sompiToKas(limits.maxAmount) : null,
+          allowedOrigins: limits.allowedOrigins,
+        }
+      : null,
+    updatedAt: settings.updatedAt?.toISOString(),
+  };
+}
+
 // ============================================================
 // ROUTES
 // ============================================================
@@ -75,6 +281,7 @@ router.post(
       name: merchant.name,
       email: merchant.email,
       apiKey: merchant.apiKey,
+      publishableKey: merchant.publishableKey,
       webhookUrl: merchant.webhookUrl,
       webhookSecret: merchant.webhookSecret,
       createdAt: merchant.createdAt.toISOString(),
@@ -87,7 +294,7 @@ router.post(
  */
 router.get(
   '/me',
-  requireAuth,
+  requireAuth(),
   asyncHandler(async (req, res) => {
     const merchant = req.merchant!;
 
@@ -95,8 +302,13 @@ router.get(
       id: merchant.id,
       name: merchant.name,
       email: merchant.email,
+      publishableKey: merchant.publishableKey,
       webhookUrl: merchant.webhookUrl,
+      paymentToleranceBps: merchant.paymentToleranceBps,
+      defaultConfirmations: merchant.defaultConfirmations,
+      logo: merchant.logo ?? null,
       nextAddressIndex: merchant.nextAddressIndex,
+      addressGap: getAddressService().getAddressGap(merchant.id),
       createdAt: merchant.createdAt.toISOString(),
       updatedAt: merchant.updatedAt.toISOString(),
     });
@@ -108,7 +320,7 @@ router.get(
  */
 router.patch(
   '/me',
-  requireAuth,
+  requireAuth(),
   validateBody(updateMerchantSchema),
   asyncHandler(async (req, res) => {
     const merchant = req.merchant!;
@@ -133,30 +345,118 @@ router.patch(
       name: updated.name,
       email: updated.email,
       webhookUrl: updated.webhookUrl,
+      paymentToleranceBps: updated.paymentToleranceBps,
+      defaultConfirmations: updated.defaultConfirmations,
+      logo: updated.logo ?? null,
       updatedAt: updated.updatedAt.toISOString(),
     });
   })
 );
 
+/**
+ * GET /merchants/me/settings - Get merchant settings
+ */
+router.get(
+  '/me/settings',
+  requireAuth(),
+  asyncHandler(async (req, res) => {
+    const merchant = req.merchant!;
+
+    res.json(settingsToJson(getMerchantSettingsService().getSettings(merchant.id)));
+  })
+);
+
+/**
+ * PATCH /merchants/me/settings - Update merchant settings
+ *
+ * The confirmation policy applies to sessions without an explicit
+ * requiredConfirmations, when their payment is received. The payment
+ * templates fill in the label and message of session payment URIs. The
+ * publishable key limits bound the sessions the widget can create.
+ */
+router.patch(
+  '/me/settings',
+  requireAuth(),
+  validateBody(updateSettingsSchema),
+  asyncHandler(async (req, res) => {
+    const merchant = req.merchant!;
+    const {
+      confirmationPolicy,
+      paymentLabelTemplate,
+      paymentMessageTemplate,
+      publishableKeyLimits,
+    } = req.body as z.infer<typeof updateSettingsSchema>;
+
+    const settings = getMerchantSettingsService().updateSettings(merchant.id, {
+      confirmationPolicy: confirmationPolicy && {
+        tiers: confirmationPolicy.tiers.map((t) => ({
+          below: kasToSompi(t.below),
+          confirmations: t.confirmations,
+        })),
+        otherwise: confirmationPolicy.otherwise,
+      },
+      paymentLabelTemplate,
+      paymentMessageTemplate,
+      publishableKeyLimits: publishableKeyLimits && {
+        minAmount: publishableKeyLimits.minAmount ? kasToSompi(publishableKeyLimits.minAmount) : undefined,
+        maxAmount: publishableKeyLimits.maxAmount ? kasToSompi(publishableKeyLimits.maxAmount) : undefined,
+        allowedOrigins: publishableKeyLimits.allowedOrigins,
+      },
+    });
+
+    res.json(settingsToJson(settings));
+  })
+);
+
 /**
  * POST /merchants/me/regenerate-api-key - Regenerate API key
+ * The old key keeps working for gracePeriodSeconds (default 0, so it stops at once)
  */
 router.post(
   '/me/regenerate-api-key',
-  requireAuth,
+  requireAuth(),
+  requireCurrentSecretKey(),
+  validateBody(regenerateApiKeySchema),
   asyncHandler(async (req, res) => {
     const merchant = req.merchant!;
     const merchantService = getMerchantService();
 
-    const newApiKey = merchantService.regenerateApiKey(merchant.id);
+    const result = merchantService.regenerateApiKey(merchant.id, req.body.gracePeriodSeconds);
 
-    if (!newApiKey) {
+    if (!result) {
       throw ApiError.internal('Failed to regenerate API key');
     }
 
     res.json({
-      apiKey: newApiKey,
-      message: 'API key regenerated. Update your integrations with the new key.',
+      apiKey: result.apiKey,
+      previousKeyExpiresAt: result.previousKeyExpiresAt?.toISOString() ?? null,
+      message: result.previousKeyExpiresAt
+        ? `API key regenerated. The old key works until ${result.previousKeyExpiresAt.toISOString()}; update your integrations with the new key.`
+        : 'API key regenerated. The old key no longer works; update your integrations with the new key.',
+    });
+  })
+);
+
+/**
+ * POST /merchants/me/regenerate-publishable-key - Regenerate the widget's publishable key
+ */
+router.post(
+  '/me/regenerate-publishable-key',
+  requireAuth(),
+  requireCurrentSecretKey(),
+  asyncHandler(async (req, res) => {
+    const merchant = req.merchant!;
+    const merchantService = getMerchantService();
+
+    const newKey = merchantService.regeneratePublishableKey(merchant.id);
+
+    if (!newKey) {
+      throw ApiError.internal('Failed to regenerate publishable key');
+    }
+
+    res.json({
+      publishableKey: newKey,
+      message: 'Publishable key regenerated. Update the api-key attribute of your widgets.',
     });
   })
 );
@@ -166,7 +466,8 @@ router.post(
  */
 router.post(
   '/me/regenerate-webhook-secret',
-  requireAuth,
+  requireAuth(),
+  requireCurrentSecretKey(),
   asyncHandler(async (req, res) => {
     const merchant = req.merchant!;
     const merchantService = getMerchantService();
@@ -184,25 +485,320 @@ router.post(
   })
 );
 
+/**
+ * GET /merchants/me/api-keys - List named API keys
+ */
+router.get(
+  '/me/api-keys',
+  requireAuth(),
+  asyncHandler(async (req, res) => {
+    const merchant = req.merchant!;
+    const apiKeyService = getApiKeyService();
+
+    res.json({
+      apiKeys: apiKeyService.listKeys(merchant.id).map(apiKeyToJson),
+    });
+  })
+);
+
+/**
+ * POST /merchants/me/api-keys - Create a named API key
+ */
+router.post(
+  '/me/api-keys',
+  requireAuth(),
+  requireCurrentSecretKey(),
+  validateBody(createApiKeySchema),
+  asyncHandler(async (req, res) => {
+    const merchant = req.merchant!;
+    const apiKeyService = getApiKeyService();
+
+    if (apiKeyService.listKeys(merchant.id).length >= MAX_API_KEYS) {
+      throw ApiError.badRequest(`A merchant can have at most ${MAX_API_KEYS} API keys`);
+    }
+
+    const apiKey = apiKeyService.createKey(merchant.id, {
+      name: req.body.name,
+      scopes: req.body.scopes,
+      allowedIps: req.body.allowedIps,
+      expiresAt: req.body.expiresAt ? new Date(req.body.expiresAt) : undefined,
+    });
+
+    res.status(201).json({
+      ...apiKeyToJson(apiKey),
+      key: apiKey.key,
+    });
+  })
+);
+
+/**
+ * GET /merchants/me/api-keys/:keyId - Get a named API key
+ */
+router.get(
+  '/me/api-keys/:keyId',
+  requireAuth(),
+  validateParams(apiKeyIdParamsSchema),
+  asyncHandler(async (req, res) => {
+    const merchant = req.merchant!;
+    const apiKeyService = getApiKeyService();
+
+    const apiKey = apiKeyService.getKey(merchant.id, req.params.keyId as string);
+
+    if (!apiKey) {
+      throw ApiError.notFound('API key not found');
+    }
+
+    res.json(apiKeyToJson(apiKey));
+  })
+);
+
+/**
+ * PATCH /merchants/me/api-keys/:keyId - Update a named API key
+ */
+router.patch(
+  '/me/api-keys/:keyId',
+  requireAuth(),
+  requireCurrentSecretKey(),
+  validateParams(apiKeyIdParamsSchema),
+  validateBody(updateApiKeySchema),
+  asyncHandler(async (req, res) => {
+    const merchant = req.merchant!;
+    const apiKeyService = getApiKeyService();
+    const { expiresAt, ...input } = req.body;
+
+    const existing = apiKeyService.getKey(merchant.id, req.params.keyId as string);
+
+    if (existing?.rotatedTo && expiresAt !== undefined) {
+      throw ApiError.badRequest('API key has been rotated; its expiry is the end of the grace period');
+    }
+
+    const apiKey = apiKeyService.updateKey(merchant.id, req.params.keyId as string, {
+      ...input,
+      expiresAt: expiresAt === undefined ? undefined : expiresAt && new Date(expiresAt),
+    });
+
+    if (!apiKey) {
+      throw ApiError.notFound('API key not found');
+    }
+
+    res.json(apiKeyToJson(apiKey));
+  })
+);
+
+/**
+ * DELETE /merchants/me/api-keys/:keyId - Revoke a named API key immediately
+ */
+router.delete(
+  '/me/api-keys/:keyId',
+  requireAuth(),
+  requireCurrentSecretKey(),
+  validateParams(apiKeyIdParamsSchema),
+  asyncHandler(async (req, res) => {
+    const merchant = req.merchant!;
+    const apiKeyService = getApiKeyService();
+
+    const revoked = apiKeyService.revokeKey(merchant.id, req.params.keyId as string);
+
+    if (!revoked) {
+      throw ApiError.notFound('API key not found');
+    }
+
+    res.json({
+      id: req.params.keyId,
+      revoked: true,
+    });
+  })
+);
+
+/**
+ * POST /merchants/me/api-keys/:keyId/rotate - Replace a named API key
+ *
+ * The new key has the same name, scopes, allowlist and expiry; the old key
+ * keeps working for gracePeriodSeconds so integrations can switch over.
+ */
+router.post(
+  '/me/api-keys/:keyId/rotate',
+  requireAuth(),
+  requireCurrentSecretKey(),
+  validateParams(apiKeyIdParamsSchema),
+  validateBody(rotateApiKeySchema),
+  asyncHandler(async (req, res) => {
+    const merchant = req.merchant!;
+    const apiKeyService = getApiKeyService();
+
+    const apiKey = apiKeyService.getKey(merchant.id, req.params.keyId as string);
+
+    if (!apiKey) {
+      throw ApiError.notFound('API key not found');
+    }
+
+    if (apiKeyService.isExpired(apiKey)) {
+      throw ApiError.badRequest('API key has expired; create a new key instead');
+    }
+
+    if (apiKey.rotatedTo) {
+      throw ApiError.badRequest('API key has already been rotated; rotate its replacement instead');
+    }
+
+    const rotation = apiKeyService.rotateKey(merchant.id, apiKey.id, req.body.gracePeriodSeconds)!;
+
+    res.status(201).json({
+      ...apiKeyToJson(rotation.key),
+      key: rotation.key.key,
+      previous: apiKeyToJson(rotation.previous),
+      message: `API key rotated. The old key works until ${rotation.previous.expiresAt!.toISOString()}.`,
+    });
+  })
+);
+
+/**
+ * GET /merchants/me/webhooks - List registered webhook endpoints
+ */
+router.get(
+  '/me/webhooks',
+  requireAuth('webhooks:manage'),
+  asyncHandler(async (req, res) => {
+    const merchant = req.merchant!;
+    const webhookService = getWebhookService();
+
+    res.json({
+      webhooks: webhookService.listEndpoints(merchant.id).map(endpointToJson),
+    });
+  })
+);
+
+/**
+ * POST /merchants/me/webhooks - Register a webhook endpoint
+ */
+router.post(
+  '/me/webhooks',
+  requireAuth('webhooks:manage'),
+  validateBody(createWebhookSchema),
+  asyncHandler(async (req, res) => {
+    const merchant = req.merchant!;
+    const webhookService = getWebhookService();
+
+    if (webhookService.listEndpoints(merchant.id).length >= MAX_WEBHOOK_ENDPOINTS) {
+      throw ApiError.badRequest(`A merchant can register at most ${MAX_WEBHOOK_ENDPOINTS} webhook endpoints`);
+    }
+
+    const endpoint = webhookService.createEndpoint(merchant.id, {
+      url: req.body.url,
+      events: req.body.events,
+    });
+
+    res.status(201).json({
+      ...endpointToJson(endpoint),
+      secret: endpoint.secret,
+    });
+  })
+);
+
+/**
+ * GET /merchants/me/webhooks/:webhookId - Get a webhook endpoint
+ */
+router.get(
+  '/me/webhooks/:webhookId',
+  requireAuth('webhooks:manage'),
+  validateParams(webhookIdParamsSchema),
+  asyncHandler(async (req, res) => {
+    const merchant = req.merchant!;
+    const webhookService = getWebhookService();
+
+    const endpoint = webhookService.getEndpoint(merchant.id, req.params.webhookId as string);
+
+    if (!endpoint) {
+      throw ApiError.notFound('Webhook endpoint not found');
+    }
+
+    res.json(endpointToJson(endpoint));
+  })
+);
+
+/**
+ * PATCH /merchants/me/webhooks/:webhookId - Update a webhook endpoint
+ */
+router.patch(
+  '/me/webhooks/:webhookId',
+  requireAuth('webhooks:manage'),
+  validateParams(webhookIdParamsSchema),
+  validateBody(updateWebhookSchema),
+  asyncHandler(async (req, res) => {
+    const merchant = req.merchant!;
+    const webhookService = getWebhookService();
+
+    const endpoint = webhookService.updateEndpoint(merchant.id, req.params.webhookId as string, req.body);
+
+    if (!endpoint) {
+      throw ApiError.notFound('Webhook endpoint not found');
+    }
+
+    res.json(endpointToJson(endpoint));
+  })
+);
+
+/**
+ * DELETE /merchants/me/webhooks/:webhookId - Delete a webhook endpoint
+ */
+router.delete(
+  '/me/webhooks/:webhookId',
+  requireAuth('webhooks:manage'),
+  validateParams(webhookIdParamsSchema),
+  asyncHandler(async (req, res) => {
+    const merchant = req.merchant!;
+    const webhookService = getWebhookService();
+
+    const deleted = webhookService.deleteEndpoint(merchant.id, req.params.webhookId as string);
+
+    if (!deleted) {
+      throw ApiError.notFound('Webhook endpoint not found');
+    }
+
+    res.json({
+      id: req.params.webhookId,
+      deleted: true,
+    });
+  })
+);
+
+/**
+ * POST /merchants/me/webhooks/:webhookId/regenerate-secret - Regenerate an endpoint's secret
+ */
+router.post(
+  '/me/webhooks/:webhookId/regenerate-secret',
+  requireAuth('webhooks:manage'),
+  requireCurrentSecretKey(),
+  validateParams(webhookIdParamsSchema),
+  asyncHandler(async (req, res) => {
+    const merchant = req.merchant!;
+    const webhookService = getWebhookService();
+
+    const newSecret = webhookService.regenerateEndpointSecret(merchant.id, req.params.webhookId as string);
+
+    if (!newSecret) {
+      throw ApiError.notFound('Webhook endpoint not found');
+    }
+
+    res.json({
+      secret: newSecret,
+      message: 'Webhook secret regenerated. Update your webhook verification.',
+    });
+  })
+);
+
 /**
  * GET /merchants/me/sessions - Get merchant's payment sessions
  */
 router.get(
   '/me/sessions',
-  requireAuth,
+  requireAuth('sessions:read'),
+  validateQuery(sessionsQuerySchema),
   asyncHandler(async (req, res) => {
     const merchant = req.merchant!;
     const sessionManager = getSessionManager();
+    const query = req.query as unknown as z.infer<typeof sessionsQuerySchema>;
 
-    const limit = parseInt(req.query.limit as string) || 20;
-    const offset = parseInt(req.query.offset as string) || 0;
-    const status = req.query.status as string | undefined;
-
-    const { sessions, total } = sessionManager.getSessionHistory(merchant.id, {
-      limit,
-      offset,
-      status: status as any,
-    });
+    const { sessions, total } = sessionManager.getSessionHistory(merchant.id, query);
 
     res.json({
       sessions: sessions.map((s) => ({
@@ -210,18 +806,29 @@ router.get(
         address: s.address,
         amount: sompiToKas(s.amount),
         amountSompi: s.amount.toString(),
+        amountReceived: sompiToKas(s.amountReceived),
+        amountReceivedSompi: s.amountReceived.toString(),
+        fiatAmount: s.fiatAmount,
+        currency: s.fiatCurrency,
+        exchangeRate: s.exchangeRate,
         status: s.status,
         confirmations: s.confirmations,
+        requiredConfirmations: s.requiredConfirmations,
         txId: s.txId,
         orderId: s.orderId,
         createdAt: s.createdAt.toISOString(),
         expiresAt: s.expiresAt.toISOString(),
         paidAt: s.paidAt?.toISOString(),
         confirmedAt: s.confirmedAt?.toISOString(),
+        cancelledAt: s.cancelledAt?.toISOString(),
+        cancellationReason: s.cancellationReason,
+        latePaymentStatus: s.latePaymentStatus,
+        latePaymentAt: s.latePaymentAt?.toISOString(),
+        failureReason: s.failureReason,
       })),
       total,
-      limit,
-      offset,
+      limit: query.limit,
+      offset: query.offset,
     });
   })
 );
@@ -231,7 +838,7 @@ router.get(
  */
 router.get(
   '/me/stats',
-  requireAuth,
+  requireAuth('analytics:read'),
   asyncHandler(async (req, res) => {
     const merchant = req.merchant!;
     const sessionManager = getSessionManager();
@@ -244,16 +851,19 @@ router.get(
     const stats = {
       totalSessions: allSessions.length,
       pendingSessions: allSessions.filter((s) => s.status === 'pending').length,
+      underpaidSessions: allSessions.filter((s) => s.status === 'underpaid').length,
       confirmingSessions: allSessions.filter((s) => s.status === 'confirming').length,
       confirmedSessions: allSessions.filter((s) => s.status === 'confirmed').length,
+      overpaidSessions: allSessions.filter((s) => s.status === 'overpaid').length,
       expiredSessions: allSessions.filter((s) => s.status === 'expired').length,
+      cancelledSessions: allSessions.filter((s) => s.status === 'cancelled').length,
       totalReceived: sompiToKas(
         allSessions
-          .filter((s) => s.status === 'confirmed')
+          .filter((s) => isPaidStatus(s.status))
           .reduce((sum, s) => sum + s.amount, 0n)
       ),
       totalReceivedSompi: allSessions
-        .filter((s) => s.status === 'confirmed')
+        .filter((s) => isPaidStatus(s.status))
         .reduce((sum, s) => sum + s.amount, 0n)
         .toString(),
     };
@@ -262,6 +872,44 @@ router.get(
   })
 );
 
+/**
+ * GET /merchants/me/balances - Get balances of all derived addresses
+ *
+ * Lists the addresses still holding funds, as a sweep checklist.
+ *
+ * Query params:
+ * - refresh: 'true' to bypass cached balances (optional)
+ */
+router.get(
+  '/me/balances',
+  requireAuth('analytics:read'),
+  asyncHandler(async (req, res) => {
+    const merchant = req.merchant!;
+    const refresh = req.query.refresh === 'true';
+
+    const report = await getBalanceService().getBalanceReport(merchant.id, { refresh });
+
+    res.json({
+      totalBalance: sompiToKas(report.totalBalance),
+      totalBalanceSompi: report.totalBalance.toString(),
+      addressesChecked: report.addressesChecked,
+      addresses: report.fundedAddresses.map((a) => ({
+        address: a.address,
+        index: a.index,
+        path: a.path,
+        balance: sompiToKas(a.balance),
+        balanceSompi: a.balance.toString(),
+        sessionCount: a.sessionCount,
+        lastSessionId: a.lastSessionId,
+        lastOrderId: a.lastOrderId,
+        lastSessionAt: a.lastSessionAt?.toISOString(),
+      })),
+      failedAddresses: report.failedAddresses,
+      generatedAt: report.generatedAt.toISOString(),
+    });
+  })
+);
+
 /**
  * GET /merchants/me/analytics - Get advanced analytics
  *
@@ -272,7 +920,7 @@ router.get(
  */
 router.get(
   '/me/analytics',
-  requireAuth,
+  requireAuth('analytics:read'),
   asyncHandler(async (req, res) => {
     const merchant = req.merchant!;
     const sessionManager = getSessionManager();
@@ -329,14 +977,14 @@ router.get(
     });
 
     // Calculate current period stats
-    const confirmedCurrent = sessionsInRange.filter(s => s.status === 'confirmed');
+    const confirmedCurrent = sessionsInRange.filter(s => isPaidStatus(s.status));
     const totalVolumeCurrent = confirmedCurrent.reduce((sum, s) => sum + s.amount, 0n);
     const conversionRateCurrent = sessionsInRange.length > 0
       ? (confirmedCurrent.length / sessionsInRange.length) * 100
       : 0;
 
     // Calculate previous period stats
-    const confirmedPrev = sessionsInPrevPeriod.filter(s => s.status === 'confirmed');
+    const confirmedPrev = sessionsInPrevPeriod.filter(s => isPaidStatus(s.status));
     const totalVolumePrev = confirmedPrev.reduce((sum, s) => sum + s.amount, 0n);
     const conversionRatePrev = sessionsInPrevPeriod.length > 0
       ? (confirmedPrev.length / sessionsInPrevPeriod.length) * 100
@@ -347,6 +995,7 @@ router.get(
       sessions: number;
       confirmed: number;
       expired: number;
+      cancelled: number;
       volume: string;
       volumeSompi: string;
     }> = {};
@@ -358,12 +1007,13 @@ router.get(
           sessions: 0,
           confirmed: 0,
           expired: 0,
+          cancelled: 0,
           volume: '0',
           volumeSompi: '0',
         };
       }
       dailyBreakdown[dateKey].sessions++;
-      if (session.status === 'confirmed') {
+      if (isPaidStatus(session.status)) {
         dailyBreakdown[dateKey].confirmed++;
         const currentVolume = BigInt(dailyBreakdown[dateKey].volumeSompi);
         const newVolume = currentVolume + session.amount;
@@ -373,6 +1023,9 @@ router.get(
       if (session.status === 'expired') {
         dailyBreakdown[dateKey].expired++;
       }
+      if (session.status === 'cancelled') {
+        dailyBreakdown[dateKey].cancelled++;
+      }
     });
 
     // Sort daily breakdown by date
@@ -383,9 +1036,12 @@ router.get(
     // Status distribution
     const statusDistribution = {
       pending: sessionsInRange.filter(s => s.status === 'pending').length,
+      underpaid: sessionsInRange.filter(s => s.status === 'underpaid').length,
       confirming: sessionsInRange.filter(s => s.status === 'confirming').length,
       confirmed: sessionsInRange.filter(s => s.status === 'confirmed').length,
+      overpaid: sessionsInRange.filter(s => s.status === 'overpaid').length,
       expired: sessionsInRange.filter(s => s.status === 'expired').length,
+      cancelled: sessionsInRange.filter(s => s.status === 'cancelled').length,
       failed: sessionsInRange.filter(s => s.status === 'failed').length,
     };
 
@@ -444,6 +1100,7 @@ router.get(
       },
       statusDistribution,
       dailyBreakdown: sortedDailyBreakdown,
+      fiatVolume: sessionManager.getFiatVolume(merchant.id, startDate, endDate),
       topPayments,
     });
   })
@@ -455,11 +1112,11 @@ router.get(
  * Query params:
  * - limit: number (default: 20)
  * - offset: number (default: 0)
- * - event: 'payment.pending' | 'payment.confirming' | 'payment.confirmed' | 'payment.expired' (optional)
+ * - event: 'payment.pending' | 'payment.confirming' | 'payment.confirmed' | 'payment.expired' | 'payment.cancelled' | 'payment.late' (optional)
  */
 router.get(
   '/me/webhook-logs',
-  requireAuth,
+  requireAuth('webhooks:manage'),
   asyncHandler(async (req, res) => {
     const merchant = req.merchant!;
     const webhookService = getWebhookService();
@@ -477,6 +1134,7 @@ router.get(
     res.json({
       logs: logs.map((log) => ({
         id: log.id,
+        webhookId: log.webhook_id,
         sessionId: log.session_id,
         event: log.event,
         statusCode: log.status_code,
@@ -508,7 +1166,7 @@ router.get(
  */
 router.post(
   '/me/webhook-logs/:id/retry',
-  requireAuth,
+  requireAuth('webhooks:manage'),
   asyncHandler(async (req, res) => {
     const merchant = req.merchant!;
     const webhookService = getWebhookService();
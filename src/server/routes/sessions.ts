@@ -4,17 +4,35 @@
 
 import { Router } from 'express';
 import { z } from 'zod';
-import QRCode from 'qrcode';
 import { requireAuth, optionalAuth } from '../middleware/auth.js';
-import { validateBody, validateParams } from '../middleware/validation.js';
+import { validateBody, validateParams, validateQuery } from '../middleware/validation.js';
+import { idempotent } from '../middleware/idempotency.js';
 import { asyncHandler, ApiError } from '../middleware/error.js';
-import { getSessionManager } from '../services/session.js';
-import { getPaymentMonitor } from '../services/payment-monitor.js';
-import { getConfirmationTracker } from '../services/confirmation.js';
+import { getSessionManager, getAmountRemaining, isPaidStatus } from '../services/session.js';
+import { getRefundService, type Refund } from '../services/refund.js';
+import { getSessionEventService, type SessionEvent } from '../services/session-events.js';
+import { getSessionMonitor } from '../services/session-monitor.js';
+import { getPriceService, type PriceQuote } from '../services/price.js';
 import { getWebhookService } from '../services/webhook.js';
 import { getWebSocketManager } from '../websocket/index.js';
+import { getMerchantService } from '../services/merchant.js';
+import { getMerchantSettingsService, checkPublishableKeyLimits } from '../services/merchant-settings.js';
+import { getQrCodeService, type QrFormat } from '../services/qr.js';
 import { kasToSompi, sompiToKas } from '../../kaspa/units.js';
+import { buildPaymentUri } from '../../kaspa/uri.js';
 import { NETWORK_CONFIG } from '../../config/network.js';
+import {
+  MIN_AMOUNT_SOMPI,
+  MIN_CONFIRMATIONS,
+  MAX_CONFIRMATIONS,
+  QR_DEFAULT_SIZE,
+  QR_MIN_SIZE,
+  QR_MAX_SIZE,
+  QR_DEFAULT_MARGIN,
+  QR_MAX_MARGIN,
+} from '../../shared/constants.js';
+import { kaspaAddressSchema, fiatAmountSchema, fiatCurrencySchema } from '../../shared/validation.js';
+import type { PaymentSession, SessionPayment } from '../../kaspa/types.js';
 
 const router = Router();
 
@@ -66,35 +84,217 @@ const sanitizedMetadataSchema = z.record(z.string()).optional()
     message: 'Metadata too large (max 20 keys, 1KB total)',
   });
 
+/**
+ * Sessions are priced either in KAS (`amount`) or in fiat
+ * (`fiatAmount` + `currency`), which is converted at a locked rate.
+ */
 const createSessionSchema = z.object({
-  amount: z.string().regex(/^\d+(\.\d{1,8})?$/, 'Invalid amount format'),
+  amount: z.string().regex(/^\d+(\.\d{1,8})?$/, 'Invalid amount format').optional(),
+  fiatAmount: fiatAmountSchema.optional(),
+  currency: fiatCurrencySchema.optional(),
   orderId: z.string().max(100).optional()
     .transform((v) => v ? sanitizeString(v) : v),
   metadata: sanitizedMetadataSchema,
   redirectUrl: z.string().url().optional(),
+  requiredConfirmations: z.number().int().min(MIN_CONFIRMATIONS).max(MAX_CONFIRMATIONS).optional(),
+}).refine((body) => (body.amount !== undefined) !== (body.fiatAmount !== undefined), {
+  message: 'Provide either amount (KAS) or fiatAmount with currency',
+  path: ['amount'],
+}).refine((body) => (body.fiatAmount !== undefined) === (body.currency !== undefined), {
+  message: 'fiatAmount and currency must be provided together',
+  path: ['currency'],
+});
+
+const createRefundSchema = z.object({
+  amount: z.string().regex(/^\d+(\.\d{1,8})?$/, 'Invalid amount format'),
+  address: kaspaAddressSchema,
+  reason: z.string().max(500).optional(),
+});
+
+/**
+ * Cancellation by the merchant (API key) or by the customer's widget
+ * (the session's subscription token)
+ */
+const cancelSessionSchema = z.object({
+  reason: z.string().max(500).optional()
+    .transform((v) => v ? sanitizeString(v) : v),
+  subscriptionToken: z.string().max(100).optional(),
 });
 
 const sessionIdParamsSchema = z.object({
   sessionId: z.string().uuid(),
 });
 
+const qrParamsSchema = z.object({
+  sessionId: z.string().uuid(),
+  format: z.enum(['svg', 'png']),
+});
+
+/**
+ * Colour as RRGGBB or RRGGBBAA, with or without `#`
+ */
+const qrColorSchema = z.string()
+  .regex(/^#?([0-9a-fA-F]{6}|[0-9a-fA-F]{8})$/, 'Invalid colour (use RRGGBB or RRGGBBAA)')
+  .transform((v) => `#${v.replace(/^#/, '').toLowerCase()}`);
+
+const qrQuerySchema = z.object({
+  size: z.coerce.number().int().min(QR_MIN_SIZE).max(QR_MAX_SIZE).default(QR_DEFAULT_SIZE),
+  margin: z.coerce.number().int().min(0).max(QR_MAX_MARGIN).default(QR_DEFAULT_MARGIN),
+  dark: qrColorSchema.default('000000'),
+  light: qrColorSchema.default('ffffff'),
+  ec: z.enum(['L', 'M', 'Q', 'H']).optional(),
+  logo: z.enum(['true', 'false']).default('true').transform((v) => v === 'true'),
+});
+
+/**
+ * Serialize the fiat quote of a session for API responses (empty for KAS-priced sessions)
+ */
+function fiatToJson(session: PaymentSession) {
+  if (!session.fiatCurrency) {
+    return {};
+  }
+
+  return {
+    fiatAmount: session.fiatAmount,
+    currency: session.fiatCurrency,
+    exchangeRate: session.exchangeRate,
+    quoteExpiresAt: session.quoteExpiresAt?.toISOString(),
+  };
+}
+
+/**
+ * Payment URI for a session: the amount still due (the full amount once
+ * nothing is), with the label and message from the merchant's templates
+ */
+function sessionPaymentUri(session: PaymentSession): string {
+  const merchant = getMerchantService().getMerchant(session.merchantId);
+  const { label, message } = getMerchantSettingsService().getPaymentUriText(session.merchantId, {
+    merchantName: merchant?.name,
+    orderId: session.orderId,
+    sessionId: session.id,
+    amount: sompiToKas(session.amount),
+  });
+
+  const amountDue = getAmountRemaining(session);
+  return buildPaymentUri({
+    address: session.address,
+    amount: amountDue > 0n ? amountDue : session.amount,
+    label,
+    message,
+  });
+}
+
+/**
+ * Path of a session's QR code image (relative to the API host)
+ */
+function sessionQrUrl(session: PaymentSession): string {
+  return `/api/v1/sessions/${session.id}/qr.svg`;
+}
+
+/**
+ * Serialize a received transaction output for API responses
+ */
+function paymentToJson(payment: SessionPayment) {
+  return {
+    txId: payment.txId,
+    outputIndex: payment.outputIndex,
+    amount: sompiToKas(payment.amount),
+    amountSompi: payment.amount.toString(),
+    blockDaaScore: payment.blockDaaScore.toString(),
+    receivedAt: payment.receivedAt.toISOString(),
+    explorerUrl: `${NETWORK_CONFIG.explorerUrl}/txs/${payment.txId}`,
+  };
+}
+
+/**
+ * Serialize a refund for API responses
+ */
+function refundToJson(refund: Refund) {
+  return {
+    id: refund.id,
+    sessionId: refund.sessionId,
+    amount: sompiToKas(refund.amount),
+    amountSompi: refund.amount.toString(),
+    address: refund.address,
+    reason: refund.reason,
+    status: refund.status,
+    txId: refund.txId,
+    createdAt: refund.createdAt.toISOString(),
+    completedAt: refund.completedAt?.toISOString(),
+  };
+}
+
+/**
+ * Serialize a session history event for API responses
+ */
+function sessionEventToJson(event: SessionEvent) {
+  return {
+    id: event.id,
+    type: event.type,
+    fromStatus: event.fromStatus,
+    toStatus: event.toStatus,
+    actor: event.actor,
+    reason: event.reason,
+    txId: event.txId,
+    confirmations: event.confirmations,
+    data: event.data,
+    createdAt: event.createdAt.toISOString(),
+  };
+}
+
 // ============================================================
 // ROUTES
 // ============================================================
 
 /**
  * POST /sessions - Create a new payment session
+ *
+ * Supports the Idempotency-Key header so retried requests do not create
+ * duplicate sessions (and burn HD address indices). The widget calls this
+ * with the publishable key, within the merchant's publishable key limits.
  */
 router.post(
   '/',
-  requireAuth,
+  requireAuth('publishable', 'sessions:write'),
+  idempotent,
   validateBody(createSessionSchema),
   asyncHandler(async (req, res) => {
-    const { amount, orderId, metadata, redirectUrl } = req.body;
+    const { amount, fiatAmount, currency, orderId, metadata, redirectUrl, requiredConfirmations } = req.body;
     const merchant = req.merchant!;
 
-    // Convert KAS to sompi
-    const amountSompi = kasToSompi(amount);
+    // The customer's browser holds publishable keys, so it may not lower the confirmations
+    if (req.apiKeyType === 'publishable' && requiredConfirmations !== undefined) {
+      throw ApiError.forbidden('requiredConfirmations needs a secret API key');
+    }
+
+    // Convert KAS to sompi, or quote the fiat price at the current rate
+    let amountSompi: bigint;
+    let quote: PriceQuote | undefined;
+    if (fiatAmount) {
+      try {
+        quote = await getPriceService().quote(fiatAmount, currency);
+      } catch (error) {
+        console.error(`[KasGate] Failed to quote ${fiatAmount} ${currency}:`, error);
+        throw ApiError.serviceUnavailable('Exchange rate unavailable, try again later');
+      }
+      amountSompi = quote.amount;
+
+      if (amountSompi < MIN_AMOUNT_SOMPI) {
+        throw ApiError.badRequest(`Amount must be at least ${sompiToKas(MIN_AMOUNT_SOMPI)} KAS`);
+      }
+    } else {
+      amountSompi = kasToSompi(amount);
+    }
+
+    if (req.apiKeyType === 'publishable') {
+      const violation = checkPublishableKeyLimits(
+        getMerchantSettingsService().getSettings(merchant.id).publishableKeyLimits,
+        { amount: amountSompi, origin: req.headers.origin, redirectUrl }
+      );
+      if (violation) {
+        throw ApiError.forbidden(violation);
+      }
+    }
 
     // Create session
     const sessionManager = getSessionManager();
@@ -104,90 +304,25 @@ router.post(
       orderId,
       metadata,
       redirectUrl,
+      quote,
+      requiredConfirmations,
     });
 
     // Start monitoring the address
-    const paymentMonitor = getPaymentMonitor();
-    await paymentMonitor.monitor(session.address, amountSompi, {
-      onPaymentDetected: async (address, txId, detectedAmount, utxos) => {
-        // Bug #12 fix: Check if session has expired before accepting payment
-        const currentSession = sessionManager.getSession(session.id);
-        if (!currentSession) {
-          console.warn(`[KasGate] Session ${session.id} no longer exists, ignoring payment`);
-          await paymentMonitor.unmonitor(address);
-          return;
-        }
-
-        if (currentSession.expiresAt < new Date()) {
-          console.warn(`[KasGate] Session ${session.id} expired, rejecting payment`);
-          sessionManager.markExpired(session.id);
-          await paymentMonitor.unmonitor(address);
-          return;
-        }
-
-        if (currentSession.status !== 'pending') {
-          console.warn(`[KasGate] Session ${session.id} not pending (${currentSession.status}), ignoring payment`);
-          await paymentMonitor.unmonitor(address);
-          return;
-        }
-
-        // Mark payment as received (Bug #12: atomic check for expiry)
-        const accepted = sessionManager.markPaymentReceived(session.id, txId);
-
-        if (!accepted) {
-          // Payment rejected (session expired or invalid state)
-          console.warn(`[KasGate] Payment for session ${session.id} rejected - session expired or invalid`);
-          await paymentMonitor.unmonitor(address);
-          return;
-        }
-
-        // Start confirmation tracking
-        const confirmationTracker = getConfirmationTracker();
-        await confirmationTracker.track(session.id, txId);
-
-        // Send webhook
-        const updatedSession = sessionManager.getSession(session.id);
-        if (updatedSession) {
-          const webhookService = getWebhookService();
-          await webhookService.sendWebhook(updatedSession, 'payment.confirming');
-
-          // Broadcast to WebSocket clients
-          const wsManager = getWebSocketManager();
-          wsManager.broadcastToSession(session.id, {
-            type: 'status',
-            sessionId: session.id,
-            status: 'confirming',
-            confirmations: 0,
-          });
-        }
-
-        // Stop monitoring this address
-        await paymentMonitor.unmonitor(address);
-      },
-      onError: (error) => {
-        console.error(`[KasGate] Payment monitor error for ${session.id}:`, error);
-      },
-    });
-
-    // Generate QR code
-    const qrData = session.address;
-    const qrCodeDataUrl = await QRCode.toDataURL(qrData, {
-      width: 256,
-      margin: 2,
-      color: {
-        dark: '#000000',
-        light: '#FFFFFF',
-      },
-    });
+    const sessionMonitor = getSessionMonitor();
+    await sessionMonitor.watch(session);
 
     res.status(201).json({
       id: session.id,
       address: session.address,
       amount: sompiToKas(session.amount),
       amountSompi: session.amount.toString(),
+      ...fiatToJson(session),
       status: session.status,
+      requiredConfirmations: session.requiredConfirmations,
       orderId: session.orderId,
-      qrCode: qrCodeDataUrl,
+      paymentUri: sessionPaymentUri(session),
+      qrUrl: sessionQrUrl(session),
       subscriptionToken: session.subscriptionToken, // Bug #5: For WebSocket auth
       expiresAt: session.expiresAt.toISOString(),
       explorerUrl: `${NETWORK_CONFIG.explorerUrl}/addresses/${session.address}`,
@@ -200,7 +335,7 @@ router.post(
  */
 router.get(
   '/:sessionId',
-  optionalAuth,
+  optionalAuth(),
   validateParams(sessionIdParamsSchema),
   asyncHandler(async (req, res) => {
     const sessionId = req.params.sessionId as string;
@@ -212,28 +347,33 @@ router.get(
       throw ApiError.notFound('Session not found');
     }
 
-    // Generate QR code
-    const qrCodeDataUrl = await QRCode.toDataURL(session.address, {
-      width: 256,
-      margin: 2,
-    });
-
     res.json({
       id: session.id,
       address: session.address,
       amount: sompiToKas(session.amount),
       amountSompi: session.amount.toString(),
+      amountReceived: sompiToKas(session.amountReceived),
+      amountReceivedSompi: session.amountReceived.toString(),
+      amountRemainingSompi: getAmountRemaining(session).toString(),
+      ...fiatToJson(session),
       status: session.status,
       confirmations: session.confirmations,
-      requiredConfirmations: NETWORK_CONFIG.confirmations,
+      requiredConfirmations: session.requiredConfirmations,
       txId: session.txId,
+      payments: sessionManager.getPayments(sessionId).map(paymentToJson),
       orderId: session.orderId,
       metadata: session.metadata,
-      qrCode: qrCodeDataUrl,
+      paymentUri: sessionPaymentUri(session),
+      qrUrl: sessionQrUrl(session),
       createdAt: session.createdAt.toISOString(),
       expiresAt: session.expiresAt.toISOString(),
       paidAt: session.paidAt?.toISOString(),
       confirmedAt: session.confirmedAt?.toISOString(),
+      cancelledAt: session.cancelledAt?.toISOString(),
+      cancellationReason: session.cancellationReason,
+      latePaymentStatus: session.latePaymentStatus,
+      latePaymentAt: session.latePaymentAt?.toISOString(),
+      failureReason: session.failureReason,
       explorerUrl: session.txId
         ? `${NETWORK_CONFIG.explorerUrl}/txs/${session.txId}`
         : `${NETWORK_CONFIG.explorerUrl}/addresses/${session.address}`,
@@ -260,23 +400,74 @@ router.get(
     res.json({
       id: session.id,
       status: session.status,
+      amountReceivedSompi: session.amountReceived.toString(),
+      amountRemainingSompi: getAmountRemaining(session).toString(),
       confirmations: session.confirmations,
-      requiredConfirmations: NETWORK_CONFIG.confirmations,
+      requiredConfirmations: session.requiredConfirmations,
       txId: session.txId,
     });
   })
 );
 
+/**
+ * GET /sessions/:sessionId/qr.svg, /qr.png - Render the session's payment URI as a QR code
+ *
+ * The image changes with the amount still due, so it is revalidated
+ * (`no-cache`) against its ETag rather than cached outright.
+ */
+router.get(
+  '/:sessionId/qr.:format',
+  validateParams(qrParamsSchema),
+  validateQuery(qrQuerySchema),
+  asyncHandler(async (req, res) => {
+    const sessionId = req.params.sessionId as string;
+    const format = req.params.format as QrFormat;
+    const query = req.query as unknown as z.infer<typeof qrQuerySchema>;
+
+    const session = getSessionManager().getSession(sessionId);
+    if (!session) {
+      throw ApiError.notFound('Session not found');
+    }
+
+    const merchant = getMerchantService().getMerchant(session.merchantId);
+    const options = {
+      size: query.size,
+      margin: query.margin,
+      dark: query.dark,
+      light: query.light,
+      errorCorrection: query.ec,
+      logo: query.logo ? merchant?.logo : undefined,
+    };
+
+    const qrCodeService = getQrCodeService();
+    const paymentUri = sessionPaymentUri(session);
+
+    res.set('ETag', qrCodeService.getETag(format, paymentUri, options));
+    res.set('Cache-Control', 'public, no-cache');
+    if (req.fresh) {
+      res.status(304).end();
+      return;
+    }
+
+    const qr = await qrCodeService.render(format, paymentUri, options);
+    res.type(qr.contentType).send(qr.body);
+  })
+);
+
 /**
  * POST /sessions/:sessionId/cancel - Cancel a pending session
+ *
+ * Merchants authenticate with their API key; the widget cancels on the
+ * customer's behalf with the session's subscription token.
  */
 router.post(
   '/:sessionId/cancel',
-  requireAuth,
+  optionalAuth('sessions:write'),
   validateParams(sessionIdParamsSchema),
+  validateBody(cancelSessionSchema),
   asyncHandler(async (req, res) => {
     const sessionId = req.params.sessionId as string;
-    const merchant = req.merchant!;
+    const { reason, subscriptionToken } = req.body;
 
     const sessionManager = getSessionManager();
     const session = sessionManager.getSession(sessionId);
@@ -285,35 +476,230 @@ router.post(
       throw ApiError.notFound('Session not found');
     }
 
-    if (session.merchantId !== merchant.id) {
-      throw ApiError.forbidden('You do not own this session');
+    if (req.merchant) {
+      if (session.merchantId !== req.merchant.id) {
+        throw ApiError.forbidden('You do not own this session');
+      }
+    } else if (!subscriptionToken) {
+      throw ApiError.unauthorized('API key or subscription token required');
+    } else if (!sessionManager.verifySubscriptionToken(sessionId, subscriptionToken)) {
+      throw ApiError.forbidden('Invalid subscription token');
     }
 
     if (session.status !== 'pending') {
       throw ApiError.badRequest('Only pending sessions can be cancelled');
     }
 
-    // Mark as expired (cancelled)
-    sessionManager.markExpired(sessionId);
+    sessionManager.markCancelled(sessionId, reason, req.merchant ? 'merchant' : 'customer');
+    const cancelled = sessionManager.getSession(sessionId)!;
 
-    // Stop monitoring
-    const paymentMonitor = getPaymentMonitor();
-    await paymentMonitor.unmonitor(session.address);
+    // Keep watching the address for a grace period in case the customer pays anyway
+    getSessionMonitor().handleCancelled(cancelled);
 
     // Notify WebSocket clients
     const wsManager = getWebSocketManager();
     wsManager.broadcastToSession(sessionId, {
       type: 'status',
       sessionId,
-      status: 'expired',
+      status: 'cancelled',
+    });
+
+    // Notify the merchant without holding up the response
+    getWebhookService().sendWebhook(cancelled, 'payment.cancelled').catch((error) => {
+      console.error(`[KasGate] Failed to send cancellation webhook for ${sessionId}:`, error);
     });
 
     res.json({
       id: session.id,
-      status: 'expired',
+      status: 'cancelled',
+      reason,
       message: 'Session cancelled',
     });
   })
 );
 
+/**
+ * Look up a session for a late-payment action by its owner
+ */
+function getLatePaymentSession(sessionId: string, merchantId: string): PaymentSession {
+  const session = getSessionManager().getSession(sessionId);
+
+  if (!session) {
+    throw ApiError.notFound('Session not found');
+  }
+
+  if (session.merchantId !== merchantId) {
+    throw ApiError.forbidden('You do not own this session');
+  }
+
+  if (session.latePaymentStatus !== 'pending') {
+    throw ApiError.badRequest('Session has no late payment awaiting a decision');
+  }
+
+  return session;
+}
+
+/**
+ * POST /sessions/:sessionId/late-payment/accept - Accept funds that arrived after expiry or cancellation
+ *
+ * The session moves back to confirming and completes like an on-time payment.
+ */
+router.post(
+  '/:sessionId/late-payment/accept',
+  requireAuth('sessions:write'),
+  validateParams(sessionIdParamsSchema),
+  asyncHandler(async (req, res) => {
+    const session = getLatePaymentSession(req.params.sessionId as string, req.merchant!.id);
+
+    if (!(await getSessionMonitor().acceptLatePayment(session))) {
+      throw ApiError.badRequest('Session has no late payment awaiting a decision');
+    }
+
+    res.json({
+      id: session.id,
+      status: 'confirming',
+      latePaymentStatus: 'accepted',
+      message: 'Late payment accepted',
+    });
+  })
+);
+
+/**
+ * POST /sessions/:sessionId/late-payment/refund - Mark funds that arrived after expiry or cancellation for refund
+ *
+ * The session stays expired or cancelled and can then be refunded like a paid session.
+ */
+router.post(
+  '/:sessionId/late-payment/refund',
+  requireAuth('sessions:write'),
+  validateParams(sessionIdParamsSchema),
+  asyncHandler(async (req, res) => {
+    const session = getLatePaymentSession(req.params.sessionId as string, req.merchant!.id);
+
+    if (!getSessionManager().markLatePaymentForRefund(session.id)) {
+      throw ApiError.badRequest('Session has no late payment awaiting a decision');
+    }
+
+    res.json({
+      id: session.id,
+      status: session.status,
+      latePaymentStatus: 'refund',
+      message: 'Late payment marked for refund',
+    });
+  })
+);
+
+/**
+ * POST /sessions/:sessionId/refunds - Record a refund for a confirmed session
+ *
+ * KasGate does not send funds: the merchant sends the refund from their own
+ * wallet and the refund is marked completed once the transaction is seen.
+ */
+router.post(
+  '/:sessionId/refunds',
+  requireAuth('sessions:write'),
+  validateParams(sessionIdParamsSchema),
+  validateBody(createRefundSchema),
+  asyncHandler(async (req, res) => {
+    const sessionId = req.params.sessionId as string;
+    const merchant = req.merchant!;
+    const { amount, address, reason } = req.body;
+
+    const sessionManager = getSessionManager();
+    const session = sessionManager.getSession(sessionId);
+
+    if (!session) {
+      throw ApiError.notFound('Session not found');
+    }
+
+    if (session.merchantId !== merchant.id) {
+      throw ApiError.forbidden('You do not own this session');
+    }
+
+    if (!isPaidStatus(session.status) && session.latePaymentStatus !== 'refund') {
+      throw ApiError.badRequest('Only confirmed sessions and late payments marked for refund can be refunded');
+    }
+
+    const amountSompi = kasToSompi(amount);
+    if (amountSompi <= 0n) {
+      throw ApiError.badRequest('Refund amount must be greater than zero');
+    }
+
+    const refundService = getRefundService();
+    const refundable = refundService.getRefundableAmount(session);
+    if (amountSompi > refundable) {
+      throw ApiError.badRequest(`Refund amount exceeds the refundable balance of ${sompiToKas(refundable)} KAS`);
+    }
+
+    const refund = await refundService.createRefund(session, {
+      amount: amountSompi,
+      address,
+      reason,
+    });
+
+    res.status(201).json(refundToJson(refund));
+  })
+);
+
+/**
+ * GET /sessions/:sessionId/refunds - List refunds for a session
+ */
+router.get(
+  '/:sessionId/refunds',
+  requireAuth('sessions:read'),
+  validateParams(sessionIdParamsSchema),
+  asyncHandler(async (req, res) => {
+    const sessionId = req.params.sessionId as string;
+    const merchant = req.merchant!;
+
+    const sessionManager = getSessionManager();
+    const session = sessionManager.getSession(sessionId);
+
+    if (!session) {
+      throw ApiError.notFound('Session not found');
+    }
+
+    if (session.merchantId !== merchant.id) {
+      throw ApiError.forbidden('You do not own this session');
+    }
+
+    const refundService = getRefundService();
+    const refundable = refundService.getRefundableAmount(session);
+
+    res.json({
+      refunds: refundService.getRefundsForSession(sessionId).map(refundToJson),
+      refundable: sompiToKas(refundable),
+      refundableSompi: refundable.toString(),
+    });
+  })
+);
+
+/**
+ * GET /sessions/:sessionId/events - Status history of a session, oldest first
+ */
+router.get(
+  '/:sessionId/events',
+  requireAuth('sessions:read'),
+  validateParams(sessionIdParamsSchema),
+  asyncHandler(async (req, res) => {
+    const sessionId = req.params.sessionId as string;
+    const merchant = req.merchant!;
+
+    const session = getSessionManager().getSession(sessionId);
+
+    if (!session) {
+      throw ApiError.notFound('Session not found');
+    }
+
+    if (session.merchantId !== merchant.id) {
+      throw ApiError.forbidden('You do not own this session');
+    }
+
+    res.json({
+      sessionId,
+      events: getSessionEventService().getEvents(sessionId).map(sessionEventToJson),
+    });
+  })
+);
+
 export default router;
@@ -0,0 +1,97 @@
+/**
+ * Simnet Routes - Drive the Simulated Network During Local Development
+ *
+ * Only mounted when KASPA_NETWORK=simnet: pay sessions, mine blocks, and
+ * reorg, double-spend or spend payments without a real wallet or node.
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { validateBody, validateParams } from '../middleware/validation.js';
+import { asyncHandler, ApiError } from '../middleware/error.js';
+import { getSimulatedNetwork } from '../services/simnet.js';
+import { kasToSompi } from '../../kaspa/units.js';
+import { kaspaAddressSchema } from '../../shared/validation.js';
+
+const router = Router();
+
+// ============================================================
+// SCHEMAS
+// ============================================================
+
+const mintPaymentSchema = z.object({
+  address: kaspaAddressSchema,
+  amount: z.string().regex(/^\d+(\.\d{1,8})?$/, 'Invalid amount format'),
+});
+
+const advanceBlocksSchema = z.object({
+  count: z.number().int().min(1).max(10000).default(1),
+});
+
+const transactionParamsSchema = z.object({
+  txId: z.string().regex(/^[a-f0-9]{64}$/, 'Invalid transaction ID'),
+});
+
+const transactionActions = {
+  reorg: (txId: string) => getSimulatedNetwork().reorgTransaction(txId),
+  'double-spend': (txId: string) => getSimulatedNetwork().doubleSpendTransaction(txId),
+  spend: (txId: string) => getSimulatedNetwork().spendOutputs(txId),
+};
+
+// ============================================================
+// ROUTES
+// ============================================================
+
+/**
+ * POST /api/v1/simnet/payments - Send KAS to an address in a new block
+ */
+router.post(
+  '/payments',
+  validateBody(mintPaymentSchema),
+  asyncHandler(async (req, res) => {
+    const simnet = getSimulatedNetwork();
+    const txId = simnet.mintPayment(req.body.address, kasToSompi(req.body.amount));
+
+    res.status(201).json({
+      txId,
+      daaScore: (await simnet.getVirtualDaaScore()).toString(),
+    });
+  })
+);
+
+/**
+ * POST /api/v1/simnet/blocks - Advance the chain by a number of blocks
+ */
+router.post(
+  '/blocks',
+  validateBody(advanceBlocksSchema),
+  asyncHandler(async (req, res) => {
+    const daaScore = getSimulatedNetwork().advanceBlocks(req.body.count);
+    res.json({ daaScore: daaScore.toString() });
+  })
+);
+
+/**
+ * POST /api/v1/simnet/transactions/:txId/{reorg,double-spend,spend}
+ * Remove a payment's outputs the way a reorg, a double-spend or the
+ * receiving wallet spending them would
+ */
+for (const [action, apply] of Object.entries(transactionActions)) {
+  router.post(
+    `/transactions/:txId/${action}`,
+    validateParams(transactionParamsSchema),
+    asyncHandler(async (req, res) => {
+      const txId = req.params.txId as string;
+
+      try {
+        apply(txId);
+      } catch {
+        throw ApiError.notFound('Transaction not found');
+      }
+
+      res.json({ txId, action });
+    })
+  );
+}
+
+export default router;
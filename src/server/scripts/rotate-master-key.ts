@@ -0,0 +1,29 @@
+/**
+ * Master Key Rotation
+ *
+ * Re-encrypts every stored webhook secret and xPub with the current master
+ * key. To rotate: move the old key to KASGATE_PREVIOUS_MASTER_KEYS, set the
+ * new one as KASGATE_MASTER_KEY, run `npm run db:rotate-master-key`, then
+ * remove the old key. Without a master key, stored secrets are decrypted.
+ */
+
+import 'dotenv/config';
+import { initDatabase, closeDatabase } from '../db/index.js';
+import { getEncryptionService } from '../services/encryption.js';
+
+function main(): void {
+  initDatabase();
+
+  try {
+    const encryption = getEncryptionService();
+    const { merchants, webhooks } = encryption.reencryptStoredSecrets();
+
+    console.log(
+      `[KasGate] ${encryption.enabled ? 'Re-encrypted' : 'Decrypted'} secrets of ${merchants} merchants and ${webhooks} webhooks`
+    );
+  } finally {
+    closeDatabase();
+  }
+}
+
+main();
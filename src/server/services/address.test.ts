@@ -0,0 +1,172 @@
+/**
+ * Address Service Tests
+ * Tests for address index recycling and gap limit tracking
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import crypto from 'crypto';
+import { getAddressService, resetAddressService, type DerivedAddress } from './address.js';
+import { initDatabase, closeDatabase, execute, queryOne } from '../db/index.js';
+
+const mockFetchBalance = vi.fn();
+vi.mock('./rest-poller.js', () => ({
+  fetchBalance: (address: string) => mockFetchBalance(address),
+}));
+
+const TEST_MERCHANT_ID = '550e8400-e29b-41d4-a716-446655440000';
+
+function addressAt(index: number): string {
+  return `kaspatest:qr0derived${index}`;
+}
+
+function createTestMerchant(nextIndex: number) {
+  execute(
+    `INSERT INTO merchants (id, name, xpub, api_key_hash, next_address_index, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, datetime('now'), datetime('now'))`,
+    [
+      TEST_MERCHANT_ID,
+      'Test Merchant',
+      'kpub1234567890abcdefghijklmnopqrstuvwxyz1234567890abcdefghijklmnopqrstuvwxyz1234567890abcdefghijkl',
+      'abcd1234',
+      nextIndex,
+    ]
+  );
+}
+
+function createSessionAt(index: number, options: {
+  status?: string;
+  amountReceived?: string;
+  expiredAgo?: string;
+} = {}) {
+  execute(
+    `INSERT INTO sessions (id, merchant_id, address, address_index, amount, amount_received, status, created_at, expires_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, datetime('now'), datetime('now', ?))`,
+    [
+      crypto.randomUUID(),
+      TEST_MERCHANT_ID,
+      addressAt(index),
+      index,
+      '100000000',
+      options.amountReceived || '0',
+      options.status || 'expired',
+      options.expiredAgo || '-2 hours',
+    ]
+  );
+}
+
+function nextAddressIndex(): number {
+  return queryOne<{ next_address_index: number }>(
+    'SELECT next_address_index FROM merchants WHERE id = ?',
+    [TEST_MERCHANT_ID]
+  )!.next_address_index;
+}
+
+describe('AddressService', () => {
+  beforeEach(() => {
+    initDatabase(':memory:');
+    resetAddressService();
+    vi.clearAllMocks();
+    mockFetchBalance.mockResolvedValue(0n);
+
+    // Derivation needs kaspa-wasm; a deterministic stand-in is enough here
+    vi.spyOn(getAddressService(), 'deriveAddress').mockImplementation(
+      (_xpub: string, index: number): DerivedAddress => ({
+        address: addressAt(index),
+        index,
+        path: `m/44'/111111'/0'/0/${index}`,
+      })
+    );
+  });
+
+  afterEach(() => {
+    closeDatabase();
+  });
+
+  describe('getNextAddress', () => {
+    it('should reuse the index of an expired, never-funded session', async () => {
+      createTestMerchant(3);
+      createSessionAt(0, { status: 'confirmed', amountReceived: '100000000' });
+      createSessionAt(1);
+      createSessionAt(2);
+
+      const derived = await getAddressService().getNextAddress(TEST_MERCHANT_ID);
+
+      expect(derived.index).toBe(1);
+      expect(mockFetchBalance).toHaveBeenCalledWith(addressAt(1));
+      expect(nextAddressIndex()).toBe(3);
+    });
+
+    it('should skip candidates that hold funds on-chain', async () => {
+      createTestMerchant(2);
+      createSessionAt(0);
+      createSessionAt(1);
+      mockFetchBalance.mockResolvedValueOnce(5000n);
+
+      const derived = await getAddressService().getNextAddress(TEST_MERCHANT_ID);
+
+      expect(derived.index).toBe(1);
+      expect(mockFetchBalance).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not reuse recently expired, funded or active indices', async () => {
+      createTestMerchant(3);
+      createSessionAt(0, { expiredAgo: '-5 minutes' });
+      createSessionAt(1, { amountReceived: '60000000' });
+      createSessionAt(2, { status: 'pending', expiredAgo: '+15 minutes' });
+
+      const derived = await getAddressService().getNextAddress(TEST_MERCHANT_ID);
+
+      expect(derived.index).toBe(3);
+      expect(mockFetchBalance).not.toHaveBeenCalled();
+      expect(nextAddressIndex()).toBe(4);
+    });
+
+    it('should derive a new address when the balance check fails', async () => {
+      createTestMerchant(1);
+      createSessionAt(0);
+      mockFetchBalance.mockRejectedValueOnce(new Error('REST API error'));
+
+      const derived = await getAddressService().getNextAddress(TEST_MERCHANT_ID);
+
+      expect(derived.index).toBe(1);
+      expect(nextAddressIndex()).toBe(2);
+    });
+
+    it('should not hand out the same recycled index to concurrent requests', async () => {
+      createTestMerchant(1);
+      createSessionAt(0);
+
+      const [first, second] = await Promise.all([
+        getAddressService().getNextAddress(TEST_MERCHANT_ID),
+        getAddressService().getNextAddress(TEST_MERCHANT_ID),
+      ]);
+
+      expect([first.index, second.index].sort()).toEqual([0, 1]);
+    });
+  });
+
+  describe('getAddressGap', () => {
+    it('should count unused addresses after the last funded one', () => {
+      createTestMerchant(18);
+      createSessionAt(2, { status: 'confirmed', amountReceived: '100000000' });
+      createSessionAt(5, { status: 'pending', expiredAgo: '+15 minutes' });
+
+      const gap = getAddressService().getAddressGap(TEST_MERCHANT_ID);
+
+      expect(gap.lastUsedIndex).toBe(2);
+      expect(gap.gap).toBe(15);
+      expect(gap.limit).toBe(20);
+      expect(gap.nearLimit).toBe(true);
+    });
+
+    it('should report the whole range when nothing was funded', () => {
+      createTestMerchant(4);
+
+      const gap = getAddressService().getAddressGap(TEST_MERCHANT_ID);
+
+      expect(gap.lastUsedIndex).toBeNull();
+      expect(gap.gap).toBe(4);
+      expect(gap.nearLimit).toBe(false);
+    });
+  });
+});
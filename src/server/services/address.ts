@@ -2,14 +2,25 @@
  * Address Service - HD Wallet Address Derivation
  *
  * Derives unique payment addresses from merchant xPub keys using BIP-32/44.
- * Each payment session gets a unique address for tracking.
+ * Each payment session gets a unique address for tracking. Indices of
+ * sessions that expired or were cancelled without ever being funded are
+ * recycled so the gap of unused addresses stays within what wallets scan
+ * when restoring the xPub.
  */
 
-import { XPub, createAddress, NetworkType, PublicKey } from '@dfns/kaspa-wasm';
-import { NETWORK_CONFIG, getCurrentNetwork } from '../../config/network.js';
-import { KASPA_COIN_TYPE } from '../../shared/constants.js';
+import { XPub, createAddress, NetworkType } from '@dfns/kaspa-wasm';
+import { getCurrentNetwork } from '../../config/network.js';
+import {
+  KASPA_COIN_TYPE,
+  DEFAULT_ADDRESS_GAP_LIMIT,
+  ADDRESS_GAP_WARNING_RATIO,
+  ADDRESS_RECYCLE_COOLDOWN_MINUTES,
+  ADDRESS_RECYCLE_MAX_CANDIDATES,
+} from '../../shared/constants.js';
 import { ensureKaspaInitialized } from '../../kaspa/init.js';
-import { query, execute } from '../db/index.js';
+import { query, queryOne, execute } from '../db/index.js';
+import { fetchBalance } from './rest-poller.js';
+import { getEncryptionService } from './encryption.js';
 
 // ============================================================
 // TYPES
@@ -21,18 +32,46 @@ export interface DerivedAddress {
   path: string;
 }
 
+export interface AddressGap {
+  /** Consecutive unused addresses after the last funded one */
+  gap: number;
+  /** Gap limit wallets are assumed to scan */
+  limit: number;
+  /** True once the gap reaches the warning threshold */
+  nearLimit: boolean;
+  /** Highest funded address index, if any */
+  lastUsedIndex: number | null;
+  nextIndex: number;
+}
+
 interface MerchantAddressInfo {
   id: string;
   xpub: string;
   next_address_index: number;
 }
 
+interface RecyclableIndexRow {
+  address_index: number;
+  address: string;
+}
+
+/**
+ * How long a recycled index is held for the session being created
+ */
+const RECYCLE_RESERVATION_MS = 60_000;
+
 // ============================================================
 // ADDRESS SERVICE CLASS
 // ============================================================
 
 export class AddressService {
   private generators: Map<string, XPub> = new Map();
+  /** merchantId:index -> reserved at (ms), guards concurrent reuse of one index */
+  private reservedIndices: Map<string, number> = new Map();
+  /** merchantId:index of recyclable candidates found to hold funds */
+  private fundedIndices: Set<string> = new Set();
+  /** Merchants already warned about their address gap */
+  private gapWarned: Set<string> = new Set();
 
   /**
    * Get or create an XPub for a merchant's xpub string
@@ -55,9 +94,14 @@ export class AddressService {
    * Get the network type for address creation
    */
   private getNetworkType(): NetworkType {
-    return getCurrentNetwork() === 'mainnet'
-      ? NetworkType.Mainnet
-      : NetworkType.Testnet;
+    switch (getCurrentNetwork()) {
+      case 'mainnet':
+        return NetworkType.Mainnet;
+      case 'simnet':
+        return NetworkType.Simnet;
+      default:
+        return NetworkType.Testnet;
+    }
   }
 
   /**
@@ -88,19 +132,29 @@ export class AddressService {
 
   /**
    * Get the next unused address for a merchant
-   * This atomically increments the address index
+   *
+   * Reuses the lowest index of an expired, never-funded session when the chain
+   * confirms it is still empty; otherwise atomically increments the address index.
    */
-  getNextAddress(merchantId: string): DerivedAddress {
+  async getNextAddress(merchantId: string): Promise<DerivedAddress> {
     // Get merchant info
-    const merchant = query<MerchantAddressInfo>(
+    const row = query<MerchantAddressInfo>(
       'SELECT id, xpub, next_address_index FROM merchants WHERE id = ?',
       [merchantId]
     )[0];
 
-    if (!merchant) {
+    if (!row) {
       throw new Error(`Merchant not found: ${merchantId}`);
     }
 
+    const merchant = { ...row, xpub: getEncryptionService().decrypt(row.xpub) };
+
+    const recycled = await this.findRecyclableAddress(merchant);
+    if (recycled) {
+      console.log(`[KasGate] Reusing unfunded address for merchant ${merchantId}: index ${recycled.index}`);
+      return recycled;
+    }
+
     const index = merchant.next_address_index;
 
     // Derive the address
@@ -114,9 +168,42 @@ export class AddressService {
 
     console.log(`[KasGate] Derived address for merchant ${merchantId}: index ${index}`);
 
+    this.checkGap(merchantId);
+
     return derivedAddress;
   }
 
+  /**
+   * Get the current gap of unused addresses for a merchant
+   */
+  getAddressGap(merchantId: string): AddressGap {
+    const merchant = queryOne<{ next_address_index: number }>(
+      'SELECT next_address_index FROM merchants WHERE id = ?',
+      [merchantId]
+    );
+    const nextIndex = merchant?.next_address_index ?? 0;
+
+    // Indices at or above next_address_index belong to a previous xPub
+    const row = queryOne<{ last_used: number | null }>(
+      `SELECT MAX(address_index) as last_used FROM sessions
+       WHERE merchant_id = ? AND address_index < ?
+         AND (COALESCE(amount_received, '0') != '0' OR tx_id IS NOT NULL)`,
+      [merchantId, nextIndex]
+    );
+    const lastUsedIndex = row?.last_used ?? null;
+
+    const limit = getAddressGapLimit();
+    const gap = nextIndex - (lastUsedIndex ?? -1) - 1;
+
+    return {
+      gap,
+      limit,
+      nearLimit: gap >= Math.floor(limit * ADDRESS_GAP_WARNING_RATIO),
+      lastUsedIndex,
+      nextIndex,
+    };
+  }
+
   /**
    * Verify that an address was derived from a merchant's xPub
    */
@@ -144,7 +231,114 @@ export class AddressService {
    */
   clearCache(): void {
     this.generators.clear();
+    this.reservedIndices.clear();
+    this.fundedIndices.clear();
+    this.gapWarned.clear();
+  }
+
+  // ============================================================
+  // PRIVATE METHODS
+  // ============================================================
+
+  /**
+   * Find an index whose sessions all expired or were cancelled unfunded and whose address is still empty
+   *
+   * Returns null (fall back to a fresh index) if the balance check fails.
+   */
+  private async findRecyclableAddress(merchant: MerchantAddressInfo): Promise<DerivedAddress | null> {
+    const now = Date.now();
+
+    // Drop stale reservations (the session row now excludes the index itself)
+    for (const [key, reservedAt] of this.reservedIndices) {
+      if (now - reservedAt >= RECYCLE_RESERVATION_MS) {
+        this.reservedIndices.delete(key);
+      }
+    }
+
+    const candidates = query<RecyclableIndexRow>(
+      `SELECT address_index, MIN(address) as address
+       FROM sessions
+       WHERE merchant_id = ? AND address_index < ?
+       GROUP BY address_index
+       HAVING COUNT(DISTINCT address) = 1
+         AND SUM(CASE
+               WHEN status IN ('expired', 'cancelled')
+                AND COALESCE(amount_received, '0') = '0'
+                AND tx_id IS NULL
+                AND datetime(expires_at) <= datetime('now', ?)
+               THEN 0 ELSE 1 END) = 0
+       ORDER BY address_index ASC
+       LIMIT ?`,
+      [
+        merchant.id,
+        merchant.next_address_index,
+        `-${ADDRESS_RECYCLE_COOLDOWN_MINUTES} minutes`,
+        ADDRESS_RECYCLE_MAX_CANDIDATES + this.reservedIndices.size + this.fundedIndices.size,
+      ]
+    );
+
+    let checked = 0;
+
+    for (const candidate of candidates) {
+      if (checked >= ADDRESS_RECYCLE_MAX_CANDIDATES) break;
+
+      const key = `${merchant.id}:${candidate.address_index}`;
+      if (this.fundedIndices.has(key) || this.reservedIndices.has(key)) {
+        continue;
+      }
+
+      // Skip indices whose sessions were derived from a previous xPub
+      const derived = this.deriveAddress(merchant.xpub, candidate.address_index);
+      if (derived.address !== candidate.address) continue;
+
+      this.reservedIndices.set(key, now);
+      checked++;
+
+      try {
+        const balance = await fetchBalance(derived.address);
+        if (balance === 0n) {
+          return derived;
+        }
+        console.warn(`[KasGate] Expired session address at index ${candidate.address_index} holds funds, not reusing`);
+        this.fundedIndices.add(key);
+        this.reservedIndices.delete(key);
+      } catch (error) {
+        this.reservedIndices.delete(key);
+        console.warn(`[KasGate] Could not check balance for address reuse, deriving a new address:`, error);
+        return null;
+      }
+    }
+
+    return null;
   }
+
+  /**
+   * Warn once when a merchant's address gap approaches the limit
+   */
+  private checkGap(merchantId: string): void {
+    const { gap, limit, nearLimit } = this.getAddressGap(merchantId);
+
+    if (!nearLimit) {
+      this.gapWarned.delete(merchantId);
+      return;
+    }
+
+    if (!this.gapWarned.has(merchantId)) {
+      this.gapWarned.add(merchantId);
+      console.warn(
+        `[KasGate] Merchant ${merchantId} has ${gap} unused addresses in a row (gap limit ${limit}). ` +
+        'Wallets restored from the xPub may not show later payments until the gap limit is raised.'
+      );
+    }
+  }
+}
+
+/**
+ * Address gap limit from ADDRESS_GAP_LIMIT, or the default
+ */
+export function getAddressGapLimit(): number {
+  const limit = parseInt(process.env.ADDRESS_GAP_LIMIT || '', 10);
+  return limit > 0 ? limit : DEFAULT_ADDRESS_GAP_LIMIT;
 }
 
 // ============================================================
@@ -0,0 +1,135 @@
+/**
+ * API Key Service Tests
+ * Tests for named keys, expiry, rotation and IP allowlists
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ApiKeyService, isIpAllowed, isValidIpRange } from './api-key.js';
+import { getMerchantService, resetMerchantService, type Merchant } from './merchant.js';
+import { initDatabase, closeDatabase } from '../db/index.js';
+
+describe('ApiKeyService', () => {
+  let service: ApiKeyService;
+  let merchant: Merchant;
+
+  beforeEach(() => {
+    initDatabase(':memory:');
+    resetMerchantService();
+    service = new ApiKeyService();
+    merchant = getMerchantService().createMerchant({
+      name: 'Test Merchant',
+      xpub: 'kpub1234567890abcdefghijklmnopqrstuvwxyz1234567890abcdefghijklmnopqrstuvwxyz1234567890abcdefghijkl',
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    closeDatabase();
+  });
+
+  it('should create a key that verifies by its value only', () => {
+    const created = service.createKey(merchant.id, { name: 'Checkout', scopes: ['sessions:write'] });
+
+    expect(created.key).toMatch(/^rk_live_/);
+    expect(created.prefix).toBe(created.key.slice(0, created.prefix.length));
+    expect(service.verifyKey(created.key)?.id).toBe(created.id);
+    expect(service.verifyKey(`${created.key}x`)).toBeNull();
+    expect(service.listKeys(merchant.id)).toHaveLength(1);
+  });
+
+  it('should update scopes, allowlist and expiry', () => {
+    const created = service.createKey(merchant.id, {
+      name: 'Reports',
+      scopes: ['analytics:read'],
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+
+    const updated = service.updateKey(merchant.id, created.id, {
+      scopes: ['analytics:read', 'sessions:read'],
+      allowedIps: ['203.0.113.0/24'],
+      expiresAt: null,
+    });
+
+    expect(updated?.scopes).toEqual(['analytics:read', 'sessions:read']);
+    expect(updated?.allowedIps).toEqual(['203.0.113.0/24']);
+    expect(updated?.expiresAt).toBeUndefined();
+  });
+
+  it('should stop verifying revoked and expired keys', () => {
+    const revoked = service.createKey(merchant.id, { name: 'Old', scopes: ['sessions:read'] });
+    const expiring = service.createKey(merchant.id, {
+      name: 'Temporary',
+      scopes: ['sessions:read'],
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+
+    expect(service.revokeKey(merchant.id, revoked.id)).toBe(true);
+    expect(service.verifyKey(revoked.key)).toBeNull();
+    expect(service.listKeys(merchant.id).map((k) => k.id)).toEqual([expiring.id]);
+
+    vi.useFakeTimers({ now: Date.now() + 61_000 });
+    expect(service.verifyKey(expiring.key)).toBeNull();
+  });
+
+  it('should keep a rotated key working for the grace period', () => {
+    const original = service.createKey(merchant.id, {
+      name: 'Backend',
+      scopes: ['sessions:write', 'sessions:read'],
+      allowedIps: ['198.51.100.7'],
+    });
+
+    const rotation = service.rotateKey(merchant.id, original.id, 3600)!;
+
+    expect(rotation.key.key).not.toBe(original.key);
+    expect(rotation.key.name).toBe('Backend');
+    expect(rotation.key.scopes).toEqual(['sessions:write', 'sessions:read']);
+    expect(rotation.key.allowedIps).toEqual(['198.51.100.7']);
+    expect(rotation.previous.rotatedTo).toBe(rotation.key.id);
+    expect(service.verifyKey(original.key)?.id).toBe(original.id);
+    expect(service.verifyKey(rotation.key.key)?.id).toBe(rotation.key.id);
+
+    vi.useFakeTimers({ now: Date.now() + 3601_000 });
+    expect(service.verifyKey(original.key)).toBeNull();
+    expect(service.verifyKey(rotation.key.key)?.id).toBe(rotation.key.id);
+  });
+
+  it('should not extend an expiry when rotating', () => {
+    const expiresAt = new Date(Date.now() + 60_000);
+    const original = service.createKey(merchant.id, { name: 'Short', scopes: ['sessions:read'], expiresAt });
+
+    const rotation = service.rotateKey(merchant.id, original.id, 3600)!;
+
+    expect(rotation.previous.expiresAt?.getTime()).toBe(expiresAt.getTime());
+  });
+
+  it('should not expose keys of other merchants', () => {
+    const other = getMerchantService().createMerchant({ name: 'Other', xpub: merchant.xpub });
+    const created = service.createKey(other.id, { name: 'Theirs', scopes: ['sessions:read'] });
+
+    expect(service.getKey(merchant.id, created.id)).toBeNull();
+    expect(service.revokeKey(merchant.id, created.id)).toBe(false);
+    expect(service.rotateKey(merchant.id, created.id, 60)).toBeNull();
+  });
+});
+
+describe('IP allowlists', () => {
+  it('should validate addresses and CIDR ranges', () => {
+    expect(isValidIpRange('203.0.113.5')).toBe(true);
+    expect(isValidIpRange('203.0.113.0/24')).toBe(true);
+    expect(isValidIpRange('2001:db8::/32')).toBe(true);
+    expect(isValidIpRange('203.0.113.0/33')).toBe(false);
+    expect(isValidIpRange('example.com')).toBe(false);
+    expect(isValidIpRange('203.0.113.0/24/1')).toBe(false);
+  });
+
+  it('should match addresses, ranges and IPv4-mapped addresses', () => {
+    const allowed = ['203.0.113.0/24', '2001:db8::1'];
+
+    expect(isIpAllowed(allowed, '203.0.113.77')).toBe(true);
+    expect(isIpAllowed(allowed, '::ffff:203.0.113.77')).toBe(true);
+    expect(isIpAllowed(allowed, '2001:db8::1')).toBe(true);
+    expect(isIpAllowed(allowed, '198.51.100.1')).toBe(false);
+    expect(isIpAllowed(allowed, undefined)).toBe(false);
+    expect(isIpAllowed([], undefined)).toBe(true);
+  });
+});
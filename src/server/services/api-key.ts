@@ -0,0 +1,391 @@
+/**
+ * API Key Service - Named Merchant API Keys
+ *
+ * Besides their secret key (full access), merchants can create named keys
+ * limited to a set of scopes, optionally with an expiry date and an IP
+ * allowlist. Keys are stored as SHA-256 hashes and shown only when created.
+ * Rotating a key issues a replacement while the old key keeps working for a
+ * grace period, so integrations can switch over without downtime.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import crypto from 'crypto';
+import net from 'net';
+import { query, queryOne, execute, toSqliteDate, toJson, fromJson } from '../db/index.js';
+import type { ApiKeyScope } from '../../shared/validation.js';
+import { API_KEY_LAST_USED_RESOLUTION_SECONDS, API_KEY_PREFIX_LENGTH } from '../../shared/constants.js';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface ApiKey {
+  id: string;
+  merchantId: string;
+  name: string;
+  /** Leading characters of the key, to recognise it */
+  prefix: string;
+  scopes: ApiKeyScope[];
+  /** IP addresses and CIDR ranges the key may be used from; empty allows any */
+  allowedIps: string[];
+  expiresAt?: Date;
+  lastUsedAt?: Date;
+  lastUsedIp?: string;
+  /** The key that replaced this one on rotation */
+  rotatedTo?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateApiKeyInput {
+  name: string;
+  scopes: ApiKeyScope[];
+  allowedIps?: string[];
+  expiresAt?: Date;
+}
+
+export interface UpdateApiKeyInput {
+  name?: string;
+  scopes?: ApiKeyScope[];
+  allowedIps?: string[];
+  /** null removes the expiry */
+  expiresAt?: Date | null;
+}
+
+interface ApiKeyRow {
+  id: string;
+  merchant_id: string;
+  name: string;
+  key_hash: string;
+  key_prefix: string;
+  scopes: string;
+  allowed_ips: string | null;
+  expires_at: string | null;
+  last_used_at: string | null;
+  last_used_ip: string | null;
+  rotated_to: string | null;
+  revoked_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * Check if a key is a named API key (as opposed to the secret or publishable key)
+ */
+export function isNamedApiKey(key: string): boolean {
+  return key.startsWith('rk_');
+}
+
+/**
+ * Check if an entry is an IP address or a CIDR range
+ */
+export function isValidIpRange(entry: string): boolean {
+  const [address, bits, ...rest] = entry.split('/');
+  const family = net.isIP(address);
+  if (family === 0 || rest.length > 0) return false;
+  if (bits === undefined) return true;
+
+  const prefix = Number(bits);
+  return /^\d+$/.test(bits) && prefix <= (family === 4 ? 32 : 128);
+}
+
+/**
+ * Check if an IP address is in an allowlist of addresses and CIDR ranges
+ * (an empty allowlist allows any address)
+ */
+export function isIpAllowed(allowedIps: string[], ip: string | undefined): boolean {
+  if (allowedIps.length === 0) return true;
+  if (!ip) return false;
+
+  // Express reports IPv4 clients of a dual-stack server as IPv4-mapped IPv6
+  const address = ip.startsWith('::ffff:') && net.isIPv4(ip.slice(7)) ? ip.slice(7) : ip;
+  const family = net.isIPv4(address) ? 'ipv4' : 'ipv6';
+
+  const blockList = new net.BlockList();
+  for (const entry of allowedIps) {
+    const [network, bits] = entry.split('/');
+    const type = net.isIPv4(network) ? 'ipv4' : 'ipv6';
+    if (bits === undefined) {
+      blockList.addAddress(network, type);
+    } else {
+      blockList.addSubnet(network, Number(bits), type);
+    }
+  }
+
+  return blockList.check(address, family);
+}
+
+// ============================================================
+// API KEY SERVICE CLASS
+// ============================================================
+
+export class ApiKeyService {
+  /**
+   * Create a named API key for a merchant
+   * @returns the key's details and the key itself (only returned once)
+   */
+  createKey(merchantId: string, input: CreateApiKeyInput): ApiKey & { key: string } {
+    const id = uuidv4();
+    const key = this.generateKey();
+    const now = new Date();
+
+    execute(
+      `INSERT INTO api_keys (
+        id, merchant_id, name, key_hash, key_prefix, scopes, allowed_ips, expires_at, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id,
+        merchantId,
+        input.name,
+        this.hashKey(key),
+        key.slice(0, API_KEY_PREFIX_LENGTH),
+        toJson(input.scopes),
+        input.allowedIps?.length ? toJson(input.allowedIps) : null,
+        input.expiresAt ? toSqliteDate(input.expiresAt) : null,
+        toSqliteDate(now),
+        toSqliteDate(now),
+      ]
+    );
+
+    console.log(`[KasGate] Created API key ${id} for merchant ${merchantId}`);
+
+    return {
+      id,
+      merchantId,
+      name: input.name,
+      prefix: key.slice(0, API_KEY_PREFIX_LENGTH),
+      scopes: input.scopes,
+      allowedIps: input.allowedIps ?? [],
+      expiresAt: input.expiresAt,
+      createdAt: now,
+      updatedAt: now,
+      key,
+    };
+  }
+
+  /**
+   * List a merchant's API keys (including expired ones, excluding revoked ones)
+   */
+  listKeys(merchantId: string): ApiKey[] {
+    const rows = query<ApiKeyRow>(
+      `SELECT * FROM api_keys
+       WHERE merchant_id = ? AND revoked_at IS NULL
+       ORDER BY created_at ASC`,
+      [merchantId]
+    );
+
+    return rows.map((row) => this.rowToApiKey(row));
+  }
+
+  /**
+   * Get an API key owned by a merchant
+   */
+  getKey(merchantId: string, keyId: string): ApiKey | null {
+    const row = queryOne<ApiKeyRow>(
+      'SELECT * FROM api_keys WHERE id = ? AND merchant_id = ? AND revoked_at IS NULL',
+      [keyId, merchantId]
+    );
+
+    return row ? this.rowToApiKey(row) : null;
+  }
+
+  /**
+   * Update an API key's name, scopes, allowlist or expiry
+   */
+  updateKey(merchantId: string, keyId: string, input: UpdateApiKeyInput): ApiKey | null {
+    const apiKey = this.getKey(merchantId, keyId);
+    if (!apiKey) return null;
+
+    const updates: string[] = [];
+    const params: any[] = [];
+
+    if (input.name !== undefined) {
+      updates.push('name = ?');
+      params.push(input.name);
+    }
+
+    if (input.scopes !== undefined) {
+      updates.push('scopes = ?');
+      params.push(toJson(input.scopes));
+    }
+
+    if (input.allowedIps !== undefined) {
+      updates.push('allowed_ips = ?');
+      params.push(input.allowedIps.length ? toJson(input.allowedIps) : null);
+    }
+
+    if (input.expiresAt !== undefined) {
+      updates.push('expires_at = ?');
+      params.push(input.expiresAt ? toSqliteDate(input.expiresAt) : null);
+    }
+
+    if (updates.length === 0) {
+      return apiKey;
+    }
+
+    updates.push("updated_at = datetime('now')");
+    params.push(keyId);
+
+    execute(
+      `UPDATE api_keys SET ${updates.join(', ')} WHERE id = ?`,
+      params
+    );
+
+    console.log(`[KasGate] Updated API key ${keyId} for merchant ${merchantId}`);
+
+    return this.getKey(merchantId, keyId);
+  }
+
+  /**
+   * Revoke an API key; it stops working immediately
+   */
+  revokeKey(merchantId: string, keyId: string): boolean {
+    const result = execute(
+      `UPDATE api_keys
+       SET revoked_at = datetime('now'), updated_at = datetime('now')
+       WHERE id = ? AND merchant_id = ? AND revoked_at IS NULL`,
+      [keyId, merchantId]
+    );
+
+    if (result.changes === 0) return false;
+
+    console.log(`[KasGate] Revoked API key ${keyId} for merchant ${merchantId}`);
+
+    return true;
+  }
+
+  /**
+   * Replace an API key with a new one of the same name, scopes, allowlist and
+   * expiry. The old key keeps working for the grace period (but never past
+   * its own expiry), then expires.
+   *
+   * @returns the new key (the key itself is only returned once) and the old key
+   */
+  rotateKey(
+    merchantId: string,
+    keyId: string,
+    gracePeriodSeconds: number
+  ): { key: ApiKey & { key: string }; previous: ApiKey } | null {
+    const apiKey = this.getKey(merchantId, keyId);
+    if (!apiKey) return null;
+
+    const replacement = this.createKey(merchantId, {
+      name: apiKey.name,
+      scopes: apiKey.scopes,
+      allowedIps: apiKey.allowedIps,
+      expiresAt: apiKey.expiresAt,
+    });
+
+    const graceEnd = new Date(Date.now() + gracePeriodSeconds * 1000);
+    const expiresAt = apiKey.expiresAt && apiKey.expiresAt < graceEnd ? apiKey.expiresAt : graceEnd;
+
+    execute(
+      "UPDATE api_keys SET expires_at = ?, rotated_to = ?, updated_at = datetime('now') WHERE id = ?",
+      [toSqliteDate(expiresAt), replacement.id, keyId]
+    );
+
+    console.log(`[KasGate] Rotated API key ${keyId} to ${replacement.id}; old key expires at ${expiresAt.toISOString()}`);
+
+    return { key: replacement, previous: this.getKey(merchantId, keyId)! };
+  }
+
+  /**
+   * Look up an unrevoked, unexpired API key
+   *
+   * Keys are compared by hash, so lookups take the same time whether or not
+   * the key exists.
+   */
+  verifyKey(key: string): ApiKey | null {
+    if (!isNamedApiKey(key)) return null;
+
+    const row = queryOne<ApiKeyRow>(
+      'SELECT * FROM api_keys WHERE key_hash = ? AND revoked_at IS NULL',
+      [this.hashKey(key)]
+    );
+
+    if (!row) return null;
+
+    const apiKey = this.rowToApiKey(row);
+    return this.isExpired(apiKey) ? null : apiKey;
+  }
+
+  /**
+   * Record that an API key was used; written at most once per
+   * API_KEY_LAST_USED_RESOLUTION_SECONDS (or when the IP changes)
+   */
+  recordUsage(apiKey: ApiKey, ip: string | undefined): void {
+    const stale = !apiKey.lastUsedAt ||
+      Date.now() - apiKey.lastUsedAt.getTime() >= API_KEY_LAST_USED_RESOLUTION_SECONDS * 1000;
+    if (!stale && apiKey.lastUsedIp === ip) return;
+
+    execute(
+      'UPDATE api_keys SET last_used_at = ?, last_used_ip = ? WHERE id = ?',
+      [toSqliteDate(new Date()), ip ?? null, apiKey.id]
+    );
+  }
+
+  /**
+   * Check if an API key is past its expiry (including rotated keys past their grace period)
+   */
+  isExpired(apiKey: ApiKey): boolean {
+    return apiKey.expiresAt !== undefined && apiKey.expiresAt.getTime() <= Date.now();
+  }
+
+  // ============================================================
+  // PRIVATE METHODS
+  // ============================================================
+
+  private rowToApiKey(row: ApiKeyRow): ApiKey {
+    return {
+      id: row.id,
+      merchantId: row.merchant_id,
+      name: row.name,
+      prefix: row.key_prefix,
+      scopes: fromJson<ApiKeyScope[]>(row.scopes) || [],
+      allowedIps: fromJson<string[]>(row.allowed_ips) || [],
+      expiresAt: row.expires_at ? new Date(row.expires_at) : undefined,
+      lastUsedAt: row.last_used_at ? new Date(row.last_used_at) : undefined,
+      lastUsedIp: row.last_used_ip || undefined,
+      rotatedTo: row.rotated_to || undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  private generateKey(): string {
+    // Format: rk_live_[32 random chars]
+    const random = crypto.randomBytes(24).toString('base64url');
+    return `rk_live_${random}`;
+  }
+
+  private hashKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+}
+
+// ============================================================
+// SINGLETON INSTANCE
+// ============================================================
+
+let apiKeyService: ApiKeyService | null = null;
+
+/**
+ * Get the singleton API key service instance
+ */
+export function getApiKeyService(): ApiKeyService {
+  if (!apiKeyService) {
+    apiKeyService = new ApiKeyService();
+  }
+  return apiKeyService;
+}
+
+/**
+ * Reset the API key service (for testing)
+ */
+export function resetApiKeyService(): void {
+  apiKeyService = null;
+}
@@ -0,0 +1,133 @@
+/**
+ * Balance Service Tests
+ * Tests for the balance report across derived merchant addresses
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import crypto from 'crypto';
+import { getBalanceService, resetBalanceService } from './balance.js';
+import { getAddressService, resetAddressService, type DerivedAddress } from './address.js';
+import { initDatabase, closeDatabase, execute } from '../db/index.js';
+
+const mockFetchBalance = vi.fn();
+vi.mock('./rest-poller.js', () => ({
+  fetchBalance: (address: string) => mockFetchBalance(address),
+}));
+
+const mockExplorerBalance = vi.fn();
+vi.mock('../../kaspa/explorer.js', () => ({
+  getExplorerClient: () => ({ getBalance: (address: string) => mockExplorerBalance(address) }),
+}));
+
+const TEST_MERCHANT_ID = '550e8400-e29b-41d4-a716-446655440000';
+
+function addressAt(index: number): string {
+  return `kaspatest:qr0derived${index}`;
+}
+
+function createTestMerchant(nextIndex: number) {
+  execute(
+    `INSERT INTO merchants (id, name, xpub, api_key_hash, next_address_index, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, datetime('now'), datetime('now'))`,
+    [
+      TEST_MERCHANT_ID,
+      'Test Merchant',
+      'kpub1234567890abcdefghijklmnopqrstuvwxyz1234567890abcdefghijklmnopqrstuvwxyz1234567890abcdefghijkl',
+      'abcd1234',
+      nextIndex,
+    ]
+  );
+}
+
+function createSessionAt(index: number, orderId: string, createdAgo: string) {
+  const id = crypto.randomUUID();
+  execute(
+    `INSERT INTO sessions (id, merchant_id, address, address_index, amount, status, order_id, created_at, expires_at)
+     VALUES (?, ?, ?, ?, ?, 'confirmed', ?, datetime('now', ?), datetime('now'))`,
+    [id, TEST_MERCHANT_ID, addressAt(index), index, '100000000', orderId, createdAgo]
+  );
+  return id;
+}
+
+function setBalances(balances: Record<string, bigint>) {
+  mockFetchBalance.mockImplementation(async (address: string) => balances[address] ?? 0n);
+}
+
+describe('BalanceService', () => {
+  beforeEach(() => {
+    initDatabase(':memory:');
+    resetAddressService();
+    resetBalanceService();
+    vi.clearAllMocks();
+
+    // Derivation needs kaspa-wasm; a deterministic stand-in is enough here
+    vi.spyOn(getAddressService(), 'deriveAddress').mockImplementation(
+      (_xpub: string, index: number): DerivedAddress => ({
+        address: addressAt(index),
+        index,
+        path: `m/44'/111111'/0'/0/${index}`,
+      })
+    );
+  });
+
+  afterEach(() => {
+    closeDatabase();
+  });
+
+  it('should list only funded addresses, largest balance first', async () => {
+    createTestMerchant(4);
+    setBalances({ [addressAt(1)]: 5000n, [addressAt(3)]: 9000n });
+
+    const report = await getBalanceService().getBalanceReport(TEST_MERCHANT_ID);
+
+    expect(report.addressesChecked).toBe(4);
+    expect(report.fundedAddresses.map((a) => a.index)).toEqual([3, 1]);
+    expect(report.totalBalance).toBe(14000n);
+    expect(report.failedAddresses).toEqual([]);
+  });
+
+  it('should attach the latest session that used each address', async () => {
+    createTestMerchant(1);
+    createSessionAt(0, 'order-old', '-2 days');
+    const latestId = createSessionAt(0, 'order-new', '-1 hour');
+    setBalances({ [addressAt(0)]: 100000000n });
+
+    const report = await getBalanceService().getBalanceReport(TEST_MERCHANT_ID);
+
+    expect(report.fundedAddresses[0]).toMatchObject({
+      sessionCount: 2,
+      lastSessionId: latestId,
+      lastOrderId: 'order-new',
+    });
+  });
+
+  it('should fall back to the explorer and report addresses it cannot check', async () => {
+    createTestMerchant(2);
+    mockFetchBalance.mockRejectedValue(new Error('REST API error'));
+    mockExplorerBalance.mockImplementation(async (address: string) => {
+      if (address === addressAt(0)) return 700n;
+      throw new Error('Explorer error');
+    });
+
+    const report = await getBalanceService().getBalanceReport(TEST_MERCHANT_ID);
+
+    expect(report.fundedAddresses.map((a) => a.balance)).toEqual([700n]);
+    expect(report.failedAddresses).toEqual([addressAt(1)]);
+  });
+
+  it('should reuse cached balances unless refreshed', async () => {
+    createTestMerchant(2);
+    setBalances({ [addressAt(0)]: 1000n });
+    const service = getBalanceService();
+
+    await service.getBalanceReport(TEST_MERCHANT_ID);
+    await service.getBalanceReport(TEST_MERCHANT_ID);
+    expect(mockFetchBalance).toHaveBeenCalledTimes(2);
+
+    setBalances({});
+    const refreshed = await service.getBalanceReport(TEST_MERCHANT_ID, { refresh: true });
+
+    expect(mockFetchBalance).toHaveBeenCalledTimes(4);
+    expect(refreshed.fundedAddresses).toEqual([]);
+  });
+});
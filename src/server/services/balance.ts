@@ -0,0 +1,241 @@
+/**
+ * Balance Service - Balances Across Derived Merchant Addresses
+ *
+ * Every session gets its own address derived from the merchant's xPub, so
+ * received funds are spread over many addresses. This service checks the
+ * balance of each derived address in throttled batches and reports the ones
+ * still holding funds, as a sweep checklist for the merchant's wallet.
+ */
+
+import { query, queryOne } from '../db/index.js';
+import { getAddressService } from './address.js';
+import { fetchBalance } from './rest-poller.js';
+import { getEncryptionService } from './encryption.js';
+import { getExplorerClient } from '../../kaspa/explorer.js';
+import {
+  BALANCE_FETCH_BATCH_SIZE,
+  BALANCE_FETCH_BATCH_DELAY_MS,
+  BALANCE_CACHE_TTL_MS,
+} from '../../shared/constants.js';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface AddressBalance {
+  address: string;
+  index: number;
+  path: string;
+  balance: bigint;
+  /** Sessions that used this address */
+  sessionCount: number;
+  lastSessionId?: string;
+  lastOrderId?: string;
+  lastSessionAt?: Date;
+}
+
+export interface BalanceReport {
+  /** Sum of all funded address balances in sompi */
+  totalBalance: bigint;
+  /** Number of derived addresses checked */
+  addressesChecked: number;
+  /** Addresses holding funds, largest balance first */
+  fundedAddresses: AddressBalance[];
+  /** Addresses whose balance could not be fetched */
+  failedAddresses: string[];
+  generatedAt: Date;
+}
+
+interface CachedBalance {
+  balance: bigint;
+  fetchedAt: number;
+}
+
+interface AddressSessionRow {
+  address_index: number;
+  address: string;
+  session_count: number;
+  last_session_id: string;
+  last_order_id: string | null;
+  last_created_at: string;
+}
+
+// ============================================================
+// BALANCE SERVICE CLASS
+// ============================================================
+
+export class BalanceService {
+  private cache: Map<string, CachedBalance> = new Map();
+  /** In-flight reports per merchant, so concurrent requests share one scan */
+  private inFlight: Map<string, Promise<BalanceReport>> = new Map();
+
+  /**
+   * Build a balance report for every address derived for a merchant
+   *
+   * Cached balances younger than BALANCE_CACHE_TTL_MS are reused unless
+   * refresh is set.
+   */
+  async getBalanceReport(merchantId: string, options: { refresh?: boolean } = {}): Promise<BalanceReport> {
+    const existing = this.inFlight.get(merchantId);
+    if (existing) {
+      return existing;
+    }
+
+    const report = this.buildReport(merchantId, options.refresh ?? false)
+      .finally(() => this.inFlight.delete(merchantId));
+    this.inFlight.set(merchantId, report);
+    return report;
+  }
+
+  /**
+   * Clear cached balances (for testing)
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  // ============================================================
+  // PRIVATE METHODS
+  // ============================================================
+
+  private async buildReport(merchantId: string, refresh: boolean): Promise<BalanceReport> {
+    const merchant = queryOne<{ xpub: string; next_address_index: number }>(
+      'SELECT xpub, next_address_index FROM merchants WHERE id = ?',
+      [merchantId]
+    );
+
+    if (!merchant) {
+      throw new Error(`Merchant not found: ${merchantId}`);
+    }
+
+    // Session usage per index, for the current xPub's derivation range
+    const sessionRows = query<AddressSessionRow>(
+      `SELECT s.address_index, s.address, counts.session_count,
+              s.id as last_session_id, s.order_id as last_order_id, s.created_at as last_created_at
+       FROM sessions s
+       JOIN (
+         SELECT address_index, COUNT(*) as session_count, MAX(created_at) as last_created_at
+         FROM sessions
+         WHERE merchant_id = ? AND address_index < ?
+         GROUP BY address_index
+       ) counts ON counts.address_index = s.address_index AND counts.last_created_at = s.created_at
+       WHERE s.merchant_id = ?`,
+      [merchantId, merchant.next_address_index, merchantId]
+    );
+    const sessionsByIndex = new Map(sessionRows.map((row) => [row.address_index, row]));
+
+    const addressService = getAddressService();
+    const xpub = getEncryptionService().decrypt(merchant.xpub);
+    const derived = [];
+    for (let index = 0; index < merchant.next_address_index; index++) {
+      derived.push(addressService.deriveAddress(xpub, index));
+    }
+
+    const fundedAddresses: AddressBalance[] = [];
+    const failedAddresses: string[] = [];
+    let totalBalance = 0n;
+
+    for (let i = 0; i < derived.length; i += BALANCE_FETCH_BATCH_SIZE) {
+      const batch = derived.slice(i, i + BALANCE_FETCH_BATCH_SIZE);
+      let fetchedAny = false;
+
+      const results = await Promise.all(batch.map(async (entry) => {
+        const cached = this.cache.get(entry.address);
+        if (!refresh && cached && Date.now() - cached.fetchedAt < BALANCE_CACHE_TTL_MS) {
+          return { entry, balance: cached.balance as bigint | null };
+        }
+
+        fetchedAny = true;
+        const balance = await this.fetchAddressBalance(entry.address);
+        if (balance !== null) {
+          this.cache.set(entry.address, { balance, fetchedAt: Date.now() });
+        }
+        return { entry, balance };
+      }));
+
+      for (const { entry, balance } of results) {
+        if (balance === null) {
+          failedAddresses.push(entry.address);
+          continue;
+        }
+        if (balance === 0n) continue;
+
+        // Only attach session details when the session used this exact address
+        const session = sessionsByIndex.get(entry.index);
+        const matches = session?.address === entry.address;
+
+        totalBalance += balance;
+        fundedAddresses.push({
+          address: entry.address,
+          index: entry.index,
+          path: entry.path,
+          balance,
+          sessionCount: matches ? session.session_count : 0,
+          lastSessionId: matches ? session.last_session_id : undefined,
+          lastOrderId: matches ? session.last_order_id || undefined : undefined,
+          lastSessionAt: matches ? new Date(session.last_created_at) : undefined,
+        });
+      }
+
+      const hasMore = i + BALANCE_FETCH_BATCH_SIZE < derived.length;
+      if (fetchedAny && hasMore) {
+        await new Promise((resolve) => setTimeout(resolve, BALANCE_FETCH_BATCH_DELAY_MS));
+      }
+    }
+
+    fundedAddresses.sort((a, b) => (a.balance === b.balance ? a.index - b.index : a.balance > b.balance ? -1 : 1));
+
+    if (failedAddresses.length > 0) {
+      console.warn(`[KasGate] Balance report for ${merchantId}: ${failedAddresses.length} addresses could not be checked`);
+    }
+
+    return {
+      totalBalance,
+      addressesChecked: derived.length,
+      fundedAddresses,
+      failedAddresses,
+      generatedAt: new Date(),
+    };
+  }
+
+  /**
+   * Fetch a balance via the REST API, falling back to the explorer (null if both fail)
+   */
+  private async fetchAddressBalance(address: string): Promise<bigint | null> {
+    try {
+      return await fetchBalance(address);
+    } catch {
+      try {
+        return await getExplorerClient().getBalance(address);
+      } catch {
+        return null;
+      }
+    }
+  }
+}
+
+// ============================================================
+// SINGLETON INSTANCE
+// ============================================================
+
+let balanceService: BalanceService | null = null;
+
+/**
+ * Get the singleton balance service instance
+ */
+export function getBalanceService(): BalanceService {
+  if (!balanceService) {
+    balanceService = new BalanceService();
+  }
+  return balanceService;
+}
+
+/**
+ * Reset the balance service (for testing)
+ */
+export function resetBalanceService(): void {
+  if (balanceService) {
+    balanceService.clearCache();
+    balanceService = null;
+  }
+}
@@ -0,0 +1,320 @@
+/**
+ * Chain Backend - Pluggable Access to the Kaspa Network
+ *
+ * Everything the payment monitor needs from the chain (UTXO subscriptions,
+ * the virtual DAA score and transaction lookup) goes through a ChainBackend.
+ * Real networks use the RPC WebSocket with REST polling as fallback; simnet
+ * uses the in-memory simulated network so the whole payment lifecycle runs
+ * offline.
+ */
+
+import { getRpcManager, RpcManager } from '../../kaspa/rpc.js';
+import { getExplorerClient, ExplorerClient } from '../../kaspa/explorer.js';
+import { getRestEndpointPool } from '../../kaspa/endpoint-pool.js';
+import { isSimnet } from '../../config/network.js';
+import { getRestPoller, RestPoller } from './rest-poller.js';
+import { getSimulatedNetwork } from './simnet.js';
+import type { Utxo, UtxoChangedNotification } from '../../kaspa/types.js';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+/**
+ * A transaction as seen by the chain
+ */
+export interface ChainTransaction {
+  transactionId: string;
+  isAccepted: boolean;
+  /** DAA score of the accepting block, when accepted */
+  acceptingDaaScore?: bigint;
+}
+
+export interface UtxoSubscriber {
+  /**
+   * Outputs that appeared at (added) or left (removed) the address. Added may
+   * repeat outputs already reported; the payment monitor filters those.
+   */
+  onUtxosChanged: (address: string, added: Utxo[], removed: Utxo[]) => void;
+  onError?: (error: Error) => void;
+}
+
+export interface ChainBackendHandlers {
+  onConnect?: () => void;
+  onDisconnect?: () => void;
+}
+
+export interface ChainBackend {
+  /** Short name for logs, e.g. "RPC" */
+  readonly name: string;
+  connect(): Promise<void>;
+  disconnect(): Promise<void>;
+  isConnected(): boolean;
+  setHandlers(handlers: ChainBackendHandlers): void;
+  subscribe(address: string, subscriber: UtxoSubscriber): Promise<void>;
+  unsubscribe(address: string): Promise<void>;
+  getUtxos(address: string): Promise<Utxo[]>;
+  /** Current virtual DAA score, the scale of a UTXO's blockDaaScore */
+  getVirtualDaaScore(): Promise<bigint>;
+  /** @returns null if the network does not know the transaction */
+  getTransaction(txId: string): Promise<ChainTransaction | null>;
+}
+
+/**
+ * The backends a payment monitor works with: the primary one, and the one
+ * it falls back to while the primary is disconnected
+ */
+export interface ChainBackends {
+  primary: ChainBackend;
+  fallback: ChainBackend | null;
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+function outpointKey(utxo: Utxo): string {
+  return `${utxo.transactionId}:${utxo.index}`;
+}
+
+/**
+ * Look up a transaction and its accepting block's DAA score via the explorer
+ */
+async function lookupTransaction(explorer: ExplorerClient, txId: string): Promise<ChainTransaction | null> {
+  const tx = await explorer.getTransactionAcceptance(txId);
+  if (!tx) return null;
+
+  const acceptingDaaScore = tx.is_accepted && tx.accepting_block_hash
+    ? await explorer.getBlockDaaScore(tx.accepting_block_hash)
+    : undefined;
+
+  return { transactionId: tx.transaction_id, isAccepted: tx.is_accepted, acceptingDaaScore };
+}
+
+// ============================================================
+// RPC BACKEND
+// ============================================================
+
+/**
+ * Kaspa node over the wRPC WebSocket
+ *
+ * Nodes keep no transaction index, so transaction lookups go to the explorer.
+ */
+export class RpcChainBackend implements ChainBackend {
+  readonly name = 'RPC';
+  private handlers: ChainBackendHandlers = {};
+  private subscribers: Map<string, UtxoSubscriber> = new Map();
+  // Bug #1 fix: Map script public key to address for efficient UTXO matching
+  private scriptToAddress: Map<string, string> = new Map();
+
+  constructor(
+    private rpcManager: RpcManager = getRpcManager(),
+    private explorer: ExplorerClient = getExplorerClient()
+  ) {
+    this.rpcManager.setHandlers({
+      onUtxoChanged: (notification) => this.handleUtxoChange(notification),
+      onDisconnect: () => this.handlers.onDisconnect?.(),
+      onConnect: () => this.handlers.onConnect?.(),
+    });
+  }
+
+  connect(): Promise<void> {
+    // connect() doesn't throw on failure; check isConnected() afterwards
+    return this.rpcManager.connect();
+  }
+
+  disconnect(): Promise<void> {
+    return this.rpcManager.disconnect();
+  }
+
+  isConnected(): boolean {
+    return this.rpcManager.isConnected();
+  }
+
+  setHandlers(handlers: ChainBackendHandlers): void {
+    this.handlers = { ...this.handlers, ...handlers };
+  }
+
+  async subscribe(address: string, subscriber: UtxoSubscriber): Promise<void> {
+    this.subscribers.set(address, subscriber);
+    await this.rpcManager.subscribeAddress(address);
+    this.populateScriptMapping(address);
+  }
+
+  async unsubscribe(address: string): Promise<void> {
+    if (!this.subscribers.delete(address)) return;
+
+    // Clean up scriptToAddress mapping
+    for (const [script, addr] of this.scriptToAddress) {
+      if (addr === address) {
+        this.scriptToAddress.delete(script);
+        break;
+      }
+    }
+
+    await this.rpcManager.unsubscribeAddress(address);
+  }
+
+  getUtxos(address: string): Promise<Utxo[]> {
+    return this.rpcManager.getUtxos(address);
+  }
+
+  getVirtualDaaScore(): Promise<bigint> {
+    return this.rpcManager.getVirtualDaaScore();
+  }
+
+  getTransaction(txId: string): Promise<ChainTransaction | null> {
+    return lookupTransaction(this.explorer, txId);
+  }
+
+  // ============================================================
+  // PRIVATE METHODS
+  // ============================================================
+
+  /**
+   * Populate the scriptToAddress map for fallback UTXO matching (Bug #1 fix)
+   * This is async but we don't await it - it runs in background
+   */
+  private async populateScriptMapping(address: string): Promise<void> {
+    try {
+      if (!this.rpcManager.isConnected()) return;
+
+      const utxos = await this.rpcManager.getUtxos(address);
+      if (utxos.length > 0) {
+        // All UTXOs for an address share the same scriptPublicKey
+        const scriptPubKey = utxos[0].scriptPublicKey;
+        if (scriptPubKey) {
+          this.scriptToAddress.set(scriptPubKey, address);
+          console.log(`[KasGate] Mapped scriptPubKey for ${address.slice(0, 20)}...`);
+        }
+      }
+    } catch (error) {
+      // Non-critical - UTXO notifications should include address anyway
+      console.debug(`[KasGate] Could not populate script mapping for ${address.slice(0, 20)}:`, error);
+    }
+  }
+
+  private handleUtxoChange(notification: UtxoChangedNotification): void {
+    // Bug #1 fix: Group UTXOs by address for efficient processing
+    const added = this.groupBySubscribedAddress(notification.added);
+    const removed = this.groupBySubscribedAddress(notification.removed);
+
+    for (const address of new Set([...added.keys(), ...removed.keys()])) {
+      this.subscribers.get(address)?.onUtxosChanged(address, added.get(address) ?? [], removed.get(address) ?? []);
+    }
+  }
+
+  /**
+   * Group notified UTXOs by the subscribed address they belong to
+   */
+  private groupBySubscribedAddress(utxos: Utxo[]): Map<string, Utxo[]> {
+    const utxosByAddress = new Map<string, Utxo[]>();
+
+    for (const utxo of utxos) {
+      // Try to get address from UTXO (preferred - from RPC notification)
+      let address = utxo.address;
+
+      // Fallback: lookup by scriptPublicKey if address not included
+      if (!address) {
+        address = this.scriptToAddress.get(utxo.scriptPublicKey);
+      }
+
+      // Unknown address, or not one we're subscribed to
+      if (!address || !this.subscribers.has(address)) {
+        continue;
+      }
+
+      if (!utxosByAddress.has(address)) {
+        utxosByAddress.set(address, []);
+      }
+      utxosByAddress.get(address)!.push(utxo);
+    }
+
+    return utxosByAddress;
+  }
+}
+
+// ============================================================
+// REST BACKEND
+// ============================================================
+
+/**
+ * Public Kaspa REST API, polled for UTXO changes
+ */
+export class RestChainBackend implements ChainBackend {
+  readonly name = 'REST';
+
+  constructor(
+    private restPoller: RestPoller = getRestPoller(),
+    private explorer: ExplorerClient = getExplorerClient()
+  ) {}
+
+  async connect(): Promise<void> {
+    // Stateless: every request stands on its own
+  }
+
+  async disconnect(): Promise<void> {
+    this.restPoller.stop();
+  }
+
+  isConnected(): boolean {
+    return true;
+  }
+
+  setHandlers(): void {
+    // Never connects or disconnects
+  }
+
+  async subscribe(address: string, subscriber: UtxoSubscriber): Promise<void> {
+    this.restPoller.watch(address, {
+      onUtxoChange: (addr, utxos, previousUtxos) => {
+        // Pass the full set as added (a mempool UTXO may since have been
+        // included in a block); already-reported outpoints are filtered later
+        const current = new Set(utxos.map(outpointKey));
+        const removed = previousUtxos.filter((u) => !current.has(outpointKey(u)));
+        subscriber.onUtxosChanged(addr, utxos, removed);
+      },
+      onError: (error) => subscriber.onError?.(error),
+    });
+  }
+
+  async unsubscribe(address: string): Promise<void> {
+    this.restPoller.unwatch(address);
+  }
+
+  getUtxos(address: string): Promise<Utxo[]> {
+    return this.restPoller.fetchUtxos(address);
+  }
+
+  async getVirtualDaaScore(): Promise<bigint> {
+    const response = await getRestEndpointPool().fetch('/info/blockdag');
+    if (!response.ok) {
+      throw new Error(`REST API error: ${response.status} ${response.statusText}`);
+    }
+    const data = await response.json();
+    return BigInt(data.virtualDaaScore);
+  }
+
+  getTransaction(txId: string): Promise<ChainTransaction | null> {
+    return lookupTransaction(this.explorer, txId);
+  }
+}
+
+// ============================================================
+// FACTORY
+// ============================================================
+
+/**
+ * Backends for the configured network: the simulated network on simnet,
+ * otherwise RPC with REST polling as fallback
+ */
+export function createChainBackends(): ChainBackends {
+  if (isSimnet()) {
+    return { primary: getSimulatedNetwork(), fallback: null };
+  }
+
+  return {
+    primary: new RpcChainBackend(),
+    fallback: new RestChainBackend(),
+  };
+}
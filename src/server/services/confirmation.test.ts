@@ -0,0 +1,275 @@
+/**
+ * Confirmation Tracker Tests
+ * Tests for confirmation thresholds, the merchant's amount-tiered policy and
+ * the accepting-block baseline and DAA score cross-checks, driven by a mocked
+ * DAA score
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { getConfirmationTracker, resetConfirmationTracker } from './confirmation.js';
+import { getSessionManager, resetSessionManager } from './session.js';
+import { getMerchantSettingsService, resetMerchantSettingsService } from './merchant-settings.js';
+import { initDatabase, closeDatabase, execute } from '../db/index.js';
+
+let daaScore = 1000n;
+const mockGetTransaction = vi.fn();
+const mockGetCrossCheckedDaaScore = vi.fn();
+vi.mock('./payment-monitor.js', () => ({
+  getPaymentMonitor: () => ({
+    getDaaScore: async () => daaScore,
+    getCrossCheckedDaaScore: mockGetCrossCheckedDaaScore,
+    getTransaction: mockGetTransaction,
+    unmonitor: async () => {},
+  }),
+}));
+
+const mockSendWebhook = vi.fn();
+vi.mock('./webhook.js', () => ({
+  getWebhookService: () => ({ sendWebhook: mockSendWebhook }),
+}));
+
+const mockBroadcast = vi.fn();
+vi.mock('../websocket/index.js', () => ({
+  getWebSocketManager: () => ({ broadcastToSession: mockBroadcast }),
+}));
+
+vi.mock('./address.js', () => ({
+  getAddressService: () => ({
+    getNextAddress: vi.fn().mockResolvedValue({
+      address: 'kaspatest:qr0test1234567890abcdefghijklmnopqrstuvwxyz12345678',
+      index: 0,
+    }),
+  }),
+}));
+
+const TEST_MERCHANT_ID = '550e8400-e29b-41d4-a716-446655440000';
+
+function createTestMerchant() {
+  execute(
+    `INSERT INTO merchants (id, name, xpub, api_key_hash, created_at, updated_at)
+     VALUES (?, ?, ?, ?, datetime('now'), datetime('now'))`,
+    [
+      TEST_MERCHANT_ID,
+      'Test Merchant',
+      'kpub1234567890abcdefghijklmnopqrstuvwxyz1234567890abcdefghijklmnopqrstuvwxyz1234567890abcdefghijkl',
+      'abcd1234',
+    ]
+  );
+}
+
+/**
+ * Create a session that has received its payment and is waiting for confirmations
+ */
+async function createConfirmingSession(requiredConfirmations?: number, amount = BigInt(100000000)) {
+  const manager = getSessionManager();
+  const session = await manager.createSession({
+    merchantId: TEST_MERCHANT_ID,
+    amount,
+    requiredConfirmations,
+  });
+  manager.recordPayments(session.id, [{
+    transactionId: 'tx-' + session.id,
+    index: 0,
+    amount,
+    scriptPublicKey: '',
+    blockDaaScore: 1000n,
+    isCoinbase: false,
+  }]);
+  manager.markPaymentReceived(session.id, 'tx-' + session.id);
+  return session.id;
+}
+
+describe('ConfirmationTracker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    initDatabase(':memory:');
+    resetSessionManager();
+    resetConfirmationTracker();
+    resetMerchantSettingsService();
+    vi.clearAllMocks();
+    daaScore = 1000n;
+    createTestMerchant();
+  });
+
+  afterEach(() => {
+    resetConfirmationTracker();
+    closeDatabase();
+    vi.useRealTimers();
+  });
+
+  it('should confirm once the session threshold is reached', async () => {
+    const sessionId = await createConfirmingSession(3);
+    const tracker = getConfirmationTracker();
+    await tracker.track(sessionId, 'tx-' + sessionId);
+
+    daaScore = 1002n;
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(getSessionManager().getSession(sessionId)?.status).toBe('confirming');
+    expect(mockBroadcast).toHaveBeenCalledWith(sessionId, expect.objectContaining({
+      type: 'confirmations',
+      confirmations: 2,
+      required: 3,
+    }));
+
+    daaScore = 1003n;
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(getSessionManager().getSession(sessionId)?.status).toBe('confirmed');
+    expect(mockSendWebhook).toHaveBeenCalledWith(
+      expect.objectContaining({ id: sessionId }),
+      'payment.confirmed'
+    );
+  });
+
+  it('should wait for the merchant default when the session sets none', async () => {
+    execute('UPDATE merchants SET default_confirmations = 60 WHERE id = ?', [TEST_MERCHANT_ID]);
+    const sessionId = await createConfirmingSession();
+    await getConfirmationTracker().track(sessionId, 'tx-' + sessionId);
+
+    daaScore = 1010n;
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(getSessionManager().getSession(sessionId)?.status).toBe('confirming');
+
+    daaScore = 1060n;
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(getSessionManager().getSession(sessionId)?.status).toBe('confirmed');
+  });
+
+  describe('Amount-Tiered Policy', () => {
+    const KAS = BigInt(100000000);
+
+    beforeEach(() => {
+      getMerchantSettingsService().updateSettings(TEST_MERCHANT_ID, {
+        confirmationPolicy: {
+          tiers: [
+            { below: 10n * KAS, confirmations: 1 },
+            { below: 1000n * KAS, confirmations: 10 },
+          ],
+          otherwise: 60,
+        },
+      });
+    });
+
+    it('should pick the tier for the amount when the payment is received', async () => {
+      const small = await createConfirmingSession(undefined, 5n * KAS);
+      const medium = await createConfirmingSession(undefined, 10n * KAS);
+      const large = await createConfirmingSession(undefined, 5000n * KAS);
+
+      const manager = getSessionManager();
+      expect(manager.getSession(small)?.requiredConfirmations).toBe(1);
+      expect(manager.getSession(medium)?.requiredConfirmations).toBe(10);
+      expect(manager.getSession(large)?.requiredConfirmations).toBe(60);
+    });
+
+    it('should confirm a small payment after one confirmation', async () => {
+      const sessionId = await createConfirmingSession(undefined, 2n * KAS);
+      await getConfirmationTracker().track(sessionId, 'tx-' + sessionId);
+
+      daaScore = 1001n;
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(getSessionManager().getSession(sessionId)?.status).toBe('confirmed');
+    });
+
+    it('should keep an explicitly requested threshold', async () => {
+      const sessionId = await createConfirmingSession(5, 2n * KAS);
+      await getConfirmationTracker().track(sessionId, 'tx-' + sessionId);
+
+      daaScore = 1001n;
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(getSessionManager().getSession(sessionId)?.status).toBe('confirming');
+
+      daaScore = 1005n;
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(getSessionManager().getSession(sessionId)?.status).toBe('confirmed');
+    });
+  });
+
+  describe('Accepting Block Baseline', () => {
+    it('should count from the block that accepted the payment, not from detection', async () => {
+      const sessionId = await createConfirmingSession(10);
+      expect(getSessionManager().getSession(sessionId)?.acceptedDaaScore).toBe(1000n);
+
+      // Detected late: the network has already moved on
+      daaScore = 1007n;
+      await getConfirmationTracker().track(sessionId, 'tx-' + sessionId);
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(getSessionManager().getSession(sessionId)?.confirmations).toBe(7);
+    });
+
+    it('should keep counting from the stored baseline after a restart', async () => {
+      const sessionId = await createConfirmingSession(10);
+      await getConfirmationTracker().track(sessionId, 'tx-' + sessionId);
+
+      daaScore = 1004n;
+      await vi.advanceTimersByTimeAsync(1000);
+      resetConfirmationTracker();
+
+      daaScore = 1010n;
+      await getConfirmationTracker().initialize();
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(getSessionManager().getSession(sessionId)?.status).toBe('confirmed');
+      expect(mockGetTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should look up the accepting block when the session has no baseline', async () => {
+      const sessionId = await createConfirmingSession(10);
+      execute('UPDATE sessions SET accepted_daa_score = NULL WHERE id = ?', [sessionId]);
+      mockGetTransaction.mockResolvedValueOnce({
+        transactionId: 'tx-' + sessionId,
+        isAccepted: true,
+        acceptingDaaScore: 995n,
+      });
+
+      await getConfirmationTracker().track(sessionId, 'tx-' + sessionId);
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(mockGetTransaction).toHaveBeenCalledWith('tx-' + sessionId);
+      const session = getSessionManager().getSession(sessionId);
+      expect(session?.acceptedDaaScore).toBe(995n);
+      expect(session?.confirmations).toBe(5);
+    });
+  });
+
+  describe('DAA Score Cross-Check', () => {
+    const KAS = BigInt(100000000);
+
+    beforeEach(() => {
+      process.env.CROSS_CHECK_MIN_KAS = '1000';
+    });
+
+    afterEach(() => {
+      delete process.env.CROSS_CHECK_MIN_KAS;
+    });
+
+    it('should wait for the lagging source before confirming a large payment', async () => {
+      const sessionId = await createConfirmingSession(10, 1000n * KAS);
+      await getConfirmationTracker().track(sessionId, 'tx-' + sessionId);
+
+      daaScore = 1010n;
+      mockGetCrossCheckedDaaScore.mockResolvedValue(1008n);
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(getSessionManager().getSession(sessionId)?.status).toBe('confirming');
+
+      mockGetCrossCheckedDaaScore.mockRejectedValue(new Error('REST API error: 503'));
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(getSessionManager().getSession(sessionId)?.status).toBe('confirming');
+
+      mockGetCrossCheckedDaaScore.mockResolvedValue(1010n);
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(getSessionManager().getSession(sessionId)?.status).toBe('confirmed');
+    });
+
+    it('should not cross-check payments below the threshold', async () => {
+      const sessionId = await createConfirmingSession(10, 999n * KAS);
+      await getConfirmationTracker().track(sessionId, 'tx-' + sessionId);
+
+      daaScore = 1010n;
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(getSessionManager().getSession(sessionId)?.status).toBe('confirmed');
+      expect(mockGetCrossCheckedDaaScore).not.toHaveBeenCalled();
+    });
+  });
+});
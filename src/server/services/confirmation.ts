@@ -1,8 +1,12 @@
 /**
- * Confirmation Tracker - Blue Score Based Confirmation Tracking
+ * Confirmation Tracker - DAA Score Based Confirmation Tracking
  *
  * Tracks confirmations using Kaspa's DAA (Difficulty Adjustment Algorithm) score.
- * Each DAA score increment represents ~1 second of network time.
+ * Each DAA score increment represents ~1 second of network time. Confirmations
+ * are counted from the DAA score of the block that accepted the payment, which
+ * is stored on the session, so payments detected late and server restarts do
+ * not reset the count. Payments of at least CROSS_CHECK_MIN_KAS are only
+ * confirmed once a second DAA score source agrees.
  */
 
 import { getPaymentMonitor } from './payment-monitor.js';
@@ -10,7 +14,7 @@ import { getSessionManager } from './session.js';
 import { getWebhookService } from './webhook.js';
 import { getWebSocketManager } from '../websocket/index.js';
 import { NETWORK_CONFIG } from '../../config/network.js';
-import type { PaymentSession } from '../../kaspa/types.js';
+import { kasToSompi } from '../../kaspa/units.js';
 
 // ============================================================
 // TYPES
@@ -19,8 +23,39 @@ import type { PaymentSession } from '../../kaspa/types.js';
 interface TrackedPayment {
   sessionId: string;
   txId: string;
-  initialBlueScore: bigint;
+  acceptedDaaScore: bigint;
   targetConfirmations: number;
+  /** Large payment: confirm only after cross-checking the DAA score */
+  crossCheck: boolean;
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * Confirmations of a payment accepted at the given DAA score, never negative
+ * (a node that lags behind the block's DAA score reports 0)
+ */
+function countConfirmations(currentDaaScore: bigint, acceptedDaaScore: bigint): number {
+  const confirmations = currentDaaScore - acceptedDaaScore;
+  return confirmations > 0n ? Number(confirmations) : 0;
+}
+
+/**
+ * Smallest payment whose confirmation is cross-checked, from
+ * CROSS_CHECK_MIN_KAS; null when cross-checking is off
+ */
+export function getCrossCheckMinAmount(): bigint | null {
+  const minKas = process.env.CROSS_CHECK_MIN_KAS;
+  if (!minKas) return null;
+
+  try {
+    return kasToSompi(minKas);
+  } catch {
+    console.warn(`[KasGate] Invalid CROSS_CHECK_MIN_KAS "${minKas}", cross-checking disabled`);
+    return null;
+  }
 }
 
 // ============================================================
@@ -41,19 +76,21 @@ export class ConfirmationTracker {
       return;
     }
 
-    const paymentMonitor = getPaymentMonitor();
-
-    // Get the current blue score
-    const currentBlueScore = await paymentMonitor.getBlueScore();
+    // Use the baseline and threshold stored on the session
+    const session = getSessionManager().getSession(sessionId);
+    const targetConfirmations = session?.requiredConfirmations ?? NETWORK_CONFIG.confirmations;
+    const acceptedDaaScore = session?.acceptedDaaScore ?? await this.resolveAcceptedDaaScore(sessionId, txId);
+    const crossCheckMinAmount = getCrossCheckMinAmount();
 
     this.trackedPayments.set(sessionId, {
       sessionId,
       txId,
-      initialBlueScore: currentBlueScore,
-      targetConfirmations: NETWORK_CONFIG.confirmations,
+      acceptedDaaScore,
+      targetConfirmations,
+      crossCheck: crossCheckMinAmount !== null && !!session && session.amount >= crossCheckMinAmount,
     });
 
-    console.log(`[KasGate] Tracking confirmations for ${sessionId} (initial score: ${currentBlueScore})`);
+    console.log(`[KasGate] Tracking confirmations for ${sessionId} (accepted at DAA score ${acceptedDaaScore}, target: ${targetConfirmations})`);
 
     // Start checking if not already running
     this.startChecking();
@@ -79,9 +116,9 @@ export class ConfirmationTracker {
     if (!tracked) return null;
 
     const paymentMonitor = getPaymentMonitor();
-    const currentBlueScore = await paymentMonitor.getBlueScore();
+    const currentDaaScore = await paymentMonitor.getDaaScore();
 
-    return Number(currentBlueScore - tracked.initialBlueScore);
+    return countConfirmations(currentDaaScore, tracked.acceptedDaaScore);
   }
 
   /**
@@ -112,6 +149,48 @@ export class ConfirmationTracker {
   // PRIVATE METHODS
   // ============================================================
 
+  /**
+   * Find the DAA score of the block that accepted a session's payment when
+   * it was not stored at payment time, and store it
+   *
+   * Looks the transaction up on the chain backend; if that fails, counts from
+   * now (the pre-baseline behaviour) rather than not tracking at all.
+   */
+  private async resolveAcceptedDaaScore(sessionId: string, txId: string): Promise<bigint> {
+    let daaScore: bigint | undefined;
+
+    try {
+      daaScore = (await getPaymentMonitor().getTransaction(txId))?.acceptingDaaScore;
+    } catch (error) {
+      console.warn(`[KasGate] Could not look up transaction ${txId}:`, error);
+    }
+
+    if (daaScore === undefined) {
+      daaScore = await getPaymentMonitor().getDaaScore();
+      console.warn(`[KasGate] No accepting block found for ${txId}, counting confirmations from DAA score ${daaScore}`);
+    }
+
+    getSessionManager().setAcceptedDaaScore(sessionId, daaScore);
+    return daaScore;
+  }
+
+  /**
+   * Recount a large payment's confirmations from the lower DAA score of two
+   * sources; a failed lookup defers the confirmation to the next check
+   */
+  private async passesCrossCheck(tracked: TrackedPayment): Promise<boolean> {
+    try {
+      const daaScore = await getPaymentMonitor().getCrossCheckedDaaScore();
+      const confirmations = countConfirmations(daaScore, tracked.acceptedDaaScore);
+      if (confirmations >= tracked.targetConfirmations) return true;
+
+      console.log(`[KasGate] Session ${tracked.sessionId} awaiting cross-check (${confirmations}/${tracked.targetConfirmations} confirmations by the lagging source)`);
+    } catch (error) {
+      console.warn(`[KasGate] DAA score cross-check failed for ${tracked.sessionId}:`, error);
+    }
+    return false;
+  }
+
   private startChecking(): void {
     if (this.checkInterval) return;
 
@@ -138,14 +217,14 @@ export class ConfirmationTracker {
 
     try {
       const paymentMonitor = getPaymentMonitor();
-      const currentBlueScore = await paymentMonitor.getBlueScore();
+      const currentDaaScore = await paymentMonitor.getDaaScore();
 
       const sessionManager = getSessionManager();
       const webhookService = getWebhookService();
       const wsManager = getWebSocketManager();
 
       for (const [sessionId, tracked] of this.trackedPayments) {
-        const confirmations = Number(currentBlueScore - tracked.initialBlueScore);
+        const confirmations = countConfirmations(currentDaaScore, tracked.acceptedDaaScore);
 
         // Update session confirmations
         sessionManager.updateConfirmations(sessionId, confirmations);
@@ -160,6 +239,10 @@ export class ConfirmationTracker {
 
         // Check if confirmed
         if (confirmations >= tracked.targetConfirmations) {
+          if (tracked.crossCheck && !(await this.passesCrossCheck(tracked))) {
+            continue;
+          }
+
           console.log(`[KasGate] Session ${sessionId} confirmed with ${confirmations} confirmations`);
 
           // Mark as confirmed
@@ -171,13 +254,17 @@ export class ConfirmationTracker {
             // Send webhook
             await webhookService.sendWebhook(session, 'payment.confirmed');
 
-            // Broadcast final status
+            // Broadcast final status (confirmed or overpaid)
             wsManager.broadcastToSession(sessionId, {
               type: 'status',
               sessionId,
-              status: 'confirmed',
+              status: session.status,
               confirmations,
+              required: tracked.targetConfirmations,
             });
+
+            // No longer needs watching for reorgs or double-spends
+            await paymentMonitor.unmonitor(session.address);
           }
 
           // Stop tracking this payment
@@ -0,0 +1,132 @@
+/**
+ * Encryption Service Tests
+ * Tests for envelope encryption, master key rotation and re-encryption of stored secrets
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import crypto from 'crypto';
+import { EncryptionService, isEncrypted, parseMasterKey, resetEncryptionService } from './encryption.js';
+import { getMerchantService, resetMerchantService } from './merchant.js';
+import { getWebhookService, resetWebhookService } from './webhook.js';
+import { initDatabase, closeDatabase, queryOne } from '../db/index.js';
+
+const TEST_XPUB = 'kpub1234567890abcdefghijklmnopqrstuvwxyz1234567890abcdefghijklmnopqrstuvwxyz1234567890abcdefghijkl';
+
+function newKey(): string {
+  return crypto.randomBytes(32).toString('base64');
+}
+
+describe('EncryptionService', () => {
+  it('should round-trip values with a fresh data key each time', () => {
+    const service = new EncryptionService(newKey());
+
+    const first = service.encrypt('whsec_secret');
+    const second = service.encrypt('whsec_secret');
+
+    expect(isEncrypted(first)).toBe(true);
+    expect(first).not.toContain('whsec_secret');
+    expect(first).not.toBe(second);
+    expect(service.decrypt(first)).toBe('whsec_secret');
+    expect(service.decrypt(second)).toBe('whsec_secret');
+  });
+
+  it('should pass plaintext through', () => {
+    const disabled = new EncryptionService();
+    expect(disabled.enabled).toBe(false);
+    expect(disabled.encrypt('whsec_secret')).toBe('whsec_secret');
+
+    expect(new EncryptionService(newKey()).decrypt('whsec_legacy')).toBe('whsec_legacy');
+  });
+
+  it('should decrypt with previous master keys', () => {
+    const oldKey = newKey();
+    const encrypted = new EncryptionService(oldKey).encrypt('whsec_secret');
+    const rotated = new EncryptionService(newKey(), [oldKey]);
+
+    expect(rotated.decrypt(encrypted)).toBe('whsec_secret');
+    expect(rotated.isCurrent(encrypted)).toBe(false);
+    expect(rotated.isCurrent(rotated.encrypt('whsec_secret'))).toBe(true);
+  });
+
+  it('should reject unknown master keys and tampered values', () => {
+    const service = new EncryptionService(newKey());
+    const encrypted = service.encrypt('whsec_secret');
+
+    expect(() => new EncryptionService(newKey()).decrypt(encrypted)).toThrow(/unknown master key/);
+
+    const tampered = encrypted.slice(0, -2) + (encrypted.endsWith('A') ? 'BA' : 'AA');
+    expect(() => service.decrypt(tampered)).toThrow();
+  });
+
+  it('should accept hex and base64 master keys of 32 bytes only', () => {
+    const key = crypto.randomBytes(32);
+
+    expect(parseMasterKey(key.toString('hex'))).toEqual(key);
+    expect(parseMasterKey(key.toString('base64'))).toEqual(key);
+    expect(() => parseMasterKey('too-short')).toThrow(/32 bytes/);
+  });
+});
+
+describe('Secrets at rest', () => {
+  const oldKey = newKey();
+  const currentKey = newKey();
+
+  beforeEach(() => {
+    initDatabase(':memory:');
+    resetMerchantService();
+    resetWebhookService();
+    resetEncryptionService();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    resetEncryptionService();
+    closeDatabase();
+  });
+
+  it('should store xPubs and webhook secrets encrypted', () => {
+    vi.stubEnv('KASGATE_MASTER_KEY', currentKey);
+
+    const merchant = getMerchantService().createMerchant({ name: 'Test Merchant', xpub: TEST_XPUB });
+    const endpoint = getWebhookService().createEndpoint(merchant.id, {
+      url: 'https://example.com/hook',
+      events: ['payment.confirmed'],
+    });
+
+    const merchantRow = queryOne<{ xpub: string; webhook_secret: string }>(
+      'SELECT xpub, webhook_secret FROM merchants WHERE id = ?',
+      [merchant.id]
+    );
+    const webhookRow = queryOne<{ secret: string }>('SELECT secret FROM webhooks WHERE id = ?', [endpoint.id]);
+
+    expect(isEncrypted(merchantRow!.xpub)).toBe(true);
+    expect(isEncrypted(merchantRow!.webhook_secret)).toBe(true);
+    expect(isEncrypted(webhookRow!.secret)).toBe(true);
+    expect(getMerchantService().getMerchant(merchant.id)?.xpub).toBe(TEST_XPUB);
+    expect(getMerchantService().getMerchant(merchant.id)?.webhookSecret).toBe(merchant.webhookSecret);
+  });
+
+  it('should encrypt plaintext rows and re-encrypt rows under previous master keys', () => {
+    const plain = getMerchantService().createMerchant({ name: 'Plaintext', xpub: TEST_XPUB });
+
+    vi.stubEnv('KASGATE_MASTER_KEY', oldKey);
+    resetEncryptionService();
+    const old = getMerchantService().createMerchant({ name: 'Old Key', xpub: TEST_XPUB });
+
+    const rotated = new EncryptionService(currentKey, [oldKey]);
+
+    expect(rotated.reencryptStoredSecrets(true)).toEqual({ merchants: 1, webhooks: 0 });
+    expect(rotated.reencryptStoredSecrets()).toEqual({ merchants: 1, webhooks: 0 });
+    expect(rotated.reencryptStoredSecrets()).toEqual({ merchants: 0, webhooks: 0 });
+
+    for (const merchant of [plain, old]) {
+      const row = queryOne<{ xpub: string; webhook_secret: string }>(
+        'SELECT xpub, webhook_secret FROM merchants WHERE id = ?',
+        [merchant.id]
+      );
+      expect(rotated.isCurrent(row!.xpub)).toBe(true);
+      expect(rotated.decrypt(row!.xpub)).toBe(TEST_XPUB);
+      expect(rotated.decrypt(row!.webhook_secret)).toBe(merchant.webhookSecret);
+    }
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * Encryption Service - Envelope Encryption of Secrets at Rest
+ *
+ * Webhook secrets and xPubs are encrypted before they are written to the
+ * database. Each value gets its own random data key (AES-256-GCM), which is
+ * itself encrypted with the master key from KASGATE_MASTER_KEY. Values record
+ * which master key wrapped them, so after a rotation the previous keys
+ * (KASGATE_PREVIOUS_MASTER_KEYS) can still decrypt rows until
+ * reencryptStoredSecrets() has moved them to the current key.
+ *
+ * Without a master key values are stored as-is; plaintext values are always
+ * readable, so existing databases keep working until a key is configured.
+ */
+
+import crypto from 'crypto';
+import { query, execute, transaction } from '../db/index.js';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+export interface ReencryptionResult {
+  merchants: number;
+  webhooks: number;
+}
+
+/**
+ * Encrypted values: `enc:v1:<master key id>:<wrapped data key>:<ciphertext>`,
+ * the last two as base64url of IV + ciphertext + auth tag
+ */
+const ENCRYPTED_PREFIX = 'enc:v1:';
+
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const KEY_BYTES = 32;
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * Parse a 32-byte master key given as hex or base64
+ */
+export function parseMasterKey(value: string): Buffer {
+  const trimmed = value.trim();
+  const key = /^[0-9a-fA-F]{64}$/.test(trimmed)
+    ? Buffer.from(trimmed, 'hex')
+    : Buffer.from(trimmed, 'base64');
+
+  if (key.length !== KEY_BYTES) {
+    throw new Error('Master keys must be 32 bytes, hex or base64 encoded (e.g. `openssl rand -base64 32`)');
+  }
+
+  return key;
+}
+
+/**
+ * Check if a stored value is encrypted (as opposed to legacy plaintext)
+ */
+export function isEncrypted(value: string): boolean {
+  return value.startsWith(ENCRYPTED_PREFIX);
+}
+
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, ciphertext, cipher.getAuthTag()]).toString('base64url');
+}
+
+function open(key: Buffer, sealed: string): Buffer {
+  const data = Buffer.from(sealed, 'base64url');
+  const iv = data.subarray(0, IV_BYTES);
+  const tag = data.subarray(data.length - TAG_BYTES);
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(data.subarray(IV_BYTES, data.length - TAG_BYTES)), decipher.final()]);
+}
+
+// ============================================================
+// ENCRYPTION SERVICE CLASS
+// ============================================================
+
+export class EncryptionService {
+  private current: MasterKey | null;
+  private keys: Map<string, Buffer> = new Map();
+
+  /**
+   * @param masterKey - current master key (hex or base64); none stores values as-is
+   * @param previousKeys - earlier master keys, still used to decrypt
+   */
+  constructor(masterKey?: string, previousKeys: string[] = []) {
+    this.current = masterKey ? this.addKey(masterKey) : null;
+    for (const key of previousKeys) {
+      this.addKey(key);
+    }
+  }
+
+  /**
+   * Whether new values are encrypted
+   */
+  get enabled(): boolean {
+    return this.current !== null;
+  }
+
+  /**
+   * Encrypt a value with a fresh data key (returned as-is without a master key)
+   */
+  encrypt(plaintext: string): string {
+    if (!this.current) return plaintext;
+
+    const dataKey = crypto.randomBytes(KEY_BYTES);
+    const wrappedKey = seal(this.current.key, dataKey);
+    const ciphertext = seal(dataKey, Buffer.from(plaintext, 'utf8'));
+
+    return `${ENCRYPTED_PREFIX}${this.current.id}:${wrappedKey}:${ciphertext}`;
+  }
+
+  /**
+   * Decrypt a stored value (plaintext values are returned as-is)
+   *
+   * @throws if the value was encrypted with a master key that is not configured
+   */
+  decrypt(value: string): string {
+    if (!isEncrypted(value)) return value;
+
+    const [keyId, wrappedKey, ciphertext] = value.slice(ENCRYPTED_PREFIX.length).split(':');
+    const masterKey = this.keys.get(keyId);
+
+    if (!masterKey) {
+      throw new Error(
+        `Value encrypted with unknown master key ${keyId}; set KASGATE_MASTER_KEY or KASGATE_PREVIOUS_MASTER_KEYS`
+      );
+    }
+
+    const dataKey = open(masterKey, wrappedKey);
+    return open(dataKey, ciphertext).toString('utf8');
+  }
+
+  /**
+   * Whether a stored value is in its final form: encrypted with the current
+   * master key, or plaintext when there is none
+   */
+  isCurrent(value: string): boolean {
+    if (!this.current) return !isEncrypted(value);
+    return value.startsWith(`${ENCRYPTED_PREFIX}${this.current.id}:`);
+  }
+
+  /**
+   * Bring every stored secret to its final form: encrypt plaintext rows and
+   * re-encrypt rows wrapped by previous master keys
+   *
+   * @param plaintextOnly - only encrypt plaintext rows (cheap; run at startup)
+   */
+  reencryptStoredSecrets(plaintextOnly = false): ReencryptionResult {
+    const needsUpdate = (value: string | null): value is string =>
+      value !== null && !this.isCurrent(value) && (!plaintextOnly || !isEncrypted(value));
+
+    return transaction(() => {
+      let merchants = 0;
+      let webhooks = 0;
+
+      const merchantRows = query<{ id: string; xpub: string; webhook_secret: string | null }>(
+        'SELECT id, xpub, webhook_secret FROM merchants'
+      );
+
+      for (const row of merchantRows) {
+        if (!needsUpdate(row.xpub) && !needsUpdate(row.webhook_secret)) continue;
+
+        execute(
+          'UPDATE merchants SET xpub = ?, webhook_secret = ? WHERE id = ?',
+          [
+            this.encrypt(this.decrypt(row.xpub)),
+            row.webhook_secret === null ? null : this.encrypt(this.decrypt(row.webhook_secret)),
+            row.id,
+          ]
+        );
+        merchants++;
+      }
+
+      const webhookRows = query<{ id: string; secret: string }>('SELECT id, secret FROM webhooks');
+
+      for (const row of webhookRows) {
+        if (!needsUpdate(row.secret)) continue;
+
+        execute('UPDATE webhooks SET secret = ? WHERE id = ?', [this.encrypt(this.decrypt(row.secret)), row.id]);
+        webhooks++;
+      }
+
+      return { merchants, webhooks };
+    });
+  }
+
+  // ============================================================
+  // PRIVATE METHODS
+  // ============================================================
+
+  private addKey(value: string): MasterKey {
+    const key = parseMasterKey(value);
+    const id = crypto.createHash('sha256').update(key).digest('hex').slice(0, 8);
+    this.keys.set(id, key);
+    return { id, key };
+  }
+}
+
+// ============================================================
+// SINGLETON INSTANCE
+// ============================================================
+
+let encryptionService: EncryptionService | null = null;
+
+/**
+ * Get the singleton encryption service instance (keys from the environment)
+ */
+export function getEncryptionService(): EncryptionService {
+  if (!encryptionService) {
+    const previousKeys = (process.env.KASGATE_PREVIOUS_MASTER_KEYS || '')
+      .split(',')
+      .map((key) => key.trim())
+      .filter(Boolean);
+    encryptionService = new EncryptionService(process.env.KASGATE_MASTER_KEY || undefined, previousKeys);
+  }
+  return encryptionService;
+}
+
+/**
+ * Reset the encryption service (for testing)
+ */
+export function resetEncryptionService(): void {
+  encryptionService = null;
+}
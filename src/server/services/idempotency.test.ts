@@ -0,0 +1,177 @@
+/**
+ * Idempotency Service Tests
+ * Tests for Idempotency-Key claiming, replay, mismatch detection and expiry
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import type { Request, Response } from 'express';
+import { getIdempotencyService, resetIdempotencyService, fingerprintRequest } from './idempotency.js';
+import { idempotent } from '../middleware/idempotency.js';
+import { ApiError } from '../middleware/error.js';
+import { initDatabase, closeDatabase, execute, queryOne } from '../db/index.js';
+import type { Merchant } from './merchant.js';
+
+const TEST_MERCHANT_ID = '550e8400-e29b-41d4-a716-446655440000';
+const OTHER_MERCHANT_ID = '550e8400-e29b-41d4-a716-446655440001';
+
+function createTestMerchant(id: string) {
+  execute(
+    `INSERT INTO merchants (id, name, xpub, api_key_hash, created_at, updated_at)
+     VALUES (?, ?, ?, ?, datetime('now'), datetime('now'))`,
+    [
+      id,
+      'Test Merchant',
+      'kpub1234567890abcdefghijklmnopqrstuvwxyz1234567890abcdefghijklmnopqrstuvwxyz1234567890abcdefghijkl',
+      'abcd' + id.slice(-4),
+    ]
+  );
+}
+
+/**
+ * Minimal Express request/response doubles for the middleware
+ */
+function mockRequest(key: string | undefined, body: unknown): Request {
+  return {
+    method: 'POST',
+    baseUrl: '/api/v1/sessions',
+    path: '/',
+    body,
+    merchant: { id: TEST_MERCHANT_ID } as Merchant,
+    get: (name: string) => (name.toLowerCase() === 'idempotency-key' ? key : undefined),
+  } as unknown as Request;
+}
+
+function mockResponse() {
+  const res = new EventEmitter() as EventEmitter & {
+    statusCode: number;
+    headers: Record<string, string>;
+    sent?: unknown;
+    status: (code: number) => typeof res;
+    set: (name: string, value: string) => typeof res;
+    json: (body: unknown) => typeof res;
+  };
+  res.statusCode = 200;
+  res.headers = {};
+  res.status = (code) => { res.statusCode = code; return res; };
+  res.set = (name, value) => { res.headers[name] = value; return res; };
+  res.json = (body) => { res.sent = body; return res; };
+  return res;
+}
+
+describe('IdempotencyService', () => {
+  beforeEach(() => {
+    initDatabase(':memory:');
+    resetIdempotencyService();
+    createTestMerchant(TEST_MERCHANT_ID);
+    createTestMerchant(OTHER_MERCHANT_ID);
+  });
+
+  afterEach(() => {
+    closeDatabase();
+  });
+
+  it('should replay the stored response for the same key and request', () => {
+    const service = getIdempotencyService();
+    const hash = fingerprintRequest('POST', '/api/v1/sessions', { amount: '1' });
+
+    expect(service.claim(TEST_MERCHANT_ID, 'key-1', hash)).toEqual({ state: 'new' });
+    expect(service.claim(TEST_MERCHANT_ID, 'key-1', hash)).toEqual({ state: 'in_progress' });
+
+    service.complete(TEST_MERCHANT_ID, 'key-1', 201, { id: 'session-1' });
+
+    expect(service.claim(TEST_MERCHANT_ID, 'key-1', hash)).toEqual({
+      state: 'replay',
+      statusCode: 201,
+      body: { id: 'session-1' },
+    });
+  });
+
+  it('should reject a reused key with a different request', () => {
+    const service = getIdempotencyService();
+    service.claim(TEST_MERCHANT_ID, 'key-1', fingerprintRequest('POST', '/api/v1/sessions', { amount: '1' }));
+    service.complete(TEST_MERCHANT_ID, 'key-1', 201, { id: 'session-1' });
+
+    const claim = service.claim(TEST_MERCHANT_ID, 'key-1', fingerprintRequest('POST', '/api/v1/sessions', { amount: '2' }));
+
+    expect(claim).toEqual({ state: 'mismatch' });
+  });
+
+  it('should scope keys per merchant', () => {
+    const service = getIdempotencyService();
+    const hash = fingerprintRequest('POST', '/api/v1/sessions', { amount: '1' });
+
+    service.claim(TEST_MERCHANT_ID, 'key-1', hash);
+    service.complete(TEST_MERCHANT_ID, 'key-1', 201, { id: 'session-1' });
+
+    expect(service.claim(OTHER_MERCHANT_ID, 'key-1', hash)).toEqual({ state: 'new' });
+  });
+
+  it('should ignore body key order in fingerprints', () => {
+    expect(fingerprintRequest('POST', '/x', { a: 1, b: { c: 2, d: 3 } }))
+      .toBe(fingerprintRequest('POST', '/x', { b: { d: 3, c: 2 }, a: 1 }));
+  });
+
+  it('should treat expired keys as unused and purge them', () => {
+    const service = getIdempotencyService();
+    const hash = fingerprintRequest('POST', '/api/v1/sessions', { amount: '1' });
+
+    service.claim(TEST_MERCHANT_ID, 'key-1', hash);
+    service.complete(TEST_MERCHANT_ID, 'key-1', 201, { id: 'session-1' });
+    execute(`UPDATE idempotency_keys SET expires_at = datetime('now', '-1 minute')`);
+
+    expect(service.purgeExpired()).toBe(1);
+    expect(service.claim(TEST_MERCHANT_ID, 'key-1', hash)).toEqual({ state: 'new' });
+  });
+
+  describe('idempotent middleware', () => {
+    it('should store a successful response and replay it', () => {
+      const body = { amount: '1' };
+      const next = vi.fn();
+
+      const res1 = mockResponse();
+      idempotent(mockRequest('order-42', body), res1 as unknown as Response, next);
+      expect(next).toHaveBeenCalledWith();
+      res1.status(201).json({ id: 'session-1' });
+
+      const res2 = mockResponse();
+      const next2 = vi.fn();
+      idempotent(mockRequest('order-42', body), res2 as unknown as Response, next2);
+
+      expect(next2).not.toHaveBeenCalled();
+      expect(res2.statusCode).toBe(201);
+      expect(res2.sent).toEqual({ id: 'session-1' });
+      expect(res2.headers['Idempotent-Replayed']).toBe('true');
+    });
+
+    it('should respond 422 when the key is reused with a different body', () => {
+      const res1 = mockResponse();
+      idempotent(mockRequest('order-42', { amount: '1' }), res1 as unknown as Response, vi.fn());
+      res1.status(201).json({ id: 'session-1' });
+
+      const next = vi.fn();
+      idempotent(mockRequest('order-42', { amount: '2' }), mockResponse() as unknown as Response, next);
+
+      const error = next.mock.calls[0][0] as ApiError;
+      expect(error).toBeInstanceOf(ApiError);
+      expect(error.statusCode).toBe(422);
+    });
+
+    it('should release the key when the request fails', () => {
+      const res1 = mockResponse();
+      idempotent(mockRequest('order-42', { amount: '1' }), res1 as unknown as Response, vi.fn());
+      res1.status(503).json({ error: 'SERVICE_UNAVAILABLE' });
+
+      const row = queryOne('SELECT * FROM idempotency_keys WHERE idempotency_key = ?', ['order-42']);
+      expect(row).toBeUndefined();
+    });
+
+    it('should pass through requests without the header', () => {
+      const next = vi.fn();
+      idempotent(mockRequest(undefined, { amount: '1' }), mockResponse() as unknown as Response, next);
+
+      expect(next).toHaveBeenCalledWith();
+      expect(queryOne('SELECT * FROM idempotency_keys')).toBeUndefined();
+    });
+  });
+});
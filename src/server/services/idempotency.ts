@@ -0,0 +1,175 @@
+/**
+ * Idempotency Service - Replay Protection for Retried Requests
+ *
+ * Stores the fingerprint and response of requests sent with an
+ * Idempotency-Key header, scoped per merchant, so a client retrying after a
+ * timeout gets the original response instead of creating a duplicate.
+ */
+
+import crypto from 'crypto';
+import { queryOne, execute, transaction, toJson, fromJson, toSqliteDate } from '../db/index.js';
+import { IDEMPOTENCY_KEY_TTL_HOURS } from '../../shared/constants.js';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+/**
+ * Outcome of claiming an idempotency key
+ * - new: first use, the caller must process the request and complete or release the key
+ * - replay: a stored response exists for the same request
+ * - mismatch: the key was used with a different request
+ * - in_progress: the original request has not finished yet
+ */
+export type IdempotencyClaim =
+  | { state: 'new' }
+  | { state: 'replay'; statusCode: number; body: unknown }
+  | { state: 'mismatch' }
+  | { state: 'in_progress' };
+
+interface IdempotencyKeyRow {
+  merchant_id: string;
+  idempotency_key: string;
+  request_hash: string;
+  response_status: number | null;
+  response_body: string | null;
+  created_at: string;
+  expires_at: string;
+}
+
+// ============================================================
+// IDEMPOTENCY SERVICE CLASS
+// ============================================================
+
+export class IdempotencyService {
+  /**
+   * Claim a key for a request, or look up its stored outcome
+   *
+   * Expired keys are treated as unused.
+   */
+  claim(merchantId: string, key: string, requestHash: string): IdempotencyClaim {
+    return transaction<IdempotencyClaim>(() => {
+      const row = queryOne<IdempotencyKeyRow>(
+        `SELECT * FROM idempotency_keys
+         WHERE merchant_id = ? AND idempotency_key = ? AND datetime(expires_at) > datetime('now')`,
+        [merchantId, key]
+      );
+
+      if (row) {
+        if (row.request_hash !== requestHash) {
+          return { state: 'mismatch' };
+        }
+        if (row.response_status === null) {
+          return { state: 'in_progress' };
+        }
+        return {
+          state: 'replay',
+          statusCode: row.response_status,
+          body: fromJson(row.response_body),
+        };
+      }
+
+      const expiresAt = new Date(Date.now() + IDEMPOTENCY_KEY_TTL_HOURS * 60 * 60 * 1000);
+
+      execute(
+        `INSERT OR REPLACE INTO idempotency_keys (
+          merchant_id, idempotency_key, request_hash, created_at, expires_at
+        ) VALUES (?, ?, ?, ?, ?)`,
+        [merchantId, key, requestHash, toSqliteDate(new Date()), toSqliteDate(expiresAt)]
+      );
+
+      return { state: 'new' };
+    });
+  }
+
+  /**
+   * Store the response of a claimed key for future replays
+   */
+  complete(merchantId: string, key: string, statusCode: number, body: unknown): void {
+    execute(
+      `UPDATE idempotency_keys SET response_status = ?, response_body = ?
+       WHERE merchant_id = ? AND idempotency_key = ?`,
+      [statusCode, toJson(body), merchantId, key]
+    );
+  }
+
+  /**
+   * Release a claimed key so the request can be retried (used when it failed)
+   */
+  release(merchantId: string, key: string): void {
+    execute(
+      `DELETE FROM idempotency_keys
+       WHERE merchant_id = ? AND idempotency_key = ? AND response_status IS NULL`,
+      [merchantId, key]
+    );
+  }
+
+  /**
+   * Delete expired keys
+   * @returns Number of keys deleted
+   */
+  purgeExpired(): number {
+    const result = execute(
+      `DELETE FROM idempotency_keys WHERE datetime(expires_at) <= datetime('now')`
+    );
+
+    if (result.changes > 0) {
+      console.log(`[KasGate] Purged ${result.changes} expired idempotency keys`);
+    }
+
+    return result.changes;
+  }
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * Fingerprint a request (method, path and body with sorted keys)
+ */
+export function fingerprintRequest(method: string, path: string, body: unknown): string {
+  return crypto
+    .createHash('sha256')
+    .update(`${method.toUpperCase()} ${path}\n${canonicalJson(body)}`)
+    .digest('hex');
+}
+
+/**
+ * JSON with object keys sorted, so key order does not change the fingerprint
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${canonicalJson((value as Record<string, unknown>)[k])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+// ============================================================
+// SINGLETON INSTANCE
+// ============================================================
+
+let idempotencyService: IdempotencyService | null = null;
+
+/**
+ * Get the singleton idempotency service instance
+ */
+export function getIdempotencyService(): IdempotencyService {
+  if (!idempotencyService) {
+    idempotencyService = new IdempotencyService();
+  }
+  return idempotencyService;
+}
+
+/**
+ * Reset the idempotency service (for testing)
+ */
+export function resetIdempotencyService(): void {
+  idempotencyService = null;
+}
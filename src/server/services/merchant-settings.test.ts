@@ -0,0 +1,131 @@
+/**
+ * Merchant Settings Service Tests
+ * Tests for storing and evaluating the confirmation policy, the payment
+ * URI templates and the publishable key limits
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  getMerchantSettingsService,
+  resetMerchantSettingsService,
+  evaluateConfirmationPolicy,
+  renderPaymentTemplate,
+  checkPublishableKeyLimits,
+  type ConfirmationPolicy,
+  type PublishableKeyLimits,
+} from './merchant-settings.js';
+import { initDatabase, closeDatabase, execute } from '../db/index.js';
+
+const TEST_MERCHANT_ID = '550e8400-e29b-41d4-a716-446655440000';
+
+const POLICY: ConfirmationPolicy = {
+  tiers: [
+    { below: 1_000_000_000n, confirmations: 1 },
+    { below: 100_000_000_000n, confirmations: 10 },
+  ],
+  otherwise: 60,
+};
+
+describe('MerchantSettingsService', () => {
+  beforeEach(() => {
+    initDatabase(':memory:');
+    resetMerchantSettingsService();
+    execute(
+      `INSERT INTO merchants (id, name, xpub, api_key_hash, created_at, updated_at)
+       VALUES (?, ?, ?, ?, datetime('now'), datetime('now'))`,
+      [TEST_MERCHANT_ID, 'Test Merchant', 'kpub123', 'abcd1234']
+    );
+  });
+
+  afterEach(() => {
+    closeDatabase();
+  });
+
+  it('should store, read back and remove a confirmation policy', () => {
+    const service = getMerchantSettingsService();
+    expect(service.getSettings(TEST_MERCHANT_ID).confirmationPolicy).toBeUndefined();
+
+    service.updateSettings(TEST_MERCHANT_ID, { confirmationPolicy: POLICY });
+    expect(service.getSettings(TEST_MERCHANT_ID).confirmationPolicy).toEqual(POLICY);
+
+    service.updateSettings(TEST_MERCHANT_ID, { confirmationPolicy: null });
+    expect(service.getSettings(TEST_MERCHANT_ID).confirmationPolicy).toBeUndefined();
+    expect(service.getPolicyConfirmations(TEST_MERCHANT_ID, 1n)).toBeNull();
+  });
+
+  it('should treat tier bounds as exclusive', () => {
+    expect(evaluateConfirmationPolicy(POLICY, 999_999_999n)).toBe(1);
+    expect(evaluateConfirmationPolicy(POLICY, 1_000_000_000n)).toBe(10);
+    expect(evaluateConfirmationPolicy(POLICY, 100_000_000_000n)).toBe(60);
+  });
+
+  it('should render payment URI text from the merchant templates', () => {
+    const service = getMerchantSettingsService();
+    expect(service.getPaymentUriText(TEST_MERCHANT_ID, { orderId: '42' })).toEqual({});
+
+    service.updateSettings(TEST_MERCHANT_ID, {
+      paymentLabelTemplate: '{merchantName}',
+      paymentMessageTemplate: 'Order {orderId}',
+    });
+    // Keeps the confirmation policy
+    service.updateSettings(TEST_MERCHANT_ID, { confirmationPolicy: POLICY });
+
+    expect(service.getPaymentUriText(TEST_MERCHANT_ID, { merchantName: 'Coffee Shop', orderId: '42' })).toEqual({
+      label: 'Coffee Shop',
+      message: 'Order 42',
+    });
+    expect(service.getSettings(TEST_MERCHANT_ID).confirmationPolicy).toEqual(POLICY);
+
+    service.updateSettings(TEST_MERCHANT_ID, { paymentMessageTemplate: null });
+    expect(service.getSettings(TEST_MERCHANT_ID).paymentMessageTemplate).toBeUndefined();
+  });
+
+  it('should leave missing template values empty', () => {
+    expect(renderPaymentTemplate('Order {orderId} {unknown}', {})).toBe('Order');
+    expect(renderPaymentTemplate('{orderId}', {})).toBeUndefined();
+  });
+
+  describe('Publishable Key Limits', () => {
+    const LIMITS: PublishableKeyLimits = {
+      minAmount: 100_000_000n,
+      maxAmount: 10_000_000_000n,
+      allowedOrigins: ['https://shop.example'],
+    };
+    const origin = 'https://shop.example';
+
+    it('should store, read back and remove the limits', () => {
+      const service = getMerchantSettingsService();
+
+      service.updateSettings(TEST_MERCHANT_ID, { publishableKeyLimits: { allowedOrigins: [origin], maxAmount: 5n } });
+      expect(service.getSettings(TEST_MERCHANT_ID).publishableKeyLimits).toEqual({
+        minAmount: undefined,
+        maxAmount: 5n,
+        allowedOrigins: [origin],
+      });
+
+      service.updateSettings(TEST_MERCHANT_ID, { publishableKeyLimits: null });
+      expect(service.getSettings(TEST_MERCHANT_ID).publishableKeyLimits).toBeUndefined();
+    });
+
+    it('should allow requests within the amount limits from an allowed origin', () => {
+      expect(checkPublishableKeyLimits(LIMITS, { amount: 100_000_000n, origin })).toBeNull();
+      expect(checkPublishableKeyLimits(LIMITS, { amount: 10_000_000_000n, origin, redirectUrl: `${origin}/thanks` })).toBeNull();
+      expect(checkPublishableKeyLimits(undefined, { amount: 1n })).toBeNull();
+    });
+
+    it('should reject amounts outside the limits', () => {
+      expect(checkPublishableKeyLimits(LIMITS, { amount: 99_999_999n, origin })).toContain('below');
+      expect(checkPublishableKeyLimits(LIMITS, { amount: 10_000_000_001n, origin })).toContain('above');
+    });
+
+    it('should reject other origins and redirect URLs', () => {
+      expect(checkPublishableKeyLimits(LIMITS, { amount: 100_000_000n, origin: 'https://evil.example' })).toContain('not allowed');
+      expect(checkPublishableKeyLimits(LIMITS, { amount: 100_000_000n })).toContain('not allowed');
+      expect(checkPublishableKeyLimits(LIMITS, {
+        amount: 100_000_000n,
+        origin,
+        redirectUrl: 'https://evil.example/thanks',
+      })).toContain('Redirect URL');
+    });
+  });
+});
@@ -0,0 +1,318 @@
+/**
+ * Merchant Settings Service - Optional Per-Merchant Policies
+ *
+ * Holds merchant preferences that go beyond the core merchant record: the
+ * amount-tiered confirmation policy, the label and message templates of
+ * payment URIs, and the limits on sessions created with the publishable key.
+ */
+
+import { queryOne, execute, toJson, fromJson } from '../db/index.js';
+import { sompiToKas } from '../../kaspa/units.js';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface ConfirmationTier {
+  /** Payments below this amount (in sompi) use this tier */
+  below: bigint;
+  confirmations: number;
+}
+
+/**
+ * Amount-tiered confirmation policy, e.g. `< 10 KAS → 1`, `< 1000 KAS → 10`, otherwise 60
+ */
+export interface ConfirmationPolicy {
+  /** Tiers in ascending order of their upper bound */
+  tiers: ConfirmationTier[];
+  /** Confirmations for amounts at or above every tier */
+  otherwise: number;
+}
+
+/**
+ * What a publishable key may do: sessions within these amounts, from these origins
+ */
+export interface PublishableKeyLimits {
+  /** Smallest session amount in sompi */
+  minAmount?: bigint;
+  /** Largest session amount in sompi */
+  maxAmount?: bigint;
+  /** Origins (e.g. `https://shop.example`) the widget may run on; empty allows any */
+  allowedOrigins: string[];
+}
+
+/**
+ * A session request made with a publishable key
+ */
+export interface PublishableKeyRequest {
+  /** Session amount in sompi (after any fiat conversion) */
+  amount: bigint;
+  /** The request's Origin header */
+  origin?: string;
+  redirectUrl?: string;
+}
+
+export interface MerchantSettings {
+  merchantId: string;
+  confirmationPolicy?: ConfirmationPolicy;
+  /** Payment URI label, with {placeholders} (see PaymentTemplateValues) */
+  paymentLabelTemplate?: string;
+  /** Payment URI message, with {placeholders} (see PaymentTemplateValues) */
+  paymentMessageTemplate?: string;
+  publishableKeyLimits?: PublishableKeyLimits;
+  updatedAt?: Date;
+}
+
+export interface UpdateMerchantSettingsInput {
+  /** null removes the policy */
+  confirmationPolicy?: ConfirmationPolicy | null;
+  /** null removes the template */
+  paymentLabelTemplate?: string | null;
+  /** null removes the template */
+  paymentMessageTemplate?: string | null;
+  /** null removes the limits */
+  publishableKeyLimits?: PublishableKeyLimits | null;
+}
+
+/**
+ * Values a payment URI template can refer to, e.g. "Order {orderId}"
+ */
+export interface PaymentTemplateValues {
+  merchantName?: string;
+  orderId?: string;
+  sessionId?: string;
+  /** Session amount in KAS */
+  amount?: string;
+}
+
+interface MerchantSettingsRow {
+  merchant_id: string;
+  confirmation_policy: string | null;
+  payment_label_template: string | null;
+  payment_message_template: string | null;
+  publishable_key_limits: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface StoredConfirmationPolicy {
+  tiers: Array<{ below: string; confirmations: number }>;
+  otherwise: number;
+}
+
+interface StoredPublishableKeyLimits {
+  minAmount: string | null;
+  maxAmount: string | null;
+  allowedOrigins: string[];
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * Pick the confirmations for an amount: the first tier it falls below, else `otherwise`
+ */
+export function evaluateConfirmationPolicy(policy: ConfirmationPolicy, amount: bigint): number {
+  const tier = policy.tiers.find((t) => amount < t.below);
+  return tier ? tier.confirmations : policy.otherwise;
+}
+
+/**
+ * Fill in a payment URI template; unknown or missing placeholders become empty
+ *
+ * @returns undefined if nothing but whitespace is left
+ */
+export function renderPaymentTemplate(template: string, values: PaymentTemplateValues): string | undefined {
+  const rendered = template
+    .replace(/\{(\w+)\}/g, (_, key: string) => values[key as keyof PaymentTemplateValues] ?? '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return rendered || undefined;
+}
+
+/**
+ * Check a publishable key's session request against the merchant's limits
+ *
+ * @returns why the request is not allowed, or null if it is
+ */
+export function checkPublishableKeyLimits(
+  limits: PublishableKeyLimits | undefined,
+  request: PublishableKeyRequest
+): string | null {
+  if (!limits) return null;
+
+  if (limits.minAmount !== undefined && request.amount < limits.minAmount) {
+    return `Amount is below the publishable key minimum of ${sompiToKas(limits.minAmount)} KAS`;
+  }
+  if (limits.maxAmount !== undefined && request.amount > limits.maxAmount) {
+    return `Amount is above the publishable key maximum of ${sompiToKas(limits.maxAmount)} KAS`;
+  }
+
+  if (limits.allowedOrigins.length > 0) {
+    if (!request.origin || !limits.allowedOrigins.includes(request.origin)) {
+      return `Origin ${request.origin ?? '(none)'} is not allowed for this publishable key`;
+    }
+    if (request.redirectUrl && !limits.allowedOrigins.includes(new URL(request.redirectUrl).origin)) {
+      return 'Redirect URL is not on an allowed origin';
+    }
+  }
+
+  return null;
+}
+
+// ============================================================
+// MERCHANT SETTINGS SERVICE CLASS
+// ============================================================
+
+export class MerchantSettingsService {
+  /**
+   * Get a merchant's settings (defaults when none were saved)
+   */
+  getSettings(merchantId: string): MerchantSettings {
+    const row = queryOne<MerchantSettingsRow>(
+      'SELECT * FROM merchant_settings WHERE merchant_id = ?',
+      [merchantId]
+    );
+
+    if (!row) {
+      return { merchantId };
+    }
+
+    return this.rowToSettings(row);
+  }
+
+  /**
+   * Update a merchant's settings
+   */
+  updateSettings(merchantId: string, input: UpdateMerchantSettingsInput): MerchantSettings {
+    if (input.confirmationPolicy !== undefined) {
+      const policy = input.confirmationPolicy ? toJson(this.policyToStored(input.confirmationPolicy)) : null;
+      this.upsertColumn(merchantId, 'confirmation_policy', policy);
+
+      console.log(`[KasGate] ${policy ? 'Updated' : 'Removed'} confirmation policy for merchant ${merchantId}`);
+    }
+
+    if (input.paymentLabelTemplate !== undefined) {
+      this.upsertColumn(merchantId, 'payment_label_template', input.paymentLabelTemplate || null);
+    }
+
+    if (input.paymentMessageTemplate !== undefined) {
+      this.upsertColumn(merchantId, 'payment_message_template', input.paymentMessageTemplate || null);
+    }
+
+    if (input.publishableKeyLimits !== undefined) {
+      const limits = input.publishableKeyLimits ? toJson(this.limitsToStored(input.publishableKeyLimits)) : null;
+      this.upsertColumn(merchantId, 'publishable_key_limits', limits);
+
+      console.log(`[KasGate] ${limits ? 'Updated' : 'Removed'} publishable key limits for merchant ${merchantId}`);
+    }
+
+    return this.getSettings(merchantId);
+  }
+
+  /**
+   * Label and message for a payment URI, from the merchant's templates
+   */
+  getPaymentUriText(merchantId: string, values: PaymentTemplateValues): { label?: string; message?: string } {
+    const settings = this.getSettings(merchantId);
+
+    return {
+      label: settings.paymentLabelTemplate && renderPaymentTemplate(settings.paymentLabelTemplate, values),
+      message: settings.paymentMessageTemplate && renderPaymentTemplate(settings.paymentMessageTemplate, values),
+    };
+  }
+
+  /**
+   * Confirmations the merchant's policy requires for an amount (null without a policy)
+   */
+  getPolicyConfirmations(merchantId: string, amount: bigint): number | null {
+    const policy = this.getSettings(merchantId).confirmationPolicy;
+    return policy ? evaluateConfirmationPolicy(policy, amount) : null;
+  }
+
+  // ============================================================
+  // PRIVATE METHODS
+  // ============================================================
+
+  /**
+   * Set one settings column, creating the merchant's settings row if needed
+   */
+  private upsertColumn(
+    merchantId: string,
+    column: 'confirmation_policy' | 'payment_label_template' | 'payment_message_template' | 'publishable_key_limits',
+    value: string | null
+  ): void {
+    execute(
+      `INSERT INTO merchant_settings (merchant_id, ${column}, created_at, updated_at)
+       VALUES (?, ?, datetime('now'), datetime('now'))
+       ON CONFLICT(merchant_id) DO UPDATE SET
+         ${column} = excluded.${column},
+         updated_at = excluded.updated_at`,
+      [merchantId, value]
+    );
+  }
+
+  private policyToStored(policy: ConfirmationPolicy): StoredConfirmationPolicy {
+    return {
+      tiers: policy.tiers.map((t) => ({ below: t.below.toString(), confirmations: t.confirmations })),
+      otherwise: policy.otherwise,
+    };
+  }
+
+  private limitsToStored(limits: PublishableKeyLimits): StoredPublishableKeyLimits {
+    return {
+      minAmount: limits.minAmount?.toString() ?? null,
+      maxAmount: limits.maxAmount?.toString() ?? null,
+      allowedOrigins: limits.allowedOrigins,
+    };
+  }
+
+  private rowToSettings(row: MerchantSettingsRow): MerchantSettings {
+    const stored = fromJson<StoredConfirmationPolicy>(row.confirmation_policy);
+    const limits = fromJson<StoredPublishableKeyLimits>(row.publishable_key_limits);
+
+    return {
+      merchantId: row.merchant_id,
+      confirmationPolicy: stored
+        ? {
+            tiers: stored.tiers.map((t) => ({ below: BigInt(t.below), confirmations: t.confirmations })),
+            otherwise: stored.otherwise,
+          }
+        : undefined,
+      paymentLabelTemplate: row.payment_label_template ?? undefined,
+      paymentMessageTemplate: row.payment_message_template ?? undefined,
+      publishableKeyLimits: limits
+        ? {
+            minAmount: limits.minAmount !== null ? BigInt(limits.minAmount) : undefined,
+            maxAmount: limits.maxAmount !== null ? BigInt(limits.maxAmount) : undefined,
+            allowedOrigins: limits.allowedOrigins,
+          }
+        : undefined,
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+}
+
+// ============================================================
+// SINGLETON INSTANCE
+// ============================================================
+
+let merchantSettingsService: MerchantSettingsService | null = null;
+
+/**
+ * Get the singleton merchant settings service instance
+ */
+export function getMerchantSettingsService(): MerchantSettingsService {
+  if (!merchantSettingsService) {
+    merchantSettingsService = new MerchantSettingsService();
+  }
+  return merchantSettingsService;
+}
+
+/**
+ * Reset the merchant settings service (for testing)
+ */
+export function resetMerchantSettingsService(): void {
+  merchantSettingsService = null;
+}
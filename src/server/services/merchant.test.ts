@@ -3,10 +3,14 @@
  * Tests for API key generation, verification, and timing-safe comparison
  */
 
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import crypto from 'crypto';
-import { getMerchantService, resetMerchantService } from './merchant.js';
-import { initDatabase, closeDatabase, queryOne, execute } from '../db/index.js';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { getMerchantService, resetMerchantService, isPublishableKey } from './merchant.js';
+import { initDatabase, closeDatabase, queryOne } from '../db/index.js';
 
 describe('MerchantService', () => {
   beforeEach(() => {
@@ -15,6 +19,7 @@ describe('MerchantService', () => {
   });
 
   afterEach(() => {
+    vi.useRealTimers();
     closeDatabase();
   });
 
@@ -29,7 +34,7 @@ describe('MerchantService', () => {
 
       expect(merchant.id).toBeDefined();
       expect(merchant.name).toBe('Test Merchant');
-      expect(merchant.apiKey).toMatch(/^kg_live_/); // Updated prefix
+      expect(merchant.apiKey).toMatch(/^sk_live_/);
 
       // Verify API key hash was stored
       const row = queryOne<{ api_key_hash: string }>(
@@ -103,7 +108,7 @@ describe('MerchantService', () => {
       expect(verified).toBeNull();
     });
 
-    it('should lookup by hash, not plaintext (Bug #3)', () => {
+    it('should store only the hash and prefix of the secret key', () => {
       const service = getMerchantService();
 
       const merchant = service.createMerchant({
@@ -111,44 +116,56 @@ describe('MerchantService', () => {
         xpub: 'kpub1234567890abcdefghijklmnopqrstuvwxyz1234567890abcdefghijklmnopqrstuvwxyz1234567890abcdefghijkl',
       });
 
-      // Clear the plaintext API key from database (simulating a secure deployment)
-      execute('UPDATE merchants SET api_key = ? WHERE id = ?', ['REDACTED', merchant.id]);
-
-      // Verify should still work because it uses the hash
-      const verified = service.verifyApiKey(merchant.apiKey!);
-      expect(verified).not.toBeNull();
-      expect(verified?.id).toBe(merchant.id);
+      const row = queryOne<Record<string, unknown>>('SELECT * FROM merchants WHERE id = ?', [merchant.id]);
+      expect(row).not.toHaveProperty('api_key');
+      expect(row?.api_key_prefix).toBe(merchant.apiKey.slice(0, 12));
+      expect(Object.values(row!)).not.toContain(merchant.apiKey);
     });
 
-    it('should handle legacy merchants without hash (backwards compatibility)', () => {
-      const service = getMerchantService();
-
-      // Manually insert a merchant with plaintext key but no hash
+    it('should migrate databases that stored plaintext keys', () => {
+      closeDatabase();
+      const dbPath = path.join(os.tmpdir(), `kasgate-legacy-${crypto.randomUUID()}.db`);
       const legacyKey = 'kg_live_legacy_key_abc123';
-      execute(
-        `INSERT INTO merchants (id, name, xpub, api_key, api_key_hash, created_at, updated_at)
-         VALUES (?, ?, ?, ?, ?, datetime('now'), datetime('now'))`,
-        [
-          '550e8400-e29b-41d4-a716-446655440000',
-          'Legacy Merchant',
-          'kpub1234567890abcdefghijklmnopqrstuvwxyz1234567890abcdefghijklmnopqrstuvwxyz1234567890abcdefghijkl',
-          legacyKey,
-          null, // No hash
-        ]
-      );
 
-      // Should still verify via legacy path
-      const verified = service.verifyApiKey(legacyKey);
-      expect(verified).not.toBeNull();
-      expect(verified?.name).toBe('Legacy Merchant');
-
-      // Should have backfilled the hash
-      const row = queryOne<{ api_key_hash: string | null }>(
-        'SELECT api_key_hash FROM merchants WHERE id = ?',
-        ['550e8400-e29b-41d4-a716-446655440000']
+      const legacy = new Database(dbPath);
+      legacy.exec(`
+        CREATE TABLE merchants (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          email TEXT UNIQUE,
+          xpub TEXT NOT NULL,
+          api_key TEXT UNIQUE NOT NULL,
+          api_key_hash TEXT,
+          webhook_url TEXT,
+          webhook_secret TEXT,
+          next_address_index INTEGER DEFAULT 0,
+          created_at TEXT DEFAULT (datetime('now')),
+          updated_at TEXT DEFAULT (datetime('now'))
+        )
+      `);
+      legacy.prepare('INSERT INTO merchants (id, name, xpub, api_key) VALUES (?, ?, ?, ?)').run(
+        '550e8400-e29b-41d4-a716-446655440000',
+        'Legacy Merchant',
+        'kpub1234567890abcdefghijklmnopqrstuvwxyz1234567890abcdefghijklmnopqrstuvwxyz1234567890abcdefghijkl',
+        legacyKey
       );
-      expect(row?.api_key_hash).not.toBeNull();
-      expect(row?.api_key_hash).toHaveLength(64);
+      legacy.close();
+
+      try {
+        initDatabase(dbPath);
+
+        const row = queryOne<Record<string, unknown>>('SELECT * FROM merchants');
+        expect(row).not.toHaveProperty('api_key');
+        expect(row?.api_key_hash).toBe(crypto.createHash('sha256').update(legacyKey).digest('hex'));
+
+        const verified = getMerchantService().verifyApiKey(legacyKey);
+        expect(verified?.name).toBe('Legacy Merchant');
+      } finally {
+        closeDatabase();
+        for (const suffix of ['', '-wal', '-shm']) {
+          fs.rmSync(`${dbPath}${suffix}`, { force: true });
+        }
+      }
     });
 
     it('should not reveal key existence via different behavior', () => {
@@ -169,6 +186,42 @@ describe('MerchantService', () => {
     });
   });
 
+  describe('publishable keys', () => {
+    it('should issue a publishable key that only verifies as publishable', () => {
+      const service = getMerchantService();
+
+      const merchant = service.createMerchant({
+        name: 'Test Merchant',
+        xpub: 'kpub1234567890abcdefghijklmnopqrstuvwxyz1234567890abcdefghijklmnopqrstuvwxyz1234567890abcdefghijkl',
+      });
+
+      expect(merchant.publishableKey).toMatch(/^pk_live_/);
+      expect(isPublishableKey(merchant.publishableKey!)).toBe(true);
+      expect(isPublishableKey(merchant.apiKey)).toBe(false);
+
+      expect(service.verifyPublishableKey(merchant.publishableKey!)?.id).toBe(merchant.id);
+      expect(service.verifyApiKey(merchant.publishableKey!)).toBeNull();
+      expect(service.verifyPublishableKey(merchant.apiKey)).toBeNull();
+    });
+
+    it('should invalidate the old publishable key when regenerating', () => {
+      const service = getMerchantService();
+
+      const merchant = service.createMerchant({
+        name: 'Test Merchant',
+        xpub: 'kpub1234567890abcdefghijklmnopqrstuvwxyz1234567890abcdefghijklmnopqrstuvwxyz1234567890abcdefghijkl',
+      });
+
+      const newKey = service.regeneratePublishableKey(merchant.id);
+
+      expect(newKey).not.toBe(merchant.publishableKey);
+      expect(service.verifyPublishableKey(merchant.publishableKey!)).toBeNull();
+      expect(service.verifyPublishableKey(newKey!)?.id).toBe(merchant.id);
+      // The secret key is unaffected
+      expect(service.verifyApiKey(merchant.apiKey)?.id).toBe(merchant.id);
+    });
+  });
+
   describe('regenerateApiKey', () => {
     it('should generate new API key and update hash', () => {
       const service = getMerchantService();
@@ -180,10 +233,10 @@ describe('MerchantService', () => {
 
       const oldApiKey = merchant.apiKey;
 
-      const newApiKey = service.regenerateApiKey(merchant.id);
+      const newApiKey = service.regenerateApiKey(merchant.id)?.apiKey;
 
       expect(newApiKey).not.toBe(oldApiKey);
-      expect(newApiKey).toMatch(/^kg_live_/);
+      expect(newApiKey).toMatch(/^sk_live_/);
 
       // Old key should no longer work
       const oldVerified = service.verifyApiKey(oldApiKey!);
@@ -207,7 +260,7 @@ describe('MerchantService', () => {
         [merchant.id]
       );
 
-      const newApiKey = service.regenerateApiKey(merchant.id);
+      const newApiKey = service.regenerateApiKey(merchant.id)?.apiKey;
 
       const newRow = queryOne<{ api_key_hash: string }>(
         'SELECT api_key_hash FROM merchants WHERE id = ?',
@@ -221,5 +274,42 @@ describe('MerchantService', () => {
       const expectedHash = crypto.createHash('sha256').update(newApiKey!).digest('hex');
       expect(newRow?.api_key_hash).toBe(expectedHash);
     });
+
+    it('should keep the old key working for the grace period', () => {
+      const service = getMerchantService();
+
+      const merchant = service.createMerchant({
+        name: 'Test Merchant',
+        xpub: 'kpub1234567890abcdefghijklmnopqrstuvwxyz1234567890abcdefghijklmnopqrstuvwxyz1234567890abcdefghijkl',
+      });
+
+      const result = service.regenerateApiKey(merchant.id, 3600)!;
+
+      expect(result.previousKeyExpiresAt).toBeDefined();
+      expect(service.verifyApiKey(merchant.apiKey)?.id).toBe(merchant.id);
+      expect(service.verifyApiKey(merchant.apiKey)?.isPreviousKey).toBe(true);
+      expect(service.verifyApiKey(result.apiKey)?.id).toBe(merchant.id);
+      expect(service.verifyApiKey(result.apiKey)?.isPreviousKey).toBe(false);
+
+      vi.useFakeTimers({ now: Date.now() + 3601_000 });
+      expect(service.verifyApiKey(merchant.apiKey)).toBeNull();
+      expect(service.verifyApiKey(result.apiKey)?.id).toBe(merchant.id);
+    });
+
+    it('should end the grace period of an earlier key when regenerating again', () => {
+      const service = getMerchantService();
+
+      const merchant = service.createMerchant({
+        name: 'Test Merchant',
+        xpub: 'kpub1234567890abcdefghijklmnopqrstuvwxyz1234567890abcdefghijklmnopqrstuvwxyz1234567890abcdefghijkl',
+      });
+
+      const second = service.regenerateApiKey(merchant.id, 3600)!;
+      const third = service.regenerateApiKey(merchant.id, 3600)!;
+
+      expect(service.verifyApiKey(merchant.apiKey)).toBeNull();
+      expect(service.verifyApiKey(second.apiKey)?.id).toBe(merchant.id);
+      expect(service.verifyApiKey(third.apiKey)?.id).toBe(merchant.id);
+    });
   });
 });
@@ -1,12 +1,17 @@
 /**
  * Merchant Service - Merchant Account Management
  *
- * Handles merchant registration, authentication, and configuration.
+ * Handles merchant registration, authentication, and configuration. Secret
+ * keys are stored only as hashes, found by their prefix; xPubs and webhook
+ * secrets are encrypted at rest (see the encryption service).
  */
 
 import { v4 as uuidv4 } from 'uuid';
 import crypto from 'crypto';
 import { query, queryOne, execute, toSqliteDate } from '../db/index.js';
+import { getEncryptionService } from './encryption.js';
+import { NETWORK_CONFIG } from '../../config/network.js';
+import { API_KEY_PREFIX_LENGTH } from '../../shared/constants.js';
 
 // ============================================================
 // TYPES
@@ -17,9 +22,15 @@ export interface Merchant {
   name: string;
   email?: string;
   xpub: string;
-  apiKey: string;
+  /** Publishable key for the widget: creates and reads sessions only */
+  publishableKey?: string;
   webhookUrl?: string;
   webhookSecret?: string;
+  paymentToleranceBps: number;
+  /** Confirmations required for new sessions */
+  defaultConfirmations: number;
+  /** PNG data URL drawn in the centre of payment QR codes */
+  logo?: string;
   nextAddressIndex: number;
   createdAt: Date;
   updatedAt: Date;
@@ -29,11 +40,18 @@ interface MerchantRow {
   id: string;
   name: string;
   email: string | null;
-  xpub: string;
-  api_key: string;
+  xpub: string;  // encrypted
   api_key_hash: string | null;
+  api_key_prefix: string | null;
+  previous_api_key_hash: string | null;
+  previous_api_key_prefix: string | null;
+  previous_api_key_expires_at: string | null;
+  publishable_key: string | null;
   webhook_url: string | null;
-  webhook_secret: string | null;
+  webhook_secret: string | null;  // encrypted
+  payment_tolerance_bps: number | null;
+  default_confirmations: number | null;
+  logo: string | null;
   next_address_index: number;
   created_at: string;
   updated_at: string;
@@ -51,6 +69,16 @@ export interface UpdateMerchantInput {
   email?: string;
   xpub?: string;
   webhookUrl?: string;
+  paymentToleranceBps?: number;
+  defaultConfirmations?: number;
+  logo?: string | null;
+}
+
+/**
+ * Check if a key is a publishable key (as opposed to a secret one)
+ */
+export function isPublishableKey(key: string): boolean {
+  return key.startsWith('pk_');
 }
 
 // ============================================================
@@ -60,28 +88,32 @@ export interface UpdateMerchantInput {
 export class MerchantService {
   /**
    * Create a new merchant account
+   * @returns the merchant and its secret key (only returned once)
    */
-  createMerchant(input: CreateMerchantInput): Merchant {
+  createMerchant(input: CreateMerchantInput): Merchant & { apiKey: string } {
     const id = uuidv4();
     const apiKey = this.generateApiKey();
     const apiKeyHash = this.hashApiKey(apiKey);
+    const publishableKey = this.generatePublishableKey();
     const webhookSecret = this.generateWebhookSecret();
+    const encryption = getEncryptionService();
     const now = new Date();
 
     execute(
       `INSERT INTO merchants (
-        id, name, email, xpub, api_key, api_key_hash, webhook_url, webhook_secret,
+        id, name, email, xpub, api_key_hash, api_key_prefix, publishable_key, webhook_url, webhook_secret,
         next_address_index, created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         id,
         input.name,
         input.email || null,
-        input.xpub,
-        apiKey,
+        encryption.encrypt(input.xpub),
         apiKeyHash,
+        apiKey.slice(0, API_KEY_PREFIX_LENGTH),
+        publishableKey,
         input.webhookUrl || null,
-        webhookSecret,
+        encryption.encrypt(webhookSecret),
         0,
         toSqliteDate(now),
         toSqliteDate(now),
@@ -96,8 +128,11 @@ export class MerchantService {
       email: input.email,
       xpub: input.xpub,
       apiKey,
+      publishableKey,
       webhookUrl: input.webhookUrl,
       webhookSecret,
+      paymentToleranceBps: 0,
+      defaultConfirmations: NETWORK_CONFIG.confirmations,
       nextAddressIndex: 0,
       createdAt: now,
       updatedAt: now,
@@ -118,20 +153,6 @@ export class MerchantService {
     return this.rowToMerchant(row);
   }
 
-  /**
-   * Get a merchant by API key
-   */
-  getMerchantByApiKey(apiKey: string): Merchant | null {
-    const row = queryOne<MerchantRow>(
-      'SELECT * FROM merchants WHERE api_key = ?',
-      [apiKey]
-    );
-
-    if (!row) return null;
-
-    return this.rowToMerchant(row);
-  }
-
   /**
    * Get a merchant by email
    */
@@ -168,7 +189,7 @@ export class MerchantService {
 
     if (input.xpub !== undefined) {
       updates.push('xpub = ?');
-      params.push(input.xpub);
+      params.push(getEncryptionService().encrypt(input.xpub));
       // Reset address index when xpub changes
       updates.push('next_address_index = 0');
     }
@@ -178,6 +199,21 @@ export class MerchantService {
       params.push(input.webhookUrl || null);
     }
 
+    if (input.paymentToleranceBps !== undefined) {
+      updates.push('payment_tolerance_bps = ?');
+      params.push(input.paymentToleranceBps);
+    }
+
+    if (input.defaultConfirmations !== undefined) {
+      updates.push('default_confirmations = ?');
+      params.push(input.defaultConfirmations);
+    }
+
+    if (input.logo !== undefined) {
+      updates.push('logo = ?');
+      params.push(input.logo || null);
+    }
+
     if (updates.length === 0) {
       return merchant;
     }
@@ -197,22 +233,64 @@ export class MerchantService {
 
   /**
    * Regenerate API key for a merchant
+   *
+   * The old key keeps working for the grace period so integrations can switch
+   * over; regenerating again ends the grace period of the key before it.
+   *
+   * @returns the new key and when the old key stops working, or null if the
+   * merchant does not exist
    */
-  regenerateApiKey(merchantId: string): string | null {
-    const merchant = this.getMerchant(merchantId);
-    if (!merchant) return null;
+  regenerateApiKey(
+    merchantId: string,
+    gracePeriodSeconds = 0
+  ): { apiKey: string; previousKeyExpiresAt?: Date } | null {
+    const row = queryOne<MerchantRow>('SELECT * FROM merchants WHERE id = ?', [merchantId]);
+    if (!row) return null;
 
     const newApiKey = this.generateApiKey();
     const newApiKeyHash = this.hashApiKey(newApiKey);
+    const previousKeyExpiresAt = gracePeriodSeconds > 0 && row.api_key_hash
+      ? new Date(Date.now() + gracePeriodSeconds * 1000)
+      : undefined;
 
     execute(
-      "UPDATE merchants SET api_key = ?, api_key_hash = ?, updated_at = datetime('now') WHERE id = ?",
-      [newApiKey, newApiKeyHash, merchantId]
+      `UPDATE merchants
+       SET api_key_hash = ?, api_key_prefix = ?,
+           previous_api_key_hash = ?, previous_api_key_prefix = ?, previous_api_key_expires_at = ?,
+           updated_at = datetime('now')
+       WHERE id = ?`,
+      [
+        newApiKeyHash,
+        newApiKey.slice(0, API_KEY_PREFIX_LENGTH),
+        previousKeyExpiresAt ? row.api_key_hash : null,
+        previousKeyExpiresAt ? row.api_key_prefix : null,
+        previousKeyExpiresAt ? toSqliteDate(previousKeyExpiresAt) : null,
+        merchantId,
+      ]
     );
 
     console.log(`[KasGate] Regenerated API key for merchant ${merchantId}`);
 
-    return newApiKey;
+    return { apiKey: newApiKey, previousKeyExpiresAt };
+  }
+
+  /**
+   * Regenerate the publishable key for a merchant
+   */
+  regeneratePublishableKey(merchantId: string): string | null {
+    const merchant = this.getMerchant(merchantId);
+    if (!merchant) return null;
+
+    const newKey = this.generatePublishableKey();
+
+    execute(
+      "UPDATE merchants SET publishable_key = ?, updated_at = datetime('now') WHERE id = ?",
+      [newKey, merchantId]
+    );
+
+    console.log(`[KasGate] Regenerated publishable key for merchant ${merchantId}`);
+
+    return newKey;
   }
 
   /**
@@ -226,7 +304,7 @@ export class MerchantService {
 
     execute(
       "UPDATE merchants SET webhook_secret = ?, updated_at = datetime('now') WHERE id = ?",
-      [newSecret, merchantId]
+      [getEncryptionService().encrypt(newSecret), merchantId]
     );
 
     console.log(`[KasGate] Regenerated webhook secret for merchant ${merchantId}`);
@@ -264,45 +342,53 @@ export class MerchantService {
 
   /**
    * Verify an API key is valid (timing-safe - Bug #3 fix)
+   *
+   * Keys are stored only as hashes. Candidates are found by the key's prefix
+   * and every candidate's hash is compared in constant time. A regenerated
+   * key is accepted until its grace period ends.
+   *
+   * @returns the merchant, and whether the key is a regenerated one in its
+   * grace period
    */
-  verifyApiKey(apiKey: string): Merchant | null {
-    const apiKeyHash = this.hashApiKey(apiKey);
+  verifyApiKey(apiKey: string): (Merchant & { isPreviousKey: boolean }) | null {
+    const apiKeyHash = Buffer.from(this.hashApiKey(apiKey), 'hex');
+    const prefix = apiKey.slice(0, API_KEY_PREFIX_LENGTH);
 
-    // Look up by hash for timing-safe verification
-    const row = queryOne<MerchantRow>(
-      'SELECT * FROM merchants WHERE api_key_hash = ?',
-      [apiKeyHash]
+    const rows = query<MerchantRow>(
+      'SELECT * FROM merchants WHERE api_key_prefix = ? OR previous_api_key_prefix = ?',
+      [prefix, prefix]
     );
 
-    if (row) {
-      return this.rowToMerchant(row);
+    let match: { row: MerchantRow; isPreviousKey: boolean } | null = null;
+    for (const row of rows) {
+      const current = this.hashMatches(row.api_key_hash, apiKeyHash);
+      const previous = this.hashMatches(row.previous_api_key_hash, apiKeyHash);
+      const previousValid = row.previous_api_key_expires_at !== null &&
+        new Date(row.previous_api_key_expires_at).getTime() > Date.now();
+
+      if (current || (previous && previousValid)) {
+        match = { row, isPreviousKey: !current };
+      }
     }
 
-    // Fallback: check old merchants without hash (backwards compatibility)
-    // Also backfill the hash for future lookups
-    const legacyRow = queryOne<MerchantRow>(
-      'SELECT * FROM merchants WHERE api_key = ? AND api_key_hash IS NULL',
-      [apiKey]
-    );
+    return match ? { ...this.rowToMerchant(match.row), isPreviousKey: match.isPreviousKey } : null;
+  }
 
-    if (legacyRow) {
-      // Backfill the hash
-      execute(
-        'UPDATE merchants SET api_key_hash = ? WHERE id = ?',
-        [apiKeyHash, legacyRow.id]
-      );
-      return this.rowToMerchant(legacyRow);
-    }
+  /**
+   * Look up the merchant of a publishable key
+   *
+   * Publishable keys are public (they are embedded in web pages), so they are
+   * stored and compared as-is.
+   */
+  verifyPublishableKey(publishableKey: string): Merchant | null {
+    if (!isPublishableKey(publishableKey)) return null;
 
-    // Constant-time: perform dummy comparison to prevent timing leak
-    const dummyHash = this.hashApiKey('dummy_key_for_timing_safety');
-    try {
-      crypto.timingSafeEqual(Buffer.from(apiKeyHash), Buffer.from(dummyHash));
-    } catch {
-      // Ignore length mismatch errors
-    }
+    const row = queryOne<MerchantRow>(
+      'SELECT * FROM merchants WHERE publishable_key = ?',
+      [publishableKey]
+    );
 
-    return null;
+    return row ? this.rowToMerchant(row) : null;
   }
 
   // ============================================================
@@ -310,14 +396,19 @@ export class MerchantService {
   // ============================================================
 
   private rowToMerchant(row: MerchantRow): Merchant {
+    const encryption = getEncryptionService();
+
     return {
       id: row.id,
       name: row.name,
       email: row.email || undefined,
-      xpub: row.xpub,
-      apiKey: row.api_key,
+      xpub: encryption.decrypt(row.xpub),
+      publishableKey: row.publishable_key || undefined,
       webhookUrl: row.webhook_url || undefined,
-      webhookSecret: row.webhook_secret || undefined,
+      webhookSecret: row.webhook_secret ? encryption.decrypt(row.webhook_secret) : undefined,
+      paymentToleranceBps: row.payment_tolerance_bps ?? 0,
+      defaultConfirmations: row.default_confirmations ?? NETWORK_CONFIG.confirmations,
+      logo: row.logo || undefined,
       nextAddressIndex: row.next_address_index,
       createdAt: new Date(row.created_at),
       updatedAt: new Date(row.updated_at),
@@ -325,9 +416,15 @@ export class MerchantService {
   }
 
   private generateApiKey(): string {
-    // Format: kg_live_[32 random chars]
+    // Format: sk_live_[32 random chars] (older kg_live_ keys remain valid secret keys)
     const random = crypto.randomBytes(24).toString('base64url');
-    return `kg_live_${random}`;
+    return `sk_live_${random}`;
+  }
+
+  private generatePublishableKey(): string {
+    // Format: pk_live_[32 random chars]
+    const random = crypto.randomBytes(24).toString('base64url');
+    return `pk_live_${random}`;
   }
 
   private generateWebhookSecret(): string {
@@ -342,6 +439,11 @@ export class MerchantService {
   private hashApiKey(apiKey: string): string {
     return crypto.createHash('sha256').update(apiKey).digest('hex');
   }
+
+  private hashMatches(storedHash: string | null, hash: Buffer): boolean {
+    const stored = Buffer.from(storedHash ?? '', 'hex');
+    return stored.length === hash.length && crypto.timingSafeEqual(stored, hash);
+  }
 }
 
 // ============================================================
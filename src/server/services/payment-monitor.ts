@@ -1,20 +1,26 @@
 /**
- * Payment Monitor - Hybrid RPC/REST UTXO Monitoring
+ * Payment Monitor - Hybrid UTXO Monitoring over Chain Backends
  *
- * Monitors payment addresses for incoming transactions.
- * Uses RPC WebSocket when available, falls back to REST polling.
+ * Monitors payment addresses for incoming transactions, and for credited
+ * outputs that later disappear (reorgs, double spends or the owner spending them).
+ * Uses the primary chain backend (RPC WebSocket) when available and falls back
+ * to the secondary one (REST polling); on simnet the simulated network is the
+ * only backend.
  */
 
-import { getRpcManager, RpcManager } from '../../kaspa/rpc.js';
-import { getRestPoller, RestPoller } from './rest-poller.js';
-import type { Utxo, UtxoChangedNotification } from '../../kaspa/types.js';
+import { createChainBackends } from './chain-backend.js';
+import type { ChainBackend, ChainBackends, ChainTransaction, UtxoSubscriber } from './chain-backend.js';
+import { CROSS_CHECK_MAX_DRIFT } from '../../shared/constants.js';
+import type { Utxo } from '../../kaspa/types.js';
 
 // ============================================================
 // TYPES
 // ============================================================
 
 export interface PaymentCallback {
-  onPaymentDetected: (address: string, txId: string, amount: bigint, utxos: Utxo[]) => void;
+  onPaymentDetected: (address: string, txId: string, amount: bigint, utxos: Utxo[]) => Promise<void>;
+  /** Previously reported outputs that are no longer in the address's UTXO set */
+  onUtxosRemoved?: (address: string, utxos: Utxo[]) => Promise<void>;
   onError?: (error: Error) => void;
 }
 
@@ -22,8 +28,8 @@ interface MonitoredAddress {
   address: string;
   expectedAmount: bigint;
   callback: PaymentCallback;
-  useRpc: boolean;
-  detected: boolean; // Guard against double-detection from RPC + REST
+  usePrimary: boolean;
+  seenOutpoints: Set<string>; // Guard against double-detection from primary + fallback
 }
 
 // ============================================================
@@ -31,22 +37,18 @@ interface MonitoredAddress {
 // ============================================================
 
 export class PaymentMonitor {
-  private rpcManager: RpcManager;
-  private restPoller: RestPoller;
+  private primary: ChainBackend;
+  private fallback: ChainBackend | null;
   private monitoredAddresses: Map<string, MonitoredAddress> = new Map();
-  // Bug #1 fix: Map script public key to address for efficient UTXO matching
-  private scriptToAddress: Map<string, string> = new Map();
-  private useRpcPrimary = true;
-
-  constructor() {
-    this.rpcManager = getRpcManager();
-    this.restPoller = getRestPoller();
-
-    // Set up RPC handlers
-    this.rpcManager.setHandlers({
-      onUtxoChanged: (notification) => this.handleRpcUtxoChange(notification),
-      onDisconnect: () => this.handleRpcDisconnect(),
-      onConnect: () => this.handleRpcConnect(),
+  private usePrimaryBackend = true;
+
+  constructor(backends: ChainBackends = createChainBackends()) {
+    this.primary = backends.primary;
+    this.fallback = backends.fallback;
+
+    this.primary.setHandlers({
+      onDisconnect: () => this.handlePrimaryDisconnect(),
+      onConnect: () => this.handlePrimaryConnect(),
     });
   }
 
@@ -63,54 +65,31 @@ export class PaymentMonitor {
       return;
     }
 
-    const useRpc = this.useRpcPrimary && this.rpcManager.isConnected();
+    const usePrimary = !this.fallback || (this.usePrimaryBackend && this.primary.isConnected());
 
-    this.monitoredAddresses.set(address, {
+    const monitored: MonitoredAddress = {
       address,
       expectedAmount,
       callback,
-      useRpc,
-      detected: false,
-    });
+      usePrimary,
+      seenOutpoints: new Set(),
+    };
+    this.monitoredAddresses.set(address, monitored);
 
-    console.log(`[KasGate] Monitoring ${address.slice(0, 20)}... (RPC: ${useRpc})`);
+    console.log(`[KasGate] Monitoring ${address.slice(0, 20)}... (${usePrimary ? this.primary.name : this.fallback!.name})`);
 
-    // Always start REST polling as a reliable baseline
-    this.startRestPolling(address);
+    // Always start the fallback as a reliable baseline
+    this.startFallback(monitored);
 
-    if (useRpc) {
+    if (usePrimary) {
       try {
-        await this.rpcManager.subscribeAddress(address);
-        this.populateScriptMapping(address);
+        await this.primary.subscribe(address, this.subscriberFor(monitored));
       } catch (error) {
-        console.error('[KasGate] RPC subscription failed (REST already active):', error);
+        console.error(`[KasGate] ${this.primary.name} subscription failed:`, error);
       }
     }
   }
 
-  /**
-   * Populate the scriptToAddress map for fallback UTXO matching (Bug #1 fix)
-   * This is async but we don't await it - it runs in background
-   */
-  private async populateScriptMapping(address: string): Promise<void> {
-    try {
-      if (!this.rpcManager.isConnected()) return;
-
-      const utxos = await this.rpcManager.getUtxos(address);
-      if (utxos.length > 0) {
-        // All UTXOs for an address share the same scriptPublicKey
-        const scriptPubKey = utxos[0].scriptPublicKey;
-        if (scriptPubKey) {
-          this.scriptToAddress.set(scriptPubKey, address);
-          console.log(`[KasGate] Mapped scriptPubKey for ${address.slice(0, 20)}...`);
-        }
-      }
-    } catch (error) {
-      // Non-critical - UTXO notifications should include address anyway
-      console.debug(`[KasGate] Could not populate script mapping for ${address.slice(0, 20)}:`, error);
-    }
-  }
-
   /**
    * Stop monitoring an address
    */
@@ -120,19 +99,11 @@ export class PaymentMonitor {
 
     this.monitoredAddresses.delete(address);
 
-    // Clean up scriptToAddress mapping
-    for (const [script, addr] of this.scriptToAddress) {
-      if (addr === address) {
-        this.scriptToAddress.delete(script);
-        break;
-      }
+    // Always clean up both backends (since both may be active)
+    if (monitored.usePrimary) {
+      await this.primary.unsubscribe(address);
     }
-
-    // Always clean up both RPC and REST (since both may be active)
-    if (monitored.useRpc) {
-      await this.rpcManager.unsubscribeAddress(address);
-    }
-    this.restPoller.unwatch(address);
+    await this.fallback?.unsubscribe(address);
 
     console.log(`[KasGate] Stopped monitoring ${address.slice(0, 20)}...`);
   }
@@ -145,36 +116,87 @@ export class PaymentMonitor {
   }
 
   /**
-   * Get the current blue score (DAA score)
+   * Run a one-off UTXO scan for a monitored address
+   *
+   * Used to catch up on payments that arrived while the address was not
+   * being watched (e.g. during a server restart).
+   */
+  async scanAddress(address: string): Promise<void> {
+    const monitored = this.monitoredAddresses.get(address);
+    if (!monitored) return;
+
+    const utxos = await this.getUtxos(address);
+
+    if (utxos.length > 0) {
+      await this.checkUtxoForAddress(address, monitored, utxos);
+    }
+  }
+
+  /**
+   * Get the current UTXOs for an address
+   */
+  async getUtxos(address: string): Promise<Utxo[]> {
+    return this.activeBackend().getUtxos(address);
+  }
+
+  /**
+   * Get the current virtual DAA score, the scale of a UTXO's blockDaaScore
+   */
+  async getDaaScore(): Promise<bigint> {
+    return this.activeBackend().getVirtualDaaScore();
+  }
+
+  /**
+   * Get the virtual DAA score from both backends and return the lower one
+   *
+   * Used before confirming large payments, so one lagging or lying source
+   * cannot confirm them early. With a single reachable backend (the primary
+   * is down, or there is no fallback) its score is returned unchecked.
    */
-  async getBlueScore(): Promise<bigint> {
-    if (this.rpcManager.isConnected()) {
-      return this.rpcManager.getBlueScore();
+  async getCrossCheckedDaaScore(): Promise<bigint> {
+    if (!this.fallback || !this.primary.isConnected()) {
+      return this.getDaaScore();
     }
 
-    // Fallback: fetch from REST API
-    const response = await fetch(`${process.env.KASPA_API_URL || 'https://api-tn10.kaspa.org'}/info/virtual-chain-blue-score`);
-    const data = await response.json();
-    return BigInt(data.blueScore);
+    const [primaryScore, fallbackScore] = await Promise.all([
+      this.primary.getVirtualDaaScore(),
+      this.fallback.getVirtualDaaScore(),
+    ]);
+
+    const drift = primaryScore > fallbackScore ? primaryScore - fallbackScore : fallbackScore - primaryScore;
+    if (drift > CROSS_CHECK_MAX_DRIFT) {
+      console.warn(`[KasGate] DAA score sources disagree: ${this.primary.name} ${primaryScore}, ${this.fallback.name} ${fallbackScore}`);
+    }
+
+    return primaryScore < fallbackScore ? primaryScore : fallbackScore;
+  }
+
+  /**
+   * Look up a transaction and the DAA score of the block that accepted it
+   *
+   * @returns null if the network does not know the transaction
+   */
+  async getTransaction(txId: string): Promise<ChainTransaction | null> {
+    return this.activeBackend().getTransaction(txId);
   }
 
   /**
-   * Initialize the monitor (connect to RPC)
+   * Initialize the monitor (connect the primary backend)
    */
   async initialize(): Promise<void> {
     try {
-      await this.rpcManager.connect();
+      await this.primary.connect();
 
       // Check if connection actually succeeded (connect() doesn't throw on failure)
-      if (!this.rpcManager.isConnected()) {
-        console.warn('[KasGate] RPC connection failed, using REST fallback');
-        this.useRpcPrimary = false;
+      if (!this.primary.isConnected()) {
+        console.warn(`[KasGate] ${this.primary.name} connection failed, using ${this.fallback?.name} fallback`);
+        this.usePrimaryBackend = false;
       } else {
-        console.log('[KasGate] Payment monitor initialized with RPC');
+        console.log(`[KasGate] Payment monitor initialized with ${this.primary.name}`);
       }
     } catch (error) {
-      console.warn('[KasGate] RPC connection error, using REST fallback:', error);
-      this.useRpcPrimary = false;
+      console.warn(`[KasGate] ${this.primary.name} connection error, using ${this.fallback?.name} fallback:`, error);
+      this.usePrimaryBackend = false;
     }
   }
 
@@ -187,11 +209,8 @@ export class PaymentMonitor {
       await this.unmonitor(address);
     }
 
-    // Disconnect RPC
-    await this.rpcManager.disconnect();
-
-    // Stop REST poller
-    this.restPoller.stop();
+    await this.primary.disconnect();
+    await this.fallback?.disconnect();
 
     console.log('[KasGate] Payment monitor shutdown');
   }
@@ -200,46 +219,48 @@ export class PaymentMonitor {
   // PRIVATE METHODS
   // ============================================================
 
-  private handleRpcUtxoChange(notification: UtxoChangedNotification): void {
-    // Bug #1 fix: Group UTXOs by address for efficient processing
-    // RPC notification includes address in UTXO entries
-
-    // Group added UTXOs by their address
-    const utxosByAddress = new Map<string, typeof notification.added>();
-
-    for (const utxo of notification.added) {
-      // Try to get address from UTXO (preferred - from RPC notification)
-      let address = utxo.address;
-
-      // Fallback: lookup by scriptPublicKey if address not included
-      if (!address) {
-        address = this.scriptToAddress.get(utxo.scriptPublicKey);
-      }
-
-      if (!address) {
-        // Unknown address - not one we're monitoring
-        continue;
-      }
+  /**
+   * Backend to query: the primary while connected, otherwise the fallback
+   */
+  private activeBackend(): ChainBackend {
+    return this.primary.isConnected() || !this.fallback ? this.primary : this.fallback;
+  }
 
-      // Only process if we're monitoring this address
-      if (!this.monitoredAddresses.has(address)) {
-        continue;
-      }
+  private subscriberFor(monitored: MonitoredAddress): UtxoSubscriber {
+    return {
+      onUtxosChanged: (address, added, removed) => {
+        // Unmonitored since: a late notification for an address we no longer watch
+        if (this.monitoredAddresses.get(address) !== monitored) return;
 
-      // Group UTXOs by address
-      if (!utxosByAddress.has(address)) {
-        utxosByAddress.set(address, []);
-      }
-      utxosByAddress.get(address)!.push(utxo);
-    }
+        if (added.length > 0) {
+          this.checkUtxoForAddress(address, monitored, added);
+        }
+        if (removed.length > 0) {
+          this.handleRemovedUtxos(address, monitored, removed);
+        }
+      },
+      onError: (error) => {
+        monitored.callback.onError?.(error);
+      },
+    };
+  }
 
-    // Process each address's UTXOs
-    for (const [address, utxos] of utxosByAddress) {
-      const monitored = this.monitoredAddresses.get(address);
-      if (monitored) {
-        this.checkUtxoForAddress(address, monitored, utxos);
-      }
-    }
+  /**
+   * Report previously detected outputs that left the UTXO set
+   *
+   * They are forgotten as seen, so one that comes back (e.g. re-included
+   * after a reorg) is reported as detected again.
+   */
+  private handleRemovedUtxos(address: string, monitored: MonitoredAddress, utxos: Utxo[]): void {
+    const reported = utxos.filter(
+      (u) => monitored.seenOutpoints.delete(`${u.transactionId}:${u.index}`)
+    );
+    if (reported.length === 0) return;
+
+    console.warn(`[KasGate] ${reported.length} detected output(s) removed from ${address.slice(0, 20)}...`);
+    monitored.callback.onUtxosRemoved?.(address, reported).catch((error) => {
+      monitored.callback.onError?.(error as Error);
+    });
   }
 
   private async checkUtxoForAddress(
@@ -256,84 +277,71 @@ export class PaymentMonitor {
       return;
     }
 
-    // Calculate total amount from confirmed UTXOs only
-    const totalAmount = confirmedUtxos.reduce((sum, u) => sum + u.amount, 0n);
+    // Guard against double-detection (both backends may fire for the same outpoint)
+    const newUtxos = confirmedUtxos.filter(
+      (u) => !monitored.seenOutpoints.has(`${u.transactionId}:${u.index}`)
+    );
+    if (newUtxos.length === 0) return;
 
-    if (totalAmount >= monitored.expectedAmount) {
-      // Guard against double-detection (both RPC and REST may fire)
-      if (monitored.detected) return;
-      monitored.detected = true;
+    for (const utxo of newUtxos) {
+      monitored.seenOutpoints.add(`${utxo.transactionId}:${utxo.index}`);
+    }
 
-      const txId = confirmedUtxos[0].transactionId;
-      console.log(`[KasGate] Payment detected for ${address.slice(0, 20)}: ${totalAmount} sompi (tx: ${txId.slice(0, 12)}...)`);
+    // Report every arrival; the session decides whether the total is sufficient
+    const totalAmount = newUtxos.reduce((sum, u) => sum + u.amount, 0n);
+    const txId = newUtxos[0].transactionId;
+    console.log(`[KasGate] Payment detected for ${address.slice(0, 20)}: ${totalAmount} sompi (tx: ${txId.slice(0, 12)}...)`);
 
-      monitored.callback.onPaymentDetected(address, txId, totalAmount, confirmedUtxos);
-    }
+    monitored.callback.onPaymentDetected(address, txId, totalAmount, newUtxos).catch((error) => {
+      monitored.callback.onError?.(error as Error);
+    });
   }
 
-  private handleRpcDisconnect(): void {
-    console.log('[KasGate] RPC disconnected, switching to REST fallback');
+  private handlePrimaryDisconnect(): void {
+    if (!this.fallback) return;
+
+    console.log(`[KasGate] ${this.primary.name} disconnected, switching to ${this.fallback.name} fallback`);
 
-    // Switch all RPC-monitored addresses to REST
-    for (const [address, monitored] of this.monitoredAddresses) {
-      if (monitored.useRpc) {
-        this.switchToRest(address);
+    // Switch all primary-monitored addresses to the fallback
+    for (const monitored of this.monitoredAddresses.values()) {
+      if (monitored.usePrimary) {
+        this.switchToFallback(monitored);
       }
     }
   }
 
-  private handleRpcConnect(): void {
-    console.log('[KasGate] RPC reconnected, switching back from REST');
+  private handlePrimaryConnect(): void {
+    if (!this.fallback) return;
+
+    console.log(`[KasGate] ${this.primary.name} reconnected, switching back from ${this.fallback.name}`);
 
-    // Switch REST-monitored addresses back to RPC
-    for (const [address, monitored] of this.monitoredAddresses) {
-      if (!monitored.useRpc) {
-        this.switchToRpc(address);
+    // Switch fallback-monitored addresses back to the primary
+    for (const monitored of this.monitoredAddresses.values()) {
+      if (!monitored.usePrimary) {
+        this.switchToPrimary(monitored);
       }
     }
   }
 
-  private async switchToRest(address: string): Promise<void> {
-    const monitored = this.monitoredAddresses.get(address);
-    if (!monitored) return;
-
-    monitored.useRpc = false;
-    this.startRestPolling(address);
+  private switchToFallback(monitored: MonitoredAddress): void {
+    monitored.usePrimary = false;
+    this.startFallback(monitored);
   }
 
-  private async switchToRpc(address: string): Promise<void> {
-    const monitored = this.monitoredAddresses.get(address);
-    if (!monitored) return;
+  private async switchToPrimary(monitored: MonitoredAddress): Promise<void> {
+    await this.fallback?.unsubscribe(monitored.address);
 
-    // Unwatch from REST
-    this.restPoller.unwatch(address);
-
-    // Subscribe via RPC
     try {
-      await this.rpcManager.subscribeAddress(address);
-      monitored.useRpc = true;
+      await this.primary.subscribe(monitored.address, this.subscriberFor(monitored));
+      monitored.usePrimary = true;
     } catch (error) {
-      console.error('[KasGate] Failed to switch to RPC, staying with REST:', error);
+      console.error(`[KasGate] Failed to switch to ${this.primary.name}, staying with ${this.fallback?.name}:`, error);
     }
   }
 
-  private startRestPolling(address: string): void {
-    const monitored = this.monitoredAddresses.get(address);
-    if (!monitored) return;
-
-    this.restPoller.watch(address, {
-      onUtxoChange: (addr, utxos, previousUtxos) => {
-        // Find new UTXOs
-        const prevSet = new Set(previousUtxos.map((u) => `${u.transactionId}:${u.index}`));
-        const newUtxos = utxos.filter((u) => !prevSet.has(`${u.transactionId}:${u.index}`));
-
-        if (newUtxos.length > 0) {
-          this.checkUtxoForAddress(addr, monitored, newUtxos);
-        }
-      },
-      onError: (error) => {
-        monitored.callback.onError?.(error);
-      },
+  private startFallback(monitored: MonitoredAddress): void {
+    this.fallback?.subscribe(monitored.address, this.subscriberFor(monitored)).catch((error) => {
+      monitored.callback.onError?.(error as Error);
     });
   }
 }
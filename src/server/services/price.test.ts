@@ -0,0 +1,66 @@
+/**
+ * Price Service Tests
+ * Tests for fiat to KAS quoting with a static price source
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  PriceService,
+  StaticPriceSource,
+  getPriceService,
+  setPriceSource,
+  resetPriceService,
+} from './price.js';
+
+describe('PriceService', () => {
+  afterEach(() => {
+    resetPriceService();
+  });
+
+  it('should convert a fiat amount at the quoted rate', async () => {
+    const service = new PriceService(new StaticPriceSource({ USD: '0.125' }));
+
+    const quote = await service.quote('25.00', 'USD');
+
+    // 25 / 0.125 = 200 KAS
+    expect(quote.amount).toBe(20000000000n);
+    expect(quote.exchangeRate).toBe('0.125');
+    expect(quote.currency).toBe('USD');
+    expect(quote.fiatAmount).toBe('25.00');
+    expect(quote.expiresAt.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('should round the KAS amount up to the next sompi', async () => {
+    const service = new PriceService(new StaticPriceSource({ EUR: '0.3' }));
+
+    const quote = await service.quote('1', 'EUR');
+
+    // 1 / 0.3 = 3.333333333... KAS
+    expect(quote.amount).toBe(333333334n);
+  });
+
+  it('should truncate rates to 8 decimal places', async () => {
+    const service = new PriceService(new StaticPriceSource({ USD: '0.1234567891' }));
+
+    const quote = await service.quote('10', 'USD');
+
+    expect(quote.exchangeRate).toBe('0.12345678');
+  });
+
+  it('should fail when the source has no price for the currency', async () => {
+    const service = new PriceService(new StaticPriceSource({ USD: '0.1' }));
+
+    await expect(service.quote('10', 'GBP')).rejects.toThrow('GBP');
+  });
+
+  it('should parse static prices from a price list string', async () => {
+    setPriceSource(StaticPriceSource.fromString('usd=0.10, EUR=0.09'));
+
+    const usd = await getPriceService().quote('1', 'USD');
+    const eur = await getPriceService().quote('0.90', 'EUR');
+
+    expect(usd.amount).toBe(1000000000n);
+    expect(eur.amount).toBe(1000000000n);
+    expect(getPriceService().getSourceName()).toBe('static');
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * Price Service - Fiat to KAS Conversion
+ *
+ * Converts fiat-denominated session prices into a fixed KAS amount using a
+ * pluggable price source. The quoted exchange rate is locked for the life of
+ * the quote so the customer pays the KAS amount shown at checkout.
+ */
+
+import {
+  SOMPI_PER_KAS,
+  PRICE_QUOTE_EXPIRY_MINUTES,
+  PRICE_CACHE_TTL_MS,
+  EXCHANGE_RATE_DECIMALS,
+} from '../../shared/constants.js';
+import type { FiatCurrency } from '../../shared/validation.js';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+/**
+ * A source of KAS prices in fiat currencies
+ */
+export interface PriceSource {
+  /** Short name used in logs */
+  readonly name: string;
+  /** Price of 1 KAS in the given currency, as a decimal string */
+  getKasPrice(currency: FiatCurrency): Promise<string>;
+}
+
+export interface PriceQuote {
+  fiatAmount: string;
+  currency: FiatCurrency;
+  /** Fiat per KAS (decimal string) */
+  exchangeRate: string;
+  /** Amount to charge in sompi */
+  amount: bigint;
+  expiresAt: Date;
+}
+
+interface CachedPrice {
+  price: string;
+  fetchedAt: number;
+}
+
+// ============================================================
+// PRICE SOURCES
+// ============================================================
+
+/**
+ * Fixed prices, for tests and local development
+ *
+ * Configured from STATIC_KAS_PRICES, e.g. "USD=0.12,EUR=0.11".
+ */
+export class StaticPriceSource implements PriceSource {
+  readonly name = 'static';
+
+  constructor(private prices: Partial<Record<FiatCurrency, string>>) {}
+
+  async getKasPrice(currency: FiatCurrency): Promise<string> {
+    const price = this.prices[currency];
+    if (!price) {
+      throw new Error(`No static KAS price configured for ${currency}`);
+    }
+    return price;
+  }
+
+  /**
+   * Parse a "USD=0.12,EUR=0.11" style price list
+   */
+  static fromString(value: string): StaticPriceSource {
+    const prices: Partial<Record<FiatCurrency, string>> = {};
+    for (const entry of value.split(',')) {
+      const [currency, price] = entry.split('=').map((part) => part.trim());
+      if (currency && price) {
+        prices[currency.toUpperCase() as FiatCurrency] = price;
+      }
+    }
+    return new StaticPriceSource(prices);
+  }
+}
+
+/**
+ * Live prices from the CoinGecko simple price API
+ */
+export class CoinGeckoPriceSource implements PriceSource {
+  readonly name = 'coingecko';
+  private cache: Map<FiatCurrency, CachedPrice> = new Map();
+
+  constructor(private baseUrl = 'https://api.coingecko.com/api/v3') {}
+
+  async getKasPrice(currency: FiatCurrency): Promise<string> {
+    const cached = this.cache.get(currency);
+    if (cached && Date.now() - cached.fetchedAt < PRICE_CACHE_TTL_MS) {
+      return cached.price;
+    }
+
+    const vs = currency.toLowerCase();
+    const response = await fetch(`${this.baseUrl}/simple/price?ids=kaspa&vs_currencies=${vs}`, {
+      headers: {
+        'Accept': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Price API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json() as { kaspa?: Record<string, number> };
+    const value = data.kaspa?.[vs];
+    if (typeof value !== 'number' || value <= 0) {
+      throw new Error(`Price API returned no KAS price for ${currency}`);
+    }
+
+    const price = value.toFixed(EXCHANGE_RATE_DECIMALS);
+    this.cache.set(currency, { price, fetchedAt: Date.now() });
+    return price;
+  }
+}
+
+// ============================================================
+// PRICE SERVICE CLASS
+// ============================================================
+
+export class PriceService {
+  constructor(private source: PriceSource) {}
+
+  /**
+   * Quote a fiat amount in KAS at the current exchange rate
+   *
+   * The KAS amount is rounded up to the next sompi so the merchant never
+   * receives less than the fiat price at the quoted rate.
+   */
+  async quote(fiatAmount: string, currency: FiatCurrency): Promise<PriceQuote> {
+    const exchangeRate = normalizeDecimal(await this.source.getKasPrice(currency));
+    const rateScaled = parseDecimal(exchangeRate, EXCHANGE_RATE_DECIMALS);
+
+    if (rateScaled <= 0n) {
+      throw new Error(`Invalid ${currency} exchange rate from ${this.source.name}: ${exchangeRate}`);
+    }
+
+    // sompi = fiat / rate * SOMPI_PER_KAS (fiat scaled to match the rate)
+    const fiatScaled = parseDecimal(fiatAmount, EXCHANGE_RATE_DECIMALS);
+    const numerator = fiatScaled * SOMPI_PER_KAS;
+    const amount = (numerator + rateScaled - 1n) / rateScaled;
+
+    return {
+      fiatAmount,
+      currency,
+      exchangeRate,
+      amount,
+      expiresAt: new Date(Date.now() + PRICE_QUOTE_EXPIRY_MINUTES * 60 * 1000),
+    };
+  }
+
+  /**
+   * Name of the configured price source
+   */
+  getSourceName(): string {
+    return this.source.name;
+  }
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * Parse a non-negative decimal string into a bigint scaled by 10^decimals
+ * (extra digits are truncated)
+ */
+export function parseDecimal(value: string, decimals: number): bigint {
+  if (!/^\d+(\.\d+)?$/.test(value)) {
+    throw new Error(`Invalid decimal: ${value}`);
+  }
+
+  const [whole, fraction = ''] = value.split('.');
+  return BigInt(whole + fraction.slice(0, decimals).padEnd(decimals, '0'));
+}
+
+/**
+ * Format a bigint scaled by 10^decimals as a decimal string
+ */
+export function formatDecimal(scaled: bigint, decimals: number): string {
+  const str = scaled.toString().padStart(decimals + 1, '0');
+  const whole = str.slice(0, str.length - decimals);
+  const fraction = str.slice(str.length - decimals).replace(/0+$/, '');
+  return fraction ? `${whole}.${fraction}` : whole;
+}
+
+/**
+ * Normalize a rate to at most EXCHANGE_RATE_DECIMALS places
+ */
+function normalizeDecimal(value: string): string {
+  return formatDecimal(parseDecimal(value, EXCHANGE_RATE_DECIMALS), EXCHANGE_RATE_DECIMALS);
+}
+
+/**
+ * Build the price source from the environment
+ *
+ * PRICE_SOURCE=static uses STATIC_KAS_PRICES; anything else uses CoinGecko.
+ */
+function createPriceSource(): PriceSource {
+  if (process.env.PRICE_SOURCE === 'static') {
+    return StaticPriceSource.fromString(process.env.STATIC_KAS_PRICES || '');
+  }
+  return new CoinGeckoPriceSource(process.env.PRICE_API_URL);
+}
+
+// ============================================================
+// SINGLETON INSTANCE
+// ============================================================
+
+let priceService: PriceService | null = null;
+
+/**
+ * Get the singleton price service instance
+ */
+export function getPriceService(): PriceService {
+  if (!priceService) {
+    priceService = new PriceService(createPriceSource());
+  }
+  return priceService;
+}
+
+/**
+ * Replace the price source (for tests and custom providers)
+ */
+export function setPriceSource(source: PriceSource): void {
+  priceService = new PriceService(source);
+}
+
+/**
+ * Reset the price service (for testing)
+ */
+export function resetPriceService(): void {
+  priceService = null;
+}
@@ -0,0 +1,100 @@
+/**
+ * QR Code Service Tests
+ * Tests for SVG/PNG rendering, logos and ETags
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PNG } from 'pngjs';
+import { QrCodeService, decodeLogo, type QrOptions } from './qr.js';
+
+const URI = 'kaspa:qr0efmrq0uu9n6azqrjw9m8wnsfhd2s3mfvq5sjc?amount=1.5';
+
+const OPTIONS: QrOptions = { size: 256, margin: 2, dark: '#000000', light: '#ffffff' };
+
+/**
+ * A solid red square as a PNG data URL
+ */
+function redLogo(size = 8, height = size): string {
+  const png = new PNG({ width: size, height });
+  for (let i = 0; i < size * height; i++) {
+    png.data.set([255, 0, 0, 255], i * 4);
+  }
+  return `data:image/png;base64,${PNG.sync.write(png).toString('base64')}`;
+}
+
+describe('QrCodeService', () => {
+  let service: QrCodeService;
+
+  beforeEach(() => {
+    service = new QrCodeService();
+  });
+
+  it('should render SVG in the requested colours', async () => {
+    const qr = await service.render('svg', URI, { ...OPTIONS, dark: '#112233' });
+    const svg = qr.body.toString();
+
+    expect(qr.contentType).toBe('image/svg+xml');
+    expect(svg).toContain('width="256"');
+    expect(svg).toContain('stroke="#112233"');
+    expect(svg).not.toContain('<image');
+  });
+
+  it('should render PNG at the requested size', async () => {
+    const qr = await service.render('png', URI, { ...OPTIONS, size: 300 });
+    const png = PNG.sync.read(qr.body);
+
+    expect(qr.contentType).toBe('image/png');
+    expect(png.width).toBe(300);
+    expect(png.height).toBe(300);
+  });
+
+  it('should embed the logo in SVG', async () => {
+    const logo = redLogo();
+    const qr = await service.render('svg', URI, { ...OPTIONS, logo });
+
+    expect(qr.body.toString()).toContain(`href="${logo}"`);
+  });
+
+  it('should draw the logo in the centre of PNG', async () => {
+    const qr = await service.render('png', URI, { ...OPTIONS, logo: redLogo() });
+    const png = PNG.sync.read(qr.body);
+
+    const centre = (128 * png.width + 128) * 4;
+    expect([...png.data.subarray(centre, centre + 4)]).toEqual([255, 0, 0, 255]);
+  });
+
+  it('should change the ETag with anything that changes the image', () => {
+    const etag = service.getETag('svg', URI, OPTIONS);
+
+    expect(service.getETag('svg', URI, { ...OPTIONS })).toBe(etag);
+    expect(service.getETag('png', URI, OPTIONS)).not.toBe(etag);
+    expect(service.getETag('svg', `${URI}0`, OPTIONS)).not.toBe(etag);
+    expect(service.getETag('svg', URI, { ...OPTIONS, size: 512 })).not.toBe(etag);
+    expect(service.getETag('svg', URI, { ...OPTIONS, logo: redLogo() })).not.toBe(etag);
+  });
+
+  it('should reuse rendered images', async () => {
+    const first = await service.render('png', URI, OPTIONS);
+    const second = await service.render('png', URI, OPTIONS);
+
+    expect(second).toBe(first);
+  });
+});
+
+describe('decodeLogo', () => {
+  it('should accept a PNG data URL', () => {
+    expect(decodeLogo(redLogo())).toBeInstanceOf(Buffer);
+  });
+
+  it('should reject other images and corrupt data', () => {
+    expect(decodeLogo('data:image/jpeg;base64,/9j/4AAQSkZJRg==')).toBeNull();
+    expect(decodeLogo('data:image/png;base64,bm90IGEgcG5n')).toBeNull();
+    expect(decodeLogo('https://example.com/logo.png')).toBeNull();
+  });
+
+  it('should reject logos larger than the maximum dimensions', () => {
+    expect(decodeLogo(redLogo(1024, 1))).toBeInstanceOf(Buffer);
+    expect(decodeLogo(redLogo(1025, 1))).toBeNull();
+    expect(decodeLogo(redLogo(1, 1025))).toBeNull();
+  });
+});
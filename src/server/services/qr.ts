@@ -0,0 +1,242 @@
+/**
+ * QR Code Service - Server-Rendered Payment QR Codes
+ *
+ * Renders payment URIs as SVG or PNG with optional branding: custom colours
+ * and the merchant's logo in the centre. Images are identified by an ETag
+ * derived from everything that goes into them, so clients can revalidate
+ * cheaply and repeated requests are served from memory.
+ */
+
+import crypto from 'crypto';
+import QRCode from 'qrcode';
+import { PNG } from 'pngjs';
+import { QR_LOGO_SCALE, QR_CACHE_MAX_ENTRIES, MAX_LOGO_BYTES, MAX_LOGO_DIMENSION } from '../../shared/constants.js';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type QrFormat = 'svg' | 'png';
+
+export type QrErrorCorrection = 'L' | 'M' | 'Q' | 'H';
+
+export interface QrOptions {
+  /** Width and height in pixels */
+  size: number;
+  /** Quiet zone in modules */
+  margin: number;
+  /** Module colour, `#rrggbb` or `#rrggbbaa` */
+  dark: string;
+  /** Background colour, `#rrggbb` or `#rrggbbaa` */
+  light: string;
+  /** Defaults to H with a logo (it hides some modules), else M */
+  errorCorrection?: QrErrorCorrection;
+  /** PNG data URL drawn in the centre */
+  logo?: string;
+}
+
+export interface RenderedQr {
+  contentType: string;
+  body: Buffer;
+}
+
+const CONTENT_TYPES: Record<QrFormat, string> = {
+  svg: 'image/svg+xml',
+  png: 'image/png',
+};
+
+const PNG_DATA_URL_PREFIX = 'data:image/png;base64,';
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * Decode a merchant logo: a base64 PNG data URL
+ *
+ * @returns the PNG bytes, or null if the data URL is not a readable PNG
+ * within MAX_LOGO_BYTES and MAX_LOGO_DIMENSION
+ */
+export function decodeLogo(dataUrl: string): Buffer | null {
+  if (!dataUrl.startsWith(PNG_DATA_URL_PREFIX)) return null;
+
+  const bytes = Buffer.from(dataUrl.slice(PNG_DATA_URL_PREFIX.length), 'base64');
+  if (bytes.length === 0 || bytes.length > MAX_LOGO_BYTES) return null;
+
+  // Check the dimensions in the IHDR header before decoding anything
+  if (
+    bytes.length < 24 ||
+    !bytes.subarray(0, 8).equals(PNG_SIGNATURE) ||
+    bytes.toString('ascii', 12, 16) !== 'IHDR' ||
+    bytes.readUInt32BE(16) > MAX_LOGO_DIMENSION ||
+    bytes.readUInt32BE(20) > MAX_LOGO_DIMENSION
+  ) {
+    return null;
+  }
+
+  try {
+    PNG.sync.read(bytes);
+    return bytes;
+  } catch {
+    return null;
+  }
+}
+
+function parseColor(hex: string): [number, number, number, number] {
+  const value = hex.replace(/^#/, '');
+  return [
+    parseInt(value.slice(0, 2), 16),
+    parseInt(value.slice(2, 4), 16),
+    parseInt(value.slice(4, 6), 16),
+    value.length === 8 ? parseInt(value.slice(6, 8), 16) : 255,
+  ];
+}
+
+// ============================================================
+// QR CODE SERVICE CLASS
+// ============================================================
+
+export class QrCodeService {
+  private cache: Map<string, RenderedQr> = new Map();
+
+  /**
+   * ETag of the image render() produces for the same arguments
+   */
+  getETag(format: QrFormat, text: string, options: QrOptions): string {
+    const hash = crypto
+      .createHash('sha256')
+      .update(JSON.stringify([format, text, options.size, options.margin, options.dark, options.light,
+        this.errorCorrectionFor(options), options.logo ?? null]))
+      .digest('hex');
+    return `"${hash.slice(0, 32)}"`;
+  }
+
+  /**
+   * Render text (a payment URI) as a QR code image
+   */
+  async render(format: QrFormat, text: string, options: QrOptions): Promise<RenderedQr> {
+    const etag = this.getETag(format, text, options);
+    const cached = this.cache.get(etag);
+    if (cached) return cached;
+
+    const logo = options.logo ? decodeLogo(options.logo) : null;
+    const body = format === 'svg'
+      ? Buffer.from(await this.renderSvg(text, options, logo ? options.logo! : null))
+      : await this.renderPng(text, options, logo);
+
+    const rendered = { contentType: CONTENT_TYPES[format], body };
+    this.cache.set(etag, rendered);
+    if (this.cache.size > QR_CACHE_MAX_ENTRIES) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+    return rendered;
+  }
+
+  // ============================================================
+  // PRIVATE METHODS
+  // ============================================================
+
+  private errorCorrectionFor(options: QrOptions): QrErrorCorrection {
+    return options.errorCorrection ?? (options.logo ? 'H' : 'M');
+  }
+
+  private renderOptions(options: QrOptions) {
+    return {
+      width: options.size,
+      margin: options.margin,
+      color: { dark: options.dark, light: options.light },
+      errorCorrectionLevel: this.errorCorrectionFor(options),
+    };
+  }
+
+  /**
+   * SVG in module units; the logo is embedded as an <image> over a cleared square
+   */
+  private async renderSvg(text: string, options: QrOptions, logoDataUrl: string | null): Promise<string> {
+    const svg = await QRCode.toString(text, { type: 'svg', ...this.renderOptions(options) });
+    if (!logoDataUrl) return svg;
+
+    const viewBoxSize = Number(/viewBox="0 0 (\d+) \d+"/.exec(svg)?.[1]);
+    const box = viewBoxSize * QR_LOGO_SCALE;
+    const pad = box * 0.1;
+    const offset = (viewBoxSize - box) / 2;
+
+    const logo =
+      `<rect x="${offset - pad}" y="${offset - pad}" width="${box + 2 * pad}" height="${box + 2 * pad}" fill="${options.light}"/>` +
+      `<image x="${offset}" y="${offset}" width="${box}" height="${box}" preserveAspectRatio="xMidYMid meet" href="${logoDataUrl}"/>`;
+
+    return svg.replace('</svg>', `${logo}</svg>`);
+  }
+
+  /**
+   * PNG at the requested size; the logo is scaled (nearest neighbour, keeping
+   * its aspect ratio) and alpha-blended into a cleared square
+   */
+  private async renderPng(text: string, options: QrOptions, logo: Buffer | null): Promise<Buffer> {
+    const png = await QRCode.toBuffer(text, { type: 'png', ...this.renderOptions(options) });
+    if (!logo) return png;
+
+    const image = PNG.sync.read(png);
+    const source = PNG.sync.read(logo);
+
+    const box = Math.round(image.width * QR_LOGO_SCALE);
+    const pad = Math.max(1, Math.round(box * 0.1));
+    const left = Math.round((image.width - box) / 2);
+    const top = Math.round((image.height - box) / 2);
+
+    const light = parseColor(options.light);
+    for (let y = top - pad; y < top + box + pad; y++) {
+      for (let x = left - pad; x < left + box + pad; x++) {
+        image.data.set(light, (y * image.width + x) * 4);
+      }
+    }
+
+    const scale = Math.min(box / source.width, box / source.height);
+    const width = Math.max(1, Math.round(source.width * scale));
+    const height = Math.max(1, Math.round(source.height * scale));
+    const x0 = left + Math.floor((box - width) / 2);
+    const y0 = top + Math.floor((box - height) / 2);
+
+    for (let y = 0; y < height; y++) {
+      const sy = Math.min(source.height - 1, Math.floor(y / scale));
+      for (let x = 0; x < width; x++) {
+        const sx = Math.min(source.width - 1, Math.floor(x / scale));
+        const src = (sy * source.width + sx) * 4;
+        const dst = ((y0 + y) * image.width + x0 + x) * 4;
+        const alpha = source.data[src + 3] / 255;
+
+        for (let c = 0; c < 3; c++) {
+          image.data[dst + c] = Math.round(source.data[src + c] * alpha + image.data[dst + c] * (1 - alpha));
+        }
+        image.data[dst + 3] = Math.max(image.data[dst + 3], source.data[src + 3]);
+      }
+    }
+
+    return PNG.sync.write(image);
+  }
+}
+
+// ============================================================
+// SINGLETON INSTANCE
+// ============================================================
+
+let qrCodeService: QrCodeService | null = null;
+
+/**
+ * Get the singleton QR code service instance
+ */
+export function getQrCodeService(): QrCodeService {
+  if (!qrCodeService) {
+    qrCodeService = new QrCodeService();
+  }
+  return qrCodeService;
+}
+
+/**
+ * Reset the QR code service (for testing)
+ */
+export function resetQrCodeService(): void {
+  qrCodeService = null;
+}
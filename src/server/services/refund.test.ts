@@ -0,0 +1,166 @@
+/**
+ * Refund Service Tests
+ * Tests for recording refunds and detecting the outgoing refund transaction
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import crypto from 'crypto';
+import { getRefundService, resetRefundService } from './refund.js';
+import { getSessionManager, resetSessionManager } from './session.js';
+import { initDatabase, closeDatabase, execute } from '../db/index.js';
+import type { PaymentCallback } from './payment-monitor.js';
+import type { Utxo } from '../../kaspa/types.js';
+
+// Mock the payment monitor so no RPC/REST connections are made
+const monitorCallbacks = new Map<string, PaymentCallback>();
+const mockPaymentMonitor = {
+  monitor: vi.fn(async (address: string, _amount: bigint, callback: PaymentCallback) => {
+    monitorCallbacks.set(address, callback);
+  }),
+  unmonitor: vi.fn(async (address: string) => {
+    monitorCallbacks.delete(address);
+  }),
+  isMonitoring: vi.fn((address: string) => monitorCallbacks.has(address)),
+  scanAddress: vi.fn(async () => {}),
+  getUtxos: vi.fn(async (): Promise<Utxo[]> => []),
+};
+
+vi.mock('./payment-monitor.js', () => ({
+  getPaymentMonitor: () => mockPaymentMonitor,
+}));
+
+const mockSendWebhook = vi.fn();
+vi.mock('./webhook.js', () => ({
+  getWebhookService: () => ({ sendWebhook: mockSendWebhook }),
+}));
+
+const TEST_MERCHANT_ID = '550e8400-e29b-41d4-a716-446655440000';
+const REFUND_ADDRESS = 'kaspatest:qrcustomer0000000000000000000000000000000000000000000000';
+
+function createTestMerchant() {
+  execute(
+    `INSERT INTO merchants (id, name, xpub, api_key_hash, created_at, updated_at)
+     VALUES (?, ?, ?, ?, datetime('now'), datetime('now'))`,
+    [
+      TEST_MERCHANT_ID,
+      'Test Merchant',
+      'kpub1234567890abcdefghijklmnopqrstuvwxyz1234567890abcdefghijklmnopqrstuvwxyz1234567890abcdefghijkl',
+      'abcd1234',
+    ]
+  );
+}
+
+function createConfirmedSession() {
+  const id = crypto.randomUUID();
+  execute(
+    `INSERT INTO sessions (id, merchant_id, address, address_index, amount, amount_received, status, created_at, expires_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, datetime('now'), datetime('now', '+15 minutes'))`,
+    [id, TEST_MERCHANT_ID, 'kaspatest:qr0test' + id.slice(0, 8), 0, '100000000', '100000000', 'confirmed']
+  );
+  return getSessionManager().getSession(id)!;
+}
+
+function utxo(transactionId: string, amount: bigint, blockDaaScore: bigint): Utxo {
+  return {
+    transactionId,
+    index: 0,
+    amount,
+    scriptPublicKey: '',
+    blockDaaScore,
+    isCoinbase: false,
+  };
+}
+
+describe('RefundService', () => {
+  beforeEach(() => {
+    initDatabase(':memory:');
+    resetSessionManager();
+    resetRefundService();
+    monitorCallbacks.clear();
+    vi.clearAllMocks();
+    createTestMerchant();
+  });
+
+  afterEach(() => {
+    closeDatabase();
+  });
+
+  it('should record a pending refund and watch the destination address', async () => {
+    const session = createConfirmedSession();
+
+    const refund = await getRefundService().createRefund(session, {
+      amount: 40000000n,
+      address: REFUND_ADDRESS,
+      reason: 'Damaged item',
+    });
+
+    expect(refund.status).toBe('pending');
+    expect(refund.amount).toBe(40000000n);
+    expect(mockPaymentMonitor.monitor.mock.calls[0][0]).toBe(REFUND_ADDRESS);
+    expect(mockSendWebhook).toHaveBeenCalledWith(
+      expect.objectContaining({ id: session.id }),
+      'refund.created',
+      expect.objectContaining({ id: refund.id, status: 'pending', amount: '40000000' })
+    );
+  });
+
+  it('should complete the refund when a new matching transaction arrives', async () => {
+    const session = createConfirmedSession();
+    // The customer's address already holds an older UTXO
+    mockPaymentMonitor.getUtxos.mockResolvedValueOnce([utxo('tx-old', 50000000n, 1000n)]);
+
+    const refund = await getRefundService().createRefund(session, {
+      amount: 40000000n,
+      address: REFUND_ADDRESS,
+    });
+
+    const callback = monitorCallbacks.get(REFUND_ADDRESS)!;
+
+    // Pre-existing UTXO is ignored even though the amount matches
+    await callback.onPaymentDetected(REFUND_ADDRESS, 'tx-old', 50000000n, [utxo('tx-old', 50000000n, 1000n)]);
+    expect(getRefundService().getRefund(refund.id)?.status).toBe('pending');
+
+    // Smaller unrelated transfer is ignored
+    await callback.onPaymentDetected(REFUND_ADDRESS, 'tx-small', 1000n, [utxo('tx-small', 1000n, 1500n)]);
+    expect(getRefundService().getRefund(refund.id)?.status).toBe('pending');
+
+    await callback.onPaymentDetected(REFUND_ADDRESS, 'tx-refund', 40000000n, [utxo('tx-refund', 40000000n, 2000n)]);
+
+    const completed = getRefundService().getRefund(refund.id);
+    expect(completed?.status).toBe('completed');
+    expect(completed?.txId).toBe('tx-refund');
+    expect(completed?.completedAt).toBeInstanceOf(Date);
+    expect(mockPaymentMonitor.unmonitor).toHaveBeenCalledWith(REFUND_ADDRESS);
+    expect(mockSendWebhook).toHaveBeenCalledWith(
+      expect.objectContaining({ id: session.id }),
+      'refund.completed',
+      expect.objectContaining({ id: refund.id, status: 'completed', txId: 'tx-refund' })
+    );
+  });
+
+  it('should reduce the refundable amount by recorded refunds', async () => {
+    const session = createConfirmedSession();
+    const service = getRefundService();
+
+    expect(service.getRefundableAmount(session)).toBe(100000000n);
+
+    await service.createRefund(session, { amount: 30000000n, address: REFUND_ADDRESS });
+
+    expect(service.getRefundableAmount(session)).toBe(70000000n);
+    expect(service.getRefundsForSession(session.id)).toHaveLength(1);
+  });
+
+  it('should resume watching pending refunds on initialize', async () => {
+    const session = createConfirmedSession();
+    await getRefundService().createRefund(session, { amount: 30000000n, address: REFUND_ADDRESS });
+
+    monitorCallbacks.clear();
+    vi.clearAllMocks();
+    resetRefundService();
+
+    await getRefundService().initialize();
+
+    expect(mockPaymentMonitor.monitor).toHaveBeenCalledTimes(1);
+    expect(mockPaymentMonitor.scanAddress).toHaveBeenCalledWith(REFUND_ADDRESS);
+  });
+});
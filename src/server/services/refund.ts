@@ -0,0 +1,283 @@
+/**
+ * Refund Service - Refund Recording and Tracking
+ *
+ * KasGate is non-custodial and cannot send funds, so refunds are sent by the
+ * merchant from their own wallet. This service records each refund against a
+ * paid session and watches the customer's destination address until a
+ * matching incoming transaction appears, then marks the refund completed.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { query, queryOne, execute, toSqliteDate } from '../db/index.js';
+import { getPaymentMonitor } from './payment-monitor.js';
+import { getSessionManager } from './session.js';
+import { getWebhookService } from './webhook.js';
+import type { PaymentSession, Utxo } from '../../kaspa/types.js';
+import type { WebhookRefund } from '../../shared/validation.js';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type RefundStatus = 'pending' | 'completed';
+
+export interface Refund {
+  id: string;
+  sessionId: string;
+  merchantId: string;
+  amount: bigint;
+  address: string;
+  reason?: string;
+  status: RefundStatus;
+  txId?: string;
+  createdAt: Date;
+  completedAt?: Date;
+}
+
+export interface CreateRefundInput {
+  amount: bigint;
+  address: string;
+  reason?: string;
+}
+
+interface RefundRow {
+  id: string;
+  session_id: string;
+  merchant_id: string;
+  amount: string;
+  address: string;
+  reason: string | null;
+  status: string;
+  baseline_daa_score: string;
+  tx_id: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+// ============================================================
+// REFUND SERVICE CLASS
+// ============================================================
+
+export class RefundService {
+  /**
+   * Record a refund against a paid session and start watching for it
+   *
+   * Callers must check the session is paid and the amount is within
+   * getRefundableAmount() first.
+   */
+  async createRefund(session: PaymentSession, input: CreateRefundInput): Promise<Refund> {
+    // Existing UTXOs at the destination must not be mistaken for the refund
+    const baselineDaaScore = await this.getBaselineDaaScore(input.address);
+
+    const id = uuidv4();
+    const now = new Date();
+
+    execute(
+      `INSERT INTO refunds (
+        id, session_id, merchant_id, amount, address, reason, status, baseline_daa_score, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id,
+        session.id,
+        session.merchantId,
+        input.amount.toString(),
+        input.address,
+        input.reason || null,
+        'pending',
+        baselineDaaScore.toString(),
+        toSqliteDate(now),
+      ]
+    );
+
+    console.log(`[KasGate] Recorded refund ${id} for session ${session.id}: ${input.amount} sompi`);
+
+    const refund = this.getRefund(id)!;
+
+    const webhookService = getWebhookService();
+    await webhookService.sendWebhook(session, 'refund.created', this.toWebhookRefund(refund));
+
+    await this.watch(refund);
+
+    return refund;
+  }
+
+  /**
+   * Get a refund by ID
+   */
+  getRefund(refundId: string): Refund | null {
+    const row = queryOne<RefundRow>(
+      'SELECT * FROM refunds WHERE id = ?',
+      [refundId]
+    );
+
+    return row ? this.rowToRefund(row) : null;
+  }
+
+  /**
+   * Get all refunds for a session
+   */
+  getRefundsForSession(sessionId: string): Refund[] {
+    const rows = query<RefundRow>(
+      'SELECT * FROM refunds WHERE session_id = ? ORDER BY created_at ASC',
+      [sessionId]
+    );
+
+    return rows.map((row) => this.rowToRefund(row));
+  }
+
+  /**
+   * Amount (sompi) that can still be refunded for a session
+   */
+  getRefundableAmount(session: PaymentSession): bigint {
+    const paid = session.amountReceived > 0n ? session.amountReceived : session.amount;
+    const refunded = this.getRefundsForSession(session.id)
+      .reduce((sum, r) => sum + r.amount, 0n);
+
+    const remaining = paid - refunded;
+    return remaining > 0n ? remaining : 0n;
+  }
+
+  /**
+   * Initialize the service (resume watching pending refunds after a restart)
+   */
+  async initialize(): Promise<void> {
+    const rows = query<RefundRow>(
+      'SELECT * FROM refunds WHERE status = ? ORDER BY created_at ASC',
+      ['pending']
+    );
+    const paymentMonitor = getPaymentMonitor();
+
+    for (const row of rows) {
+      const refund = this.rowToRefund(row);
+      try {
+        await this.watch(refund);
+        await paymentMonitor.scanAddress(refund.address);
+      } catch (error) {
+        console.error(`[KasGate] Failed to resume refund watch for ${refund.id}:`, error);
+      }
+    }
+
+    console.log(`[KasGate] Refund service initialized with ${rows.length} pending refunds`);
+  }
+
+  // ============================================================
+  // PRIVATE METHODS
+  // ============================================================
+
+  /**
+   * Watch the refund destination address for the outgoing refund transaction
+   */
+  private async watch(refund: Refund): Promise<void> {
+    const paymentMonitor = getPaymentMonitor();
+
+    if (paymentMonitor.isMonitoring(refund.address)) {
+      console.warn(`[KasGate] Refund address for ${refund.id} is already monitored, skipping watch`);
+      return;
+    }
+
+    await paymentMonitor.monitor(refund.address, refund.amount, {
+      onPaymentDetected: (address, _txId, _amount, utxos) =>
+        this.handleTransactionDetected(refund.id, address, utxos),
+      onError: (error) => {
+        console.error(`[KasGate] Refund monitor error for ${refund.id}:`, error);
+      },
+    });
+  }
+
+  private async handleTransactionDetected(refundId: string, address: string, utxos: Utxo[]): Promise<void> {
+    const paymentMonitor = getPaymentMonitor();
+    const row = queryOne<RefundRow>(
+      'SELECT * FROM refunds WHERE id = ?',
+      [refundId]
+    );
+
+    if (!row || row.status !== 'pending') {
+      await paymentMonitor.unmonitor(address);
+      return;
+    }
+
+    const baseline = BigInt(row.baseline_daa_score);
+    const match = utxos.find(
+      (u) => u.blockDaaScore > baseline && u.amount >= BigInt(row.amount)
+    );
+
+    if (!match) return;
+
+    const result = execute(
+      `UPDATE refunds
+       SET status = 'completed', tx_id = ?, completed_at = datetime('now')
+       WHERE id = ? AND status = 'pending'`,
+      [match.transactionId, refundId]
+    );
+
+    await paymentMonitor.unmonitor(address);
+
+    if (result.changes === 0) return;
+
+    console.log(`[KasGate] Refund ${refundId} completed (tx: ${match.transactionId.slice(0, 12)}...)`);
+
+    const refund = this.getRefund(refundId);
+    const session = getSessionManager().getSession(row.session_id);
+    if (refund && session) {
+      const webhookService = getWebhookService();
+      await webhookService.sendWebhook(session, 'refund.completed', this.toWebhookRefund(refund));
+    }
+  }
+
+  /**
+   * Highest DAA score among UTXOs already at the address (0 if none)
+   */
+  private async getBaselineDaaScore(address: string): Promise<bigint> {
+    const utxos = await getPaymentMonitor().getUtxos(address);
+    return utxos.reduce((max, u) => (u.blockDaaScore > max ? u.blockDaaScore : max), 0n);
+  }
+
+  private toWebhookRefund(refund: Refund): WebhookRefund {
+    return {
+      id: refund.id,
+      amount: refund.amount.toString(),
+      address: refund.address,
+      reason: refund.reason,
+      status: refund.status,
+      txId: refund.txId,
+    };
+  }
+
+  private rowToRefund(row: RefundRow): Refund {
+    return {
+      id: row.id,
+      sessionId: row.session_id,
+      merchantId: row.merchant_id,
+      amount: BigInt(row.amount),
+      address: row.address,
+      reason: row.reason || undefined,
+      status: row.status as RefundStatus,
+      txId: row.tx_id || undefined,
+      createdAt: new Date(row.created_at),
+      completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
+    };
+  }
+}
+
+// ============================================================
+// SINGLETON INSTANCE
+// ============================================================
+
+let refundService: RefundService | null = null;
+
+/**
+ * Get the singleton refund service instance
+ */
+export function getRefundService(): RefundService {
+  if (!refundService) {
+    refundService = new RefundService();
+  }
+  return refundService;
+}
+
+/**
+ * Reset the refund service (for testing)
+ */
+export function resetRefundService(): void {
+  refundService = null;
+}
@@ -0,0 +1,190 @@
+/**
+ * REST Poller Tests
+ * Tests for batched UTXO polling, adaptive intervals and per-host backoff
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RestPoller, pollIntervalFor } from './rest-poller.js';
+import {
+  REST_POLL_INTERVAL_MS,
+  REST_POLL_MAX_INTERVAL_MS,
+  REST_UTXO_BATCH_SIZE,
+  SESSION_EXPIRY_MS,
+} from '../../shared/constants.js';
+
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+function address(n: number): string {
+  return `kaspa:qr${n.toString().padStart(6, '0')}restpollertest`;
+}
+
+function utxoEntry(addr: string, txId: string) {
+  return {
+    address: addr,
+    outpoint: { transactionId: txId, index: 0 },
+    utxoEntry: {
+      amount: '100000000',
+      scriptPublicKey: { scriptPublicKey: 'script' },
+      blockDaaScore: '1000',
+      isCoinbase: false,
+    },
+  };
+}
+
+function jsonResponse(body: unknown) {
+  return { ok: true, status: 200, json: async () => body };
+}
+
+function errorResponse(status: number, statusText: string, retryAfter?: string) {
+  return {
+    ok: false,
+    status,
+    statusText,
+    headers: new Headers(retryAfter ? { 'Retry-After': retryAfter } : {}),
+  };
+}
+
+function requestedAddresses(call: number): string[] {
+  return JSON.parse(mockFetch.mock.calls[call][1].body).addresses;
+}
+
+describe('RestPoller', () => {
+  let poller: RestPoller;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mockFetch.mockReset();
+    mockFetch.mockResolvedValue(jsonResponse([]));
+    poller = new RestPoller();
+  });
+
+  afterEach(() => {
+    poller.stop();
+    vi.useRealTimers();
+  });
+
+  it('should poll watched addresses in batches', async () => {
+    const onUtxoChange = vi.fn();
+    const count = REST_UTXO_BATCH_SIZE * 2 + 50;
+    mockFetch.mockImplementation(async (_url: string, init: RequestInit) => {
+      const addresses: string[] = JSON.parse(init.body as string).addresses;
+      return jsonResponse(addresses.includes(address(7)) ? [utxoEntry(address(7), 'a'.repeat(64))] : []);
+    });
+
+    for (let i = 0; i < count; i++) {
+      poller.watch(address(i), { onUtxoChange });
+    }
+    // watch() polls immediately for the first address; the rest are due next tick
+    await vi.advanceTimersByTimeAsync(REST_POLL_INTERVAL_MS);
+
+    const batchSizes = mockFetch.mock.calls.slice(1).map((_, i) => requestedAddresses(i + 1).length);
+    expect(batchSizes).toEqual([REST_UTXO_BATCH_SIZE, REST_UTXO_BATCH_SIZE, 50]);
+    expect(mockFetch.mock.calls[1][0]).toMatch(/\/addresses\/utxos$/);
+    expect(mockFetch.mock.calls[1][1].method).toBe('POST');
+
+    expect(onUtxoChange).toHaveBeenCalledTimes(1);
+    expect(onUtxoChange).toHaveBeenCalledWith(
+      address(7),
+      [expect.objectContaining({ transactionId: 'a'.repeat(64), amount: 100000000n })],
+      []
+    );
+  });
+
+  it('should poll fresh addresses faster than ones near expiry', async () => {
+    expect(pollIntervalFor(0)).toBe(REST_POLL_INTERVAL_MS);
+    expect(pollIntervalFor(SESSION_EXPIRY_MS)).toBe(REST_POLL_MAX_INTERVAL_MS);
+    expect(pollIntervalFor(SESSION_EXPIRY_MS / 2)).toBe((REST_POLL_INTERVAL_MS + REST_POLL_MAX_INTERVAL_MS) / 2);
+
+    poller.watch(address(1), { onUtxoChange: vi.fn() });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    // Still fresh: due again on the next tick
+    await vi.advanceTimersByTimeAsync(REST_POLL_INTERVAL_MS);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+
+    // Near expiry, ticks pass without a poll
+    await vi.advanceTimersByTimeAsync(SESSION_EXPIRY_MS);
+    const callsNearExpiry = mockFetch.mock.calls.length;
+    await vi.advanceTimersByTimeAsync(REST_POLL_INTERVAL_MS * 3);
+    expect(mockFetch.mock.calls.length - callsNearExpiry).toBeLessThanOrEqual(1);
+  });
+
+  it('should back off a rate-limited host for as long as it asks', async () => {
+    const onError = vi.fn();
+    mockFetch.mockResolvedValueOnce(errorResponse(429, 'Too Many Requests', '30'));
+
+    poller.watch(address(1), { onUtxoChange: vi.fn(), onError });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ name: 'RestApiError', status: 429 }));
+    expect(Object.keys(poller.getMetrics().backoff)).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(29000);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(REST_POLL_INTERVAL_MS);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(poller.getMetrics().backoff).toEqual({});
+  });
+
+  it('should back off exponentially on server errors', async () => {
+    mockFetch.mockResolvedValue(errorResponse(503, 'Service Unavailable'));
+
+    poller.watch(address(1), { onUtxoChange: vi.fn(), onError: vi.fn() });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    // First failure: 2s; second: 4s
+    await vi.advanceTimersByTimeAsync(REST_POLL_INTERVAL_MS);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(REST_POLL_INTERVAL_MS);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(REST_POLL_INTERVAL_MS);
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not back off on client errors', async () => {
+    mockFetch.mockResolvedValueOnce(errorResponse(400, 'Bad Request'));
+
+    poller.watch(address(1), { onUtxoChange: vi.fn(), onError: vi.fn() });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(poller.getMetrics().backoff).toEqual({});
+  });
+
+  it('should report request counts and latency', async () => {
+    expect(poller.getMetrics()).toMatchObject({ requests: 0, errors: 0, lastLatencyMs: null });
+
+    mockFetch
+      .mockImplementationOnce(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 300));
+        return jsonResponse([]);
+      })
+      .mockResolvedValueOnce(errorResponse(400, 'Bad Request'));
+
+    poller.watch(address(1), { onUtxoChange: vi.fn(), onError: vi.fn() });
+    // The slow poll pushes the next one past the first tick
+    await vi.advanceTimersByTimeAsync(REST_POLL_INTERVAL_MS * 2);
+
+    expect(poller.getMetrics()).toMatchObject({
+      requests: 2,
+      errors: 1,
+      lastLatencyMs: 300,
+      averageLatencyMs: 300,
+      p95LatencyMs: 300,
+    });
+  });
+
+  it('should not report changes for an address unwatched during a poll', async () => {
+    const onUtxoChange = vi.fn();
+    mockFetch.mockResolvedValue(jsonResponse([utxoEntry(address(1), 'b'.repeat(64))]));
+
+    poller.watch(address(1), { onUtxoChange });
+    poller.unwatch(address(1));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(onUtxoChange).not.toHaveBeenCalled();
+  });
+});
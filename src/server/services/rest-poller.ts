@@ -2,11 +2,22 @@
  * REST Poller - Fallback UTXO monitoring via REST API
  *
  * Used when WebSocket RPC is unavailable or unreliable.
- * Polls the Kaspa REST API for UTXO changes.
+ * Polls the Kaspa REST API for UTXO changes, many addresses per request via
+ * the batch UTXO endpoint. Addresses are polled fastest right after they are
+ * watched, when the customer is most likely paying, and slow down as the
+ * session nears expiry. Requests go to the best-scoring endpoint of the REST
+ * endpoint pool; a host that answers 429 or 5xx is backed off.
  */
 
-import { NETWORK_CONFIG, getUtxoApiUrl, getBalanceApiUrl } from '../../config/network.js';
-import { REST_POLL_INTERVAL_MS } from '../../shared/constants.js';
+import { getRestEndpointPool, EndpointPool } from '../../kaspa/endpoint-pool.js';
+import {
+  REST_POLL_INTERVAL_MS,
+  REST_POLL_MAX_INTERVAL_MS,
+  REST_UTXO_BATCH_SIZE,
+  REST_BACKOFF_BASE_MS,
+  REST_BACKOFF_MAX_MS,
+  SESSION_EXPIRY_MS,
+} from '../../shared/constants.js';
 import type { Utxo, RestUtxoEntry } from '../../kaspa/types.js';
 
 // ============================================================
@@ -22,6 +33,88 @@ interface WatchedAddress {
   address: string;
   lastUtxos: Utxo[];
   callback: PollerCallback;
+  watchedAt: number;
+  nextPollAt: number;
+}
+
+interface HostBackoff {
+  failures: number;
+  until: number;
+}
+
+export interface RestPollerMetrics {
+  requests: number;
+  errors: number;
+  lastLatencyMs: number | null;
+  averageLatencyMs: number | null;
+  p95LatencyMs: number | null;
+  /** Hosts currently backed off, with when polling resumes */
+  backoff: Record<string, string>;
+}
+
+/**
+ * Error response from the REST API
+ */
+export class RestApiError extends Error {
+  constructor(
+    public status: number,
+    statusText: string,
+    public retryAfterMs?: number
+  ) {
+    super(`REST API error: ${status} ${statusText}`);
+    this.name = 'RestApiError';
+  }
+
+  /** Rate limited or server trouble: worth backing off */
+  get isRetryable(): boolean {
+    return this.status === 429 || this.status >= 500;
+  }
+}
+
+/**
+ * Poll latencies kept for the metrics
+ */
+const LATENCY_SAMPLES = 100;
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * Poll interval for an address watched for the given time: ramps from
+ * REST_POLL_INTERVAL_MS to REST_POLL_MAX_INTERVAL_MS over a session's lifetime
+ */
+export function pollIntervalFor(watchedForMs: number): number {
+  const progress = Math.min(1, Math.max(0, watchedForMs / SESSION_EXPIRY_MS));
+  return Math.round(REST_POLL_INTERVAL_MS + (REST_POLL_MAX_INTERVAL_MS - REST_POLL_INTERVAL_MS) * progress);
+}
+
+function toUtxo(entry: RestUtxoEntry): Utxo {
+  return {
+    transactionId: entry.outpoint.transactionId,
+    index: entry.outpoint.index,
+    amount: BigInt(entry.utxoEntry.amount),
+    scriptPublicKey: entry.utxoEntry.scriptPublicKey.scriptPublicKey,
+    blockDaaScore: BigInt(entry.utxoEntry.blockDaaScore),
+    isCoinbase: entry.utxoEntry.isCoinbase,
+  };
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+async function toRestApiError(response: Response): Promise<RestApiError> {
+  const retryAfter = parseInt(response.headers?.get('Retry-After') ?? '', 10);
+  return new RestApiError(
+    response.status,
+    response.statusText,
+    retryAfter > 0 ? retryAfter * 1000 : undefined
+  );
 }
 
 // ============================================================
@@ -32,6 +125,12 @@ export class RestPoller {
   private watchedAddresses: Map<string, WatchedAddress> = new Map();
   private pollInterval: NodeJS.Timeout | null = null;
   private _isPolling = false;
+  private backoffs: Map<string, HostBackoff> = new Map();
+  private requests = 0;
+  private errors = 0;
+  private latencies: number[] = [];
+
+  constructor(private pool: EndpointPool = getRestEndpointPool()) {}
 
   /**
    * Start watching an address for UTXO changes
@@ -42,10 +141,13 @@ export class RestPoller {
       return;
     }
 
+    const now = Date.now();
     this.watchedAddresses.set(address, {
       address,
       lastUtxos: [],
       callback,
+      watchedAt: now,
+      nextPollAt: now,
     });
 
     console.log(`[KasGate] REST poller watching ${address.slice(0, 20)}...`);
@@ -88,6 +190,80 @@ export class RestPoller {
     return this.pollInterval !== null;
   }
 
+  /**
+   * Request counts, poll latency and backed-off hosts (for health checks)
+   */
+  getMetrics(): RestPollerMetrics {
+    const sorted = [...this.latencies].sort((a, b) => a - b);
+    const now = Date.now();
+    const backoff: Record<string, string> = {};
+    for (const [host, state] of this.backoffs) {
+      if (state.until > now) backoff[host] = new Date(state.until).toISOString();
+    }
+
+    return {
+      requests: this.requests,
+      errors: this.errors,
+      lastLatencyMs: this.latencies.at(-1) ?? null,
+      averageLatencyMs: sorted.length > 0
+        ? Math.round(sorted.reduce((sum, ms) => sum + ms, 0) / sorted.length)
+        : null,
+      p95LatencyMs: sorted.length > 0 ? sorted[Math.ceil(sorted.length * 0.95) - 1] : null,
+      backoff,
+    };
+  }
+
+  /**
+   * Fetch the current UTXOs for an address
+   */
+  async fetchUtxos(address: string): Promise<Utxo[]> {
+    const response = await this.pool.fetch(`/addresses/${address}/utxos`, {
+      headers: {
+        'Accept': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      throw await toRestApiError(response);
+    }
+
+    const data: RestUtxoEntry[] = await response.json();
+
+    return data.map(toUtxo);
+  }
+
+  /**
+   * Fetch the current UTXOs of many addresses in one request
+   *
+   * Every requested address is in the result, with no UTXOs if it has none.
+   * Goes to the given endpoint, or the pool's best with failover.
+   */
+  async fetchUtxosBatch(addresses: string[], endpoint?: string): Promise<Map<string, Utxo[]>> {
+    const init: RequestInit = {
+      method: 'POST',
+      headers: {
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ addresses }),
+    };
+    const response = endpoint
+      ? await fetch(`${endpoint}/addresses/utxos`, init)
+      : await this.pool.fetch('/addresses/utxos', init);
+
+    if (!response.ok) {
+      throw await toRestApiError(response);
+    }
+
+    const data: RestUtxoEntry[] = await response.json();
+
+    const utxosByAddress = new Map<string, Utxo[]>(addresses.map((address) => [address, []]));
+    for (const entry of data) {
+      utxosByAddress.get(entry.address)?.push(toUtxo(entry));
+    }
+    return utxosByAddress;
+  }
+
   /**
    * Stop all polling
    */
@@ -103,7 +279,7 @@ export class RestPoller {
   private startPolling(): void {
     if (this.pollInterval) return;
 
-    console.log(`[KasGate] Starting REST poller (interval: ${REST_POLL_INTERVAL_MS}ms)`);
+    console.log(`[KasGate] Starting REST poller (interval: ${REST_POLL_INTERVAL_MS}-${REST_POLL_MAX_INTERVAL_MS}ms)`);
 
     this.pollInterval = setInterval(() => {
       this.pollAll();
@@ -121,25 +297,67 @@ export class RestPoller {
     }
   }
 
+  /**
+   * Poll every address that is due, in batches
+   */
   private async pollAll(): Promise<void> {
     if (this._isPolling || this.watchedAddresses.size === 0) return;
 
     this._isPolling = true;
 
     try {
-      const promises = Array.from(this.watchedAddresses.values()).map(
-        (watched) => this.pollAddress(watched)
-      );
+      const now = Date.now();
+      const due = Array.from(this.watchedAddresses.values()).filter((watched) => watched.nextPollAt <= now);
+
+      for (let i = 0; i < due.length; i += REST_UTXO_BATCH_SIZE) {
+        // Leave the rest for the next tick once every host pushes back
+        const endpoint = this.nextEndpoint();
+        if (!endpoint) break;
 
-      await Promise.allSettled(promises);
+        await this.pollBatch(due.slice(i, i + REST_UTXO_BATCH_SIZE), endpoint);
+      }
     } finally {
       this._isPolling = false;
     }
   }
 
-  private async pollAddress(watched: WatchedAddress): Promise<void> {
+  private async pollBatch(batch: WatchedAddress[], endpoint: string): Promise<void> {
+    const host = hostOf(endpoint);
+    const startedAt = Date.now();
+    this.requests++;
+
+    let utxosByAddress: Map<string, Utxo[]>;
     try {
-      const utxos = await this.fetchUtxos(watched.address);
+      utxosByAddress = await this.fetchUtxosBatch(batch.map((watched) => watched.address), endpoint);
+      const latencyMs = Date.now() - startedAt;
+      this.recordLatency(latencyMs);
+      this.pool.recordSuccess(endpoint, latencyMs);
+      this.backoffs.delete(host);
+    } catch (error) {
+      this.errors++;
+      // A 4xx is about our request, not the endpoint
+      if (!(error instanceof RestApiError) || error.isRetryable) {
+        this.pool.recordFailure(endpoint);
+      }
+      if (error instanceof RestApiError && error.isRetryable) {
+        this.backOff(host, error.retryAfterMs);
+      }
+
+      console.error(`[KasGate] REST batch poll error for ${batch.length} addresses:`, error);
+      for (const watched of batch) {
+        watched.callback.onError?.(error as Error);
+      }
+      return;
+    }
+
+    const now = Date.now();
+    for (const watched of batch) {
+      // Unwatched while the request was in flight
+      if (this.watchedAddresses.get(watched.address) !== watched) continue;
+
+      watched.nextPollAt = now + pollIntervalFor(now - watched.watchedAt);
+
+      const utxos = utxosByAddress.get(watched.address) ?? [];
 
       // Check for changes
       if (this.hasUtxoChanges(watched.lastUtxos, utxos)) {
@@ -148,35 +366,41 @@ export class RestPoller {
 
         watched.callback.onUtxoChange(watched.address, utxos, previousUtxos);
       }
-    } catch (error) {
-      console.error(`[KasGate] REST poll error for ${watched.address.slice(0, 20)}:`, error);
-      watched.callback.onError?.(error as Error);
     }
   }
 
-  private async fetchUtxos(address: string): Promise<Utxo[]> {
-    const url = getUtxoApiUrl(address);
+  /**
+   * Best endpoint of the pool whose host is not backing off
+   */
+  private nextEndpoint(): string | null {
+    return this.pool.getEndpoints().find((url) => !this.isBackingOff(hostOf(url))) ?? null;
+  }
 
-    const response = await fetch(url, {
-      headers: {
-        'Accept': 'application/json',
-      },
-    });
+  private isBackingOff(host: string): boolean {
+    const backoff = this.backoffs.get(host);
+    return !!backoff && backoff.until > Date.now();
+  }
 
-    if (!response.ok) {
-      throw new Error(`REST API error: ${response.status} ${response.statusText}`);
-    }
+  /**
+   * Pause polling a host: for as long as it asked (Retry-After), otherwise
+   * exponentially longer per consecutive failure
+   */
+  private backOff(host: string, retryAfterMs?: number): void {
+    const failures = (this.backoffs.get(host)?.failures ?? 0) + 1;
+    const delay = Math.min(
+      retryAfterMs ?? REST_BACKOFF_BASE_MS * Math.pow(2, failures - 1),
+      REST_BACKOFF_MAX_MS
+    );
 
-    const data: RestUtxoEntry[] = await response.json();
+    this.backoffs.set(host, { failures, until: Date.now() + delay });
+    console.warn(`[KasGate] REST API ${host} backing off for ${delay}ms (failure ${failures})`);
+  }
 
-    return data.map((entry) => ({
-      transactionId: entry.outpoint.transactionId,
-      index: entry.outpoint.index,
-      amount: BigInt(entry.utxoEntry.amount),
-      scriptPublicKey: entry.utxoEntry.scriptPublicKey.scriptPublicKey,
-      blockDaaScore: BigInt(entry.utxoEntry.blockDaaScore),
-      isCoinbase: entry.utxoEntry.isCoinbase,
-    }));
+  private recordLatency(ms: number): void {
+    this.latencies.push(ms);
+    if (this.latencies.length > LATENCY_SAMPLES) {
+      this.latencies.shift();
+    }
   }
 
   private hasUtxoChanges(previous: Utxo[], current: Utxo[]): boolean {
@@ -205,9 +429,7 @@ export class RestPoller {
  * Fetch balance for an address via REST API
  */
 export async function fetchBalance(address: string): Promise<bigint> {
-  const url = getBalanceApiUrl(address);
-
-  const response = await fetch(url, {
+  const response = await getRestEndpointPool().fetch(`/addresses/${address}/balance`, {
     headers: {
       'Accept': 'application/json',
     },
@@ -0,0 +1,97 @@
+/**
+ * Session Event Service Tests
+ * Tests for the status history written by session transitions
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { getSessionEventService, resetSessionEventService, confirmationMilestones } from './session-events.js';
+import { getSessionManager, resetSessionManager } from './session.js';
+import { initDatabase, closeDatabase, execute } from '../db/index.js';
+
+vi.mock('./address.js', () => ({
+  getAddressService: () => ({
+    getNextAddress: vi.fn().mockResolvedValue({
+      address: 'kaspatest:qr0test1234567890abcdefghijklmnopqrstuvwxyz12345678',
+      index: 0,
+    }),
+  }),
+}));
+
+const TEST_MERCHANT_ID = '550e8400-e29b-41d4-a716-446655440000';
+
+describe('SessionEventService', () => {
+  beforeEach(() => {
+    initDatabase(':memory:');
+    resetSessionManager();
+    resetSessionEventService();
+    execute(
+      `INSERT INTO merchants (id, name, xpub, api_key_hash, created_at, updated_at)
+       VALUES (?, ?, ?, ?, datetime('now'), datetime('now'))`,
+      [TEST_MERCHANT_ID, 'Test Merchant', 'kpub123', 'abcd1234']
+    );
+  });
+
+  afterEach(() => {
+    closeDatabase();
+  });
+
+  it('should record the full lifecycle of a paid session in order', async () => {
+    const manager = getSessionManager();
+    const session = await manager.createSession({
+      merchantId: TEST_MERCHANT_ID,
+      amount: BigInt(100000000),
+      requiredConfirmations: 10,
+    });
+
+    manager.markPaymentReceived(session.id, 'tx123');
+    manager.updateConfirmations(session.id, 1);
+    manager.updateConfirmations(session.id, 2);
+    manager.updateConfirmations(session.id, 6);
+    manager.markConfirmed(session.id, 10);
+
+    const events = getSessionEventService().getEvents(session.id);
+
+    expect(events.map((e) => e.type)).toEqual([
+      'created',
+      'payment_received',
+      'confirmation',
+      'confirmation',
+      'confirmed',
+    ]);
+    expect(events[1]).toMatchObject({ fromStatus: 'pending', toStatus: 'confirming', txId: 'tx123', actor: 'system' });
+    expect(events.filter((e) => e.type === 'confirmation').map((e) => e.confirmations)).toEqual([1, 6]);
+    expect(events[4]).toMatchObject({ fromStatus: 'confirming', toStatus: 'confirmed', confirmations: 10 });
+  });
+
+  it('should record why a session expired or who cancelled it', async () => {
+    const manager = getSessionManager();
+    const expired = await manager.createSession({ merchantId: TEST_MERCHANT_ID, amount: BigInt(100000000) });
+    const cancelled = await manager.createSession({ merchantId: TEST_MERCHANT_ID, amount: BigInt(100000000) });
+
+    execute(`UPDATE sessions SET status = 'underpaid', expires_at = ? WHERE id = ?`, [
+      new Date(Date.now() - 60000).toISOString(),
+      expired.id,
+    ]);
+    manager.expireOldSessions();
+    manager.markCancelled(cancelled.id, 'Changed my mind', 'customer');
+
+    const service = getSessionEventService();
+    expect(service.getEvents(expired.id).at(-1)).toMatchObject({
+      type: 'expired',
+      fromStatus: 'underpaid',
+      toStatus: 'expired',
+      reason: 'Only part of the payment arrived before expiry',
+    });
+    expect(service.getEvents(cancelled.id).at(-1)).toMatchObject({
+      type: 'cancelled',
+      actor: 'customer',
+      reason: 'Changed my mind',
+    });
+  });
+
+  it('should pick the first confirmation and each quarter as milestones', () => {
+    expect(confirmationMilestones(10)).toEqual([1, 3, 5, 8]);
+    expect(confirmationMilestones(2)).toEqual([1]);
+    expect(confirmationMilestones(1)).toEqual([]);
+  });
+});
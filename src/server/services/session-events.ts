@@ -0,0 +1,189 @@
+/**
+ * Session Event Service - Session Status History
+ *
+ * Records every status transition of a payment session, plus confirmation
+ * milestones, so support can see when a session moved and why.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { query, execute, toJson, fromJson, toSqliteDate } from '../db/index.js';
+import type { PaymentStatus } from '../../kaspa/types.js';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type SessionEventType =
+  | 'created'
+  | 'payment_received'
+  | 'underpaid'
+  | 'confirmation'
+  | 'confirmed'
+  | 'expired'
+  | 'cancelled'
+  | 'failed'
+  | 'late_payment'
+  | 'late_payment_refund';
+
+/**
+ * Who caused the event: KasGate itself, the merchant's API key or the
+ * customer's widget
+ */
+export type SessionEventActor = 'system' | 'merchant' | 'customer';
+
+export interface SessionEvent {
+  id: string;
+  sessionId: string;
+  type: SessionEventType;
+  fromStatus?: PaymentStatus;
+  toStatus?: PaymentStatus;
+  actor: SessionEventActor;
+  reason?: string;
+  txId?: string;
+  confirmations?: number;
+  data?: Record<string, string | number>;
+  createdAt: Date;
+}
+
+export interface RecordSessionEventInput {
+  sessionId: string;
+  type: SessionEventType;
+  fromStatus?: PaymentStatus;
+  toStatus?: PaymentStatus;
+  actor?: SessionEventActor;
+  reason?: string;
+  txId?: string;
+  confirmations?: number;
+  data?: Record<string, string | number>;
+}
+
+interface SessionEventRow {
+  id: string;
+  session_id: string;
+  type: string;
+  from_status: string | null;
+  to_status: string | null;
+  actor: string;
+  reason: string | null;
+  tx_id: string | null;
+  confirmations: number | null;
+  data: string | null;
+  created_at: string;
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * Confirmation counts worth recording on the way to the target:
+ * the first confirmation and each quarter of the way there
+ */
+export function confirmationMilestones(required: number): number[] {
+  const milestones = new Set([1, Math.ceil(required / 4), Math.ceil(required / 2), Math.ceil((required * 3) / 4)]);
+  return [...milestones].filter((m) => m >= 1 && m < required).sort((a, b) => a - b);
+}
+
+// ============================================================
+// SESSION EVENT SERVICE CLASS
+// ============================================================
+
+export class SessionEventService {
+  /**
+   * Append an event to a session's history
+   */
+  record(input: RecordSessionEventInput): SessionEvent {
+    const id = uuidv4();
+    const now = new Date();
+
+    execute(
+      `INSERT INTO session_events (
+        id, session_id, type, from_status, to_status, actor, reason, tx_id, confirmations, data, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id,
+        input.sessionId,
+        input.type,
+        input.fromStatus ?? null,
+        input.toStatus ?? null,
+        input.actor ?? 'system',
+        input.reason ?? null,
+        input.txId ?? null,
+        input.confirmations ?? null,
+        input.data ? toJson(input.data) : null,
+        toSqliteDate(now),
+      ]
+    );
+
+    return {
+      id,
+      sessionId: input.sessionId,
+      type: input.type,
+      fromStatus: input.fromStatus,
+      toStatus: input.toStatus,
+      actor: input.actor ?? 'system',
+      reason: input.reason,
+      txId: input.txId,
+      confirmations: input.confirmations,
+      data: input.data,
+      createdAt: now,
+    };
+  }
+
+  /**
+   * Get a session's history, oldest first
+   */
+  getEvents(sessionId: string): SessionEvent[] {
+    const rows = query<SessionEventRow>(
+      `SELECT * FROM session_events
+       WHERE session_id = ?
+       ORDER BY datetime(created_at) ASC, rowid ASC`,
+      [sessionId]
+    );
+
+    return rows.map((row) => this.rowToEvent(row));
+  }
+
+  // ============================================================
+  // PRIVATE METHODS
+  // ============================================================
+
+  private rowToEvent(row: SessionEventRow): SessionEvent {
+    return {
+      id: row.id,
+      sessionId: row.session_id,
+      type: row.type as SessionEventType,
+      fromStatus: (row.from_status as PaymentStatus) || undefined,
+      toStatus: (row.to_status as PaymentStatus) || undefined,
+      actor: row.actor as SessionEventActor,
+      reason: row.reason || undefined,
+      txId: row.tx_id || undefined,
+      confirmations: row.confirmations ?? undefined,
+      data: fromJson<Record<string, string | number>>(row.data) || undefined,
+      createdAt: new Date(row.created_at),
+    };
+  }
+}
+
+// ============================================================
+// SINGLETON INSTANCE
+// ============================================================
+
+let sessionEventService: SessionEventService | null = null;
+
+/**
+ * Get the singleton session event service instance
+ */
+export function getSessionEventService(): SessionEventService {
+  if (!sessionEventService) {
+    sessionEventService = new SessionEventService();
+  }
+  return sessionEventService;
+}
+
+/**
+ * Reset the session event service (for testing)
+ */
+export function resetSessionEventService(): void {
+  sessionEventService = null;
+}
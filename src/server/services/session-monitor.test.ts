@@ -0,0 +1,435 @@
+/**
+ * Session Monitor Tests
+ * Tests for resuming pending sessions after a restart, amount handling, expiry, late payments
+ * and payments that disappear while confirming
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import crypto from 'crypto';
+import { getSessionMonitor, resetSessionMonitor } from './session-monitor.js';
+import { getSessionManager, resetSessionManager } from './session.js';
+import { initDatabase, closeDatabase, execute } from '../db/index.js';
+import type { PaymentCallback } from './payment-monitor.js';
+import type { ChainTransaction } from './chain-backend.js';
+import type { Utxo } from '../../kaspa/types.js';
+
+// Mock the payment monitor so no RPC/REST connections are made
+const monitorCallbacks = new Map<string, PaymentCallback>();
+const mockPaymentMonitor = {
+  monitor: vi.fn(async (address: string, _amount: bigint, callback: PaymentCallback) => {
+    monitorCallbacks.set(address, callback);
+  }),
+  unmonitor: vi.fn(async (address: string) => {
+    monitorCallbacks.delete(address);
+  }),
+  scanAddress: vi.fn(async () => {}),
+  getUtxos: vi.fn(async (): Promise<Utxo[]> => []),
+  getTransaction: vi.fn(),
+};
+
+vi.mock('./payment-monitor.js', () => ({
+  getPaymentMonitor: () => mockPaymentMonitor,
+}));
+
+const mockTrack = vi.fn();
+const mockUntrack = vi.fn();
+vi.mock('./confirmation.js', () => ({
+  getConfirmationTracker: () => ({ track: mockTrack, untrack: mockUntrack }),
+}));
+
+
+const mockSendWebhook = vi.fn();
+vi.mock('./webhook.js', () => ({
+  getWebhookService: () => ({ sendWebhook: mockSendWebhook }),
+}));
+
+const mockBroadcast = vi.fn();
+vi.mock('../websocket/index.js', () => ({
+  getWebSocketManager: () => ({ broadcastToSession: mockBroadcast }),
+}));
+
+const TEST_MERCHANT_ID = '550e8400-e29b-41d4-a716-446655440000';
+
+function createTestMerchant() {
+  execute(
+    `INSERT INTO merchants (id, name, xpub, api_key_hash, created_at, updated_at)
+     VALUES (?, ?, ?, ?, datetime('now'), datetime('now'))`,
+    [
+      TEST_MERCHANT_ID,
+      'Test Merchant',
+      'kpub1234567890abcdefghijklmnopqrstuvwxyz1234567890abcdefghijklmnopqrstuvwxyz1234567890abcdefghijkl',
+      'abcd1234',
+    ]
+  );
+}
+
+function createTestSession(options: { status?: string; expiresIn?: string } = {}) {
+  const id = crypto.randomUUID();
+  const expiresAt = new Date(Date.now() + parseOffsetMinutes(options.expiresIn || '+15 minutes') * 60000);
+  execute(
+    `INSERT INTO sessions (id, merchant_id, address, address_index, amount, status, created_at, expires_at)
+     VALUES (?, ?, ?, ?, ?, ?, datetime('now'), ?)`,
+    [
+      id,
+      TEST_MERCHANT_ID,
+      'kaspatest:qr0test' + id.slice(0, 8),
+      0,
+      '100000000',
+      options.status || 'pending',
+      // Stored like real sessions (ISO 8601), not in SQLite's datetime format
+      expiresAt.toISOString(),
+    ]
+  );
+  return id;
+}
+
+function parseOffsetMinutes(offset: string): number {
+  return parseInt(offset.replace(' minutes', '').replace(' minute', ''), 10);
+}
+
+function utxo(transactionId: string, amount: bigint): Utxo {
+  return {
+    transactionId,
+    index: 0,
+    amount,
+    scriptPublicKey: '',
+    blockDaaScore: 1000n,
+    isCoinbase: false,
+  };
+}
+
+describe('SessionMonitor', () => {
+  beforeEach(() => {
+    initDatabase(':memory:');
+    resetSessionManager();
+    resetSessionMonitor();
+    monitorCallbacks.clear();
+    vi.clearAllMocks();
+    createTestMerchant();
+  });
+
+  afterEach(() => {
+    closeDatabase();
+  });
+
+  describe('initialize', () => {
+    it('should resume monitoring of pending, unexpired sessions', async () => {
+      const pendingId = createTestSession();
+      createTestSession({ expiresIn: '-1 minute' });
+      createTestSession({ status: 'confirmed' });
+
+      await getSessionMonitor().initialize();
+
+      const pending = getSessionManager().getSession(pendingId)!;
+      expect(mockPaymentMonitor.monitor).toHaveBeenCalledTimes(1);
+      expect(mockPaymentMonitor.monitor.mock.calls[0][0]).toBe(pending.address);
+      expect(mockPaymentMonitor.scanAddress).toHaveBeenCalledWith(pending.address);
+    });
+
+    it('should credit a payment detected by the catch-up scan', async () => {
+      const sessionId = createTestSession();
+      const address = getSessionManager().getSession(sessionId)!.address;
+
+      await getSessionMonitor().initialize();
+
+      // Simulate the catch-up scan finding the payment
+      const callback = monitorCallbacks.get(address)!;
+      await callback.onPaymentDetected(address, 'tx-while-offline', 100000000n, [utxo('tx-while-offline', 100000000n)]);
+
+      const session = getSessionManager().getSession(sessionId);
+      expect(session?.status).toBe('confirming');
+      expect(session?.txId).toBe('tx-while-offline');
+      expect(mockTrack).toHaveBeenCalledWith(sessionId, 'tx-while-offline');
+      expect(mockSendWebhook).toHaveBeenCalledWith(expect.objectContaining({ id: sessionId }), 'payment.confirming');
+      // Still watched for reorgs until confirmed
+      expect(mockPaymentMonitor.unmonitor).not.toHaveBeenCalled();
+    });
+
+    it('should keep an underpaid session monitored until topped up', async () => {
+      const sessionId = createTestSession();
+      const address = getSessionManager().getSession(sessionId)!.address;
+
+      await getSessionMonitor().initialize();
+
+      const callback = monitorCallbacks.get(address)!;
+      await callback.onPaymentDetected(address, 'tx-partial', 60000000n, [utxo('tx-partial', 60000000n)]);
+
+      expect(getSessionManager().getSession(sessionId)?.status).toBe('underpaid');
+      expect(mockSendWebhook).toHaveBeenCalledWith(expect.objectContaining({ id: sessionId }), 'payment.underpaid');
+      expect(mockBroadcast).toHaveBeenCalledWith(sessionId, expect.objectContaining({
+        status: 'underpaid',
+        amountReceived: '60000000',
+        amountRemaining: '40000000',
+      }));
+      expect(mockPaymentMonitor.unmonitor).not.toHaveBeenCalled();
+
+      await callback.onPaymentDetected(address, 'tx-topup', 40000000n, [utxo('tx-topup', 40000000n)]);
+
+      const session = getSessionManager().getSession(sessionId);
+      expect(session?.status).toBe('confirming');
+      expect(session?.amountReceived).toBe(100000000n);
+      expect(mockTrack).toHaveBeenCalledWith(sessionId, 'tx-topup');
+    });
+
+    it('should not credit an output reported twice', async () => {
+      const sessionId = createTestSession();
+      const address = getSessionManager().getSession(sessionId)!.address;
+
+      await getSessionMonitor().initialize();
+
+      const callback = monitorCallbacks.get(address)!;
+      await callback.onPaymentDetected(address, 'tx-partial', 60000000n, [utxo('tx-partial', 60000000n)]);
+      // e.g. a restart's catch-up scan reporting the same output again
+      await callback.onPaymentDetected(address, 'tx-partial', 60000000n, [utxo('tx-partial', 60000000n)]);
+
+      const session = getSessionManager().getSession(sessionId);
+      expect(session?.status).toBe('underpaid');
+      expect(session?.amountReceived).toBe(60000000n);
+      expect(mockSendWebhook).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not credit outputs again after a restart', async () => {
+      const sessionId = createTestSession();
+      const address = getSessionManager().getSession(sessionId)!.address;
+
+      await getSessionMonitor().initialize();
+      await monitorCallbacks.get(address)!.onPaymentDetected(address, 'tx-partial', 60000000n, [utxo('tx-partial', 60000000n)]);
+
+      // Restart: in-memory state is gone and the catch-up scan reports the output again
+      resetSessionManager();
+      resetSessionMonitor();
+      monitorCallbacks.clear();
+      await getSessionMonitor().initialize();
+      await monitorCallbacks.get(address)!.onPaymentDetected(address, 'tx-partial', 60000000n, [utxo('tx-partial', 60000000n)]);
+
+      const session = getSessionManager().getSession(sessionId);
+      expect(session?.status).toBe('underpaid');
+      expect(session?.amountReceived).toBe(60000000n);
+      expect(mockSendWebhook).toHaveBeenCalledTimes(1);
+    });
+
+    it('should notify the merchant of an overpayment', async () => {
+      const sessionId = createTestSession();
+      const address = getSessionManager().getSession(sessionId)!.address;
+
+      await getSessionMonitor().initialize();
+
+      const callback = monitorCallbacks.get(address)!;
+      await callback.onPaymentDetected(address, 'tx-over', 120000000n, [utxo('tx-over', 120000000n)]);
+
+      expect(getSessionManager().getSession(sessionId)?.status).toBe('confirming');
+      expect(mockSendWebhook).toHaveBeenCalledWith(expect.objectContaining({ id: sessionId }), 'payment.overpaid');
+    });
+
+    it('should keep resuming other sessions when one fails', async () => {
+      createTestSession();
+      createTestSession();
+      mockPaymentMonitor.scanAddress.mockRejectedValueOnce(new Error('REST API error'));
+
+      await getSessionMonitor().initialize();
+
+      expect(mockPaymentMonitor.monitor).toHaveBeenCalledTimes(2);
+      expect(mockPaymentMonitor.scanAddress).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('expireOverdueSessions', () => {
+    it('should emit the expiry webhook and status update but keep watching for late payments', async () => {
+      const expiredId = createTestSession({ expiresIn: '-1 minute' });
+      const underpaidId = createTestSession({ status: 'underpaid', expiresIn: '-5 minutes' });
+      const activeId = createTestSession();
+
+      const count = await getSessionMonitor().expireOverdueSessions();
+
+      expect(count).toBe(2);
+      const manager = getSessionManager();
+      expect(manager.getSession(expiredId)?.status).toBe('expired');
+      expect(manager.getSession(underpaidId)?.status).toBe('expired');
+      expect(manager.getSession(activeId)?.status).toBe('pending');
+
+      for (const id of [expiredId, underpaidId]) {
+        const session = manager.getSession(id)!;
+        expect(mockSendWebhook).toHaveBeenCalledWith(
+          expect.objectContaining({ id, status: 'expired' }),
+          'payment.expired'
+        );
+        expect(mockBroadcast).toHaveBeenCalledWith(id, { type: 'status', sessionId: id, status: 'expired' });
+        expect(mockPaymentMonitor.unmonitor).not.toHaveBeenCalledWith(session.address);
+      }
+    });
+
+    it('should work through more sessions than one batch', async () => {
+      for (let i = 0; i < 105; i++) {
+        createTestSession({ expiresIn: '-1 minute' });
+      }
+
+      const count = await getSessionMonitor().expireOverdueSessions();
+
+      expect(count).toBe(105);
+      expect(mockSendWebhook).toHaveBeenCalledTimes(105);
+      expect(await getSessionMonitor().expireOverdueSessions()).toBe(0);
+    });
+
+    it('should keep going when one notification fails', async () => {
+      createTestSession({ expiresIn: '-1 minute' });
+      createTestSession({ expiresIn: '-2 minutes' });
+      mockSendWebhook.mockRejectedValueOnce(new Error('Webhook error'));
+
+      expect(await getSessionMonitor().expireOverdueSessions()).toBe(2);
+      expect(mockSendWebhook).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('late payments', () => {
+    it('should flag a payment to an expired session and notify the merchant', async () => {
+      const sessionId = createTestSession({ status: 'expired', expiresIn: '-5 minutes' });
+      const address = getSessionManager().getSession(sessionId)!.address;
+
+      await getSessionMonitor().initialize();
+
+      const callback = monitorCallbacks.get(address)!;
+      await callback.onPaymentDetected(address, 'tx-late', 100000000n, [utxo('tx-late', 100000000n)]);
+
+      const session = getSessionManager().getSession(sessionId);
+      expect(session?.status).toBe('expired');
+      expect(session?.latePaymentStatus).toBe('pending');
+      expect(session?.amountReceived).toBe(100000000n);
+      expect(mockSendWebhook).toHaveBeenCalledWith(expect.objectContaining({ id: sessionId }), 'payment.late');
+      expect(mockTrack).not.toHaveBeenCalled();
+    });
+
+    it('should complete the session when the merchant accepts the late payment', async () => {
+      const sessionId = createTestSession({ status: 'expired', expiresIn: '-5 minutes' });
+      const address = getSessionManager().getSession(sessionId)!.address;
+
+      await getSessionMonitor().initialize();
+      await monitorCallbacks.get(address)!.onPaymentDetected(address, 'tx-late', 100000000n, [utxo('tx-late', 100000000n)]);
+
+      const late = getSessionManager().getSession(sessionId)!;
+      expect(await getSessionMonitor().acceptLatePayment(late)).toBe(true);
+
+      const session = getSessionManager().getSession(sessionId);
+      expect(session?.status).toBe('confirming');
+      expect(session?.latePaymentStatus).toBe('accepted');
+      expect(session?.txId).toBe('tx-late');
+      expect(mockTrack).toHaveBeenCalledWith(sessionId, 'tx-late');
+      expect(mockSendWebhook).toHaveBeenCalledWith(expect.objectContaining({ id: sessionId }), 'payment.confirming');
+      expect(mockPaymentMonitor.unmonitor).not.toHaveBeenCalled();
+
+      // Already decided
+      expect(await getSessionMonitor().acceptLatePayment(session!)).toBe(false);
+    });
+
+    it('should flag a payment to a cancelled session and let the merchant accept it', async () => {
+      const sessionId = createTestSession();
+      const sessionManager = getSessionManager();
+      const monitor = getSessionMonitor();
+      const address = sessionManager.getSession(sessionId)!.address;
+
+      await monitor.watch(sessionManager.getSession(sessionId)!);
+      sessionManager.markCancelled(sessionId, 'Customer changed their mind', 'customer');
+      monitor.handleCancelled(sessionManager.getSession(sessionId)!);
+
+      await monitorCallbacks.get(address)!.onPaymentDetected(address, 'tx-late', 100000000n, [utxo('tx-late', 100000000n)]);
+
+      const late = sessionManager.getSession(sessionId)!;
+      expect(late.status).toBe('cancelled');
+      expect(late.latePaymentStatus).toBe('pending');
+      expect(mockSendWebhook).toHaveBeenCalledWith(expect.objectContaining({ id: sessionId }), 'payment.late');
+      expect(mockPaymentMonitor.unmonitor).not.toHaveBeenCalled();
+
+      // Resumed after a restart like an expired session's watch
+      expect(sessionManager.getLatePaymentWatchSessions().map((s) => s.id)).toContain(sessionId);
+
+      expect(await monitor.acceptLatePayment(late)).toBe(true);
+      expect(sessionManager.getSession(sessionId)?.status).toBe('confirming');
+    });
+
+    it('should stop watching once the grace period has passed', async () => {
+      const overdueId = createTestSession({ expiresIn: '-61 minutes' });
+      createTestSession({ status: 'expired', expiresIn: '-61 minutes' });
+
+      await getSessionMonitor().initialize();
+      expect(mockPaymentMonitor.monitor).not.toHaveBeenCalled();
+
+      const monitor = getSessionMonitor();
+      await monitor.expireOverdueSessions();
+      await monitor.expireOverdueSessions();
+
+      const address = getSessionManager().getSession(overdueId)!.address;
+      expect(mockPaymentMonitor.unmonitor).toHaveBeenCalledWith(address);
+    });
+  });
+
+  describe('removed outputs', () => {
+    async function payAndRemove(transaction: ChainTransaction | null, stillPresent: Utxo[] = []) {
+      const sessionId = createTestSession();
+      const address = getSessionManager().getSession(sessionId)!.address;
+
+      await getSessionMonitor().initialize();
+      const callback = monitorCallbacks.get(address)!;
+      const payment = utxo('tx-paid', 100000000n);
+      await callback.onPaymentDetected(address, 'tx-paid', 100000000n, [payment]);
+
+      mockPaymentMonitor.getUtxos.mockResolvedValueOnce(stillPresent);
+      mockPaymentMonitor.getTransaction.mockResolvedValue(transaction);
+      await callback.onUtxosRemoved!(address, [payment]);
+
+      return { sessionId, address };
+    }
+
+    it('should resume watching confirming sessions after a restart', async () => {
+      const sessionId = createTestSession({ status: 'confirming' });
+
+      await getSessionMonitor().initialize();
+
+      expect(mockPaymentMonitor.monitor.mock.calls[0][0]).toBe(getSessionManager().getSession(sessionId)!.address);
+      expect(mockPaymentMonitor.scanAddress).not.toHaveBeenCalled();
+    });
+
+    it('should credit further outputs to a confirming session past its expiry', async () => {
+      // e.g. an accepted late payment, or a payment confirming slowly
+      const sessionId = createTestSession({ status: 'confirming', expiresIn: '-5 minutes' });
+      const address = getSessionManager().getSession(sessionId)!.address;
+
+      await getSessionMonitor().initialize();
+      await monitorCallbacks.get(address)!.onPaymentDetected(address, 'tx-extra', 5000000n, [utxo('tx-extra', 5000000n)]);
+
+      const session = getSessionManager().getSession(sessionId);
+      expect(session?.status).toBe('confirming');
+      expect(session?.amountReceived).toBe(5000000n);
+      expect(mockSendWebhook).not.toHaveBeenCalled();
+    });
+
+    it('should fail a double-spent payment and notify the merchant and widget', async () => {
+      const { sessionId, address } = await payAndRemove({ transactionId: 'tx-paid', isAccepted: false });
+
+      const session = getSessionManager().getSession(sessionId);
+      expect(session?.status).toBe('failed');
+      expect(session?.failureReason).toBe('double_spent');
+      expect(session?.amountReceived).toBe(0n);
+      expect(mockUntrack).toHaveBeenCalledWith(sessionId);
+      expect(mockPaymentMonitor.unmonitor).toHaveBeenCalledWith(address);
+      expect(mockSendWebhook).toHaveBeenCalledWith(expect.objectContaining({ id: sessionId }), 'payment.failed');
+      expect(mockBroadcast).toHaveBeenCalledWith(sessionId, expect.objectContaining({
+        status: 'failed',
+        reason: 'double_spent',
+      }));
+    });
+
+    it('should fail a payment the network no longer knows as reorged', async () => {
+      const { sessionId } = await payAndRemove(null);
+
+      expect(getSessionManager().getSession(sessionId)?.failureReason).toBe('reorged');
+    });
+
+    it('should keep confirming when the output is back or was spent by the merchant', async () => {
+      const back = await payAndRemove(null, [utxo('tx-paid', 100000000n)]);
+      const spent = await payAndRemove({ transactionId: 'tx-paid', isAccepted: true, acceptingDaaScore: 1000n });
+
+      expect(getSessionManager().getSession(back.sessionId)?.status).toBe('confirming');
+      expect(getSessionManager().getSession(spent.sessionId)?.status).toBe('confirming');
+      expect(mockUntrack).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,494 @@
+/**
+ * Session Monitor - Payment Detection for Sessions
+ *
+ * Connects payment sessions to the PaymentMonitor and drives the session
+ * lifecycle when a payment is detected, including partial payments that
+ * leave the session underpaid until topped up. Also restores monitoring of pending
+ * sessions after a server restart, and emits the events of sessions that expire.
+ * Expired addresses stay watched for a grace period so payments that arrive
+ * late are flagged for the merchant instead of being silently dropped, and
+ * paid addresses stay watched until confirmed so that a payment that is
+ * reorged out or double-spent fails instead of being confirmed.
+ */
+
+import { getPaymentMonitor } from './payment-monitor.js';
+import { getSessionManager, classifyPaymentAmount } from './session.js';
+import { getConfirmationTracker } from './confirmation.js';
+import { getWebhookService } from './webhook.js';
+import { getWebSocketManager } from '../websocket/index.js';
+import { SESSION_EXPIRY_BATCH_SIZE, LATE_PAYMENT_GRACE_MINUTES } from '../../shared/constants.js';
+import type { PaymentFailureReason, PaymentSession, Utxo } from '../../kaspa/types.js';
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+function outpointKey(utxo: Utxo): string {
+  return `${utxo.transactionId}:${utxo.index}`;
+}
+
+// ============================================================
+// SESSION MONITOR CLASS
+// ============================================================
+
+export class SessionMonitor {
+  private isExpiring = false;
+
+  /** Expired and cancelled session addresses still watched for late payments, with when the watch ends */
+  private lateWatches = new Map<string, number>();
+
+  /**
+   * Start monitoring a session's address for payments
+   */
+  async watch(session: PaymentSession): Promise<void> {
+    const paymentMonitor = getPaymentMonitor();
+
+    await paymentMonitor.monitor(session.address, session.amount, {
+      onPaymentDetected: (address, txId, _amount, utxos) =>
+        this.handlePaymentDetected(session.id, address, txId, utxos),
+      onUtxosRemoved: (address, utxos) =>
+        this.handleUtxosRemoved(session.id, address, utxos),
+      onError: (error) => {
+        console.error(`[KasGate] Payment monitor error for ${session.id}:`, error);
+      },
+    });
+  }
+
+  /**
+   * Initialize the monitor (resume pending sessions after a restart)
+   *
+   * Re-subscribes every pending, unexpired session and runs a catch-up
+   * UTXO scan so payments that arrived while the server was down are credited.
+   */
+  async initialize(): Promise<void> {
+    const sessionManager = getSessionManager();
+    const paymentMonitor = getPaymentMonitor();
+    const pendingSessions = sessionManager.getPendingSessions();
+    const lateWatchSessions = sessionManager.getLatePaymentWatchSessions();
+    const confirmingSessions = sessionManager.getConfirmingSessions();
+
+    for (const session of [...pendingSessions, ...lateWatchSessions]) {
+      try {
+        if (session.status === 'expired' || session.status === 'cancelled') {
+          this.startLateWatch(session);
+        }
+        await this.watch(session);
+        await paymentMonitor.scanAddress(session.address);
+      } catch (error) {
+        console.error(`[KasGate] Failed to resume monitoring for ${session.id}:`, error);
+      }
+    }
+
+    // Already paid: only watched for outputs disappearing
+    for (const session of confirmingSessions) {
+      try {
+        await this.watch(session);
+      } catch (error) {
+        console.error(`[KasGate] Failed to resume monitoring for ${session.id}:`, error);
+      }
+    }
+
+    console.log(
+      `[KasGate] Session monitor initialized with ${pendingSessions.length} pending sessions,` +
+        ` ${confirmingSessions.length} confirming and ${lateWatchSessions.length} watched for late payments`
+    );
+  }
+
+  /**
+   * Expire overdue sessions and emit their lifecycle events
+   *
+   * Each expired session stops being monitored, gets a payment.expired webhook
+   * and a WebSocket status update. Sessions are processed in batches, yielding
+   * to the event loop in between so a large backlog does not block requests.
+   *
+   * Also ends the late-payment watch of sessions past their grace period.
+   *
+   * @returns the number of sessions expired
+   */
+  async expireOverdueSessions(): Promise<number> {
+    // Skip if the previous run is still working through a backlog
+    if (this.isExpiring) return 0;
+    this.isExpiring = true;
+
+    const sessionManager = getSessionManager();
+    let total = 0;
+
+    try {
+      await this.endLateWatches();
+
+      for (;;) {
+        const expired = sessionManager.expireOldSessions(SESSION_EXPIRY_BATCH_SIZE);
+        if (expired.length === 0) break;
+
+        await Promise.all(expired.map((session) => this.handleExpired(session)));
+        total += expired.length;
+
+        if (expired.length < SESSION_EXPIRY_BATCH_SIZE) break;
+        await new Promise((resolve) => setImmediate(resolve));
+      }
+    } finally {
+      this.isExpiring = false;
+    }
+
+    return total;
+  }
+
+  /**
+   * Keep a just-cancelled session's address watched for late payments
+   *
+   * A customer can still send funds after a cancel (e.g. from a wallet that
+   * already had the payment request), so the merchant gets the same
+   * payment.late webhook and accept/refund decision as for an expired session.
+   */
+  handleCancelled(session: PaymentSession): void {
+    this.startLateWatch(session);
+  }
+
+  /**
+   * Accept a session's late payment and complete it like an on-time payment
+   *
+   * Ends the late-payment grace period (the address stays watched until
+   * confirmed), starts confirmation tracking and notifies the merchant and
+   * widget that the session is confirming.
+   * @returns false if the session had no pending late payment
+   */
+  async acceptLatePayment(session: PaymentSession): Promise<boolean> {
+    const sessionManager = getSessionManager();
+
+    if (!sessionManager.acceptLatePayment(session.id)) {
+      return false;
+    }
+
+    this.lateWatches.delete(session.address);
+
+    const accepted = sessionManager.getSession(session.id)!;
+    await getConfirmationTracker().track(accepted.id, accepted.txId!);
+    await getWebhookService().sendWebhook(accepted, 'payment.confirming');
+
+    getWebSocketManager().broadcastToSession(accepted.id, {
+      type: 'status',
+      sessionId: accepted.id,
+      status: 'confirming',
+      confirmations: 0,
+      required: accepted.requiredConfirmations,
+      amountReceived: accepted.amountReceived.toString(),
+    });
+
+    return true;
+  }
+
+  // ============================================================
+  // PRIVATE METHODS
+  // ============================================================
+
+  private async handlePaymentDetected(
+    sessionId: string,
+    address: string,
+    txId: string,
+    utxos: Utxo[]
+  ): Promise<void> {
+    const sessionManager = getSessionManager();
+    const paymentMonitor = getPaymentMonitor();
+
+    // Bug #12 fix: Check if session has expired before accepting payment
+    const currentSession = sessionManager.getSession(sessionId);
+    if (!currentSession) {
+      console.warn(`[KasGate] Session ${sessionId} no longer exists, ignoring payment`);
+      await paymentMonitor.unmonitor(address);
+      return;
+    }
+
+    if (currentSession.status === 'expired' || currentSession.status === 'cancelled') {
+      await this.handleLatePayment(currentSession, txId, utxos);
+      return;
+    }
+
+    // Checked before expiry: a paid session (e.g. an accepted late payment)
+    // may be past its expiry but can no longer expire
+    if (currentSession.status === 'confirming') {
+      // Still watched for reorgs; further outputs only add to the received total
+      sessionManager.recordPayments(sessionId, utxos);
+      return;
+    }
+
+    if (currentSession.status !== 'pending' && currentSession.status !== 'underpaid') {
+      console.warn(`[KasGate] Session ${sessionId} not awaiting payment (${currentSession.status}), ignoring payment`);
+      await paymentMonitor.unmonitor(address);
+      return;
+    }
+
+    if (currentSession.expiresAt < new Date()) {
+      console.warn(`[KasGate] Session ${sessionId} expired, flagging late payment`);
+      sessionManager.markExpired(sessionId, 'Payment arrived after the session expired');
+      const expired = sessionManager.getSession(sessionId)!;
+      await this.handleExpired(expired);
+      await this.handleLatePayment(expired, txId, utxos);
+      return;
+    }
+
+    // Record each output and compare the running total against the tolerance
+    const amountReceived = sessionManager.recordPayments(sessionId, utxos);
+    if (amountReceived === currentSession.amountReceived) {
+      console.log(`[KasGate] Payment for session ${sessionId} already recorded, ignoring`);
+      return;
+    }
+
+    const toleranceBps = sessionManager.getPaymentToleranceBps(currentSession.merchantId);
+    const amountClass = classifyPaymentAmount(currentSession.amount, amountReceived, toleranceBps);
+
+    if (amountClass === 'underpaid') {
+      await this.handleUnderpayment(currentSession, amountReceived);
+      return;
+    }
+
+    // Mark payment as received (Bug #12: atomic check for expiry)
+    const accepted = sessionManager.markPaymentReceived(sessionId, txId);
+
+    if (!accepted) {
+      // Payment rejected (session expired or invalid state)
+      console.warn(`[KasGate] Payment for session ${sessionId} rejected - session expired or invalid`);
+      await paymentMonitor.unmonitor(address);
+      return;
+    }
+
+    // Start confirmation tracking
+    const confirmationTracker = getConfirmationTracker();
+    await confirmationTracker.track(sessionId, txId);
+
+    // Send webhook
+    const updatedSession = sessionManager.getSession(sessionId);
+    if (updatedSession) {
+      const webhookService = getWebhookService();
+      await webhookService.sendWebhook(updatedSession, 'payment.confirming');
+
+      if (amountClass === 'overpaid') {
+        await webhookService.sendWebhook(updatedSession, 'payment.overpaid');
+      }
+
+      // Broadcast to WebSocket clients
+      const wsManager = getWebSocketManager();
+      wsManager.broadcastToSession(sessionId, {
+        type: 'status',
+        sessionId,
+        status: 'confirming',
+        confirmations: 0,
+        required: updatedSession.requiredConfirmations,
+        amountReceived: amountReceived.toString(),
+      });
+    }
+
+    // The address stays monitored until the payment is confirmed, so an
+    // output that is reorged out or double-spent is noticed
+  }
+
+  /**
+   * Re-verify credited outputs of a confirming session that left the UTXO set
+   *
+   * An output can disappear because the merchant's wallet spent it (fine),
+   * because a reorg briefly dropped it (it is back by the time we look), or
+   * because the transaction was reorged out or double-spent for good. Only
+   * the last case uncredits the output, and fails the session if what is
+   * left no longer covers the amount.
+   */
+  private async handleUtxosRemoved(sessionId: string, address: string, removed: Utxo[]): Promise<void> {
+    const sessionManager = getSessionManager();
+    const session = sessionManager.getSession(sessionId);
+    if (!session || session.status !== 'confirming') return;
+
+    try {
+      const current = new Set((await getPaymentMonitor().getUtxos(address)).map(outpointKey));
+      const missing = removed.filter((utxo) => !current.has(outpointKey(utxo)));
+      if (missing.length === 0) {
+        console.log(`[KasGate] Outputs for session ${sessionId} are back after a reorg`);
+        return;
+      }
+
+      const lost: Utxo[] = [];
+      let reason: PaymentFailureReason = 'reorged';
+
+      for (const utxo of missing) {
+        const verdict = await this.verifyTransaction(utxo.transactionId);
+        if (verdict === 'accepted') continue; // Spent by the merchant's wallet
+
+        lost.push(utxo);
+        if (verdict === 'double_spent') reason = 'double_spent';
+      }
+
+      if (lost.length === 0) return;
+
+      const amountReceived = sessionManager.removePayments(sessionId, lost);
+      const toleranceBps = sessionManager.getPaymentToleranceBps(session.merchantId);
+
+      if (classifyPaymentAmount(session.amount, amountReceived, toleranceBps) !== 'underpaid') {
+        console.warn(`[KasGate] Session ${sessionId} lost ${lost.length} output(s) (${reason}) but is still covered`);
+        return;
+      }
+
+      await this.failPayment(session, reason);
+    } catch (error) {
+      console.error(`[KasGate] Could not re-verify removed outputs for session ${sessionId}:`, error);
+    }
+  }
+
+  /**
+   * Check whether a transaction is still on chain
+   *
+   * A transaction the network knows but does not accept lost to a conflicting
+   * one; a transaction it does not know at all was reorged out.
+   */
+  private async verifyTransaction(txId: string): Promise<'accepted' | PaymentFailureReason> {
+    const tx = await getPaymentMonitor().getTransaction(txId);
+    if (!tx) return 'reorged';
+    return tx.isAccepted ? 'accepted' : 'double_spent';
+  }
+
+  /**
+   * Fail a confirming session whose payment is no longer on chain
+   */
+  private async failPayment(session: PaymentSession, reason: PaymentFailureReason): Promise<void> {
+    const sessionManager = getSessionManager();
+
+    sessionManager.markFailed(session.id, reason);
+    getConfirmationTracker().untrack(session.id);
+    await getPaymentMonitor().unmonitor(session.address);
+
+    getWebSocketManager().broadcastToSession(session.id, {
+      type: 'status',
+      sessionId: session.id,
+      status: 'failed',
+      reason,
+    });
+
+    const failed = sessionManager.getSession(session.id);
+    if (failed) {
+      await getWebhookService().sendWebhook(failed, 'payment.failed');
+    }
+  }
+
+  /**
+   * Clean up and notify for a session that just expired
+   */
+  private async handleExpired(session: PaymentSession): Promise<void> {
+    try {
+      // Keep watching the address in case the customer pays late
+      this.startLateWatch(session);
+
+      getWebSocketManager().broadcastToSession(session.id, {
+        type: 'status',
+        sessionId: session.id,
+        status: 'expired',
+      });
+
+      await getWebhookService().sendWebhook(session, 'payment.expired');
+    } catch (error) {
+      console.error(`[KasGate] Error handling expiry of session ${session.id}:`, error);
+    }
+  }
+
+  /**
+   * Record funds that arrived after expiry or cancellation and notify the merchant
+   *
+   * The session keeps its status; the merchant decides whether to accept the
+   * payment or refund it.
+   */
+  private async handleLatePayment(session: PaymentSession, txId: string, utxos: Utxo[]): Promise<void> {
+    const sessionManager = getSessionManager();
+
+    const amountReceived = sessionManager.recordPayments(session.id, utxos);
+    if (amountReceived === session.amountReceived) {
+      console.log(`[KasGate] Late payment for session ${session.id} already recorded, ignoring`);
+      return;
+    }
+
+    sessionManager.markLatePayment(session.id, txId, amountReceived);
+
+    const updatedSession = sessionManager.getSession(session.id);
+    if (updatedSession) {
+      await getWebhookService().sendWebhook(updatedSession, 'payment.late');
+    }
+  }
+
+  /**
+   * Keep an ended session's address watched until its grace period ends
+   *
+   * The grace period runs from the cancel for cancelled sessions and from
+   * the expiry otherwise.
+   */
+  private startLateWatch(session: PaymentSession): void {
+    const endedAt = session.status === 'cancelled' && session.cancelledAt ? session.cancelledAt : session.expiresAt;
+    this.lateWatches.set(session.address, endedAt.getTime() + LATE_PAYMENT_GRACE_MINUTES * 60 * 1000);
+  }
+
+  /**
+   * Stop watching ended sessions' addresses whose grace period has ended
+   */
+  private async endLateWatches(): Promise<void> {
+    const now = Date.now();
+    const paymentMonitor = getPaymentMonitor();
+
+    for (const [address, until] of this.lateWatches) {
+      if (until > now) continue;
+
+      this.lateWatches.delete(address);
+      try {
+        await paymentMonitor.unmonitor(address);
+      } catch (error) {
+        console.error(`[KasGate] Failed to end late-payment watch for ${address}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Handle a payment that leaves the session short of the tolerated amount
+   *
+   * The address stays monitored so the customer can top up the remainder.
+   */
+  private async handleUnderpayment(session: PaymentSession, amountReceived: bigint): Promise<void> {
+    const sessionManager = getSessionManager();
+    const amountRemaining = session.amount - amountReceived;
+
+    if (session.status === 'pending') {
+      sessionManager.markUnderpaid(session.id);
+    } else {
+      console.log(`[KasGate] Session ${session.id} still underpaid: ${amountReceived} of ${session.amount} sompi`);
+    }
+
+    const updatedSession = sessionManager.getSession(session.id);
+    if (updatedSession) {
+      const webhookService = getWebhookService();
+      await webhookService.sendWebhook(updatedSession, 'payment.underpaid');
+    }
+
+    const wsManager = getWebSocketManager();
+    wsManager.broadcastToSession(session.id, {
+      type: 'status',
+      sessionId: session.id,
+      status: 'underpaid',
+      amountReceived: amountReceived.toString(),
+      amountRemaining: amountRemaining.toString(),
+    });
+  }
+}
+
+// ============================================================
+// SINGLETON INSTANCE
+// ============================================================
+
+let sessionMonitor: SessionMonitor | null = null;
+
+/**
+ * Get the singleton session monitor instance
+ */
+export function getSessionMonitor(): SessionMonitor {
+  if (!sessionMonitor) {
+    sessionMonitor = new SessionMonitor();
+  }
+  return sessionMonitor;
+}
+
+/**
+ * Reset the session monitor (for testing)
+ */
+export function resetSessionMonitor(): void {
+  sessionMonitor = null;
+}
@@ -4,9 +4,9 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { getSessionManager, resetSessionManager } from './session.js';
-import { initDatabase, closeDatabase, execute, query } from '../db/index.js';
-import type { PaymentStatus } from '../../kaspa/types.js';
+import { getSessionManager, resetSessionManager, classifyPaymentAmount } from './session.js';
+import { initDatabase, closeDatabase, execute } from '../db/index.js';
+import type { Utxo } from '../../kaspa/types.js';
 
 // Mock the address service
 vi.mock('./address.js', () => ({
@@ -22,18 +22,28 @@ const TEST_MERCHANT_ID = '550e8400-e29b-41d4-a716-446655440000';
 
 function createTestMerchant() {
   execute(
-    `INSERT INTO merchants (id, name, xpub, api_key, api_key_hash, created_at, updated_at)
-     VALUES (?, ?, ?, ?, ?, datetime('now'), datetime('now'))`,
+    `INSERT INTO merchants (id, name, xpub, api_key_hash, created_at, updated_at)
+     VALUES (?, ?, ?, ?, datetime('now'), datetime('now'))`,
     [
       TEST_MERCHANT_ID,
       'Test Merchant',
       'kpub1234567890abcdefghijklmnopqrstuvwxyz1234567890abcdefghijklmnopqrstuvwxyz1234567890abcdefghijkl',
-      'kg_testkey123',
       'abcd1234',
     ]
   );
 }
 
+function utxo(transactionId: string, amount: bigint, index = 0): Utxo {
+  return {
+    transactionId,
+    index,
+    amount,
+    scriptPublicKey: '',
+    blockDaaScore: 1000n,
+    isCoinbase: false,
+  };
+}
+
 describe('SessionManager', () => {
   beforeEach(() => {
     // Use in-memory database for tests
@@ -78,6 +88,33 @@ describe('SessionManager', () => {
     });
   });
 
+  describe('Confirmation Thresholds', () => {
+    it('should default to the network confirmation count', async () => {
+      const session = await getSessionManager().createSession({
+        merchantId: TEST_MERCHANT_ID,
+        amount: BigInt(100000000),
+      });
+
+      expect(session.requiredConfirmations).toBe(10);
+      expect(getSessionManager().getSession(session.id)?.requiredConfirmations).toBe(10);
+    });
+
+    it('should use the merchant default unless the session overrides it', async () => {
+      execute('UPDATE merchants SET default_confirmations = 1 WHERE id = ?', [TEST_MERCHANT_ID]);
+      const manager = getSessionManager();
+
+      const coffee = await manager.createSession({ merchantId: TEST_MERCHANT_ID, amount: BigInt(100000000) });
+      const car = await manager.createSession({
+        merchantId: TEST_MERCHANT_ID,
+        amount: BigInt(100000000),
+        requiredConfirmations: 100,
+      });
+
+      expect(manager.getSession(coffee.id)?.requiredConfirmations).toBe(1);
+      expect(manager.getSession(car.id)?.requiredConfirmations).toBe(100);
+    });
+  });
+
   describe('State Machine Transitions', () => {
     it('should allow pending → confirming transition', async () => {
       const manager = getSessionManager();
@@ -145,6 +182,198 @@ describe('SessionManager', () => {
       const result = manager.markPaymentReceived(session.id, 'tx123');
       expect(result).toBe(false);
     });
+
+    it('should allow pending → cancelled transition with a reason', async () => {
+      const manager = getSessionManager();
+      const session = await manager.createSession({
+        merchantId: TEST_MERCHANT_ID,
+        amount: BigInt(100000000),
+      });
+
+      manager.markCancelled(session.id, 'Customer changed their mind');
+
+      const updated = manager.getSession(session.id);
+      expect(updated?.status).toBe('cancelled');
+      expect(updated?.cancellationReason).toBe('Customer changed their mind');
+      expect(updated?.cancelledAt).toBeInstanceOf(Date);
+      expect(manager.markPaymentReceived(session.id, 'tx123')).toBe(false);
+    });
+
+    it('should reject cancelling a session that is already confirming', async () => {
+      const manager = getSessionManager();
+      const session = await manager.createSession({
+        merchantId: TEST_MERCHANT_ID,
+        amount: BigInt(100000000),
+      });
+
+      manager.markPaymentReceived(session.id, 'tx123');
+
+      expect(() => manager.markCancelled(session.id)).toThrow(/Invalid session status transition/);
+    });
+
+    it('should count cancelled sessions apart from expired ones in analytics', async () => {
+      const manager = getSessionManager();
+      const expired = await manager.createSession({ merchantId: TEST_MERCHANT_ID, amount: BigInt(100000000) });
+      const cancelled = await manager.createSession({ merchantId: TEST_MERCHANT_ID, amount: BigInt(100000000) });
+      manager.markExpired(expired.id);
+      manager.markCancelled(cancelled.id);
+
+      const analytics = manager.getAnalyticsAggregated(
+        TEST_MERCHANT_ID,
+        new Date(Date.now() - 86400000),
+        new Date(Date.now() + 86400000)
+      );
+
+      expect(analytics.statusDistribution.expired).toBe(1);
+      expect(analytics.statusDistribution.cancelled).toBe(1);
+      expect(analytics.dailyBreakdown[0]).toMatchObject({ expired: 1, cancelled: 1 });
+    });
+  });
+
+  describe('Partial and Overpayments', () => {
+    it('should allow pending → underpaid → confirming transitions', async () => {
+      const manager = getSessionManager();
+      const session = await manager.createSession({
+        merchantId: TEST_MERCHANT_ID,
+        amount: BigInt(100000000),
+      });
+
+      expect(manager.recordPayments(session.id, [utxo('tx123', BigInt(40000000))])).toBe(BigInt(40000000));
+      manager.markUnderpaid(session.id);
+      expect(manager.getSession(session.id)?.status).toBe('underpaid');
+
+      expect(manager.recordPayments(session.id, [utxo('tx456', BigInt(60000000))])).toBe(BigInt(100000000));
+      expect(manager.markPaymentReceived(session.id, 'tx456')).toBe(true);
+
+      const updated = manager.getSession(session.id);
+      expect(updated?.status).toBe('confirming');
+      expect(updated?.amountReceived).toBe(BigInt(100000000));
+    });
+
+    it('should record every output and count each only once', async () => {
+      const manager = getSessionManager();
+      const session = await manager.createSession({
+        merchantId: TEST_MERCHANT_ID,
+        amount: BigInt(100000000),
+      });
+
+      // One transaction paying with two outputs, then a second transaction
+      manager.recordPayments(session.id, [utxo('tx-a', BigInt(30000000), 0), utxo('tx-a', BigInt(20000000), 1)]);
+      manager.recordPayments(session.id, [utxo('tx-b', BigInt(50000000))]);
+
+      // The catch-up scan after a restart reports everything again
+      const total = manager.recordPayments(session.id, [
+        utxo('tx-a', BigInt(30000000), 0),
+        utxo('tx-a', BigInt(20000000), 1),
+        utxo('tx-b', BigInt(50000000)),
+      ]);
+
+      expect(total).toBe(BigInt(100000000));
+      expect(manager.getSession(session.id)?.amountReceived).toBe(BigInt(100000000));
+      expect(manager.getPayments(session.id).map((p) => `${p.txId}:${p.outputIndex}`)).toEqual([
+        'tx-a:0',
+        'tx-a:1',
+        'tx-b:0',
+      ]);
+    });
+
+    it('should finish as overpaid when the excess exceeds the tolerance', async () => {
+      const manager = getSessionManager();
+      const session = await manager.createSession({
+        merchantId: TEST_MERCHANT_ID,
+        amount: BigInt(100000000),
+      });
+
+      manager.recordPayments(session.id, [utxo('tx123', BigInt(150000000))]);
+      manager.markPaymentReceived(session.id, 'tx123');
+      manager.markConfirmed(session.id, 10);
+
+      expect(manager.getSession(session.id)?.status).toBe('overpaid');
+    });
+
+    it('should finish as confirmed when the excess is within the tolerance', async () => {
+      execute('UPDATE merchants SET payment_tolerance_bps = ? WHERE id = ?', [100, TEST_MERCHANT_ID]);
+      const manager = getSessionManager();
+      const session = await manager.createSession({
+        merchantId: TEST_MERCHANT_ID,
+        amount: BigInt(100000000),
+      });
+
+      manager.recordPayments(session.id, [utxo('tx123', BigInt(100500000))]);
+      manager.markPaymentReceived(session.id, 'tx123');
+      manager.markConfirmed(session.id, 10);
+
+      expect(manager.getSession(session.id)?.status).toBe('confirmed');
+    });
+
+    it('should classify amounts against the tolerance', () => {
+      const expected = BigInt(100000000);
+
+      expect(classifyPaymentAmount(expected, expected, 0)).toBe('exact');
+      expect(classifyPaymentAmount(expected, BigInt(99999999), 0)).toBe('underpaid');
+      expect(classifyPaymentAmount(expected, BigInt(100000001), 0)).toBe('overpaid');
+      // 1% tolerance = 1000000 sompi either way
+      expect(classifyPaymentAmount(expected, BigInt(99000000), 100)).toBe('exact');
+      expect(classifyPaymentAmount(expected, BigInt(98999999), 100)).toBe('underpaid');
+      expect(classifyPaymentAmount(expected, BigInt(101000000), 100)).toBe('exact');
+      expect(classifyPaymentAmount(expected, BigInt(101000001), 100)).toBe('overpaid');
+    });
+  });
+
+  describe('Fiat-Priced Sessions', () => {
+    const quote = {
+      fiatAmount: '25.00',
+      currency: 'USD' as const,
+      exchangeRate: '0.125',
+      amount: 20000000000n,
+      expiresAt: new Date(Date.now() + 15 * 60 * 1000),
+    };
+
+    it('should store the locked quote on the session', async () => {
+      const manager = getSessionManager();
+      const created = await manager.createSession({
+        merchantId: TEST_MERCHANT_ID,
+        amount: quote.amount,
+        quote,
+      });
+
+      const session = manager.getSession(created.id);
+      expect(session?.amount).toBe(20000000000n);
+      expect(session?.fiatAmount).toBe('25.00');
+      expect(session?.fiatCurrency).toBe('USD');
+      expect(session?.exchangeRate).toBe('0.125');
+      expect(session?.quoteExpiresAt).toBeInstanceOf(Date);
+    });
+
+    it('should aggregate paid fiat volume per currency', async () => {
+      const manager = getSessionManager();
+
+      const paid = await manager.createSession({ merchantId: TEST_MERCHANT_ID, amount: quote.amount, quote });
+      const paid2 = await manager.createSession({
+        merchantId: TEST_MERCHANT_ID,
+        amount: 5000000000n,
+        quote: { ...quote, fiatAmount: '5.50', exchangeRate: '0.11', amount: 5000000000n },
+      });
+      await manager.createSession({ merchantId: TEST_MERCHANT_ID, amount: quote.amount, quote });
+      await manager.createSession({ merchantId: TEST_MERCHANT_ID, amount: 100000000n });
+
+      for (const s of [paid, paid2]) {
+        manager.markPaymentReceived(s.id, `tx-${s.id}`);
+        manager.markConfirmed(s.id, 10);
+      }
+
+      const now = new Date();
+      const analytics = manager.getAnalyticsAggregated(
+        TEST_MERCHANT_ID,
+        new Date(now.getTime() - 24 * 60 * 60 * 1000),
+        new Date(now.getTime() + 60 * 1000)
+      );
+
+      // 30.50 USD for 250 KAS
+      expect(analytics.fiatVolume).toEqual([
+        { currency: 'USD', sessions: 2, amount: '30.5', averageRate: '0.122' },
+      ]);
+    });
   });
 
   describe('Atomic Expiry Check (Bug #12)', () => {
@@ -185,6 +414,53 @@ describe('SessionManager', () => {
     });
   });
 
+  describe('Late Payments', () => {
+    it('should queue a late payment until the merchant marks it for refund', async () => {
+      const manager = getSessionManager();
+      const session = await manager.createSession({
+        merchantId: TEST_MERCHANT_ID,
+        amount: BigInt(100000000),
+      });
+
+      manager.markExpired(session.id);
+      manager.recordPayments(session.id, [utxo('tx-late', 100000000n)]);
+      manager.markLatePayment(session.id, 'tx-late', 100000000n);
+
+      const queued = manager.getSessionHistory(TEST_MERCHANT_ID, { latePayment: 'pending' });
+      expect(queued.sessions.map((s) => s.id)).toEqual([session.id]);
+
+      expect(manager.markLatePaymentForRefund(session.id)).toBe(true);
+      expect(manager.markLatePaymentForRefund(session.id)).toBe(false);
+      expect(manager.acceptLatePayment(session.id)).toBe(false);
+
+      const updated = manager.getSession(session.id);
+      expect(updated?.status).toBe('expired');
+      expect(updated?.latePaymentStatus).toBe('refund');
+      expect(manager.getSessionHistory(TEST_MERCHANT_ID, { latePayment: 'pending' }).total).toBe(0);
+    });
+
+    it('should move an expired session back to confirming only by accepting its late payment', async () => {
+      const manager = getSessionManager();
+      const session = await manager.createSession({
+        merchantId: TEST_MERCHANT_ID,
+        amount: BigInt(100000000),
+      });
+
+      manager.markExpired(session.id);
+      expect(manager.acceptLatePayment(session.id)).toBe(false);
+      expect(() => manager.markCancelled(session.id)).toThrow(/expired → cancelled/);
+
+      manager.recordPayments(session.id, [utxo('tx-late', 100000000n)]);
+      manager.markLatePayment(session.id, 'tx-late', 100000000n);
+      expect(manager.acceptLatePayment(session.id)).toBe(true);
+
+      const accepted = manager.getSession(session.id);
+      expect(accepted?.status).toBe('confirming');
+      expect(accepted?.latePaymentStatus).toBe('accepted');
+      expect(() => manager.markExpired(session.id)).toThrow(/confirming → expired/);
+    });
+  });
+
   describe('Subscription Token Verification (Bug #5)', () => {
     it('should verify correct subscription token', async () => {
       const manager = getSessionManager();
@@ -1,15 +1,33 @@
 /**
  * Session Manager - Payment Session Lifecycle Management
  *
- * Handles creation, tracking, and expiration of payment sessions.
+ * Handles creation, tracking, and expiration of payment sessions. Every
+ * transition is also written to the session's event history.
  */
 
 import { v4 as uuidv4 } from 'uuid';
 import crypto from 'crypto';
 import { query, queryOne, execute, transaction, toJson, fromJson, toSqliteDate } from '../db/index.js';
 import { getAddressService } from './address.js';
-import { SESSION_EXPIRY_MINUTES } from '../../shared/constants.js';
-import type { PaymentSession, PaymentStatus } from '../../kaspa/types.js';
+import { getMerchantSettingsService } from './merchant-settings.js';
+import { getSessionEventService, confirmationMilestones, type SessionEventActor } from './session-events.js';
+import { formatDecimal, parseDecimal, type PriceQuote } from './price.js';
+import {
+  SESSION_EXPIRY_MINUTES,
+  SESSION_EXPIRY_BATCH_SIZE,
+  LATE_PAYMENT_GRACE_MINUTES,
+  SOMPI_PER_KAS,
+  EXCHANGE_RATE_DECIMALS,
+} from '../../shared/constants.js';
+import { NETWORK_CONFIG } from '../../config/network.js';
+import type {
+  LatePaymentStatus,
+  PaymentFailureReason,
+  PaymentSession,
+  PaymentStatus,
+  SessionPayment,
+  Utxo,
+} from '../../kaspa/types.js';
 
 // ============================================================
 // TYPES
@@ -20,25 +38,77 @@ import type { PaymentSession, PaymentStatus } from '../../kaspa/types.js';
  *
  * Valid transitions:
  * - pending → confirming (payment detected)
+ * - pending → underpaid (partial payment detected)
  * - pending → expired (session timeout)
+ * - pending → cancelled (merchant or customer cancelled before paying)
+ * - underpaid → confirming (top-up brought the total within tolerance)
+ * - underpaid → expired (session timeout before top-up)
+ * - expired → confirming (late payment accepted by the merchant, see acceptLatePayment)
+ * - cancelled → confirming (same, for funds sent after the cancel)
  * - confirming → confirmed (enough confirmations reached)
+ * - confirming → overpaid (enough confirmations reached, excess received)
  * - confirming → failed (orphaned transaction, error)
- * - pending → failed (system error)
+ * - pending/underpaid → failed (system error)
  *
  * Invalid (skips required steps):
  * - pending → confirmed (must go through confirming first)
- * - expired → anything (terminal state)
- * - confirmed → anything (terminal state)
+ * - expired → anything else (terminal unless a late payment is accepted)
+ * - cancelled → anything else (terminal unless a late payment is accepted)
+ * - confirmed/overpaid → anything (terminal state)
  * - failed → anything (terminal state)
  */
 const VALID_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
-  pending: ['confirming', 'expired', 'failed'],
-  confirming: ['confirmed', 'failed'],
+  pending: ['confirming', 'underpaid', 'expired', 'cancelled', 'failed'],
+  underpaid: ['confirming', 'expired', 'failed'],
+  confirming: ['confirmed', 'overpaid', 'failed'],
   confirmed: [], // Terminal state
-  expired: [], // Terminal state
+  overpaid: [], // Terminal state
+  expired: ['confirming'], // Only by accepting a late payment
+  cancelled: ['confirming'], // Only by accepting a late payment
   failed: [], // Terminal state
 };
 
+/**
+ * Statuses that count as a completed payment (for stats and analytics)
+ */
+export const PAID_STATUSES: PaymentStatus[] = ['confirmed', 'overpaid'];
+
+/**
+ * Check whether a status counts as a completed payment
+ */
+export function isPaidStatus(status: PaymentStatus): boolean {
+  return PAID_STATUSES.includes(status);
+}
+
+/**
+ * Amount (sompi) still owed on a session, never negative
+ */
+export function getAmountRemaining(session: PaymentSession): bigint {
+  const remaining = session.amount - session.amountReceived;
+  return remaining > 0n ? remaining : 0n;
+}
+
+export type PaymentAmountClass = 'underpaid' | 'exact' | 'overpaid';
+
+/**
+ * Classify a received amount against the expected amount
+ *
+ * The tolerance (in basis points of the expected amount) applies in both
+ * directions: small shortfalls are accepted and small excesses are not
+ * reported as overpayments.
+ */
+export function classifyPaymentAmount(
+  expected: bigint,
+  received: bigint,
+  toleranceBps: number
+): PaymentAmountClass {
+  const tolerance = (expected * BigInt(toleranceBps)) / 10_000n;
+
+  if (received < expected - tolerance) return 'underpaid';
+  if (received > expected + tolerance) return 'overpaid';
+  return 'exact';
+}
+
 /**
  * Bug #30: Assert that a status transition is valid
  * @throws Error if the transition is invalid
@@ -62,23 +132,44 @@ function assertValidTransition(
   }
 }
 
+/**
+ * Why a session expired, for its event history
+ */
+function expiryReason(status: PaymentStatus): string {
+  return status === 'underpaid'
+    ? 'Only part of the payment arrived before expiry'
+    : 'No payment received before expiry';
+}
+
 interface SessionRow {
   id: string;
   merchant_id: string;
   address: string;
   address_index: number;
   amount: string;
+  amount_received: string | null;
   status: string;
   tx_id: string | null;
   confirmations: number;
+  accepted_daa_score: string | null;
+  required_confirmations: number | null;
   order_id: string | null;
   metadata: string | null;
   redirect_url: string | null;
+  fiat_amount: string | null;
+  fiat_currency: string | null;
+  exchange_rate: string | null;
+  quote_expires_at: string | null;
   subscription_token: string | null;
   created_at: string;
   expires_at: string;
   paid_at: string | null;
   confirmed_at: string | null;
+  cancelled_at: string | null;
+  cancellation_reason: string | null;
+  failure_reason: string | null;
+  late_payment_status: string | null;
+  late_payment_at: string | null;
 }
 
 export interface CreateSessionInput {
@@ -87,6 +178,19 @@ export interface CreateSessionInput {
   orderId?: string;
   metadata?: Record<string, string>;
   redirectUrl?: string;
+  /** Locked fiat quote, for sessions priced in fiat */
+  quote?: PriceQuote;
+  /** Confirmations to wait for (defaults to the merchant's setting; not overridden by its policy) */
+  requiredConfirmations?: number;
+}
+
+export interface FiatVolume {
+  currency: string;
+  sessions: number;
+  /** Total fiat amount of paid sessions (decimal string) */
+  amount: string;
+  /** Volume-weighted average quoted rate in fiat per KAS */
+  averageRate: string;
 }
 
 // ============================================================
@@ -107,12 +211,14 @@ export class SessionManager {
     const subscriptionToken = this.generateSubscriptionToken();
     const now = new Date();
     const expiresAt = new Date(now.getTime() + SESSION_EXPIRY_MINUTES * 60 * 1000);
+    const requiredConfirmations = input.requiredConfirmations ?? this.getDefaultConfirmations(input.merchantId);
 
     execute(
       `INSERT INTO sessions (
-        id, merchant_id, address, address_index, amount, status,
-        order_id, metadata, redirect_url, subscription_token, created_at, expires_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        id, merchant_id, address, address_index, amount, status, required_confirmations,
+        confirmations_pinned, order_id, metadata, redirect_url, fiat_amount, fiat_currency,
+        exchange_rate, quote_expires_at, subscription_token, created_at, expires_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         id,
         input.merchantId,
@@ -120,15 +226,29 @@ export class SessionManager {
         index,
         input.amount.toString(),
         'pending',
+        requiredConfirmations,
+        input.requiredConfirmations !== undefined ? 1 : 0,
         input.orderId || null,
         input.metadata ? toJson(input.metadata) : null,
         input.redirectUrl || null,
+        input.quote?.fiatAmount || null,
+        input.quote?.currency || null,
+        input.quote?.exchangeRate || null,
+        input.quote ? toSqliteDate(input.quote.expiresAt) : null,
         subscriptionToken,
         toSqliteDate(now),
         toSqliteDate(expiresAt),
       ]
     );
 
+    getSessionEventService().record({
+      sessionId: id,
+      type: 'created',
+      toStatus: 'pending',
+      actor: 'merchant',
+      data: { amount: input.amount.toString(), requiredConfirmations },
+    });
+
     console.log(`[KasGate] Created session ${id} for ${input.amount} sompi`);
 
     return {
@@ -136,10 +256,16 @@ export class SessionManager {
       merchantId: input.merchantId,
       address,
       amount: input.amount,
+      amountReceived: 0n,
       status: 'pending',
       confirmations: 0,
+      requiredConfirmations,
       orderId: input.orderId,
       metadata: input.metadata,
+      fiatAmount: input.quote?.fiatAmount,
+      fiatCurrency: input.quote?.currency,
+      exchangeRate: input.quote?.exchangeRate,
+      quoteExpiresAt: input.quote?.expiresAt,
       createdAt: now,
       expiresAt,
       subscriptionToken,
@@ -165,8 +291,8 @@ export class SessionManager {
    */
   getSessionByAddress(address: string): PaymentSession | null {
     const row = queryOne<SessionRow>(
-      'SELECT * FROM sessions WHERE address = ? AND status IN (?, ?)',
-      [address, 'pending', 'confirming']
+      'SELECT * FROM sessions WHERE address = ? AND status IN (?, ?, ?)',
+      [address, 'pending', 'underpaid', 'confirming']
     );
 
     if (!row) return null;
@@ -180,9 +306,9 @@ export class SessionManager {
   getActiveSessions(merchantId: string): PaymentSession[] {
     const rows = query<SessionRow>(
       `SELECT * FROM sessions
-       WHERE merchant_id = ? AND status IN (?, ?)
+       WHERE merchant_id = ? AND status IN (?, ?, ?)
        ORDER BY created_at DESC`,
-      [merchantId, 'pending', 'confirming']
+      [merchantId, 'pending', 'underpaid', 'confirming']
     );
 
     return rows.map((row) => this.rowToSession(row));
@@ -197,13 +323,23 @@ export class SessionManager {
    * @returns true if payment was accepted, false if session was expired/invalid
    */
   markPaymentReceived(sessionId: string, txId: string): boolean {
+    const before = queryOne<{ status: PaymentStatus; amount_received: string | null }>(
+      'SELECT status, amount_received FROM sessions WHERE id = ?',
+      [sessionId]
+    );
+
     // Bug #12 fix: Atomic UPDATE that checks both status AND expiry in one operation
     // This prevents the race condition where session expires between getSession() and execute()
+    // Confirmations count from the block of the output that completed the payment
     const result = execute(
       `UPDATE sessions
-       SET status = 'confirming', tx_id = ?, paid_at = datetime('now')
-       WHERE id = ? AND status = 'pending' AND expires_at > datetime('now')`,
-      [txId, sessionId]
+       SET status = 'confirming', tx_id = ?, paid_at = datetime('now'),
+           accepted_daa_score = (
+             SELECT CAST(MAX(CAST(block_daa_score AS INTEGER)) AS TEXT)
+             FROM session_payments WHERE session_id = ?
+           )
+       WHERE id = ? AND status IN ('pending', 'underpaid') AND datetime(expires_at) > datetime('now')`,
+      [txId, sessionId, sessionId]
     );
 
     if (result.changes === 0) {
@@ -211,29 +347,234 @@ export class SessionManager {
       const session = this.getSession(sessionId);
       if (!session) {
         console.warn(`[KasGate] Cannot mark payment received - session ${sessionId} not found`);
-      } else if (session.status !== 'pending') {
+      } else if (session.status !== 'pending' && session.status !== 'underpaid') {
         console.warn(`[KasGate] Cannot mark payment received - session ${sessionId} status is ${session.status}`);
       } else {
         // Session exists and is pending, but expires_at has passed
         console.warn(`[KasGate] Cannot mark payment received - session ${sessionId} has expired`);
         // Mark it as expired
-        this.markExpired(sessionId);
+        this.markExpired(sessionId, 'Payment arrived after the session expired');
       }
       return false;
     }
 
+    getSessionEventService().record({
+      sessionId,
+      type: 'payment_received',
+      fromStatus: before?.status,
+      toStatus: 'confirming',
+      txId,
+      data: { amountReceived: before?.amount_received || '0' },
+    });
+
+    this.applyConfirmationPolicy(sessionId);
+
     console.log(`[KasGate] Session ${sessionId} payment received: ${txId}`);
     return true;
   }
 
   /**
-   * Update confirmation count
+   * Record the outputs received by a session and add them to its received total
+   *
+   * Outputs already recorded (e.g. reported again by the catch-up scan after
+   * a restart) are skipped, so each output is only counted once.
+   * @returns the new received total in sompi
+   */
+  recordPayments(sessionId: string, utxos: Utxo[]): bigint {
+    return transaction(() => {
+      const row = queryOne<{ amount_received: string | null }>(
+        'SELECT amount_received FROM sessions WHERE id = ?',
+        [sessionId]
+      );
+
+      let total = BigInt(row?.amount_received || '0');
+      const now = toSqliteDate(new Date());
+
+      for (const utxo of utxos) {
+        const result = execute(
+          `INSERT OR IGNORE INTO session_payments (
+            session_id, tx_id, output_index, amount, block_daa_score, created_at
+          ) VALUES (?, ?, ?, ?, ?, ?)`,
+          [sessionId, utxo.transactionId, utxo.index, utxo.amount.toString(), utxo.blockDaaScore.toString(), now]
+        );
+
+        if (result.changes > 0) {
+          total += utxo.amount;
+        }
+      }
+
+      execute(
+        'UPDATE sessions SET amount_received = ? WHERE id = ?',
+        [total.toString(), sessionId]
+      );
+
+      return total;
+    });
+  }
+
+  /**
+   * Remove outputs that are no longer on chain (reorged or double-spent)
+   * from a session and subtract them from its received total
+   * @returns the new received total in sompi
+   */
+  removePayments(sessionId: string, utxos: Utxo[]): bigint {
+    return transaction(() => {
+      const row = queryOne<{ amount_received: string | null }>(
+        'SELECT amount_received FROM sessions WHERE id = ?',
+        [sessionId]
+      );
+
+      let total = BigInt(row?.amount_received || '0');
+
+      for (const utxo of utxos) {
+        const payment = queryOne<{ amount: string }>(
+          'SELECT amount FROM session_payments WHERE session_id = ? AND tx_id = ? AND output_index = ?',
+          [sessionId, utxo.transactionId, utxo.index]
+        );
+        if (!payment) continue;
+
+        execute(
+          'DELETE FROM session_payments WHERE session_id = ? AND tx_id = ? AND output_index = ?',
+          [sessionId, utxo.transactionId, utxo.index]
+        );
+        total -= BigInt(payment.amount);
+      }
+
+      execute(
+        'UPDATE sessions SET amount_received = ? WHERE id = ?',
+        [(total > 0n ? total : 0n).toString(), sessionId]
+      );
+
+      return total > 0n ? total : 0n;
+    });
+  }
+
+  /**
+   * Get the outputs received by a session, in arrival order
+   */
+  getPayments(sessionId: string): SessionPayment[] {
+    const rows = query<{
+      tx_id: string;
+      output_index: number;
+      amount: string;
+      block_daa_score: string;
+      created_at: string;
+    }>(
+      `SELECT tx_id, output_index, amount, block_daa_score, created_at
+       FROM session_payments
+       WHERE session_id = ?
+       ORDER BY CAST(block_daa_score AS INTEGER) ASC, rowid ASC`,
+      [sessionId]
+    );
+
+    return rows.map((row) => ({
+      txId: row.tx_id,
+      outputIndex: row.output_index,
+      amount: BigInt(row.amount),
+      blockDaaScore: BigInt(row.block_daa_score),
+      receivedAt: new Date(row.created_at),
+    }));
+  }
+
+  /**
+   * Store the DAA score confirmations are counted from, when it was not
+   * known at payment time (e.g. looked up from the explorer)
+   */
+  setAcceptedDaaScore(sessionId: string, daaScore: bigint): void {
+    execute(
+      'UPDATE sessions SET accepted_daa_score = ? WHERE id = ?',
+      [daaScore.toString(), sessionId]
+    );
+  }
+
+  /**
+   * Mark session as underpaid (partial payment detected, waiting for top-up)
+   * Bug #30: Validates state transition before update
+   */
+  markUnderpaid(sessionId: string): void {
+    const session = this.getSession(sessionId);
+    if (!session) {
+      console.warn(`[KasGate] Cannot mark underpaid - session ${sessionId} not found`);
+      return;
+    }
+
+    // Bug #30: Validate transition
+    assertValidTransition(session.status, 'underpaid', sessionId);
+
+    execute(
+      `UPDATE sessions SET status = ? WHERE id = ?`,
+      ['underpaid', sessionId]
+    );
+
+    if (session.status !== 'underpaid') {
+      getSessionEventService().record({
+        sessionId,
+        type: 'underpaid',
+        fromStatus: session.status,
+        toStatus: 'underpaid',
+        reason: 'Partial payment received',
+        data: { amount: session.amount.toString(), amountReceived: session.amountReceived.toString() },
+      });
+    }
+
+    console.log(`[KasGate] Session ${sessionId} underpaid: ${session.amountReceived} of ${session.amount} sompi`);
+  }
+
+  /**
+   * Get the merchant's payment tolerance (basis points) for a session
+   */
+  getPaymentToleranceBps(merchantId: string): number {
+    const row = queryOne<{ payment_tolerance_bps: number | null }>(
+      'SELECT payment_tolerance_bps FROM merchants WHERE id = ?',
+      [merchantId]
+    );
+
+    return row?.payment_tolerance_bps ?? 0;
+  }
+
+  /**
+   * Get the merchant's default confirmation threshold for new sessions
+   */
+  getDefaultConfirmations(merchantId: string): number {
+    const row = queryOne<{ default_confirmations: number | null }>(
+      'SELECT default_confirmations FROM merchants WHERE id = ?',
+      [merchantId]
+    );
+
+    return row?.default_confirmations ?? NETWORK_CONFIG.confirmations;
+  }
+
+  /**
+   * Update confirmation count, recording any milestone passed on the way
    */
   updateConfirmations(sessionId: string, confirmations: number): void {
+    const row = queryOne<{ confirmations: number; required_confirmations: number | null; tx_id: string | null }>(
+      'SELECT confirmations, required_confirmations, tx_id FROM sessions WHERE id = ?',
+      [sessionId]
+    );
+
     execute(
       `UPDATE sessions SET confirmations = ? WHERE id = ?`,
       [confirmations, sessionId]
     );
+
+    if (!row) return;
+
+    const required = row.required_confirmations ?? NETWORK_CONFIG.confirmations;
+    const passed = confirmationMilestones(required).filter(
+      (milestone) => row.confirmations < milestone && confirmations >= milestone
+    );
+
+    // Only the furthest milestone when several pass in one poll
+    if (passed.length > 0 && confirmations < required) {
+      getSessionEventService().record({
+        sessionId,
+        type: 'confirmation',
+        txId: row.tx_id || undefined,
+        confirmations,
+        data: { required },
+      });
+    }
   }
 
   /**
@@ -247,24 +588,42 @@ export class SessionManager {
       return;
     }
 
+    // Sessions that received more than the tolerated amount end as overpaid
+    const toleranceBps = this.getPaymentToleranceBps(session.merchantId);
+    const finalStatus: PaymentStatus =
+      classifyPaymentAmount(session.amount, session.amountReceived, toleranceBps) === 'overpaid'
+        ? 'overpaid'
+        : 'confirmed';
+
     // Bug #30: Validate transition
-    assertValidTransition(session.status, 'confirmed', sessionId);
+    assertValidTransition(session.status, finalStatus, sessionId);
 
     execute(
       `UPDATE sessions
        SET status = ?, confirmations = ?, confirmed_at = datetime('now')
        WHERE id = ?`,
-      ['confirmed', confirmations, sessionId]
+      [finalStatus, confirmations, sessionId]
     );
 
-    console.log(`[KasGate] Session ${sessionId} confirmed with ${confirmations} confirmations`);
+    if (session.status !== finalStatus) {
+      getSessionEventService().record({
+        sessionId,
+        type: 'confirmed',
+        fromStatus: session.status,
+        toStatus: finalStatus,
+        txId: session.txId,
+        confirmations,
+      });
+    }
+
+    console.log(`[KasGate] Session ${sessionId} ${finalStatus} with ${confirmations} confirmations`);
   }
 
   /**
    * Mark session as expired
    * Bug #30: Validates state transition before update
    */
-  markExpired(sessionId: string): void {
+  markExpired(sessionId: string, reason?: string): void {
     const session = this.getSession(sessionId);
     if (!session) {
       console.warn(`[KasGate] Cannot mark expired - session ${sessionId} not found`);
@@ -279,14 +638,57 @@ export class SessionManager {
       ['expired', sessionId]
     );
 
+    if (session.status !== 'expired') {
+      getSessionEventService().record({
+        sessionId,
+        type: 'expired',
+        fromStatus: session.status,
+        toStatus: 'expired',
+        reason: reason ?? expiryReason(session.status),
+      });
+    }
+
     console.log(`[KasGate] Session ${sessionId} expired`);
   }
 
+  /**
+   * Mark session as cancelled, with an optional reason
+   * Bug #30: Validates state transition before update
+   */
+  markCancelled(sessionId: string, reason?: string, actor: SessionEventActor = 'merchant'): void {
+    const session = this.getSession(sessionId);
+    if (!session) {
+      console.warn(`[KasGate] Cannot mark cancelled - session ${sessionId} not found`);
+      return;
+    }
+
+    // Bug #30: Validate transition
+    assertValidTransition(session.status, 'cancelled', sessionId);
+
+    execute(
+      `UPDATE sessions SET status = ?, cancelled_at = ?, cancellation_reason = ? WHERE id = ?`,
+      ['cancelled', toSqliteDate(new Date()), reason ?? null, sessionId]
+    );
+
+    if (session.status !== 'cancelled') {
+      getSessionEventService().record({
+        sessionId,
+        type: 'cancelled',
+        fromStatus: session.status,
+        toStatus: 'cancelled',
+        actor,
+        reason,
+      });
+    }
+
+    console.log(`[KasGate] Session ${sessionId} cancelled${reason ? `: ${reason}` : ''}`);
+  }
+
   /**
    * Mark session as failed
    * Bug #30: Validates state transition before update
    */
-  markFailed(sessionId: string): void {
+  markFailed(sessionId: string, reason?: PaymentFailureReason): void {
     const session = this.getSession(sessionId);
     if (!session) {
       console.warn(`[KasGate] Cannot mark failed - session ${sessionId} not found`);
@@ -297,11 +699,124 @@ export class SessionManager {
     assertValidTransition(session.status, 'failed', sessionId);
 
     execute(
-      `UPDATE sessions SET status = ? WHERE id = ?`,
-      ['failed', sessionId]
+      `UPDATE sessions SET status = ?, failure_reason = ? WHERE id = ?`,
+      ['failed', reason ?? null, sessionId]
+    );
+
+    if (session.status !== 'failed') {
+      getSessionEventService().record({
+        sessionId,
+        type: 'failed',
+        fromStatus: session.status,
+        toStatus: 'failed',
+        txId: session.txId,
+        reason,
+      });
+    }
+
+    console.log(`[KasGate] Session ${sessionId} failed${reason ? `: ${reason}` : ''}`);
+  }
+
+  /**
+   * Flag funds that arrived after the session expired or was cancelled
+   *
+   * The first late payment puts the session in the merchant's queue; later
+   * ones keep whatever decision was already made.
+   */
+  markLatePayment(sessionId: string, txId: string, amountReceived: bigint): void {
+    execute(
+      `UPDATE sessions
+       SET late_payment_status = COALESCE(late_payment_status, 'pending'),
+           late_payment_at = COALESCE(late_payment_at, ?)
+       WHERE id = ? AND status IN ('expired', 'cancelled')`,
+      [toSqliteDate(new Date()), sessionId]
+    );
+
+    getSessionEventService().record({
+      sessionId,
+      type: 'late_payment',
+      txId,
+      reason: 'Payment arrived after the session ended',
+      data: { amountReceived: amountReceived.toString() },
+    });
+
+    console.log(`[KasGate] Late payment for session ${sessionId}: ${txId}`);
+  }
+
+  /**
+   * Accept a late payment and complete the session as if it had arrived in time
+   *
+   * Moves the session back to confirming with the most recent payment's
+   * transaction, so it is confirmed like any other payment.
+   * @returns true if accepted, false if there was no pending late payment
+   */
+  acceptLatePayment(sessionId: string): boolean {
+    const session = this.getSession(sessionId);
+    const payments = this.getPayments(sessionId);
+    const latest = payments[payments.length - 1];
+
+    if (!session || session.latePaymentStatus !== 'pending' || !latest) {
+      console.warn(`[KasGate] Cannot accept late payment - session ${sessionId} has no pending late payment`);
+      return false;
+    }
+
+    // Bug #30: Validate transition
+    assertValidTransition(session.status, 'confirming', sessionId);
+
+    const result = execute(
+      `UPDATE sessions
+       SET status = 'confirming', tx_id = ?, confirmations = 0, accepted_daa_score = ?,
+           paid_at = COALESCE(paid_at, late_payment_at), late_payment_status = 'accepted'
+       WHERE id = ? AND status IN ('expired', 'cancelled') AND late_payment_status = 'pending'`,
+      [latest.txId, latest.blockDaaScore.toString(), sessionId]
+    );
+
+    if (result.changes === 0) {
+      console.warn(`[KasGate] Cannot accept late payment - session ${sessionId} has no pending late payment`);
+      return false;
+    }
+
+    getSessionEventService().record({
+      sessionId,
+      type: 'payment_received',
+      fromStatus: session.status,
+      toStatus: 'confirming',
+      actor: 'merchant',
+      txId: latest.txId,
+      reason: 'Late payment accepted',
+    });
+
+    this.applyConfirmationPolicy(sessionId);
+
+    console.log(`[KasGate] Session ${sessionId} late payment accepted: ${latest.txId}`);
+    return true;
+  }
+
+  /**
+   * Mark a late payment to be refunded to the customer instead of accepted
+   * @returns true if marked, false if there was no pending late payment
+   */
+  markLatePaymentForRefund(sessionId: string): boolean {
+    const result = execute(
+      `UPDATE sessions SET late_payment_status = 'refund'
+       WHERE id = ? AND status IN ('expired', 'cancelled') AND late_payment_status = 'pending'`,
+      [sessionId]
     );
 
-    console.log(`[KasGate] Session ${sessionId} failed`);
+    if (result.changes === 0) {
+      console.warn(`[KasGate] Cannot mark late payment for refund - session ${sessionId} has no pending late payment`);
+      return false;
+    }
+
+    getSessionEventService().record({
+      sessionId,
+      type: 'late_payment_refund',
+      actor: 'merchant',
+      reason: 'Late payment marked for refund',
+    });
+
+    console.log(`[KasGate] Session ${sessionId} late payment marked for refund`);
+    return true;
   }
 
   /**
@@ -310,8 +825,22 @@ export class SessionManager {
   getExpiredSessions(): PaymentSession[] {
     const rows = query<SessionRow>(
       `SELECT * FROM sessions
-       WHERE status = ? AND expires_at < datetime('now')`,
-      ['pending']
+       WHERE status IN (?, ?) AND datetime(expires_at) < datetime('now')`,
+      ['pending', 'underpaid']
+    );
+
+    return rows.map((row) => this.rowToSession(row));
+  }
+
+  /**
+   * Get all pending/underpaid sessions that have not yet expired (for resuming monitoring)
+   */
+  getPendingSessions(): PaymentSession[] {
+    const rows = query<SessionRow>(
+      `SELECT * FROM sessions
+       WHERE status IN (?, ?) AND datetime(expires_at) > datetime('now')
+       ORDER BY created_at ASC`,
+      ['pending', 'underpaid']
     );
 
     return rows.map((row) => this.rowToSession(row));
@@ -330,21 +859,65 @@ export class SessionManager {
   }
 
   /**
-   * Expire old pending sessions
+   * Get expired and cancelled sessions still inside the late-payment grace
+   * period (for resuming the late-payment watch after a restart)
    */
-  expireOldSessions(): number {
-    const result = execute(
-      `UPDATE sessions
-       SET status = ?
-       WHERE status = ? AND expires_at < datetime('now')`,
-      ['expired', 'pending']
+  getLatePaymentWatchSessions(): PaymentSession[] {
+    const grace = `-${LATE_PAYMENT_GRACE_MINUTES} minutes`;
+    const rows = query<SessionRow>(
+      `SELECT * FROM sessions
+       WHERE (status = ? AND datetime(expires_at) > datetime('now', ?))
+          OR (status = ? AND datetime(cancelled_at) > datetime('now', ?))
+       ORDER BY expires_at ASC`,
+      ['expired', grace, 'cancelled', grace]
     );
 
-    if (result.changes > 0) {
-      console.log(`[KasGate] Expired ${result.changes} old sessions`);
+    return rows.map((row) => this.rowToSession(row));
+  }
+
+  /**
+   * Expire a batch of pending/underpaid sessions past their expiry time
+   *
+   * Oldest first; call repeatedly until it returns fewer than `limit` sessions.
+   * @returns the sessions that were expired
+   */
+  expireOldSessions(limit: number = SESSION_EXPIRY_BATCH_SIZE): PaymentSession[] {
+    const rows = transaction(() => {
+      const due = query<SessionRow>(
+        `SELECT * FROM sessions
+         WHERE status IN (?, ?) AND datetime(expires_at) < datetime('now')
+         ORDER BY datetime(expires_at) ASC
+         LIMIT ?`,
+        ['pending', 'underpaid', limit]
+      );
+
+      if (due.length > 0) {
+        const placeholders = due.map(() => '?').join(', ');
+        execute(
+          `UPDATE sessions SET status = 'expired' WHERE id IN (${placeholders})`,
+          due.map((row) => row.id)
+        );
+
+        const events = getSessionEventService();
+        for (const row of due) {
+          events.record({
+            sessionId: row.id,
+            type: 'expired',
+            fromStatus: row.status as PaymentStatus,
+            toStatus: 'expired',
+            reason: expiryReason(row.status as PaymentStatus),
+          });
+        }
+      }
+
+      return due;
+    });
+
+    if (rows.length > 0) {
+      console.log(`[KasGate] Expired ${rows.length} old sessions`);
     }
 
-    return result.changes;
+    return rows.map((row) => this.rowToSession({ ...row, status: 'expired' }));
   }
 
   /**
@@ -352,9 +925,9 @@ export class SessionManager {
    */
   getSessionHistory(
     merchantId: string,
-    options: { limit?: number; offset?: number; status?: PaymentStatus } = {}
+    options: { limit?: number; offset?: number; status?: PaymentStatus; latePayment?: LatePaymentStatus } = {}
   ): { sessions: PaymentSession[]; total: number } {
-    const { limit = 20, offset = 0, status } = options;
+    const { limit = 20, offset = 0, status, latePayment } = options;
 
     let whereClause = 'WHERE merchant_id = ?';
     const params: any[] = [merchantId];
@@ -364,6 +937,11 @@ export class SessionManager {
       params.push(status);
     }
 
+    if (latePayment) {
+      whereClause += ' AND late_payment_status = ?';
+      params.push(latePayment);
+    }
+
     // Get total count
     const countResult = queryOne<{ count: number }>(
       `SELECT COUNT(*) as count FROM sessions ${whereClause}`,
@@ -401,8 +979,10 @@ export class SessionManager {
       sessions: number;
       confirmed: number;
       expired: number;
+      cancelled: number;
       volumeSompi: string;
     }>;
+    fiatVolume: FiatVolume[];
   } {
     const startIso = startDate.toISOString();
     const endIso = endDate.toISOString();
@@ -415,8 +995,8 @@ export class SessionManager {
     }>(
       `SELECT
         COUNT(*) as total,
-        SUM(CASE WHEN status = 'confirmed' THEN 1 ELSE 0 END) as confirmed,
-        COALESCE(SUM(CASE WHEN status = 'confirmed' THEN CAST(amount AS INTEGER) ELSE 0 END), 0) as volume
+        SUM(CASE WHEN status IN ('confirmed', 'overpaid') THEN 1 ELSE 0 END) as confirmed,
+        COALESCE(SUM(CASE WHEN status IN ('confirmed', 'overpaid') THEN CAST(amount AS INTEGER) ELSE 0 END), 0) as volume
        FROM sessions
        WHERE merchant_id = ? AND created_at >= ? AND created_at <= ?`,
       [merchantId, startIso, endIso]
@@ -433,9 +1013,12 @@ export class SessionManager {
 
     const statusDistribution: Record<string, number> = {
       pending: 0,
+      underpaid: 0,
       confirming: 0,
       confirmed: 0,
+      overpaid: 0,
       expired: 0,
+      cancelled: 0,
       failed: 0,
     };
     statusRows.forEach(row => {
@@ -448,14 +1031,16 @@ export class SessionManager {
       sessions: number;
       confirmed: number;
       expired: number;
+      cancelled: number;
       volume: string;
     }>(
       `SELECT
         DATE(created_at) as date,
         COUNT(*) as sessions,
-        SUM(CASE WHEN status = 'confirmed' THEN 1 ELSE 0 END) as confirmed,
+        SUM(CASE WHEN status IN ('confirmed', 'overpaid') THEN 1 ELSE 0 END) as confirmed,
         SUM(CASE WHEN status = 'expired' THEN 1 ELSE 0 END) as expired,
-        COALESCE(SUM(CASE WHEN status = 'confirmed' THEN CAST(amount AS INTEGER) ELSE 0 END), 0) as volume
+        SUM(CASE WHEN status = 'cancelled' THEN 1 ELSE 0 END) as cancelled,
+        COALESCE(SUM(CASE WHEN status IN ('confirmed', 'overpaid') THEN CAST(amount AS INTEGER) ELSE 0 END), 0) as volume
        FROM sessions
        WHERE merchant_id = ? AND created_at >= ? AND created_at <= ?
        GROUP BY DATE(created_at)
@@ -473,11 +1058,48 @@ export class SessionManager {
         sessions: row.sessions,
         confirmed: row.confirmed,
         expired: row.expired,
+        cancelled: row.cancelled,
         volumeSompi: row.volume,
       })),
+      fiatVolume: this.getFiatVolume(merchantId, startDate, endDate),
     };
   }
 
+  /**
+   * Get paid fiat-priced volume per currency for a date range
+   *
+   * Summed with bigint arithmetic since fiat amounts are stored as decimal strings.
+   */
+  getFiatVolume(merchantId: string, startDate: Date, endDate: Date): FiatVolume[] {
+    const rows = query<{ fiat_currency: string; fiat_amount: string; amount: string }>(
+      `SELECT fiat_currency, fiat_amount, amount
+       FROM sessions
+       WHERE merchant_id = ? AND created_at >= ? AND created_at <= ?
+         AND status IN ('confirmed', 'overpaid') AND fiat_currency IS NOT NULL`,
+      [merchantId, startDate.toISOString(), endDate.toISOString()]
+    );
+
+    const totals = new Map<string, { sessions: number; fiat: bigint; sompi: bigint }>();
+    for (const row of rows) {
+      const total = totals.get(row.fiat_currency) || { sessions: 0, fiat: 0n, sompi: 0n };
+      total.sessions++;
+      total.fiat += parseDecimal(row.fiat_amount, EXCHANGE_RATE_DECIMALS);
+      total.sompi += BigInt(row.amount);
+      totals.set(row.fiat_currency, total);
+    }
+
+    return Array.from(totals.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([currency, total]) => ({
+        currency,
+        sessions: total.sessions,
+        amount: formatDecimal(total.fiat, EXCHANGE_RATE_DECIMALS),
+        averageRate: total.sompi > 0n
+          ? formatDecimal((total.fiat * SOMPI_PER_KAS) / total.sompi, EXCHANGE_RATE_DECIMALS)
+          : '0',
+      }));
+  }
+
   /**
    * Get top payments with SQL-level sorting and limiting
    */
@@ -500,7 +1122,7 @@ export class SessionManager {
     }>(
       `SELECT id, amount, order_id, confirmed_at
        FROM sessions
-       WHERE merchant_id = ? AND status = 'confirmed'
+       WHERE merchant_id = ? AND status IN ('confirmed', 'overpaid')
          AND created_at >= ? AND created_at <= ?
        ORDER BY CAST(amount AS INTEGER) DESC
        LIMIT ?`,
@@ -544,6 +1166,40 @@ export class SessionManager {
   // PRIVATE METHODS
   // ============================================================
 
+  /**
+   * Set the session's confirmation threshold from the merchant's amount-tiered policy
+   *
+   * Sessions created with an explicit threshold keep it.
+   */
+  private applyConfirmationPolicy(sessionId: string): void {
+    const row = queryOne<{
+      merchant_id: string;
+      amount: string;
+      amount_received: string | null;
+      confirmations_pinned: number | null;
+    }>(
+      'SELECT merchant_id, amount, amount_received, confirmations_pinned FROM sessions WHERE id = ?',
+      [sessionId]
+    );
+
+    if (!row || row.confirmations_pinned) return;
+
+    // Size the threshold to the value at stake
+    const amount = BigInt(row.amount);
+    const received = BigInt(row.amount_received || '0');
+    const required = getMerchantSettingsService().getPolicyConfirmations(
+      row.merchant_id,
+      received > amount ? received : amount
+    );
+
+    if (required === null) return;
+
+    execute(
+      'UPDATE sessions SET required_confirmations = ? WHERE id = ?',
+      [required, sessionId]
+    );
+  }
+
   /**
    * Generate a secure subscription token (Bug #5 fix)
    */
@@ -557,15 +1213,27 @@ export class SessionManager {
       merchantId: row.merchant_id,
       address: row.address,
       amount: BigInt(row.amount),
+      amountReceived: BigInt(row.amount_received || '0'),
       status: row.status as PaymentStatus,
       confirmations: row.confirmations,
+      requiredConfirmations: row.required_confirmations ?? NETWORK_CONFIG.confirmations,
       txId: row.tx_id || undefined,
+      acceptedDaaScore: row.accepted_daa_score ? BigInt(row.accepted_daa_score) : undefined,
       orderId: row.order_id || undefined,
       metadata: row.metadata ? fromJson(row.metadata) || undefined : undefined,
+      fiatAmount: row.fiat_amount || undefined,
+      fiatCurrency: row.fiat_currency || undefined,
+      exchangeRate: row.exchange_rate || undefined,
+      quoteExpiresAt: row.quote_expires_at ? new Date(row.quote_expires_at) : undefined,
       createdAt: new Date(row.created_at),
       expiresAt: new Date(row.expires_at),
       paidAt: row.paid_at ? new Date(row.paid_at) : undefined,
       confirmedAt: row.confirmed_at ? new Date(row.confirmed_at) : undefined,
+      cancelledAt: row.cancelled_at ? new Date(row.cancelled_at) : undefined,
+      cancellationReason: row.cancellation_reason || undefined,
+      failureReason: (row.failure_reason as PaymentFailureReason) || undefined,
+      latePaymentStatus: (row.late_payment_status as LatePaymentStatus) || undefined,
+      latePaymentAt: row.late_payment_at ? new Date(row.late_payment_at) : undefined,
     };
   }
 }
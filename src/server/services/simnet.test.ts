@@ -0,0 +1,95 @@
+/**
+ * Simulated Network Tests
+ * Tests for minting payments, advancing blocks and removing outputs on the in-memory chain
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SimulatedKaspaNetwork } from './simnet.js';
+
+const ADDRESS = 'kaspasim:qr0simtest1234567890abcdefghijklmnopqrstuvwxyz1234567890ab';
+const OTHER_ADDRESS = 'kaspasim:qr0simtest0987654321abcdefghijklmnopqrstuvwxyz1234567890ab';
+
+describe('SimulatedKaspaNetwork', () => {
+  let simnet: SimulatedKaspaNetwork;
+  const onUtxosChanged = vi.fn();
+
+  beforeEach(async () => {
+    simnet = new SimulatedKaspaNetwork();
+    onUtxosChanged.mockReset();
+    await simnet.connect();
+    await simnet.subscribe(ADDRESS, { onUtxosChanged });
+  });
+
+  it('should mint a payment in a new block and notify the subscriber', async () => {
+    const before = await simnet.getVirtualDaaScore();
+    const txId = simnet.mintPayment(ADDRESS, 100000000n);
+
+    expect(txId).toMatch(/^[a-f0-9]{64}$/);
+    expect(await simnet.getVirtualDaaScore()).toBe(before + 1n);
+
+    const utxos = await simnet.getUtxos(ADDRESS);
+    expect(utxos).toEqual([
+      expect.objectContaining({ transactionId: txId, index: 0, amount: 100000000n, blockDaaScore: before + 1n }),
+    ]);
+    expect(onUtxosChanged).toHaveBeenCalledWith(ADDRESS, utxos, []);
+    expect(await simnet.getTransaction(txId)).toEqual({
+      transactionId: txId,
+      isAccepted: true,
+      acceptingDaaScore: before + 1n,
+    });
+  });
+
+  it('should only notify subscribers of the addresses a transaction pays', async () => {
+    simnet.mintPayment([
+      { address: ADDRESS, amount: 60000000n },
+      { address: OTHER_ADDRESS, amount: 40000000n },
+    ]);
+
+    expect(onUtxosChanged).toHaveBeenCalledTimes(1);
+    expect(onUtxosChanged.mock.calls[0][1]).toHaveLength(1);
+    expect((await simnet.getUtxos(OTHER_ADDRESS))[0].index).toBe(1);
+  });
+
+  it('should be deterministic', async () => {
+    const other = new SimulatedKaspaNetwork();
+
+    expect(other.mintPayment(ADDRESS, 1n)).toBe(simnet.mintPayment(ADDRESS, 1n));
+    expect(other.advanceBlocks(10)).toBe(simnet.advanceBlocks(10));
+  });
+
+  it('should forget a reorged transaction and report its outputs as removed', async () => {
+    const txId = simnet.mintPayment(ADDRESS, 100000000n);
+    const [utxo] = await simnet.getUtxos(ADDRESS);
+
+    simnet.reorgTransaction(txId);
+
+    expect(onUtxosChanged).toHaveBeenLastCalledWith(ADDRESS, [], [utxo]);
+    expect(await simnet.getUtxos(ADDRESS)).toEqual([]);
+    expect(await simnet.getTransaction(txId)).toBeNull();
+  });
+
+  it('should keep a double-spent transaction known but not accepted', async () => {
+    const txId = simnet.mintPayment(ADDRESS, 100000000n);
+
+    simnet.doubleSpendTransaction(txId);
+
+    expect(await simnet.getUtxos(ADDRESS)).toEqual([]);
+    expect(await simnet.getTransaction(txId)).toEqual({ transactionId: txId, isAccepted: false, acceptingDaaScore: undefined });
+  });
+
+  it('should keep a transaction accepted when its outputs are spent', async () => {
+    const txId = simnet.mintPayment(ADDRESS, 100000000n);
+
+    simnet.spendOutputs(txId);
+    simnet.spendOutputs(txId);
+
+    expect(await simnet.getUtxos(ADDRESS)).toEqual([]);
+    expect((await simnet.getTransaction(txId))?.isAccepted).toBe(true);
+    // Removed once
+    expect(onUtxosChanged).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject unknown transactions', () => {
+    expect(() => simnet.reorgTransaction('f'.repeat(64))).toThrow('Unknown simulated transaction');
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * Simulated Kaspa Network - In-Memory Chain Backend
+ *
+ * A deterministic stand-in for a Kaspa node, used when KASPA_NETWORK=simnet
+ * and in tests. Payments are minted straight into the UTXO set, blocks only
+ * advance when asked (or on a timer for local development), and payments can
+ * be reorged out, double-spent or spent to exercise every path of the
+ * payment lifecycle offline.
+ */
+
+import crypto from 'crypto';
+import type { ChainBackend, ChainBackendHandlers, ChainTransaction, UtxoSubscriber } from './chain-backend.js';
+import type { Utxo } from '../../kaspa/types.js';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface SimulatedPaymentOutput {
+  address: string;
+  amount: bigint;
+}
+
+interface SimulatedTransaction {
+  transactionId: string;
+  isAccepted: boolean;
+  acceptingDaaScore: bigint;
+  outputs: Utxo[];
+}
+
+/**
+ * DAA score the simulated chain starts at
+ */
+const GENESIS_DAA_SCORE = 1_000_000n;
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+function outpointKey(utxo: Utxo): string {
+  return `${utxo.transactionId}:${utxo.index}`;
+}
+
+// ============================================================
+// SIMULATED NETWORK CLASS
+// ============================================================
+
+export class SimulatedKaspaNetwork implements ChainBackend {
+  readonly name = 'simnet';
+  private connected = false;
+  private handlers: ChainBackendHandlers = {};
+  private daaScore = GENESIS_DAA_SCORE;
+  private txCounter = 0;
+  /** address -> outpoint -> UTXO */
+  private utxos: Map<string, Map<string, Utxo>> = new Map();
+  private transactions: Map<string, SimulatedTransaction> = new Map();
+  private subscribers: Map<string, UtxoSubscriber> = new Map();
+  private miningInterval: ReturnType<typeof setInterval> | null = null;
+
+  // ============================================================
+  // CHAIN BACKEND
+  // ============================================================
+
+  async connect(): Promise<void> {
+    if (this.connected) return;
+    this.connected = true;
+    console.log(`[KasGate] Simulated network running at DAA score ${this.daaScore}`);
+    this.handlers.onConnect?.();
+  }
+
+  async disconnect(): Promise<void> {
+    this.stopMining();
+    if (!this.connected) return;
+    this.connected = false;
+    this.handlers.onDisconnect?.();
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  setHandlers(handlers: ChainBackendHandlers): void {
+    this.handlers = { ...this.handlers, ...handlers };
+  }
+
+  async subscribe(address: string, subscriber: UtxoSubscriber): Promise<void> {
+    this.subscribers.set(address, subscriber);
+  }
+
+  async unsubscribe(address: string): Promise<void> {
+    this.subscribers.delete(address);
+  }
+
+  async getUtxos(address: string): Promise<Utxo[]> {
+    return [...(this.utxos.get(address)?.values() ?? [])];
+  }
+
+  async getVirtualDaaScore(): Promise<bigint> {
+    return this.daaScore;
+  }
+
+  async getTransaction(txId: string): Promise<ChainTransaction | null> {
+    const tx = this.transactions.get(txId);
+    if (!tx) return null;
+
+    return {
+      transactionId: tx.transactionId,
+      isAccepted: tx.isAccepted,
+      acceptingDaaScore: tx.isAccepted ? tx.acceptingDaaScore : undefined,
+    };
+  }
+
+  // ============================================================
+  // SIMULATION CONTROLS
+  // ============================================================
+
+  /**
+   * Send a payment in a new block
+   *
+   * One transaction with an output per entry, accepted at the next DAA score.
+   * Subscribers of the receiving addresses are notified synchronously.
+   * @returns the transaction ID
+   */
+  mintPayment(address: string, amount: bigint): string;
+  mintPayment(outputs: SimulatedPaymentOutput[]): string;
+  mintPayment(addressOrOutputs: string | SimulatedPaymentOutput[], amount?: bigint): string {
+    const outputs = typeof addressOrOutputs === 'string'
+      ? [{ address: addressOrOutputs, amount: amount! }]
+      : addressOrOutputs;
+
+    this.daaScore += 1n;
+    const transactionId = crypto.createHash('sha256').update(`simnet-tx-${++this.txCounter}`).digest('hex');
+
+    const utxos = outputs.map((output, index): Utxo => ({
+      transactionId,
+      index,
+      amount: output.amount,
+      scriptPublicKey: '',
+      blockDaaScore: this.daaScore,
+      isCoinbase: false,
+      address: output.address,
+    }));
+
+    this.transactions.set(transactionId, {
+      transactionId,
+      isAccepted: true,
+      acceptingDaaScore: this.daaScore,
+      outputs: utxos,
+    });
+
+    for (const utxo of utxos) {
+      if (!this.utxos.has(utxo.address!)) {
+        this.utxos.set(utxo.address!, new Map());
+      }
+      this.utxos.get(utxo.address!)!.set(outpointKey(utxo), utxo);
+    }
+    this.notify(utxos, []);
+
+    return transactionId;
+  }
+
+  /**
+   * Advance the virtual DAA score by a number of blocks
+   */
+  advanceBlocks(count = 1): bigint {
+    this.daaScore += BigInt(count);
+    return this.daaScore;
+  }
+
+  /**
+   * Reorg a transaction out of the chain: its outputs leave the UTXO set
+   * and the network no longer knows it
+   */
+  reorgTransaction(txId: string): void {
+    const tx = this.requireTransaction(txId);
+    this.transactions.delete(txId);
+    this.removeOutputs(tx.outputs);
+  }
+
+  /**
+   * Replace a transaction with a conflicting one: its outputs leave the UTXO
+   * set and it stays known, but no longer accepted
+   */
+  doubleSpendTransaction(txId: string): void {
+    const tx = this.requireTransaction(txId);
+    tx.isAccepted = false;
+    this.removeOutputs(tx.outputs);
+  }
+
+  /**
+   * Spend a transaction's outputs (as the receiving wallet would); the
+   * transaction itself stays accepted
+   */
+  spendOutputs(txId: string): void {
+    this.removeOutputs(this.requireTransaction(txId).outputs);
+  }
+
+  /**
+   * Advance one block every interval, like a live network (local development)
+   */
+  startMining(intervalMs: number): void {
+    if (this.miningInterval) return;
+    this.miningInterval = setInterval(() => this.advanceBlocks(), intervalMs);
+  }
+
+  stopMining(): void {
+    if (this.miningInterval) {
+      clearInterval(this.miningInterval);
+      this.miningInterval = null;
+    }
+  }
+
+  // ============================================================
+  // PRIVATE METHODS
+  // ============================================================
+
+  private requireTransaction(txId: string): SimulatedTransaction {
+    const tx = this.transactions.get(txId);
+    if (!tx) {
+      throw new Error(`Unknown simulated transaction: ${txId}`);
+    }
+    return tx;
+  }
+
+  private removeOutputs(outputs: Utxo[]): void {
+    const removed = outputs.filter((utxo) => this.utxos.get(utxo.address!)?.delete(outpointKey(utxo)));
+    this.notify([], removed);
+  }
+
+  private notify(added: Utxo[], removed: Utxo[]): void {
+    const addresses = new Set([...added, ...removed].map((utxo) => utxo.address!));
+
+    for (const address of addresses) {
+      this.subscribers.get(address)?.onUtxosChanged(
+        address,
+        added.filter((utxo) => utxo.address === address),
+        removed.filter((utxo) => utxo.address === address)
+      );
+    }
+  }
+}
+
+// ============================================================
+// SINGLETON INSTANCE
+// ============================================================
+
+let simulatedNetwork: SimulatedKaspaNetwork | null = null;
+
+/**
+ * Get the singleton simulated network instance
+ */
+export function getSimulatedNetwork(): SimulatedKaspaNetwork {
+  if (!simulatedNetwork) {
+    simulatedNetwork = new SimulatedKaspaNetwork();
+  }
+  return simulatedNetwork;
+}
+
+/**
+ * Reset the simulated network (for testing)
+ */
+export function resetSimulatedNetwork(): void {
+  if (simulatedNetwork) {
+    simulatedNetwork.stopMining();
+    simulatedNetwork = null;
+  }
+}
@@ -1,12 +1,11 @@
 /**
  * Webhook Service Tests
- * Tests for webhook signing, delivery, and replay protection
+ * Tests for webhook signing, delivery, replay protection, and endpoint fan-out
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import crypto from 'crypto';
 import { getWebhookService, resetWebhookService } from './webhook.js';
-import { initDatabase, closeDatabase, queryOne, execute } from '../db/index.js';
+import { initDatabase, closeDatabase, query, queryOne, execute } from '../db/index.js';
 import type { WebhookPayload } from '../../shared/validation.js';
 import type { PaymentSession } from '../../kaspa/types.js';
 
@@ -19,13 +18,12 @@ const TEST_SESSION_ID = '550e8400-e29b-41d4-a716-446655440001';
 
 function createTestMerchant(webhookUrl: string | null = 'https://example.com/webhook') {
   execute(
-    `INSERT INTO merchants (id, name, xpub, api_key, api_key_hash, webhook_url, webhook_secret, created_at, updated_at)
-     VALUES (?, ?, ?, ?, ?, ?, ?, datetime('now'), datetime('now'))`,
+    `INSERT INTO merchants (id, name, xpub, api_key_hash, webhook_url, webhook_secret, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, datetime('now'), datetime('now'))`,
     [
       TEST_MERCHANT_ID,
       'Test Merchant',
       'kpub1234567890abcdefghijklmnopqrstuvwxyz1234567890abcdefghijklmnopqrstuvwxyz1234567890abcdefghijkl',
-      'kg_testkey123',
       'abcd1234',
       webhookUrl,
       'whsec_testsecret123',
@@ -69,6 +67,7 @@ describe('WebhookService', () => {
         sessionId: '550e8400-e29b-41d4-a716-446655440000',
         merchantId: '550e8400-e29b-41d4-a716-446655440001',
         amount: '100000000',
+        amountReceived: '100000000',
         address: 'kaspatest:qr0test123',
         timestamp: '2024-01-01T00:00:00.000Z',
         deliveryId: '550e8400-e29b-41d4-a716-446655440002',
@@ -91,6 +90,7 @@ describe('WebhookService', () => {
         sessionId: '550e8400-e29b-41d4-a716-446655440000',
         merchantId: '550e8400-e29b-41d4-a716-446655440001',
         amount: '100000000',
+        amountReceived: '100000000',
         address: 'kaspatest:qr0test123',
         timestamp: '2024-01-01T00:00:00.000Z',
         deliveryId: '550e8400-e29b-41d4-a716-446655440002',
@@ -116,6 +116,7 @@ describe('WebhookService', () => {
         sessionId: '550e8400-e29b-41d4-a716-446655440000',
         merchantId: '550e8400-e29b-41d4-a716-446655440001',
         amount: '100000000',
+        amountReceived: '100000000',
         address: 'kaspatest:qr0test123',
         timestamp: '2024-01-01T00:00:00.000Z',
         deliveryId: '550e8400-e29b-41d4-a716-446655440002',
@@ -137,6 +138,7 @@ describe('WebhookService', () => {
         sessionId: '550e8400-e29b-41d4-a716-446655440000',
         merchantId: '550e8400-e29b-41d4-a716-446655440001',
         amount: '100000000',
+        amountReceived: '100000000',
         address: 'kaspatest:qr0test123',
         timestamp: '2024-01-01T00:00:00.000Z',
         deliveryId: '550e8400-e29b-41d4-a716-446655440002',
@@ -158,6 +160,7 @@ describe('WebhookService', () => {
         sessionId: '550e8400-e29b-41d4-a716-446655440000',
         merchantId: '550e8400-e29b-41d4-a716-446655440001',
         amount: '100000000',
+        amountReceived: '100000000',
         address: 'kaspatest:qr0test123',
         timestamp: '2024-01-01T00:00:00.000Z',
         deliveryId: '550e8400-e29b-41d4-a716-446655440002',
@@ -180,6 +183,7 @@ describe('WebhookService', () => {
         sessionId: '550e8400-e29b-41d4-a716-446655440000',
         merchantId: '550e8400-e29b-41d4-a716-446655440001',
         amount: '100000000',
+        amountReceived: '100000000',
         address: 'kaspatest:qr0test123',
         timestamp: '2024-01-01T00:00:00.000Z',
         deliveryId: '550e8400-e29b-41d4-a716-446655440002',
@@ -208,8 +212,10 @@ describe('WebhookService', () => {
         merchantId: TEST_MERCHANT_ID,
         address: 'kaspatest:qr0test123',
         amount: BigInt(100000000),
+        amountReceived: BigInt(100000000),
         status: 'confirming',
         confirmations: 0,
+        requiredConfirmations: 10,
         createdAt: new Date(),
         expiresAt: new Date(Date.now() + 900000),
       };
@@ -246,8 +252,10 @@ describe('WebhookService', () => {
         merchantId: TEST_MERCHANT_ID,
         address: 'kaspatest:qr0test123',
         amount: BigInt(100000000),
+        amountReceived: BigInt(100000000),
         status: 'confirming',
         confirmations: 0,
+        requiredConfirmations: 10,
         createdAt: new Date(),
         expiresAt: new Date(Date.now() + 900000),
       };
@@ -272,6 +280,7 @@ describe('WebhookService', () => {
         sessionId: '550e8400-e29b-41d4-a716-446655440000',
         merchantId: '550e8400-e29b-41d4-a716-446655440001',
         amount: '100000000',
+        amountReceived: '100000000',
         address: 'kaspatest:qr0test123',
         timestamp: '2024-01-01T00:00:00.000Z',
       };
@@ -304,8 +313,10 @@ describe('WebhookService', () => {
         merchantId: TEST_MERCHANT_ID,
         address: 'kaspatest:qr0test123',
         amount: BigInt(100000000),
+        amountReceived: BigInt(100000000),
         status: 'confirming',
         confirmations: 0,
+        requiredConfirmations: 10,
         createdAt: new Date(),
         expiresAt: new Date(Date.now() + 900000),
       };
@@ -334,8 +345,10 @@ describe('WebhookService', () => {
         merchantId: TEST_MERCHANT_ID,
         address: 'kaspatest:qr0test123',
         amount: BigInt(100000000),
+        amountReceived: BigInt(100000000),
         status: 'confirming',
         confirmations: 0,
+        requiredConfirmations: 10,
         createdAt: new Date(),
         expiresAt: new Date(Date.now() + 900000),
       };
@@ -356,8 +369,10 @@ describe('WebhookService', () => {
         merchantId: TEST_MERCHANT_ID,
         address: 'kaspatest:qr0test123',
         amount: BigInt(100000000),
+        amountReceived: BigInt(100000000),
         status: 'confirming',
         confirmations: 0,
+        requiredConfirmations: 10,
         createdAt: new Date(),
         expiresAt: new Date(Date.now() + 900000),
       };
@@ -371,4 +386,107 @@ describe('WebhookService', () => {
       );
     });
   });
+
+  describe('Registered Endpoints', () => {
+    const session: PaymentSession = {
+      id: TEST_SESSION_ID,
+      merchantId: TEST_MERCHANT_ID,
+      address: 'kaspatest:qr0test123',
+      amount: BigInt(100000000),
+      amountReceived: BigInt(100000000),
+      status: 'confirming',
+      confirmations: 0,
+      requiredConfirmations: 10,
+      createdAt: new Date(),
+      expiresAt: new Date(Date.now() + 900000),
+    };
+
+    it('should fan out only to endpoints subscribed to the event', async () => {
+      const service = getWebhookService();
+      createTestMerchant(null);
+      createTestSession();
+
+      const erp = service.createEndpoint(TEST_MERCHANT_ID, {
+        url: 'https://erp.example.com/hook',
+        events: ['payment.confirmed'],
+      });
+      service.createEndpoint(TEST_MERCHANT_ID, {
+        url: 'https://slack.example.com/hook',
+        events: ['payment.confirming', 'payment.confirmed'],
+      });
+
+      await service.sendWebhook(session, 'payment.confirming');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch.mock.calls[0][0]).toBe('https://slack.example.com/hook');
+
+      mockFetch.mockClear();
+      await service.sendWebhook(session, 'payment.confirmed');
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+
+      const logs = query<{ webhook_id: string | null }>(
+        'SELECT webhook_id FROM webhook_logs WHERE event = ?',
+        ['payment.confirmed']
+      );
+      expect(logs.map((l) => l.webhook_id)).toContain(erp.id);
+      expect(logs.every((l) => l.webhook_id !== null)).toBe(true);
+    });
+
+    it('should sign each endpoint with its own secret', async () => {
+      const service = getWebhookService();
+      createTestMerchant();
+      createTestSession();
+
+      const endpoint = service.createEndpoint(TEST_MERCHANT_ID, {
+        url: 'https://erp.example.com/hook',
+        events: ['payment.confirming'],
+      });
+
+      await service.sendWebhook(session, 'payment.confirming');
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+
+      const call = mockFetch.mock.calls.find((c) => c[0] === 'https://erp.example.com/hook')!;
+      const signature = call[1].headers['X-KasGate-Signature'];
+
+      expect(service.verifySignature(call[1].body, signature, endpoint.secret)).toBe(true);
+      expect(service.verifySignature(call[1].body, signature, 'whsec_testsecret123')).toBe(false);
+    });
+
+    it('should skip inactive and deleted endpoints', async () => {
+      const service = getWebhookService();
+      createTestMerchant(null);
+      createTestSession();
+
+      const paused = service.createEndpoint(TEST_MERCHANT_ID, {
+        url: 'https://paused.example.com/hook',
+        events: ['payment.confirming'],
+      });
+      const removed = service.createEndpoint(TEST_MERCHANT_ID, {
+        url: 'https://removed.example.com/hook',
+        events: ['payment.confirming'],
+      });
+
+      service.updateEndpoint(TEST_MERCHANT_ID, paused.id, { active: false });
+      expect(service.deleteEndpoint(TEST_MERCHANT_ID, removed.id)).toBe(true);
+
+      await service.sendWebhook(session, 'payment.confirming');
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(service.listEndpoints(TEST_MERCHANT_ID).map((e) => e.id)).toEqual([paused.id]);
+    });
+
+    it('should not expose endpoints to other merchants', () => {
+      const service = getWebhookService();
+      createTestMerchant();
+
+      const endpoint = service.createEndpoint(TEST_MERCHANT_ID, {
+        url: 'https://erp.example.com/hook',
+        events: ['payment.confirmed'],
+      });
+
+      const otherMerchantId = '550e8400-e29b-41d4-a716-446655440099';
+      expect(service.getEndpoint(otherMerchantId, endpoint.id)).toBeNull();
+      expect(service.updateEndpoint(otherMerchantId, endpoint.id, { active: false })).toBeNull();
+      expect(service.deleteEndpoint(otherMerchantId, endpoint.id)).toBe(false);
+    });
+  });
 });
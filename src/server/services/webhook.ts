@@ -3,19 +3,46 @@
  *
  * Handles webhook registration, delivery, and retry logic.
  * Uses HMAC-SHA256 for payload signing.
+ *
+ * Each event is delivered to the merchant's primary webhook URL (if set)
+ * and to every active registered endpoint subscribed to that event. Each
+ * registered endpoint signs with its own secret.
  */
 
 import crypto from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
 import { query, queryOne, execute, toJson, fromJson, toSqliteDate } from '../db/index.js';
 import { WEBHOOK_MAX_RETRIES, WEBHOOK_TIMEOUT_MS, WEBHOOK_RETRY_BASE_MS } from '../../shared/constants.js';
+import { getSessionManager } from './session.js';
+import { getEncryptionService } from './encryption.js';
 import type { PaymentSession } from '../../kaspa/types.js';
-import type { WebhookEvent, WebhookPayload } from '../../shared/validation.js';
+import type { WebhookEvent, WebhookPayload, WebhookRefund } from '../../shared/validation.js';
 
 // ============================================================
 // TYPES
 // ============================================================
 
+export interface WebhookEndpoint {
+  id: string;
+  merchantId: string;
+  url: string;
+  events: WebhookEvent[];
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateWebhookEndpointInput {
+  url: string;
+  events: WebhookEvent[];
+}
+
+export interface UpdateWebhookEndpointInput {
+  url?: string;
+  events?: WebhookEvent[];
+  active?: boolean;
+}
+
 interface WebhookRow {
   id: string;
   merchant_id: string;
@@ -25,11 +52,12 @@ interface WebhookRow {
   active: number;
   created_at: string;
   updated_at: string;
+  deleted_at: string | null;
 }
 
 interface WebhookLogRow {
   id: string;
-  webhook_id: string;
+  webhook_id: string | null;
   session_id: string;
   event: string;
   payload: string;
@@ -47,6 +75,15 @@ interface MerchantWebhookInfo {
   webhook_secret: string | null;
 }
 
+/**
+ * A resolved delivery target (primary merchant URL or registered endpoint)
+ */
+interface WebhookTarget {
+  webhookId: string | null;
+  url: string;
+  secret: string;
+}
+
 // ============================================================
 // WEBHOOK SERVICE CLASS
 // ============================================================
@@ -55,57 +92,19 @@ export class WebhookService {
   private retryInterval: NodeJS.Timeout | null = null;
 
   /**
-   * Send a webhook for a payment session
-   *
-   * Bug #14: Replay protection is implemented via:
-   * - Unique deliveryId per webhook delivery (for idempotency)
-   * - Timestamp included in HMAC signature (to prevent replay after window)
-   * - Merchants should verify timestamp is within 5 minutes of current time
+   * Send a webhook for a payment session to every target subscribed to the event
+   * @param refund - refund details for refund.* events
    */
-  async sendWebhook(session: PaymentSession, event: WebhookEvent): Promise<void> {
-    // Get merchant webhook configuration
-    const merchant = queryOne<MerchantWebhookInfo>(
-      'SELECT webhook_url, webhook_secret FROM merchants WHERE id = ?',
-      [session.merchantId]
-    );
+  async sendWebhook(session: PaymentSession, event: WebhookEvent, refund?: WebhookRefund): Promise<void> {
+    const targets = this.getTargetsForEvent(session.merchantId, event);
 
-    if (!merchant?.webhook_url) {
+    if (targets.length === 0) {
       console.log(`[KasGate] No webhook configured for merchant ${session.merchantId}`);
       return;
     }
 
-    // Bug #14: Generate unique delivery ID for idempotency/replay protection
-    const deliveryId = uuidv4();
-
-    // Create payload
-    const payload: WebhookPayload = {
-      event,
-      sessionId: session.id,
-      merchantId: session.merchantId,
-      amount: session.amount.toString(),
-      address: session.address,
-      txId: session.txId,
-      confirmations: session.confirmations,
-      orderId: session.orderId,
-      metadata: session.metadata,
-      timestamp: new Date().toISOString(),
-      deliveryId, // Bug #14: Unique ID for idempotency
-    };
-
-    // Sign the payload (includes timestamp and deliveryId for replay protection)
-    const signature = this.signPayload(payload, merchant.webhook_secret || '');
-
-    // Create log entry (Bug #14: store delivery_id for idempotency tracking)
-    // webhook_id is null for direct merchant webhooks (vs registered webhooks)
-    const logId = uuidv4();
-    execute(
-      `INSERT INTO webhook_logs (id, webhook_id, session_id, event, payload, delivery_id, attempts, created_at)
-       VALUES (?, ?, ?, ?, ?, ?, ?, datetime('now'))`,
-      [logId, null, session.id, event, toJson(payload), deliveryId, 0]
-    );
-
-    // Attempt delivery
-    await this.deliverWebhook(logId, merchant.webhook_url, payload, signature);
+    // Deliver to all targets in parallel so one slow endpoint doesn't delay the rest
+    await Promise.all(targets.map((target) => this.sendToTarget(session, event, target, refund)));
   }
 
   /**
@@ -232,10 +231,302 @@ export class WebhookService {
     return true;
   }
 
+  /**
+   * Register a new webhook endpoint for a merchant
+   * @returns the endpoint and its signing secret (only returned once)
+   */
+  createEndpoint(
+    merchantId: string,
+    input: CreateWebhookEndpointInput
+  ): WebhookEndpoint & { secret: string } {
+    const id = uuidv4();
+    const secret = this.generateSecret();
+    const now = new Date();
+
+    execute(
+      `INSERT INTO webhooks (id, merchant_id, url, secret, events, active, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, 1, ?, ?)`,
+      [id, merchantId, input.url, getEncryptionService().encrypt(secret), toJson(input.events), toSqliteDate(now), toSqliteDate(now)]
+    );
+
+    console.log(`[KasGate] Registered webhook endpoint ${id} for merchant ${merchantId}`);
+
+    return {
+      id,
+      merchantId,
+      url: input.url,
+      events: input.events,
+      active: true,
+      createdAt: now,
+      updatedAt: now,
+      secret,
+    };
+  }
+
+  /**
+   * List a merchant's registered webhook endpoints
+   */
+  listEndpoints(merchantId: string): WebhookEndpoint[] {
+    const rows = query<WebhookRow>(
+      `SELECT * FROM webhooks
+       WHERE merchant_id = ? AND deleted_at IS NULL
+       ORDER BY created_at ASC`,
+      [merchantId]
+    );
+
+    return rows.map((row) => this.rowToEndpoint(row));
+  }
+
+  /**
+   * Get a registered webhook endpoint owned by a merchant
+   */
+  getEndpoint(merchantId: string, webhookId: string): WebhookEndpoint | null {
+    const row = queryOne<WebhookRow>(
+      'SELECT * FROM webhooks WHERE id = ? AND merchant_id = ? AND deleted_at IS NULL',
+      [webhookId, merchantId]
+    );
+
+    return row ? this.rowToEndpoint(row) : null;
+  }
+
+  /**
+   * Update a registered webhook endpoint
+   */
+  updateEndpoint(
+    merchantId: string,
+    webhookId: string,
+    input: UpdateWebhookEndpointInput
+  ): WebhookEndpoint | null {
+    const endpoint = this.getEndpoint(merchantId, webhookId);
+    if (!endpoint) return null;
+
+    const updates: string[] = [];
+    const params: any[] = [];
+
+    if (input.url !== undefined) {
+      updates.push('url = ?');
+      params.push(input.url);
+    }
+
+    if (input.events !== undefined) {
+      updates.push('events = ?');
+      params.push(toJson(input.events));
+    }
+
+    if (input.active !== undefined) {
+      updates.push('active = ?');
+      params.push(input.active ? 1 : 0);
+    }
+
+    if (updates.length === 0) {
+      return endpoint;
+    }
+
+    updates.push("updated_at = datetime('now')");
+    params.push(webhookId);
+
+    execute(
+      `UPDATE webhooks SET ${updates.join(', ')} WHERE id = ?`,
+      params
+    );
+
+    return this.getEndpoint(merchantId, webhookId);
+  }
+
+  /**
+   * Delete a registered webhook endpoint
+   *
+   * Soft delete so existing delivery logs stay linked; pending retries are cancelled.
+   */
+  deleteEndpoint(merchantId: string, webhookId: string): boolean {
+    const result = execute(
+      `UPDATE webhooks
+       SET active = 0, deleted_at = datetime('now'), updated_at = datetime('now')
+       WHERE id = ? AND merchant_id = ? AND deleted_at IS NULL`,
+      [webhookId, merchantId]
+    );
+
+    if (result.changes === 0) return false;
+
+    execute(
+      'UPDATE webhook_logs SET next_retry_at = NULL WHERE webhook_id = ? AND delivered_at IS NULL',
+      [webhookId]
+    );
+
+    console.log(`[KasGate] Deleted webhook endpoint ${webhookId} for merchant ${merchantId}`);
+
+    return true;
+  }
+
+  /**
+   * Regenerate the signing secret for a registered webhook endpoint
+   */
+  regenerateEndpointSecret(merchantId: string, webhookId: string): string | null {
+    const endpoint = this.getEndpoint(merchantId, webhookId);
+    if (!endpoint) return null;
+
+    const newSecret = this.generateSecret();
+
+    execute(
+      "UPDATE webhooks SET secret = ?, updated_at = datetime('now') WHERE id = ?",
+      [getEncryptionService().encrypt(newSecret), webhookId]
+    );
+
+    console.log(`[KasGate] Regenerated secret for webhook endpoint ${webhookId}`);
+
+    return newSecret;
+  }
+
   // ============================================================
   // PRIVATE METHODS
   // ============================================================
 
+  /**
+   * Resolve every delivery target for an event: the merchant's primary
+   * webhook URL plus each active registered endpoint subscribed to the event
+   */
+  private getTargetsForEvent(merchantId: string, event: WebhookEvent): WebhookTarget[] {
+    const targets: WebhookTarget[] = [];
+
+    const merchant = queryOne<MerchantWebhookInfo>(
+      'SELECT webhook_url, webhook_secret FROM merchants WHERE id = ?',
+      [merchantId]
+    );
+
+    if (merchant?.webhook_url) {
+      targets.push({
+        webhookId: null,
+        url: merchant.webhook_url,
+        secret: this.decryptSecret(merchant.webhook_secret),
+      });
+    }
+
+    const rows = query<WebhookRow>(
+      `SELECT * FROM webhooks
+       WHERE merchant_id = ? AND active = 1 AND deleted_at IS NULL`,
+      [merchantId]
+    );
+
+    for (const row of rows) {
+      const events = fromJson<WebhookEvent[]>(row.events) || [];
+      if (events.includes(event)) {
+        targets.push({ webhookId: row.id, url: row.url, secret: this.decryptSecret(row.secret) });
+      }
+    }
+
+    return targets;
+  }
+
+  /**
+   * Resolve the delivery target for an existing log entry (for retries)
+   */
+  private getTargetForLog(log: WebhookLogRow): WebhookTarget | null {
+    if (log.webhook_id) {
+      const row = queryOne<WebhookRow>(
+        'SELECT * FROM webhooks WHERE id = ? AND active = 1 AND deleted_at IS NULL',
+        [log.webhook_id]
+      );
+
+      return row ? { webhookId: row.id, url: row.url, secret: this.decryptSecret(row.secret) } : null;
+    }
+
+    const merchant = queryOne<MerchantWebhookInfo>(
+      `SELECT m.webhook_url, m.webhook_secret
+       FROM sessions s
+       JOIN merchants m ON s.merchant_id = m.id
+       WHERE s.id = ?`,
+      [log.session_id]
+    );
+
+    if (!merchant?.webhook_url) return null;
+
+    return { webhookId: null, url: merchant.webhook_url, secret: this.decryptSecret(merchant.webhook_secret) };
+  }
+
+  /**
+   * Build, log, and deliver one webhook to a single target
+   *
+   * Bug #14: Replay protection is implemented via:
+   * - Unique deliveryId per webhook delivery (for idempotency)
+   * - Timestamp included in HMAC signature (to prevent replay after window)
+   * - Merchants should verify timestamp is within 5 minutes of current time
+   */
+  private async sendToTarget(
+    session: PaymentSession,
+    event: WebhookEvent,
+    target: WebhookTarget,
+    refund?: WebhookRefund
+  ): Promise<void> {
+    // Bug #14: Generate unique delivery ID for idempotency/replay protection
+    const deliveryId = uuidv4();
+
+    // Create payload
+    const payload: WebhookPayload = {
+      event,
+      sessionId: session.id,
+      merchantId: session.merchantId,
+      amount: session.amount.toString(),
+      amountReceived: session.amountReceived.toString(),
+      address: session.address,
+      txId: session.txId,
+      payments: getSessionManager().getPayments(session.id).map((payment) => ({
+        txId: payment.txId,
+        outputIndex: payment.outputIndex,
+        amount: payment.amount.toString(),
+        blockDaaScore: payment.blockDaaScore.toString(),
+      })),
+      confirmations: session.confirmations,
+      orderId: session.orderId,
+      metadata: session.metadata,
+      fiatAmount: session.fiatAmount,
+      fiatCurrency: session.fiatCurrency,
+      exchangeRate: session.exchangeRate,
+      cancellationReason: session.cancellationReason,
+      latePaymentStatus: session.latePaymentStatus,
+      failureReason: session.failureReason,
+      refund,
+      timestamp: new Date().toISOString(),
+      deliveryId, // Bug #14: Unique ID for idempotency
+    };
+
+    // Sign the payload (includes timestamp and deliveryId for replay protection)
+    const signature = this.signPayload(payload, target.secret);
+
+    // Create log entry (Bug #14: store delivery_id for idempotency tracking)
+    // webhook_id is null for the merchant's primary webhook URL
+    const logId = uuidv4();
+    execute(
+      `INSERT INTO webhook_logs (id, webhook_id, session_id, event, payload, delivery_id, attempts, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, datetime('now'))`,
+      [logId, target.webhookId, session.id, event, toJson(payload), deliveryId, 0]
+    );
+
+    // Attempt delivery
+    await this.deliverWebhook(logId, target.url, payload, signature);
+  }
+
+  private rowToEndpoint(row: WebhookRow): WebhookEndpoint {
+    return {
+      id: row.id,
+      merchantId: row.merchant_id,
+      url: row.url,
+      events: fromJson<WebhookEvent[]>(row.events) || [],
+      active: row.active === 1,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  private generateSecret(): string {
+    // Format: whsec_[32 random chars]
+    const random = crypto.randomBytes(24).toString('base64url');
+    return `whsec_${random}`;
+  }
+
+  private decryptSecret(secret: string | null): string {
+    return secret ? getEncryptionService().decrypt(secret) : '';
+  }
+
   private async deliverWebhook(
     logId: string,
     url: string,
@@ -324,10 +615,8 @@ export class WebhookService {
 
   private async processRetries(): Promise<void> {
     const logs = query<WebhookLogRow>(
-      `SELECT wl.*, m.webhook_url, m.webhook_secret
+      `SELECT wl.*
        FROM webhook_logs wl
-       JOIN sessions s ON wl.session_id = s.id
-       JOIN merchants m ON s.merchant_id = m.id
        WHERE wl.next_retry_at IS NOT NULL
          AND wl.next_retry_at <= datetime('now')
          AND wl.delivered_at IS NULL
@@ -339,19 +628,12 @@ export class WebhookService {
       const payload = fromJson<WebhookPayload>(log.payload);
       if (!payload) continue;
 
-      // Get merchant info
-      const merchant = queryOne<MerchantWebhookInfo>(
-        `SELECT m.webhook_url, m.webhook_secret
-         FROM sessions s
-         JOIN merchants m ON s.merchant_id = m.id
-         WHERE s.id = ?`,
-        [log.session_id]
-      );
-
-      if (!merchant?.webhook_url) continue;
+      // Retries go back to the same target (primary URL or registered endpoint)
+      const target = this.getTargetForLog(log);
+      if (!target) continue;
 
-      const signature = this.signPayload(payload, merchant.webhook_secret || '');
-      await this.deliverWebhook(log.id, merchant.webhook_url, payload, signature);
+      const signature = this.signPayload(payload, target.secret);
+      await this.deliverWebhook(log.id, target.url, payload, signature);
     }
   }
 }
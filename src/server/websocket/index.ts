@@ -21,6 +21,9 @@ export interface StatusUpdate {
   status?: string;
   confirmations?: number;
   required?: number;
+  amountReceived?: string;
+  amountRemaining?: string;
+  reason?: string;
   error?: string;
 }
 
@@ -162,7 +165,7 @@ export class WebSocketManager {
       try {
         const data = JSON.parse(raw.toString());
         this.handleMessage(ws, clientId, data);
-      } catch (error) {
+      } catch {
         this.sendTo(ws, { type: 'error', message: 'Invalid message format' });
       }
     });
@@ -245,6 +248,7 @@ export class WebSocketManager {
       id: session.id,
       status: session.status,
       confirmations: session.confirmations,
+      requiredConfirmations: session.requiredConfirmations,
       address: session.address,
       amount: session.amount.toString(),
       expiresAt: session.expiresAt.toISOString(),
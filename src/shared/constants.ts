@@ -21,6 +21,27 @@ export const MIN_AMOUNT_SOMPI = 100_000n; // 0.001 KAS
  */
 export const DEFAULT_CONFIRMATIONS = 10;
 
+/**
+ * Bounds for merchant and per-session confirmation thresholds
+ */
+export const MIN_CONFIRMATIONS = 1;
+export const MAX_CONFIRMATIONS = 1000;
+
+/**
+ * Maximum amount tiers in a merchant's confirmation policy
+ */
+export const MAX_CONFIRMATION_POLICY_TIERS = 10;
+
+/**
+ * Maximum length of a merchant's payment URI label or message template
+ */
+export const MAX_PAYMENT_TEMPLATE_LENGTH = 100;
+
+/**
+ * Maximum origins a merchant's publishable key may be used from
+ */
+export const MAX_ALLOWED_ORIGINS = 20;
+
 // ============================================================
 // SESSION CONSTANTS
 // ============================================================
@@ -35,15 +56,75 @@ export const SESSION_EXPIRY_MINUTES = 15;
  */
 export const SESSION_EXPIRY_MS = SESSION_EXPIRY_MINUTES * 60 * 1000;
 
+/**
+ * Sessions expired per batch by the expiration worker
+ */
+export const SESSION_EXPIRY_BATCH_SIZE = 100;
+
+/**
+ * How long an expired or cancelled session's address stays watched for late payments (in minutes)
+ */
+export const LATE_PAYMENT_GRACE_MINUTES = 60;
+
+/**
+ * Maximum per-merchant payment tolerance in basis points (10%)
+ */
+export const MAX_PAYMENT_TOLERANCE_BPS = 1000;
+
+// ============================================================
+// PRICING CONSTANTS
+// ============================================================
+
+/**
+ * Fiat currencies sessions can be priced in
+ */
+export const SUPPORTED_FIAT_CURRENCIES = ['USD', 'EUR', 'GBP'] as const;
+
+/**
+ * How long a fiat quote's exchange rate is locked (in minutes)
+ */
+export const PRICE_QUOTE_EXPIRY_MINUTES = SESSION_EXPIRY_MINUTES;
+
+/**
+ * How long a fetched KAS price is reused before refetching
+ */
+export const PRICE_CACHE_TTL_MS = 60000;
+
+/**
+ * Decimal places kept for exchange rates (fiat per KAS)
+ */
+export const EXCHANGE_RATE_DECIMALS = 8;
+
 // ============================================================
 // POLLING & TIMING CONSTANTS
 // ============================================================
 
 /**
- * REST API polling interval (fallback when RPC unavailable)
+ * REST API polling interval (fallback when RPC unavailable) for freshly
+ * watched addresses; also how often the poller checks what is due
  */
 export const REST_POLL_INTERVAL_MS = 2000;
 
+/**
+ * Slowest REST polling interval, reached as a watched address nears session expiry
+ */
+export const REST_POLL_MAX_INTERVAL_MS = 10000;
+
+/**
+ * Addresses per batch UTXO request to the REST API
+ */
+export const REST_UTXO_BATCH_SIZE = 100;
+
+/**
+ * First backoff after the REST API answers 429 or 5xx (doubles per failure)
+ */
+export const REST_BACKOFF_BASE_MS = 2000;
+
+/**
+ * Longest REST API backoff
+ */
+export const REST_BACKOFF_MAX_MS = 60000;
+
 /**
  * RPC reconnection base delay
  */
@@ -54,11 +135,62 @@ export const RPC_RECONNECT_BASE_MS = 1000;
  */
 export const RPC_RECONNECT_MAX_MS = 30000;
 
+/**
+ * Weight of the latest request in an endpoint's smoothed latency and error rate
+ */
+export const ENDPOINT_SMOOTHING = 0.3;
+
+/**
+ * Latency assumed for an endpoint that has not been used yet; a busier
+ * endpoint slower than this gives way to an untried one
+ */
+export const ENDPOINT_UNMEASURED_LATENCY_MS = 1000;
+
+/**
+ * Score penalty of an endpoint that fails every request (scaled by error rate)
+ */
+export const ENDPOINT_ERROR_PENALTY_MS = 5000;
+
+/**
+ * Consecutive failures after which an endpoint is demoted
+ */
+export const ENDPOINT_MAX_FAILURES = 3;
+
+/**
+ * How long a demoted endpoint is passed over before it gets another chance
+ */
+export const ENDPOINT_DEMOTION_MS = 60000;
+
+/**
+ * DAA score difference between two sources worth a warning when cross-checking
+ */
+export const CROSS_CHECK_MAX_DRIFT = 10n;
+
+/**
+ * Block interval of the simulated network when the server runs on simnet
+ */
+export const SIMNET_BLOCK_INTERVAL_MS = 1000;
+
 /**
  * WebSocket heartbeat interval
  */
 export const WS_HEARTBEAT_INTERVAL_MS = 30000;
 
+/**
+ * Addresses balance-checked concurrently when building a balance report
+ */
+export const BALANCE_FETCH_BATCH_SIZE = 10;
+
+/**
+ * Pause between balance-check batches (keeps the public REST API happy)
+ */
+export const BALANCE_FETCH_BATCH_DELAY_MS = 250;
+
+/**
+ * How long a fetched address balance is reused
+ */
+export const BALANCE_CACHE_TTL_MS = 5 * 60 * 1000;
+
 // ============================================================
 // WEBHOOK CONSTANTS
 // ============================================================
@@ -78,6 +210,11 @@ export const WEBHOOK_TIMEOUT_MS = 10000;
  */
 export const WEBHOOK_RETRY_BASE_MS = 1000;
 
+/**
+ * Maximum registered webhook endpoints per merchant
+ */
+export const MAX_WEBHOOK_ENDPOINTS = 10;
+
 // ============================================================
 // HD DERIVATION CONSTANTS
 // ============================================================
@@ -88,6 +225,28 @@ export const WEBHOOK_RETRY_BASE_MS = 1000;
  */
 export const KASPA_COIN_TYPE = 111111;
 
+/**
+ * Default address gap limit (consecutive unused addresses wallets scan before stopping)
+ * Override with the ADDRESS_GAP_LIMIT environment variable.
+ */
+export const DEFAULT_ADDRESS_GAP_LIMIT = 20;
+
+/**
+ * Fraction of the gap limit at which merchants are warned
+ */
+export const ADDRESS_GAP_WARNING_RATIO = 0.75;
+
+/**
+ * Minimum time after expiry before an unfunded session's address index is reused
+ * (never shorter than the late-payment grace period, while the address is still watched)
+ */
+export const ADDRESS_RECYCLE_COOLDOWN_MINUTES = Math.max(60, LATE_PAYMENT_GRACE_MINUTES);
+
+/**
+ * Maximum recyclable indices balance-checked per address request
+ */
+export const ADDRESS_RECYCLE_MAX_CANDIDATES = 5;
+
 /**
  * Default derivation path template
  * m / purpose' / coin_type' / account' / change / address_index
@@ -110,6 +269,45 @@ export const WIDGET_MAX_WIDTH = 600;
  */
 export const WIDGET_ANIMATION_DURATION_MS = 300;
 
+// ============================================================
+// QR CODE CONSTANTS
+// ============================================================
+
+/**
+ * Rendered QR code width and height in pixels
+ */
+export const QR_DEFAULT_SIZE = 256;
+export const QR_MIN_SIZE = 64;
+export const QR_MAX_SIZE = 1024;
+
+/**
+ * Quiet zone around a QR code, in modules
+ */
+export const QR_DEFAULT_MARGIN = 2;
+export const QR_MAX_MARGIN = 16;
+
+/**
+ * Width of a centre logo as a fraction of the QR code's width (small enough
+ * for error correction to recover the modules it covers)
+ */
+export const QR_LOGO_SCALE = 0.2;
+
+/**
+ * Rendered QR codes kept in memory
+ */
+export const QR_CACHE_MAX_ENTRIES = 500;
+
+/**
+ * Maximum size of a merchant's logo image (decoded bytes)
+ */
+export const MAX_LOGO_BYTES = 64 * 1024;
+
+/**
+ * Maximum width and height of a merchant's logo in pixels (a small file can
+ * still decode to a huge image)
+ */
+export const MAX_LOGO_DIMENSION = QR_MAX_SIZE;
+
 // ============================================================
 // API CONSTANTS
 // ============================================================
@@ -123,3 +321,40 @@ export const MAX_PAGE_SIZE = 100;
  * Default page size
  */
 export const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * How long a stored Idempotency-Key response is replayed (in hours)
+ */
+export const IDEMPOTENCY_KEY_TTL_HOURS = 24;
+
+/**
+ * Maximum length of an Idempotency-Key header value
+ */
+export const IDEMPOTENCY_KEY_MAX_LENGTH = 255;
+
+/**
+ * Leading characters of an API key stored in plaintext, to find and recognise
+ * keys that are otherwise stored only as hashes
+ */
+export const API_KEY_PREFIX_LENGTH = 12;
+
+/**
+ * Maximum named API keys per merchant (revoked keys excluded)
+ */
+export const MAX_API_KEYS = 25;
+
+/**
+ * Maximum IP addresses or CIDR ranges in an API key's allowlist
+ */
+export const MAX_API_KEY_ALLOWED_IPS = 20;
+
+/**
+ * How long a rotated API key keeps working by default, and at most (in seconds)
+ */
+export const API_KEY_ROTATION_DEFAULT_GRACE_SECONDS = 24 * 60 * 60;
+export const API_KEY_ROTATION_MAX_GRACE_SECONDS = 30 * 24 * 60 * 60;
+
+/**
+ * Minimum time between writes of an API key's last-used timestamp (in seconds)
+ */
+export const API_KEY_LAST_USED_RESOLUTION_SECONDS = 60;
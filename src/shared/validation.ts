@@ -4,7 +4,7 @@
 
 import { z } from 'zod';
 import { NETWORK_CONFIG } from '../config/network.js';
-import { SOMPI_PER_KAS, MIN_AMOUNT_SOMPI } from './constants.js';
+import { SOMPI_PER_KAS, MIN_AMOUNT_SOMPI, SUPPORTED_FIAT_CURRENCIES } from './constants.js';
 
 // Bug #19: XPub validation helper - cached module to prevent memory leaks
 import * as kaspaWasm from '@dfns/kaspa-wasm';
@@ -21,7 +21,7 @@ export function validateXPubWithWasm(xpub: string): boolean {
       xpubInstance.free();
     }
     return true;
-  } catch (error) {
+  } catch {
     // XPub parsing failed - invalid format or key
     return false;
   }
@@ -33,9 +33,9 @@ export function validateXPubWithWasm(xpub: string): boolean {
 
 /**
  * Kaspa address validation regex
- * Matches: kaspa:qr... or kaspatest:qr...
+ * Matches: kaspa:qr..., kaspatest:qr... or kaspasim:qr...
  */
-const addressRegex = /^(kaspa|kaspatest):q[a-z0-9]{60,}$/;
+const addressRegex = /^(kaspa|kaspatest|kaspasim):q[a-z0-9]{60,}$/;
 
 /**
  * Validate a Kaspa address
@@ -67,6 +67,22 @@ export const kasAmountSchema = z.string().regex(/^\d+(\.\d{1,8})?$/, {
   message: 'Amount must be at least 0.001 KAS',
 });
 
+/**
+ * Fiat amount (as string, up to 2 decimal places)
+ */
+export const fiatAmountSchema = z.string().regex(/^\d+(\.\d{1,2})?$/, {
+  message: 'Invalid fiat amount format',
+}).refine((val) => Number(val) > 0, {
+  message: 'Fiat amount must be greater than 0',
+});
+
+/**
+ * Supported fiat currency code
+ */
+export const fiatCurrencySchema = z.enum(SUPPORTED_FIAT_CURRENCIES);
+
+export type FiatCurrency = z.infer<typeof fiatCurrencySchema>;
+
 /**
  * Amount in sompi (as string or number, converted to bigint)
  */
@@ -94,14 +110,22 @@ export const sessionIdSchema = z.string().uuid({
  */
 export const sessionStatusSchema = z.enum([
   'pending',
+  'underpaid',
   'confirming',
   'confirmed',
+  'overpaid',
   'expired',
+  'cancelled',
   'failed',
 ]);
 
 export type SessionStatus = z.infer<typeof sessionStatusSchema>;
 
+/**
+ * Merchant decision on a payment that arrived after the session ended
+ */
+export const latePaymentStatusSchema = z.enum(['pending', 'accepted', 'refund']);
+
 // ============================================================
 // MERCHANT VALIDATION
 // ============================================================
@@ -161,14 +185,58 @@ export const getSessionParamsSchema = z.object({
  */
 export const webhookEventSchema = z.enum([
   'payment.pending',
+  'payment.underpaid',
+  'payment.overpaid',
   'payment.confirming',
   'payment.confirmed',
   'payment.expired',
+  'payment.cancelled',
   'payment.failed',
+  'payment.late',
+  'refund.created',
+  'refund.completed',
 ]);
 
 export type WebhookEvent = z.infer<typeof webhookEventSchema>;
 
+/**
+ * Scopes of a merchant's named API keys
+ */
+export const apiKeyScopeSchema = z.enum([
+  'sessions:write',
+  'sessions:read',
+  'webhooks:manage',
+  'analytics:read',
+]);
+
+export type ApiKeyScope = z.infer<typeof apiKeyScopeSchema>;
+
+/**
+ * Refund details included in refund.* webhook payloads
+ */
+export const webhookRefundSchema = z.object({
+  id: z.string().uuid(),
+  amount: z.string(), // sompi as string
+  address: z.string(),
+  reason: z.string().optional(),
+  status: z.enum(['pending', 'completed']),
+  txId: z.string().optional(),
+});
+
+export type WebhookRefund = z.infer<typeof webhookRefundSchema>;
+
+/**
+ * A transaction output received by the session, included in webhook payloads
+ */
+export const webhookPaymentSchema = z.object({
+  txId: z.string(),
+  outputIndex: z.number().int().min(0),
+  amount: z.string(), // sompi as string
+  blockDaaScore: z.string(),
+});
+
+export type WebhookPayment = z.infer<typeof webhookPaymentSchema>;
+
 /**
  * Webhook payload
  *
@@ -183,11 +251,20 @@ export const webhookPayloadSchema = z.object({
   sessionId: sessionIdSchema,
   merchantId: z.string().uuid(),
   amount: z.string(), // sompi as string
+  amountReceived: z.string(), // sompi as string
   address: z.string(),
   txId: z.string().optional(),
+  payments: z.array(webhookPaymentSchema).optional(), // Every output received so far
   confirmations: z.number().int().min(0).optional(),
   orderId: z.string().optional(),
   metadata: z.record(z.string()).optional(),
+  fiatAmount: z.string().optional(), // Only for fiat-priced sessions
+  fiatCurrency: z.string().optional(),
+  exchangeRate: z.string().optional(), // Quoted fiat per KAS
+  cancellationReason: z.string().optional(), // Only for payment.cancelled
+  latePaymentStatus: latePaymentStatusSchema.optional(), // Set once funds arrived after expiry or cancellation
+  failureReason: z.enum(['reorged', 'double_spent']).optional(), // Only for payment.failed
+  refund: webhookRefundSchema.optional(), // Only for refund.* events
   timestamp: z.string().datetime(),
   deliveryId: z.string().uuid(), // Bug #14: Unique ID for idempotency/replay protection
 });
@@ -11,24 +11,31 @@ import { ApiClient, SessionResponse } from './utils/api.js';
 import { SocketClient } from './utils/socket.js';
 import { formatTimeRemaining, formatKasAmount, copyToClipboard, icons } from './utils/formatters.js';
 import { isKaswareInstalled, connectKasware, sendWithKasware } from './integrations/kasware.js';
+import { buildPaymentUri, parsePaymentUri, type KaspaPaymentUri } from '../kaspa/uri.js';
 
 // ============================================================
 // TYPES
 // ============================================================
 
-export type WidgetState = 'idle' | 'loading' | 'ready' | 'waiting' | 'confirming' | 'confirmed' | 'expired' | 'error';
+export type WidgetState = 'idle' | 'loading' | 'ready' | 'waiting' | 'underpaid' | 'confirming' | 'confirmed' | 'expired' | 'cancelled' | 'error';
 type PaymentMethod = 'select' | 'address' | 'qrcode' | 'wallet';
 
 export interface KasGateConfig {
   merchantId: string;
-  amount: string;
+  /** Price in KAS (omit when pricing in fiat) */
+  amount?: string;
+  /** Price in fiat, converted to KAS at a locked rate (requires currency) */
+  fiatAmount?: string;
+  currency?: string;
   serverUrl?: string;
+  /** Publishable (pk_) key; never embed the secret key */
   apiKey?: string;
   orderId?: string;
   metadata?: Record<string, string>;
   theme?: 'light' | 'dark';
   onConfirmed?: (session: SessionResponse) => void;
   onExpired?: (session: SessionResponse) => void;
+  onCancelled?: (session: SessionResponse) => void;
   onError?: (error: Error) => void;
 }
 
@@ -49,7 +56,7 @@ export class KasGateElement extends HTMLElement {
   private pollInterval: ReturnType<typeof setInterval> | null = null;
 
   static get observedAttributes() {
-    return ['merchant-id', 'amount', 'server-url', 'api-key', 'order-id', 'theme'];
+    return ['merchant-id', 'amount', 'fiat-amount', 'currency', 'server-url', 'api-key', 'order-id', 'theme'];
   }
 
   constructor() {
@@ -65,7 +72,7 @@ export class KasGateElement extends HTMLElement {
     this.initFromAttributes();
     this.render();
 
-    if (this.config?.merchantId && this.config?.amount) {
+    if (this.config?.merchantId && (this.config?.amount || this.config?.fiatAmount)) {
       this.start();
     }
   }
@@ -97,6 +104,21 @@ export class KasGateElement extends HTMLElement {
     return this.state;
   }
 
+  /**
+   * Cancel the pending payment (e.g. the customer backs out of checkout)
+   */
+  async cancel(reason?: string): Promise<void> {
+    if (!this.api || !this.session || this.session.status !== 'pending') return;
+
+    try {
+      await this.api.cancelSession(this.session.id, this.session.subscriptionToken, reason);
+      this.handleStatusUpdate({ status: 'cancelled' });
+    } catch (error) {
+      console.error('[KasGate Widget] Failed to cancel session:', error);
+      this.config?.onError?.(error as Error);
+    }
+  }
+
   reset(): void {
     this.cleanup();
     this.session = null;
@@ -111,22 +133,29 @@ export class KasGateElement extends HTMLElement {
 
   private initFromAttributes(): void {
     const merchantId = this.getAttribute('merchant-id') || '';
-    const amount = this.getAttribute('amount') || '';
+    const amount = this.getAttribute('amount') || undefined;
+    const fiatAmount = this.getAttribute('fiat-amount') || undefined;
+    const currency = this.getAttribute('currency') || undefined;
     const serverUrl = this.getAttribute('server-url') || window.location.origin;
     const apiKey = this.getAttribute('api-key') || '';
     const orderId = this.getAttribute('order-id') || undefined;
     const theme = (this.getAttribute('theme') as 'light' | 'dark') || 'light';
 
-    this.config = { merchantId, amount, serverUrl, apiKey, orderId, theme };
+    this.config = { merchantId, amount, fiatAmount, currency, serverUrl, apiKey, orderId, theme };
   }
 
   private async start(): Promise<void> {
-    if (!this.config?.merchantId || !this.config?.amount || !this.config?.apiKey) {
+    const hasPrice = !!this.config?.amount || (!!this.config?.fiatAmount && !!this.config?.currency);
+    if (!this.config?.merchantId || !hasPrice || !this.config?.apiKey) {
       this.setState('error');
       this.showError('Missing required configuration');
       return;
     }
 
+    if (!this.config.apiKey.startsWith('pk_')) {
+      console.warn('[KasGate] api-key should be your publishable (pk_) key; a secret key in page HTML gives anyone full access to your account');
+    }
+
     this.setState('loading');
 
     try {
@@ -134,6 +163,8 @@ export class KasGateElement extends HTMLElement {
 
       this.session = await this.api.createSession({
         amount: this.config.amount,
+        fiatAmount: this.config.fiatAmount,
+        currency: this.config.currency,
         orderId: this.config.orderId,
         metadata: this.config.metadata,
       });
@@ -167,8 +198,59 @@ export class KasGateElement extends HTMLElement {
     }));
   }
 
+  /** Any network but mainnet (testnet or simnet), where mobile wallets can't pay */
   private get isTestnet(): boolean {
-    return this.session?.address?.startsWith('kaspatest:') ?? false;
+    return !(this.session?.address?.startsWith('kaspa:') ?? true);
+  }
+
+  /** Amount still to send: the remainder after a partial payment, otherwise the full amount */
+  private get amountDueSompi(): string {
+    if (this.session?.status === 'underpaid' && this.session.amountRemainingSompi) {
+      return this.session.amountRemainingSompi;
+    }
+    return this.session?.amountSompi ?? '0';
+  }
+
+  /**
+   * Payment URI for the amount due, keeping the label and message of the
+   * server's URI
+   */
+  private get paymentUri(): string {
+    if (!this.session) return '';
+
+    let uri: KaspaPaymentUri = { address: this.session.address };
+    if (this.session.paymentUri) {
+      try {
+        uri = parsePaymentUri(this.session.paymentUri);
+      } catch {
+        // Fall back to the bare address
+      }
+    }
+    return buildPaymentUri({ ...uri, amount: BigInt(this.amountDueSompi) });
+  }
+
+  /**
+   * QR code image for the amount due; the amount is added to the URL so the
+   * image is refetched when a partial payment changes it
+   */
+  private get qrImageUrl(): string {
+    if (!this.session || !this.api) return '';
+    return `${this.api.resolveUrl(this.session.qrUrl)}?v=${this.amountDueSompi}`;
+  }
+
+  /** Link that opens the customer's wallet with the payment filled in */
+  private get openWalletHtml(): string {
+    return `
+      <a class="kg-button kg-button-secondary kg-open-wallet" href="${this.paymentUri}">
+        ${icons.wallet} Open in Wallet
+      </a>
+    `;
+  }
+
+  /** Fiat price line shown under the KAS amount for fiat-priced sessions */
+  private get fiatAmountHtml(): string {
+    if (!this.session?.fiatAmount || !this.session.currency) return '';
+    return `<div class="kg-header-fiat">≈ ${this.session.fiatAmount} ${this.session.currency}</div>`;
   }
 
   // ============================================================
@@ -180,14 +262,25 @@ export class KasGateElement extends HTMLElement {
 
     if (update.status) this.session.status = update.status;
     if (update.confirmations !== undefined) this.session.confirmations = update.confirmations;
-    if (update.requiredConfirmations !== undefined) this.session.requiredConfirmations = update.requiredConfirmations;
+    // WebSocket updates send required, the status endpoint requiredConfirmations
+    const required = update.requiredConfirmations ?? update.required;
+    if (required !== undefined) this.session.requiredConfirmations = required;
     if (update.txId) this.session.txId = update.txId;
+    // WebSocket updates send amountReceived/amountRemaining, the status endpoint *Sompi
+    const amountReceived = update.amountReceivedSompi ?? update.amountReceived;
+    const amountRemaining = update.amountRemainingSompi ?? update.amountRemaining;
+    if (amountReceived !== undefined) this.session.amountReceivedSompi = amountReceived;
+    if (amountRemaining !== undefined) this.session.amountRemainingSompi = amountRemaining;
 
     switch (this.session.status) {
+      case 'underpaid':
+        this.setState('underpaid');
+        break;
       case 'confirming':
         this.setState('confirming');
         break;
       case 'confirmed':
+      case 'overpaid':
         this.setState('confirmed');
         this.config?.onConfirmed?.(this.session);
         this.cleanup();
@@ -197,6 +290,20 @@ export class KasGateElement extends HTMLElement {
         this.config?.onExpired?.(this.session);
         this.cleanup();
         break;
+      case 'cancelled':
+        this.setState('cancelled');
+        this.config?.onCancelled?.(this.session);
+        this.cleanup();
+        break;
+      case 'failed': {
+        // The payment was reorged out or double-spent while confirming
+        const error = new Error('Your payment was reversed on the network and could not be completed.');
+        this.setState('error');
+        this.showError(error.message);
+        this.config?.onError?.(error);
+        this.cleanup();
+        break;
+      }
     }
   }
 
@@ -256,18 +363,18 @@ export class KasGateElement extends HTMLElement {
   // PRIVATE — USER ACTIONS
   // ============================================================
 
-  private async handleCopyAddress(): Promise<void> {
+  private async handleCopyPaymentUri(): Promise<void> {
     if (!this.session) return;
     const button = this.shadow.querySelector('.kg-copy-button');
     if (!button) return;
 
-    const success = await copyToClipboard(this.session.address);
+    const success = await copyToClipboard(this.paymentUri);
     if (success) {
       button.classList.add('copied');
       button.innerHTML = `${icons.check} <span>Copied!</span>`;
       setTimeout(() => {
         button.classList.remove('copied');
-        button.innerHTML = `${icons.copy} <span>Copy Address</span>`;
+        button.innerHTML = `${icons.copy} <span>Copy Payment Link</span>`;
       }, 2000);
     }
   }
@@ -308,7 +415,7 @@ export class KasGateElement extends HTMLElement {
     button.innerHTML = `${icons.spinner} Sending...`;
 
     try {
-      const amountSompi = BigInt(this.session.amountSompi);
+      const amountSompi = BigInt(this.amountDueSompi);
       const txId = await sendWithKasware(this.session.address, amountSompi);
 
       if (txId) {
@@ -349,9 +456,11 @@ export class KasGateElement extends HTMLElement {
       case 'loading':    return this.renderLoading();
       case 'ready':
       case 'waiting':    return this.renderReadyOrWaiting();
+      case 'underpaid':  return this.renderUnderpaid();
       case 'confirming': return this.renderConfirming();
       case 'confirmed':  return this.renderConfirmed();
       case 'expired':    return this.renderExpired();
+      case 'cancelled':  return this.renderCancelled();
       case 'error':      return this.renderError();
       default:           return '';
     }
@@ -411,6 +520,7 @@ export class KasGateElement extends HTMLElement {
         <div class="kg-header">
           <div class="kg-header-title">Pay with Kaspa</div>
           <div class="kg-header-amount">${formatKasAmount(this.session.amountSompi)} KAS</div>
+          ${this.fiatAmountHtml}
         </div>
 
         <div class="kg-method-grid">
@@ -447,6 +557,9 @@ export class KasGateElement extends HTMLElement {
             ${icons.clock}
             <span>Expires in: <span class="kg-timer-value">${formatTimeRemaining(remaining)}</span></span>
           </div>
+          <button class="kg-button kg-button-secondary" data-action="cancel" style="margin-top: 12px;">
+            Cancel Payment
+          </button>
         </div>
 
         <div class="kg-footer">
@@ -476,6 +589,7 @@ export class KasGateElement extends HTMLElement {
         <div class="kg-header">
           <div class="kg-header-title">Send to Address</div>
           <div class="kg-header-amount">${amount} KAS</div>
+          ${this.fiatAmountHtml}
         </div>
 
         <div class="kg-body">
@@ -487,9 +601,11 @@ export class KasGateElement extends HTMLElement {
           </div>
 
           <button class="kg-copy-button">
-            ${icons.copy} <span>Copy Address</span>
+            ${icons.copy} <span>Copy Payment Link</span>
           </button>
 
+          ${this.openWalletHtml}
+
           ${this.isTestnet ? `
             <div class="kg-testnet-notice">
               <span>Testnet</span> — Use Kaspa-NG or Kasware to send
@@ -527,6 +643,7 @@ export class KasGateElement extends HTMLElement {
         <div class="kg-header">
           <div class="kg-header-title">Scan to Pay</div>
           <div class="kg-header-amount">${amount} KAS</div>
+          ${this.fiatAmountHtml}
         </div>
 
         <div class="kg-body">
@@ -538,9 +655,10 @@ export class KasGateElement extends HTMLElement {
             </div>
           ` : `
             <div class="kg-qr-container">
-              <img class="kg-qr-code" src="${this.session.qrCode}" alt="Payment QR Code" />
+              <img class="kg-qr-code" src="${this.qrImageUrl}" alt="Payment QR Code" />
             </div>
             <p class="kg-text-secondary">Scan with any Kaspa mobile wallet</p>
+            ${this.openWalletHtml}
           `}
 
           <div class="kg-timer">
@@ -562,7 +680,7 @@ export class KasGateElement extends HTMLElement {
     if (!this.session) return '';
     const remaining = new Date(this.session.expiresAt).getTime() - Date.now();
     const hasKasware = isKaswareInstalled();
-    const amount = formatKasAmount(this.session.amountSompi);
+    const amount = formatKasAmount(this.amountDueSompi);
 
     let walletContent: string;
 
@@ -606,6 +724,7 @@ export class KasGateElement extends HTMLElement {
         <div class="kg-header">
           <div class="kg-header-title">Connect Wallet</div>
           <div class="kg-header-amount">${amount} KAS</div>
+          ${this.fiatAmountHtml}
         </div>
 
         <div class="kg-body">
@@ -625,19 +744,65 @@ export class KasGateElement extends HTMLElement {
     `;
   }
 
-  // ---- Confirming / Confirmed / Expired / Error ----
+  // ---- Underpaid / Confirming / Confirmed / Expired / Error ----
+
+  private renderUnderpaid(): string {
+    if (!this.session) return '';
+    const remaining = new Date(this.session.expiresAt).getTime() - Date.now();
+    const received = formatKasAmount(this.session.amountReceivedSompi || '0');
+    const due = formatKasAmount(this.amountDueSompi);
+
+    return `
+      <div class="kg-container">
+        <div class="kg-header">
+          <div class="kg-header-title">Partial Payment Received</div>
+          <div class="kg-header-amount">${due} KAS</div>
+        </div>
+
+        <div class="kg-body">
+          <div class="kg-error-message kg-hidden"></div>
+
+          <p class="kg-text-secondary">
+            Received ${received} of ${formatKasAmount(this.session.amountSompi)} KAS.
+            Send the remaining ${due} KAS to the same address to complete your payment.
+          </p>
+
+          <div class="kg-address-container">
+            <div class="kg-address-label">Destination Address</div>
+            <div class="kg-address">${this.session.address}</div>
+          </div>
+
+          <button class="kg-copy-button">
+            ${icons.copy} <span>Copy Payment Link</span>
+          </button>
+
+          ${this.openWalletHtml}
+
+          <div class="kg-timer">
+            ${icons.clock}
+            <span>Expires in: <span class="kg-timer-value">${formatTimeRemaining(remaining)}</span></span>
+          </div>
+        </div>
+
+        <div class="kg-footer">
+          <div class="kg-powered-by">Powered by <a href="https://kaspa.org" target="_blank" rel="noopener">KasGate</a></div>
+        </div>
+      </div>
+    `;
+  }
 
   private renderConfirming(): string {
     if (!this.session) return '';
     const confirmations = this.session.confirmations || 0;
     const required = this.session.requiredConfirmations || 10;
-    const progress = (confirmations / required) * 100;
+    const progress = Math.min((confirmations / required) * 100, 100);
 
     return `
       <div class="kg-container">
         <div class="kg-header">
           <div class="kg-header-title">Payment Received!</div>
           <div class="kg-header-amount">${formatKasAmount(this.session.amountSompi)} KAS</div>
+          ${this.fiatAmountHtml}
         </div>
 
         <div class="kg-body">
@@ -733,6 +898,36 @@ export class KasGateElement extends HTMLElement {
     `;
   }
 
+  private renderCancelled(): string {
+    return `
+      <div class="kg-container">
+        <div class="kg-header" style="border-bottom: none;">
+          <div class="kg-header-title">Payment Cancelled</div>
+        </div>
+
+        <div class="kg-body">
+          <div class="kg-status">
+            <div style="font-size: 48px; color: var(--kg-text-secondary);">${icons.error}</div>
+            <p class="kg-status-title" >Payment Cancelled</p>
+            <p class="kg-status-message">
+              This payment session was cancelled. Do not send funds to its address.
+            </p>
+          </div>
+
+          <button class="kg-button kg-retry-button" >
+            Start New Payment
+          </button>
+        </div>
+
+        <div class="kg-footer">
+          <div class="kg-powered-by">
+            Powered by <a href="https://kaspa.org" target="_blank" rel="noopener">KasGate</a>
+          </div>
+        </div>
+      </div>
+    `;
+  }
+
   private renderError(): string {
     return `
       <div class="kg-container">
@@ -788,7 +983,7 @@ export class KasGateElement extends HTMLElement {
 
     // Copy button
     this.shadow.querySelector('.kg-copy-button')?.addEventListener('click', () => {
-      this.handleCopyAddress();
+      this.handleCopyPaymentUri();
     });
 
     // Connect wallet
@@ -801,6 +996,11 @@ export class KasGateElement extends HTMLElement {
       this.handleSendPayment();
     });
 
+    // Cancel button
+    this.shadow.querySelector('[data-action="cancel"]')?.addEventListener('click', () => {
+      this.cancel();
+    });
+
     // Retry button
     this.shadow.querySelector('.kg-retry-button')?.addEventListener('click', () => {
       this.reset();
@@ -35,6 +35,12 @@ export function createPayment(
   if (config.amount) {
     element.setAttribute('amount', config.amount);
   }
+  if (config.fiatAmount) {
+    element.setAttribute('fiat-amount', config.fiatAmount);
+  }
+  if (config.currency) {
+    element.setAttribute('currency', config.currency);
+  }
   if (config.serverUrl) {
     element.setAttribute('server-url', config.serverUrl);
   }
@@ -92,6 +92,12 @@ export const BASE_STYLES = `
     background-clip: text;
   }
 
+  .kg-header-fiat {
+    font-size: 13px;
+    color: var(--kg-text-secondary);
+    margin-top: 2px;
+  }
+
   /* ============ Body ============ */
 
   .kg-body {
@@ -298,6 +304,10 @@ export const BASE_STYLES = `
     border-color: var(--kg-success);
   }
 
+  .kg-open-wallet {
+    margin-top: 12px;
+  }
+
   /* ============ QR Code ============ */
 
   .kg-qr-container {
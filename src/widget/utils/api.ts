@@ -7,25 +7,39 @@ export interface SessionResponse {
   address: string;
   amount: string;
   amountSompi: string;
+  amountReceivedSompi?: string;
+  amountRemainingSompi?: string;
+  fiatAmount?: string;
+  currency?: string;
+  exchangeRate?: string;
+  quoteExpiresAt?: string;
   status: string;
   confirmations: number;
   requiredConfirmations: number;
   txId?: string;
   orderId?: string;
-  qrCode: string;
+  /** Payment URI (`kaspa:<address>?amount=...`) with the merchant's label and message */
+  paymentUri?: string;
+  /** Path of the QR code image, relative to the server */
+  qrUrl: string;
   subscriptionToken: string;
   createdAt: string;
   expiresAt: string;
   paidAt?: string;
   confirmedAt?: string;
+  cancelledAt?: string;
+  cancellationReason?: string;
   explorerUrl: string;
 }
 
 export interface CreateSessionRequest {
-  amount: string;
+  amount?: string;
+  fiatAmount?: string;
+  currency?: string;
   orderId?: string;
   metadata?: Record<string, string>;
   redirectUrl?: string;
+  requiredConfirmations?: number;
 }
 
 export class ApiClient {
@@ -37,6 +51,13 @@ export class ApiClient {
     this.apiKey = apiKey;
   }
 
+  /**
+   * Absolute URL of a server path (e.g. a session's qrUrl)
+   */
+  resolveUrl(path: string): string {
+    return `${this.baseUrl}${path}`;
+  }
+
   private async request<T>(
     method: string,
     path: string,
@@ -73,10 +94,24 @@ export class ApiClient {
   async getSessionStatus(sessionId: string): Promise<{
     id: string;
     status: string;
+    amountReceivedSompi: string;
+    amountRemainingSompi: string;
     confirmations: number;
     requiredConfirmations: number;
     txId?: string;
   }> {
     return this.request('GET', `/api/v1/sessions/${sessionId}/status`);
   }
+
+  /**
+   * Cancel a pending session on the customer's behalf, authenticated by its subscription token
+   */
+  async cancelSession(sessionId: string, subscriptionToken: string, reason?: string): Promise<{
+    id: string;
+    status: string;
+    reason?: string;
+    message: string;
+  }> {
+    return this.request('POST', `/api/v1/sessions/${sessionId}/cancel`, { subscriptionToken, reason });
+  }
 }
@@ -17,6 +17,7 @@ export interface SessionInfo {
   id: string;
   status: string;
   confirmations: number;
+  requiredConfirmations: number;
   address: string;
   amount: string;
   expiresAt: string;